@@ -17,11 +17,21 @@ import UnifiedProductionHub from './components/common/UnifiedProductionHub';
 
 import { AdvancedImageEditor } from './components/modals/AdvancedImageEditor';
 import { ScreenplayModal } from './components/modals/ScreenplayModal';
+import { ShotListModal } from './components/modals/ShotListModal';
 import { AuthModal } from './components/modals/AuthModal';
 import { ProjectBrowserModal } from './components/modals/ProjectBrowserModal';
+import { RecoveryPointsModal } from './components/modals/RecoveryPointsModal';
+import { SnapshotsModal } from './components/modals/SnapshotsModal';
+import { GenerationQueueModal } from './components/modals/GenerationQueueModal';
+import { BudgetModal } from './components/modals/BudgetModal';
+import { AnimaticModal } from './components/modals/AnimaticModal';
+import { FrameExtractModal } from './components/modals/FrameExtractModal';
+import { CollabConflictModal } from './components/modals/CollabConflictModal';
+import { CollaboratorsBar } from './components/common/CollaboratorsBar';
 import { UserProfileModal } from './components/modals/UserProfileModal';
 import { ManualScriptModal } from './components/modals/ManualScriptModal';
 import { ExcelImportModal } from './components/modals/ExcelImportModal';
+import { ScreenplayImportModal } from './components/modals/ScreenplayImportModal';
 import { ActivationScreen } from './components/ActivationScreen';
 import { AssetLibrary } from './components/sections/AssetLibrary';
 import { GommoLibraryModal } from './components/modals/GommoLibraryModal';
@@ -36,6 +46,7 @@ import { syncDirectorBrain } from './utils/directorBrain';
 import { setAssignedImperialKey } from './utils/imperialUltraClient';
 import { APP_NAME, PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER } from './constants/presets';
 import { handleDownloadAll, saveProjectPackage } from './utils/zipUtils';
+import { snapScenesToBeats } from './utils/beatSync';
 import {
     ProjectState,
     ScriptPreset,
@@ -64,6 +75,7 @@ import { useProductLogic } from './hooks/useProductLogic';
 import { useSceneLogic } from './hooks/useSceneLogic';
 import { useDOPLogic } from './hooks/useDOPLogic';
 import { useVideoGeneration } from './hooks/useVideoGeneration';
+import { useVoiceover } from './hooks/useVoiceover';
 import { useLocationLogic } from './hooks/useLocationLogic'; // NEW
 
 import { useAuth } from './hooks/useAuth';
@@ -74,25 +86,32 @@ import { useProductionLogger } from './hooks/useProductionLogger';
 import { useGallery } from './hooks/useGallery';
 import { useEditorLogic } from './hooks/useEditorLogic';
 import { useStyleAnalysis } from './hooks/useStyleAnalysis';
+import { useSnapshots } from './hooks/useSnapshots';
+import { useCollaboration } from './hooks/useCollaboration';
 
 import { supabase } from './utils/supabaseClient';
+import { isLocalProjectRef } from './utils/syncQueue';
 
 
 const App: React.FC = () => {
     const { session, profile, isPro, isAdmin, subscriptionExpired, loading, signOut } = useAuth();
+    // Cloud project currently open (also the realtime collaboration room)
+    const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
     // Core State & History
     // --- Core State & History ---
     const {
         state,
         updateStateAndRecord,
+        updateState,
         undo,
         redo,
         handleSave,
         handleOpen,
         handleNewProject,
+        restoreRecoveryPoint,
         stateRef,
         history
-    } = useStateManager();
+    } = useStateManager(() => setCurrentProjectId(null)); // A different project is no longer the cloud one
 
     // --- Helper Logic ---
 
@@ -124,17 +143,24 @@ const App: React.FC = () => {
 
     const [charGenState, setCharGenState] = useState<{ isOpen: boolean; charId: string | null; initialPrompt?: string }>({ isOpen: false, charId: null, initialPrompt: '' });
     const [isScreenplayModalOpen, setScreenplayModalOpen] = useState(false);
+    const [isShotListModalOpen, setShotListModalOpen] = useState(false);
     const [draggedSceneIndex, setDraggedSceneIndex] = useState<number | null>(null);
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
 
     // Cloud Sync State
-    const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
     const [isProjectBrowserOpen, setProjectBrowserOpen] = useState(false);
+    const [isRecoveryOpen, setRecoveryOpen] = useState(false);
+    const [isSnapshotsOpen, setSnapshotsOpen] = useState(false);
+    const [isGenerationQueueOpen, setGenerationQueueOpen] = useState(false);
+    const [isBudgetOpen, setBudgetOpen] = useState(false);
+    const [isAnimaticOpen, setAnimaticOpen] = useState(false);
+    const [frameExtractSceneId, setFrameExtractSceneId] = useState<string | null>(null);
     const [isLibraryOpen, setLibraryOpen] = useState(false);
     const [isGommoLibraryOpen, setGommoLibraryOpen] = useState(false);
     const [isManualScriptModalOpen, setManualScriptModalOpen] = useState(false);
     const [isExcelImportModalOpen, setExcelImportModalOpen] = useState(false);
+    const [isScreenplayImportModalOpen, setScreenplayImportModalOpen] = useState(false);
     const [isLocationLibraryOpen, setLocationLibraryOpen] = useState(false); // NEW: Location Library modal
     const [cloudProjects, setCloudProjects] = useState<any[]>([]);
 
@@ -208,12 +234,18 @@ const App: React.FC = () => {
     } = useDOPLogic(state);
 
     const {
-        performImageGeneration,
+        performImageGeneration: runImageGeneration,
         isBatchGenerating,
         isStopping,
         stopBatchGeneration,
-        handleGenerateAllImages,
-        generateGroupConcept
+        handleGenerateAllImages: runGenerateAllImages,
+        generateGroupConcept,
+        generationQueue,
+        resumeGenerationQueue,
+        moveGenerationJob,
+        cancelGenerationJob,
+        retryGenerationJob,
+        clearFinishedGenerationJobs
     } = useImageGeneration(
         state,
         stateRef,
@@ -232,6 +264,45 @@ const App: React.FC = () => {
         makeRetryDecision
     );
 
+    // --- Realtime Collaboration (cloud projects only) ---
+    const collabUser = session?.user?.id
+        ? { id: session.user.id, name: profile?.display_name || profile?.full_name || session.user.email || 'Ẩn danh' }
+        : null;
+    const {
+        collaborators,
+        sceneLocks,
+        conflicts: collabConflicts,
+        resolveConflict
+    } = useCollaboration(state, updateState, isLocalProjectRef(currentProjectId) ? null : currentProjectId, collabUser);
+    const [isConflictModalOpen, setConflictModalOpen] = useState(false);
+
+    useEffect(() => {
+        if (collabConflicts.length > 0) setConflictModalOpen(true);
+    }, [collabConflicts.length]);
+
+    // Scenes a teammate is generating are locked - never start a second generation on them
+    const performImageGeneration = useCallback((...args: Parameters<typeof runImageGeneration>) => {
+        const sceneId = args[0];
+        if (sceneLocks[sceneId]) {
+            alert(`${sceneLocks[sceneId]} đang tạo ảnh cho cảnh này. Vui lòng đợi.`);
+            return Promise.resolve();
+        }
+        return runImageGeneration(...args);
+    }, [runImageGeneration, sceneLocks]);
+
+    const handleGenerateAllImages = useCallback((specificSceneIds?: string[], referenceMap?: { [key: string]: string }, baseImageMap?: { [key: string]: string }) => {
+        if (Object.keys(sceneLocks).length === 0) return runGenerateAllImages(specificSceneIds, referenceMap, baseImageMap);
+
+        const candidateIds = specificSceneIds
+            || stateRef.current.scenes.filter(s => !s.generatedImage && s.contextDescription).map(s => s.id);
+        const unlockedIds = candidateIds.filter(id => !sceneLocks[id]);
+        if (unlockedIds.length < candidateIds.length) {
+            console.log(`[Collab] Skipping ${candidateIds.length - unlockedIds.length} scene(s) locked by teammates`);
+        }
+        if (unlockedIds.length === 0) return Promise.resolve();
+        return runGenerateAllImages(unlockedIds, referenceMap, baseImageMap);
+    }, [runGenerateAllImages, sceneLocks, stateRef]);
+
     // --- Director Chat Hook ---
     const handleClearAllImages = useCallback(() => {
         updateStateAndRecord(s => ({
@@ -269,19 +340,42 @@ const App: React.FC = () => {
         generateVeoPrompt,
         handleGenerateAllVeoPrompts,
         handleGenerateAllVideos,
+        generateSceneVideo,
+        videoJobs,
+        videoModels,
+        cancelVideoJobs,
+        retryFailedVideos,
         suggestVeoPresets,
         applyPresetToAll,
         stopVeoGeneration,
     } = useVideoGeneration(state, updateStateAndRecord, userApiKey, setProfileModalOpen, setAgentState, addProductionLog);
 
+    const {
+        ttsVoices,
+        isVoiceBatchRunning,
+        generateSceneVoice,
+        generateAllVoices,
+        stopVoiceGeneration,
+        clearSceneVoice,
+        setNarratorVoice
+    } = useVoiceover(state, updateStateAndRecord, addProductionLog);
+
     const {
         loading: projectLoading,
         error: projectError,
         saveProjectToCloud,
         fetchProjects,
         loadProjectFromCloud,
-        deleteProjectFromCloud
-    } = useProjectSync(session?.user?.id || null);
+        deleteProjectFromCloud,
+        isOnline,
+        pendingOperations,
+        syncNow,
+        retryOperation,
+        discardOperation
+    } = useProjectSync(session?.user?.id || null, (localRef, cloudId) => {
+        // Project saved while offline has just been created in the cloud
+        setCurrentProjectId(prev => (prev === localRef ? cloudId : prev));
+    });
 
     // --- Extracted Hooks ---
     const {
@@ -305,6 +399,20 @@ const App: React.FC = () => {
     } = useStyleAnalysis(userApiKey, updateStateAndRecord, setProfileModalOpen);
 
 
+    const {
+        snapshots,
+        isLoadingSnapshots,
+        refreshSnapshots,
+        createSnapshot,
+        removeSnapshot,
+        comparedSnapshot,
+        openComparison,
+        closeComparison,
+        diff: snapshotDiff,
+        restoreScenesFromSnapshot,
+        restoreGroupFromSnapshot
+    } = useSnapshots(state, updateStateAndRecord);
+
     const {
         expandScene,
         isExpanding: isSequenceExpanding
@@ -490,8 +598,8 @@ const App: React.FC = () => {
                 id: generateId(),
                 sceneNumber: `${sourceIndex + 2 + i}`, // Will be renumbered
                 groupId: sourceScene.groupId,
-                language1: sourceScene.language1,
-                vietnamese: sourceScene.vietnamese,
+                scriptText: sourceScene.scriptText,
+                scriptTranslation: sourceScene.scriptTranslation,
                 promptName: `${sourceScene.promptName || 'Scene'} - ${angleConfig.name}`,
                 contextDescription: `${angleConfig.instruction}\n\nORIGINAL SCENE CONTEXT:\n${sourceScene.contextDescription}\n\n[CRITICAL: Use the attached REFERENCE IMAGE as the AUTHORITATIVE source for environment, character appearance, and styling. This is the SAME moment captured from a DIFFERENT camera position. The camera angle MUST change to ${angleConfig.name}.]`,
                 visualDescription: sourceScene.visualDescription,
@@ -761,12 +869,16 @@ const App: React.FC = () => {
     const handleCloudSave = async () => {
         if (!session) return;
         const nameToSave = state.projectName.trim() || 'Dự án chưa đặt tên';
-        const { data, error } = await saveProjectToCloud(state, currentProjectId || undefined, profile?.subscription_tier);
+        const { data, error, queued, projectRef } = await saveProjectToCloud(state, currentProjectId || undefined, profile?.subscription_tier);
 
         if (data) {
             setCurrentProjectId(data.id);
             setShowSuccessToast(`Đã lưu "${nameToSave}" thành công!`);
             setTimeout(() => setShowSuccessToast(null), 3000);
+        } else if (queued) {
+            setCurrentProjectId(projectRef);
+            setShowSuccessToast(`Đã lưu "${nameToSave}" vào hàng đợi - sẽ tự đồng bộ khi có mạng`);
+            setTimeout(() => setShowSuccessToast(null), 3000);
         } else {
             alert(`Lỗi khi lưu Cloud: ${error || 'Lỗi không xác định'}`);
         }
@@ -792,8 +904,8 @@ const App: React.FC = () => {
         }
     };
 
-    const handleDeleteProject = async (id: string) => {
-        const { success, error } = await deleteProjectFromCloud(id);
+    const handleDeleteProject = async (id: string, name?: string) => {
+        const { success, error } = await deleteProjectFromCloud(id, name);
         if (success) {
             setCloudProjects(prev => prev.filter(p => p.id !== id));
             if (currentProjectId === id) setCurrentProjectId(null);
@@ -831,7 +943,6 @@ const App: React.FC = () => {
                     bodyImage: c.bodyImage || null,
                     sideImage: c.sideImage || null,
                     backImage: c.backImage || null,
-                    props: c.props || [],
                     isDefault: false,
                     isAnalyzing: false
                 }))
@@ -910,6 +1021,8 @@ const App: React.FC = () => {
                             isSticky={headerSticky}
                             onSave={handleSave}
                             onOpen={handleOpen}
+                            onOpenRecovery={() => setRecoveryOpen(true)}
+                            onOpenSnapshots={() => setSnapshotsOpen(true)}
                             onNewProject={handleNewProject}
                             onDownloadAll={() => handleDownloadAll(state)}
                             canDownload={state.scenes.some(s => s.generatedImage) || state.characters.some(c => c.masterImage) || state.products.some(p => p.masterImage)}
@@ -945,6 +1058,9 @@ const App: React.FC = () => {
                                                 onUpdateCharacter={updateCharacter}
                                                 onSetEditingCharacterId={setEditingCharacterId}
                                                 onAddCharacter={addCharacter}
+                                                voices={ttsVoices}
+                                                narratorVoiceId={state.narratorVoiceId}
+                                                onNarratorVoiceChange={setNarratorVoice}
                                             />
 
                                             <WeaponProductPropsSection
@@ -993,6 +1109,7 @@ const App: React.FC = () => {
                                                 onTriggerFileUpload={triggerFileUpload}
                                                 onOpenManualScript={() => setManualScriptModalOpen(true)}
                                                 onOpenExcelImport={() => setExcelImportModalOpen(true)}
+                                                onOpenScreenplayImport={() => setScreenplayImportModalOpen(true)}
                                                 generationConfig={state.generationConfig || {
                                                     imageDelay: 500,
                                                     veoDelay: 200,
@@ -1017,11 +1134,20 @@ const App: React.FC = () => {
                                                     insertScene={insertScene}
                                                     moveScene={moveScene}
                                                     performImageGeneration={performImageGeneration}
+                                                    sceneLocks={sceneLocks}
                                                     handleOpenImageViewer={handleOpenImageViewer}
                                                     handleGenerateAllImages={handleGenerateAllImages}
                                                     isBatchGenerating={isBatchGenerating}
                                                     isStopping={isStopping}
                                                     stopBatchGeneration={stopBatchGeneration}
+                                                    generationQueue={generationQueue}
+                                                    onOpenGenerationQueue={() => setGenerationQueueOpen(true)}
+                                                    onResumeGenerationQueue={resumeGenerationQueue}
+                                                    creditsSpent={state.creditsSpent || 0}
+                                                    creditBudget={state.creditBudget}
+                                                    onOpenBudget={() => setBudgetOpen(true)}
+                                                    onOpenAnimatic={() => setAnimaticOpen(true)}
+                                                    onExtractVideoFrame={setFrameExtractSceneId}
                                                     handleGenerateAllVeoPrompts={handleGenerateAllVeoPrompts}
                                                     generateVeoPrompt={generateVeoPrompt}
                                                     suggestVeoPresets={suggestVeoPresets}
@@ -1033,6 +1159,19 @@ const App: React.FC = () => {
                                                     stopVeoGeneration={stopVeoGeneration}
                                                     handleGenerateAllVideos={handleGenerateAllVideos}
                                                     isVideoGenerating={isVideoGenerating}
+                                                    videoJobs={videoJobs}
+                                                    generateSceneVideo={generateSceneVideo}
+                                                    generateSceneVoice={generateSceneVoice}
+                                                    onClearSceneVoice={clearSceneVoice}
+                                                    onGenerateAllVoices={() => generateAllVoices()}
+                                                    isVoiceBatchRunning={isVoiceBatchRunning}
+                                                    onStopVoiceGeneration={stopVoiceGeneration}
+                                                    videoModels={videoModels}
+                                                    videoModel={state.videoModel}
+                                                    onVideoModelChange={(model) => updateStateAndRecord(s => ({ ...s, videoModel: model }))}
+                                                    aspectRatio={state.aspectRatio}
+                                                    onCancelVideoJobs={cancelVideoJobs}
+                                                    onRetryFailedVideos={retryFailedVideos}
                                                     addScene={addScene}
                                                     detailedScript={state.detailedScript || ''}
                                                     onDetailedScriptChange={(val) => updateStateAndRecord(s => ({ ...s, detailedScript: val }))}
@@ -1083,6 +1222,12 @@ const App: React.FC = () => {
                                                 >
                                                     📄 XUẤT KỊCH BẢN
                                                 </button>
+                                                <button
+                                                    onClick={() => setShotListModalOpen(true)}
+                                                    className="px-4 py-2 bg-purple-500/10 hover:bg-purple-500/20 text-purple-300 rounded-lg flex items-center gap-2 border border-purple-500/30 transition-all active:scale-95 text-xs font-bold"
+                                                >
+                                                    🎬 SHOT LIST / CALL SHEET
+                                                </button>
                                             </div>
                                         </div>
                                     </div>
@@ -1224,6 +1369,7 @@ const App: React.FC = () => {
                         onScriptModelChange={(e) => updateStateAndRecord(s => ({ ...s, scriptModel: e.target.value }))}
                         onSmartMapAssets={handleSmartMapAssets}
                         apiKey={userApiKey}
+                        musicTrack={state.musicTrack}
                     />
 
                     <ScreenplayModal
@@ -1232,6 +1378,12 @@ const App: React.FC = () => {
                         state={state}
                     />
 
+                    <ShotListModal
+                        isOpen={isShotListModalOpen}
+                        onClose={() => setShotListModalOpen(false)}
+                        state={state}
+                    />
+
                     <CharacterDetailModal
                         isOpen={!!editingCharacterId}
                         onClose={() => setEditingCharacterId(null)}
@@ -1265,7 +1417,7 @@ const App: React.FC = () => {
                         onSave={handleEditorSave}
                         apiKey={userApiKey}
                         initialHistory={editingImage?.history}
-                        character={editingImage?.type && ['master', 'face', 'body', 'side', 'back', 'prop'].includes(editingImage.type) ? state.characters.find(c => c.id === editingImage.id) : undefined}
+                        character={editingImage?.type && ['master', 'face', 'body', 'side', 'back'].includes(editingImage.type) ? state.characters.find(c => c.id === editingImage.id) : undefined}
                         product={editingImage?.type === 'product' ? state.products.find(p => p.id === editingImage.id) : undefined}
                         activeView={editingImage?.viewKey || editingImage?.type}
                     />
@@ -1288,7 +1440,7 @@ const App: React.FC = () => {
                         onMasterImageUpload={handleProductMasterImageUpload}
                         onDelete={deleteProduct}
                         onGenerateProduct={handleGenerateProductFromPrompt}
-                        onEdit={(id, img, view) => openEditor(id, img, 'product', undefined, view)}
+                        onEdit={(id, img, view) => openEditor(id, img, 'product', view)}
                     />
 
                     {!session && <AuthModal isOpen={true} />}
@@ -1323,12 +1475,102 @@ const App: React.FC = () => {
                         onLoad={handleLoadProject}
                         onDelete={handleDeleteProject}
                         loading={projectLoading}
+                        isOnline={isOnline}
+                        pendingOperations={pendingOperations}
+                        onSyncNow={syncNow}
+                        onRetryOperation={retryOperation}
+                        onDiscardOperation={discardOperation}
+                    />
+
+                    <RecoveryPointsModal
+                        isOpen={isRecoveryOpen}
+                        onClose={() => setRecoveryOpen(false)}
+                        onRestore={restoreRecoveryPoint}
+                    />
+
+                    <SnapshotsModal
+                        isOpen={isSnapshotsOpen}
+                        onClose={() => { setSnapshotsOpen(false); closeComparison(); }}
+                        snapshots={snapshots}
+                        isLoading={isLoadingSnapshots}
+                        onRefresh={refreshSnapshots}
+                        onCreate={createSnapshot}
+                        onDelete={removeSnapshot}
+                        comparedSnapshot={comparedSnapshot}
+                        onCompare={openComparison}
+                        onCloseComparison={closeComparison}
+                        diff={snapshotDiff}
+                        onRestoreScenes={restoreScenesFromSnapshot}
+                        onRestoreGroup={restoreGroupFromSnapshot}
+                    />
+
+                    <GenerationQueueModal
+                        isOpen={isGenerationQueueOpen}
+                        onClose={() => setGenerationQueueOpen(false)}
+                        queue={generationQueue}
+                        scenes={state.scenes}
+                        imageDelay={state.generationConfig?.imageDelay}
+                        isStopping={isStopping}
+                        onPause={stopBatchGeneration}
+                        onResume={resumeGenerationQueue}
+                        onMove={moveGenerationJob}
+                        onCancel={cancelGenerationJob}
+                        onRetry={retryGenerationJob}
+                        onClearFinished={clearFinishedGenerationJobs}
                     />
 
+                    <BudgetModal
+                        isOpen={isBudgetOpen}
+                        onClose={() => setBudgetOpen(false)}
+                        state={state}
+                        onBudgetChange={(budget) => updateStateAndRecord(s => ({ ...s, creditBudget: budget }))}
+                    />
+
+                    <AnimaticModal
+                        isOpen={isAnimaticOpen}
+                        onClose={() => setAnimaticOpen(false)}
+                        scenes={state.scenes}
+                        characters={state.characters}
+                        scriptLanguage={state.scriptLanguage}
+                        aspectRatio={state.aspectRatio}
+                        projectName={state.projectName}
+                        onRetime={(sceneId, seconds) => updateScene(sceneId, { animaticDuration: seconds })}
+                        musicTrack={state.musicTrack}
+                        onMusicTrackChange={(track) => updateStateAndRecord(s => ({ ...s, musicTrack: track }))}
+                        onSnapToBeats={() => updateStateAndRecord(s => {
+                            if (!s.musicTrack) return s;
+                            const durations = snapScenesToBeats(s.scenes, s.sceneGroups || [], s.musicTrack);
+                            return { ...s, scenes: s.scenes.map(sc => durations[sc.id] ? { ...sc, animaticDuration: durations[sc.id] } : sc) };
+                        })}
+                    />
+
+                    <FrameExtractModal
+                        isOpen={!!frameExtractSceneId}
+                        onClose={() => setFrameExtractSceneId(null)}
+                        sceneId={frameExtractSceneId}
+                        scenes={state.scenes}
+                        onApply={updateScene}
+                    />
+
+                    <CollabConflictModal
+                        isOpen={isConflictModalOpen}
+                        onClose={() => setConflictModalOpen(false)}
+                        conflicts={collabConflicts}
+                        onResolve={resolveConflict}
+                    />
+
+                    {session && (
+                        <CollaboratorsBar
+                            collaborators={collaborators}
+                            conflictCount={collabConflicts.length}
+                            onOpenConflicts={() => setConflictModalOpen(true)}
+                        />
+                    )}
+
                     <ManualScriptModal
                         isOpen={isManualScriptModalOpen}
                         onClose={() => setManualScriptModalOpen(false)}
-                        onImport={(scenes, groups, newChars, styleId, directorId, sceneCharacterMap, researchNotes, detectedLocations) => {
+                        onImport={(scenes, groups, newChars, styleId, directorId, sceneCharacterMap, researchNotes, detectedLocations, mergeIntoExisting) => {
                             // 1. Initialize mapping for name check (lowercase) -> Character ID
                             const charNameMap = new Map<string, string>();
 
@@ -1352,13 +1594,14 @@ const App: React.FC = () => {
                                     bodyImage: null,
                                     sideImage: null,
                                     backImage: null,
-                                    props: [],
                                     isDefault: false
                                 };
                             });
 
                             // 3. Resolve scene character IDs
                             const updatedScenes = scenes.map((scene, index) => {
+                                // Merged scenes kept from the project already have their characters
+                                if (mergeIntoExisting && !(index in sceneCharacterMap)) return scene;
                                 const charNamesFromMap = sceneCharacterMap[index] || [];
                                 const resolvedIds = charNamesFromMap
                                     .map(name => charNameMap.get(name.toLowerCase()))
@@ -1373,8 +1616,9 @@ const App: React.FC = () => {
                                 id: g.id || generateId()
                             }));
 
-                            // Link scenes to groups
+                            // Link scenes to groups (a merge keeps the groups the scenes already have)
                             updatedScenes.forEach((scene, idx) => {
+                                if (mergeIntoExisting) return;
                                 const originalGroupForThisScene = groups[Math.floor(idx / Math.max(1, scenes.length / groups.length))];
                                 if (originalGroupForThisScene) {
                                     const matchingGroup = updatedGroups.find(ug => ug.id === originalGroupForThisScene.id);
@@ -1416,6 +1660,23 @@ const App: React.FC = () => {
                                 return g;
                             });
 
+                            // 7a. Re-analysis merge: scenes is the whole updated list; add only what's missing
+                            if (mergeIntoExisting) {
+                                updateStateAndRecord(s => {
+                                    const groupIds = new Set((s.sceneGroups || []).map(g => g.id));
+                                    const locationNames = new Set((s.locations || []).map(l => l.name.toLowerCase()));
+                                    return {
+                                        ...s,
+                                        sceneGroups: [...(s.sceneGroups || []), ...finalGroups.filter(g => !groupIds.has(g.id))],
+                                        scenes: updatedScenes,
+                                        locations: [...(s.locations || []), ...newlyDetectedLocations.filter(l => !locationNames.has(l.name.toLowerCase()))],
+                                        characters: [...s.characters, ...createdCharacters],
+                                        researchNotes: researchNotes || s.researchNotes
+                                    };
+                                });
+                                return;
+                            }
+
                             // 7. Update State in one go
                             updateStateAndRecord(s => ({
                                 ...s,
@@ -1429,6 +1690,7 @@ const App: React.FC = () => {
                             }));
                         }}
                         existingCharacters={state.characters}
+                        existingScenes={state.scenes}
                         userApiKey={userApiKey}
                         userId={session?.user?.id || null}
                         initialState={state.manualScriptState}
@@ -1449,6 +1711,22 @@ const App: React.FC = () => {
                             }));
                         }}
                     />
+                    <ScreenplayImportModal
+                        isOpen={isScreenplayImportModalOpen}
+                        onClose={() => setScreenplayImportModalOpen(false)}
+                        characters={state.characters}
+                        locations={state.locations || []}
+                        sceneCount={state.scenes.length}
+                        onImport={(result) => {
+                            updateStateAndRecord(s => ({
+                                ...s,
+                                sceneGroups: [...(s.sceneGroups || []), ...result.groups],
+                                scenes: [...s.scenes, ...result.scenes],
+                                characters: [...s.characters, ...result.characters],
+                                locations: [...(s.locations || []), ...result.locations]
+                            }));
+                        }}
+                    />
                     <input
                         id="script-upload-input"
                         type="file"
@@ -0,0 +1,96 @@
+import React, { useEffect, useRef } from 'react';
+import { ImageOff } from 'lucide-react';
+import {
+    AnimaticTimeline, AnimaticLayer, getAnimaticFrame, getKenBurnsMove, interpolateKenBurns, kenBurnsTransform
+} from '../../utils/animatic';
+
+interface AnimaticPlayerProps {
+    timeline: AnimaticTimeline;
+    time: number;
+    isPlaying: boolean;
+    aspectRatio: string; // "16:9"
+}
+
+// Keeps a Veo clip in sync with the timeline clock; only corrects drift so playback stays smooth
+const VideoLayer: React.FC<{ src: string; localTime: number; isPlaying: boolean }> = ({ src, localTime, isPlaying }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        const target = Math.max(0, localTime);
+        if (Math.abs(video.currentTime - target) > 0.3) {
+            video.currentTime = target;
+        }
+        if (isPlaying && localTime >= 0) {
+            if (video.paused) video.play().catch(() => { /* autoplay blocked - stays on the current frame */ });
+        } else if (!video.paused) {
+            video.pause();
+        }
+    }, [localTime, isPlaying]);
+
+    return <video ref={videoRef} src={src} className="w-full h-full object-cover" playsInline preload="auto" />;
+};
+
+const Layer: React.FC<{ layer: AnimaticLayer; isPlaying: boolean }> = ({ layer, isPlaying }) => {
+    const { clip, localTime, opacity, clipPath } = layer;
+    const style: React.CSSProperties = { opacity, clipPath };
+
+    let content: React.ReactNode;
+    if (clip.media.type === 'video' && clip.media.src) {
+        content = <VideoLayer src={clip.media.src} localTime={localTime} isPlaying={isPlaying} />;
+    } else if (clip.media.type === 'image' && clip.media.src) {
+        const progress = Math.max(0, localTime) / clip.duration;
+        const kenBurns = interpolateKenBurns(getKenBurnsMove(clip.cameraMotion), progress);
+        content = (
+            <img
+                src={clip.media.src}
+                alt={`Scene ${clip.sceneNumber}`}
+                className="w-full h-full object-cover will-change-transform"
+                style={{ transform: kenBurnsTransform(kenBurns) }}
+                draggable={false}
+            />
+        );
+    } else {
+        content = (
+            <div className="w-full h-full flex flex-col items-center justify-center gap-2 bg-gray-900 text-gray-600">
+                <ImageOff size={32} />
+                <span className="text-xs font-bold uppercase tracking-widest">Cảnh {clip.sceneNumber} - chưa có ảnh</span>
+            </div>
+        );
+    }
+
+    return (
+        <div className="absolute inset-0 overflow-hidden" style={style}>
+            {content}
+        </div>
+    );
+};
+
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ timeline, time, isPlaying, aspectRatio }) => {
+    const frame = getAnimaticFrame(timeline, time);
+    const [w, h] = aspectRatio.split(':').map(Number);
+    const current = frame.layers[0]?.clip;
+
+    return (
+        <div
+            className="relative w-full max-h-[55vh] mx-auto bg-black rounded-xl overflow-hidden"
+            style={{ aspectRatio: w && h ? `${w} / ${h}` : '16 / 9', maxWidth: w && h ? `calc(55vh * ${w / h})` : undefined }}
+        >
+            {frame.layers.map(layer => (
+                <Layer key={layer.clip.sceneId} layer={layer} isPlaying={isPlaying} />
+            ))}
+            {frame.overlay && (
+                <div
+                    className="absolute inset-0 pointer-events-none"
+                    style={{ backgroundColor: frame.overlay.color, opacity: frame.overlay.opacity }}
+                />
+            )}
+            {current && (
+                <div className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-[10px] font-bold text-white/80 font-mono">
+                    #{current.sceneNumber}
+                </div>
+            )}
+        </div>
+    );
+};
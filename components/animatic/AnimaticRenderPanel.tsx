@@ -0,0 +1,158 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Clapperboard, Download, Music, X, Loader2, AlertTriangle } from 'lucide-react';
+import { Scene, MusicTrack } from '../../types';
+import { startAnimaticRender, getAnimaticRenderJob, AnimaticRenderJob, AnimaticRenderOptions } from '../../utils/animaticRender';
+import { getCurrentVoiceAudio } from '../../utils/voiceover';
+import { resolveMusicAudio } from '../../utils/beatSync';
+
+interface AnimaticRenderPanelProps {
+    scenes: Scene[];
+    aspectRatio: string;
+    projectName?: string;
+    musicTrack?: MusicTrack; // Laid under the cut unless another audio file is picked
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+export const AnimaticRenderPanel: React.FC<AnimaticRenderPanelProps> = ({ scenes, aspectRatio, projectName, musicTrack }) => {
+    const [options, setOptions] = useState<AnimaticRenderOptions>({ burnSceneNumbers: true, burnCaptions: false, includeSceneVoice: true });
+    const [audio, setAudio] = useState<{ name: string; dataUrl: string } | null>(null);
+    const [jobId, setJobId] = useState<string | null>(null);
+    const [job, setJob] = useState<AnimaticRenderJob | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    // Poll the running job
+    useEffect(() => {
+        if (!jobId) return;
+        let cancelled = false;
+        const poll = async () => {
+            try {
+                const next = await getAnimaticRenderJob(jobId);
+                if (cancelled) return;
+                setJob(next);
+                if (next.status === 'done' || next.status === 'failed') return;
+            } catch (e: any) {
+                if (cancelled) return;
+                setJob(j => ({ ...(j as AnimaticRenderJob), status: 'failed', error: e.message }));
+                return;
+            }
+            timer = setTimeout(poll, POLL_INTERVAL_MS);
+        };
+        let timer = setTimeout(poll, POLL_INTERVAL_MS);
+        return () => { cancelled = true; clearTimeout(timer); };
+    }, [jobId]);
+
+    const handleAudioPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => setAudio({ name: file.name, dataUrl: reader.result as string });
+        reader.readAsDataURL(file);
+        e.target.value = '';
+    };
+
+    const handleRender = async () => {
+        setIsStarting(true);
+        setJob(null);
+        try {
+            const id = await startAnimaticRender(scenes, aspectRatio, options, audio?.dataUrl || await resolveMusicAudio(musicTrack), projectName);
+            setJob({ status: 'queued', progress: 0, stage: 'Đang chuẩn bị', error: null, downloadUrl: null });
+            setJobId(id);
+        } catch (e: any) {
+            console.error('[Animatic] Render failed to start:', e);
+            alert(`❌ Không thể bắt đầu render: ${e.message}`);
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const isRendering = isStarting || job?.status === 'queued' || job?.status === 'running';
+
+    return (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-3">
+            <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={options.burnSceneNumbers}
+                        onChange={e => setOptions(o => ({ ...o, burnSceneNumbers: e.target.checked }))}
+                        className="accent-brand-orange"
+                    />
+                    Số cảnh
+                </label>
+                <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={options.burnCaptions}
+                        onChange={e => setOptions(o => ({ ...o, burnCaptions: e.target.checked }))}
+                        className="accent-brand-orange"
+                    />
+                    Phụ đề (VO)
+                </label>
+                {scenes.some(s => getCurrentVoiceAudio(s)) && (
+                    <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={options.includeSceneVoice}
+                            onChange={e => setOptions(o => ({ ...o, includeSceneVoice: e.target.checked }))}
+                            className="accent-brand-orange"
+                        />
+                        Giọng đọc cảnh (TTS)
+                    </label>
+                )}
+
+                <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handleAudioPick} />
+                {audio ? (
+                    <span className="flex items-center gap-1.5 text-xs text-gray-300">
+                        <Music size={14} className="text-brand-orange" />
+                        <span className="truncate max-w-[160px]">{audio.name}</span>
+                        <button onClick={() => setAudio(null)} className="text-gray-500 hover:text-red-400" title="Bỏ audio"><X size={12} /></button>
+                    </span>
+                ) : (
+                    <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white">
+                        <Music size={14} /> {musicTrack ? `Nhạc: ${musicTrack.name}` : 'Thêm audio VO'}
+                    </button>
+                )}
+
+                <button
+                    onClick={handleRender}
+                    disabled={isRendering}
+                    className="ml-auto h-9 px-4 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-purple-600 hover:bg-purple-700 disabled:opacity-50 transition-all uppercase tracking-widest"
+                >
+                    {isRendering ? <Loader2 size={14} className="animate-spin" /> : <Clapperboard size={14} />}
+                    Render MP4
+                </button>
+            </div>
+
+            {job && (
+                <div className="space-y-1.5">
+                    <div className="flex justify-between text-[11px] text-gray-400">
+                        <span>{job.status === 'failed' ? 'Render thất bại' : job.stage}</span>
+                        <span className="font-mono">{Math.round(job.progress * 100)}%</span>
+                    </div>
+                    <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full transition-all ${job.status === 'failed' ? 'bg-red-500' : job.status === 'done' ? 'bg-green-500' : 'bg-purple-500'}`}
+                            style={{ width: `${job.progress * 100}%` }}
+                        />
+                    </div>
+                    {job.status === 'failed' && job.error && (
+                        <div className="flex items-start gap-1.5 text-[11px] text-red-400">
+                            <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                            <span className="break-words">{job.error}</span>
+                        </div>
+                    )}
+                    {job.status === 'done' && job.downloadUrl && (
+                        <a
+                            href={job.downloadUrl}
+                            className="inline-flex items-center gap-2 h-8 px-3 text-[10px] font-bold text-white rounded-lg bg-green-600 hover:bg-green-700 uppercase tracking-widest"
+                        >
+                            <Download size={14} /> Tải MP4
+                        </a>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,138 @@
+import React, { useRef } from 'react';
+import { AnimaticTimeline as Timeline, clampSceneDuration, formatTimecode } from '../../utils/animatic';
+import { TRANSITION_TYPES } from '../../constants/presets';
+import { MusicTrack } from '../../types';
+import { snapTimeToBeat, isDownbeat } from '../../utils/beatSync';
+
+interface AnimaticTimelineProps {
+    timeline: Timeline;
+    time: number;
+    pxPerSecond: number;
+    onSeek: (time: number) => void;
+    onRetimeDraft: (sceneId: string, seconds: number | null) => void; // live preview while dragging, null = drag ended
+    onRetimeCommit: (sceneId: string, seconds: number | undefined) => void; // undefined = back to VO estimate
+    musicTrack?: MusicTrack; // Beat grid: shown on the ruler, dragged cuts snap to it
+}
+
+const transitionLabel = (type: string) => TRANSITION_TYPES.find(t => t.value === type)?.label || 'Cut';
+
+export const AnimaticTimeline: React.FC<AnimaticTimelineProps> = ({
+    timeline,
+    time,
+    pxPerSecond,
+    onSeek,
+    onRetimeDraft,
+    onRetimeCommit,
+    musicTrack
+}) => {
+    const trackRef = useRef<HTMLDivElement>(null);
+
+    const seekFromEvent = (e: React.MouseEvent) => {
+        const rect = trackRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const x = e.clientX - rect.left + (trackRef.current?.scrollLeft || 0);
+        onSeek(Math.min(timeline.totalDuration, Math.max(0, x / pxPerSecond)));
+    };
+
+    // Drag the right edge of a clip to change its duration
+    const startRetime = (e: React.MouseEvent, sceneId: string, start: number, duration: number) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const startX = e.clientX;
+        let latest = duration;
+
+        const handleMove = (ev: MouseEvent) => {
+            const end = start + duration + (ev.clientX - startX) / pxPerSecond;
+            latest = clampSceneDuration((musicTrack ? snapTimeToBeat(musicTrack, end) : end) - start);
+            onRetimeDraft(sceneId, latest);
+        };
+        const handleUp = () => {
+            window.removeEventListener('mousemove', handleMove);
+            window.removeEventListener('mouseup', handleUp);
+            onRetimeDraft(sceneId, null);
+            if (latest !== duration) onRetimeCommit(sceneId, latest);
+        };
+        window.addEventListener('mousemove', handleMove);
+        window.addEventListener('mouseup', handleUp);
+    };
+
+    const rulerMarks = Array.from({ length: Math.floor(timeline.totalDuration) + 1 }, (_, i) => i)
+        .filter(s => pxPerSecond >= 30 || s % 5 === 0);
+
+    // Bar lines always, single beats only when zoomed in enough to tell them apart
+    const beatMarks = (musicTrack?.beats || [])
+        .map((t, index) => ({ t, index, downbeat: isDownbeat(musicTrack!, index) }))
+        .filter(b => b.t <= timeline.totalDuration && (b.downbeat || pxPerSecond >= 40));
+
+    return (
+        <div ref={trackRef} className="relative overflow-x-auto pb-2 select-none">
+            <div className="relative" style={{ width: Math.max(timeline.totalDuration * pxPerSecond, 1) + 40 }}>
+                {/* Ruler */}
+                <div className="relative h-5 cursor-pointer" onMouseDown={seekFromEvent}>
+                    {rulerMarks.map(s => (
+                        <div key={s} className="absolute top-0 h-full border-l border-gray-700" style={{ left: s * pxPerSecond }}>
+                            <span className="ml-1 text-[9px] text-gray-500 font-mono">{s}s</span>
+                        </div>
+                    ))}
+                    {beatMarks.map(b => (
+                        <div
+                            key={`beat-${b.index}`}
+                            className={`absolute bottom-0 border-l pointer-events-none ${b.downbeat ? 'h-3 border-purple-400' : 'h-1.5 border-purple-400/40'}`}
+                            style={{ left: b.t * pxPerSecond }}
+                        />
+                    ))}
+                </div>
+
+                {/* Clips */}
+                <div className="relative h-20 mt-1" onMouseDown={seekFromEvent}>
+                    {timeline.clips.map((clip, index) => {
+                        const isLast = index === timeline.clips.length - 1;
+                        return (
+                            <div
+                                key={clip.sceneId}
+                                className="absolute top-0 h-full group"
+                                style={{ left: clip.start * pxPerSecond, width: clip.duration * pxPerSecond }}
+                            >
+                                <div
+                                    className={`h-full mr-px rounded-md overflow-hidden border ${clip.isRetimed ? 'border-brand-orange/60' : 'border-gray-700'} bg-gray-800 bg-cover bg-center`}
+                                    style={clip.media.type === 'image' && clip.media.src ? { backgroundImage: `url(${clip.media.src})` } : undefined}
+                                >
+                                    <div className="h-full w-full bg-gradient-to-t from-black/80 via-black/20 to-transparent p-1.5 flex flex-col justify-between">
+                                        <span className="text-[10px] font-bold text-white">
+                                            #{clip.sceneNumber}{clip.media.type === 'video' && ' 🎬'}
+                                        </span>
+                                        <span className="text-[9px] font-mono text-gray-300">{clip.duration.toFixed(1)}s</span>
+                                    </div>
+                                </div>
+
+                                {/* Transition into the next clip */}
+                                {!isLast && (
+                                    <div
+                                        className={`absolute -right-2 top-1/2 -translate-y-1/2 z-10 px-1 py-0.5 rounded text-[8px] font-bold uppercase pointer-events-none ${clip.transition.kind === 'cut' ? 'bg-gray-900 text-gray-500' : 'bg-purple-600/80 text-white'}`}
+                                        title={transitionLabel(clip.transition.type)}
+                                    >
+                                        {clip.transition.kind === 'cut' ? '|' : transitionLabel(clip.transition.type)}
+                                    </div>
+                                )}
+
+                                {/* Retime handle */}
+                                <div
+                                    className="absolute top-0 right-0 h-full w-2 cursor-ew-resize bg-brand-orange/0 group-hover:bg-brand-orange/60 rounded-r-md z-20"
+                                    onMouseDown={e => startRetime(e, clip.sceneId, clip.start, clip.duration)}
+                                    onDoubleClick={e => { e.stopPropagation(); onRetimeCommit(clip.sceneId, undefined); }}
+                                    title="Kéo để đổi thời lượng · Double-click để về thời lượng VO"
+                                />
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* Playhead */}
+                <div className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none z-30" style={{ left: time * pxPerSecond }}>
+                    <div className="absolute -top-0.5 -left-1 w-2 h-2 bg-red-500 rounded-full" />
+                </div>
+            </div>
+            <div className="mt-1 text-[10px] text-gray-500 font-mono">{formatTimecode(time)} / {formatTimecode(timeline.totalDuration)}</div>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React, { useRef, useState } from 'react';
+import { Music, Upload, X, Loader2, AudioWaveform } from 'lucide-react';
+import { MusicTrack } from '../../types';
+import { analyzeMusicTrack, getBarCount, getSecondsPerBar } from '../../utils/beatSync';
+
+interface MusicSyncPanelProps {
+    musicTrack?: MusicTrack;
+    onMusicTrackChange: (track: MusicTrack | undefined) => void;
+    onSnapToBeats: () => void;
+}
+
+export const MusicSyncPanel: React.FC<MusicSyncPanelProps> = ({ musicTrack, onMusicTrackChange, onSnapToBeats }) => {
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handlePick = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setIsAnalyzing(true);
+        try {
+            const track = await analyzeMusicTrack(file);
+            console.log(`[BeatSync] ${track.name}: ${track.bpm} BPM, ${track.beats.length} beats`);
+            onMusicTrackChange(track);
+        } catch (err: any) {
+            console.error('[BeatSync] Analysis failed:', err);
+            alert(`❌ Không phân tích được nhịp: ${err.message}\nKiểm tra server local (ffmpeg) đang chạy.`);
+        } finally {
+            setIsAnalyzing(false);
+        }
+    };
+
+    return (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-xl flex flex-wrap items-center gap-4">
+            <span className="flex items-center gap-2 text-xs font-bold text-gray-300">
+                <Music size={14} className="text-brand-orange" /> Nhạc
+            </span>
+            <input ref={fileInputRef} type="file" accept="audio/*" className="hidden" onChange={handlePick} />
+
+            {musicTrack ? (
+                <>
+                    <span className="flex items-center gap-1.5 text-xs text-gray-300">
+                        <span className="truncate max-w-[200px]">{musicTrack.name}</span>
+                        <button
+                            onClick={() => confirm('Bỏ bài nhạc khỏi dự án?') && onMusicTrackChange(undefined)}
+                            className="text-gray-500 hover:text-red-400"
+                            title="Bỏ nhạc"
+                        >
+                            <X size={12} />
+                        </button>
+                    </span>
+                    <span className="text-[10px] text-gray-500 font-mono">
+                        {musicTrack.bpm} BPM · {getBarCount(musicTrack)} ô nhịp · {getSecondsPerBar(musicTrack).toFixed(2)}s/ô
+                    </span>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isAnalyzing}
+                        className="text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                    >
+                        {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : 'Đổi bài'}
+                    </button>
+                    <button
+                        onClick={onSnapToBeats}
+                        className="ml-auto h-9 px-4 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-purple-600 hover:bg-purple-700 transition-all uppercase tracking-widest"
+                        title="Đặt thời lượng mỗi cảnh để điểm cắt rơi đúng nhịp (nhóm có số ô nhịp sẽ khớp đúng ô nhịp)"
+                    >
+                        <AudioWaveform size={14} /> Khớp nhịp
+                    </button>
+                </>
+            ) : (
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isAnalyzing}
+                    className="flex items-center gap-1.5 text-xs text-gray-400 hover:text-white disabled:opacity-50"
+                >
+                    {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Upload size={14} />}
+                    {isAnalyzing ? 'Đang dò nhịp...' : 'Tải bài nhạc để cắt theo nhịp'}
+                </button>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,56 @@
+import React, { useMemo, useState } from 'react';
+import { Captions, Download } from 'lucide-react';
+import { Scene, Character } from '../../types';
+import { SubtitleFormat, buildSubtitleCues, downloadSubtitles } from '../../utils/subtitles';
+
+interface SubtitleExportPanelProps {
+    scenes: Scene[];
+    characters: Character[];
+    scriptLanguage?: string;
+    projectName?: string;
+}
+
+export const SubtitleExportPanel: React.FC<SubtitleExportPanelProps> = ({ scenes, characters, scriptLanguage, projectName }) => {
+    const [format, setFormat] = useState<SubtitleFormat>('srt');
+    const [speakerLabels, setSpeakerLabels] = useState(true);
+
+    const cueCount = useMemo(
+        () => buildSubtitleCues(scenes, characters, { format, speakerLabels, language: scriptLanguage }).length,
+        [scenes, characters, format, speakerLabels, scriptLanguage]
+    );
+
+    return (
+        <div className="p-3 bg-white/5 border border-white/10 rounded-xl flex flex-wrap items-center gap-4">
+            <span className="flex items-center gap-2 text-xs font-bold text-gray-300">
+                <Captions size={14} className="text-brand-orange" /> Phụ đề
+            </span>
+            <select
+                value={format}
+                onChange={e => setFormat(e.target.value as SubtitleFormat)}
+                className="bg-gray-800 text-xs text-white px-2 py-1.5 rounded-lg border border-gray-700 focus:outline-none"
+            >
+                <option value="srt">SRT</option>
+                <option value="vtt">WebVTT</option>
+            </select>
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={speakerLabels}
+                    onChange={e => setSpeakerLabels(e.target.checked)}
+                    className="accent-brand-orange"
+                />
+                Tên nhân vật
+            </label>
+            <span className="text-[10px] text-gray-500">{cueCount} dòng phụ đề</span>
+
+            <button
+                onClick={() => downloadSubtitles(scenes, characters, { format, speakerLabels, language: scriptLanguage }, projectName)}
+                disabled={cueCount === 0}
+                className="ml-auto h-9 px-4 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-all uppercase tracking-widest"
+                title={cueCount === 0 ? 'Chưa có lời thoại / VO để xuất phụ đề' : undefined}
+            >
+                <Download size={14} /> Tải .{format}
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,6 @@
+// Animatic Components
+export { AnimaticPlayer } from './AnimaticPlayer';
+export { AnimaticTimeline } from './AnimaticTimeline';
+export { AnimaticRenderPanel } from './AnimaticRenderPanel';
+export { SubtitleExportPanel } from './SubtitleExportPanel';
+export { MusicSyncPanel } from './MusicSyncPanel';
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Trash2 } from 'lucide-react';
 import { Character } from '../../types';
+import type { TtsVoice } from '../../utils/voiceover';
 
 export interface CharacterCardProps {
     character: Character;
@@ -9,9 +10,10 @@ export interface CharacterCardProps {
     onDelete: () => void;
     onValuesChange: (id: string, updates: Partial<Character>) => void;
     onEdit: () => void;
+    voices?: TtsVoice[]; // TTS voices for this character's dialogue
 }
 
-export const CharacterCard: React.FC<CharacterCardProps> = ({ character, index, setDefault, onDelete, onValuesChange, onEdit }) => {
+export const CharacterCard: React.FC<CharacterCardProps> = ({ character, index, setDefault, onDelete, onValuesChange, onEdit, voices }) => {
     return (
         <div
             onClick={onEdit}
@@ -48,6 +50,20 @@ export const CharacterCard: React.FC<CharacterCardProps> = ({ character, index,
                     className="bg-transparent font-bold text-brand-cream focus:outline-none focus:border-b border-brand-orange w-full truncate placeholder-gray-600"
                 />
                 <p className="text-xs text-gray-400 truncate mt-0.5">{character.description || "No description"}</p>
+                {voices && voices.length > 0 && (
+                    <select
+                        onClick={(e) => e.stopPropagation()}
+                        value={character.voiceId || ''}
+                        onChange={(e) => onValuesChange(character.id, { voiceId: e.target.value || undefined })}
+                        className="mt-1 w-full bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-gray-300 outline-none focus:border-brand-orange"
+                        title="Giọng đọc thoại (TTS)"
+                    >
+                        <option value="">🎙️ Giọng người dẫn chuyện</option>
+                        {voices.map(v => (
+                            <option key={v.value} value={v.value}>🎙️ {v.label}</option>
+                        ))}
+                    </select>
+                )}
             </div>
 
             {/* Action Buttons */}
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Users, Lock } from 'lucide-react';
+import { CollaboratorPresence } from '../../utils/collaboration';
+
+export interface CollaboratorsBarProps {
+    collaborators: CollaboratorPresence[];
+    conflictCount: number;
+    onOpenConflicts: () => void;
+}
+
+export const CollaboratorsBar: React.FC<CollaboratorsBarProps> = ({ collaborators, conflictCount, onOpenConflicts }) => {
+    if (collaborators.length === 0 && conflictCount === 0) return null;
+
+    const lockCount = collaborators.reduce((sum, c) => sum + c.generatingSceneIds.length, 0);
+
+    return (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 px-4 py-2 rounded-full bg-gray-900/90 border border-gray-700 shadow-xl backdrop-blur">
+            <Users size={14} className="text-brand-cream/60" />
+            <div className="flex -space-x-2">
+                {collaborators.map(c => (
+                    <div
+                        key={c.userId}
+                        title={c.generatingSceneIds.length > 0 ? `${c.name} • đang tạo ${c.generatingSceneIds.length} cảnh` : c.name}
+                        className="w-7 h-7 rounded-full border-2 border-gray-900 flex items-center justify-center text-[11px] font-bold text-white"
+                        style={{ backgroundColor: c.color }}
+                    >
+                        {c.name.charAt(0).toUpperCase()}
+                    </div>
+                ))}
+            </div>
+            <span className="text-xs text-brand-cream/70">
+                {collaborators.length} người đang cùng chỉnh sửa
+            </span>
+            {lockCount > 0 && (
+                <span className="flex items-center gap-1 text-xs text-amber-400">
+                    <Lock size={12} /> {lockCount} cảnh bị khóa
+                </span>
+            )}
+            {conflictCount > 0 && (
+                <button
+                    onClick={onOpenConflicts}
+                    className="text-xs font-bold px-2 py-1 rounded-full bg-red-600 hover:bg-red-500 text-white transition-colors"
+                >
+                    {conflictCount} xung đột
+                </button>
+            )}
+        </div>
+    );
+};
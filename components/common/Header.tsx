@@ -1,5 +1,5 @@
 import React from 'react';
-import { Undo2, Redo2, Shield } from 'lucide-react';
+import { Undo2, Redo2, Shield, History, Bookmark } from 'lucide-react';
 import { APP_NAME, PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER } from '../../constants/presets';
 
 export interface HeaderProps {
@@ -8,6 +8,8 @@ export interface HeaderProps {
     onSave: () => void;
     onSavePackage?: () => void;
     onOpen: () => void;
+    onOpenRecovery?: () => void;
+    onOpenSnapshots?: () => void;
     onNewProject: () => void;
     onDownloadAll: () => void;
     canDownload: boolean;
@@ -26,7 +28,7 @@ export interface HeaderProps {
 }
 
 export const Header: React.FC<HeaderProps> = ({
-    isSticky, onProfileClick, onSave, onSavePackage, onOpen, onNewProject,
+    isSticky, onProfileClick, onSave, onSavePackage, onOpen, onOpenRecovery, onOpenSnapshots, onNewProject,
     onDownloadAll, canDownload, isContinuityMode,
     toggleContinuityMode,
     onUndo, onRedo, canUndo, canRedo,
@@ -78,6 +80,16 @@ export const Header: React.FC<HeaderProps> = ({
                     )}
                     {/* <button onClick={onSave} className="px-3 py-2 text-xs md:text-sm font-semibold text-white bg-white/10 rounded-lg hover:bg-white/20 transition-colors">Lưu JSON (Cũ)</button> */}
                     <button onClick={onOpen} className="px-3 py-2 text-xs md:text-sm font-semibold text-white bg-white/10 rounded-lg hover:bg-white/20 transition-colors">Mở</button>
+                    {onOpenSnapshots && (
+                        <button onClick={onOpenSnapshots} className="p-2 text-white bg-white/10 rounded-lg hover:bg-white/20 transition-colors" title="Snapshots & so sánh phiên bản">
+                            <Bookmark size={18} />
+                        </button>
+                    )}
+                    {onOpenRecovery && (
+                        <button onClick={onOpenRecovery} className="p-2 text-white bg-white/10 rounded-lg hover:bg-white/20 transition-colors" title="Bản lưu tự động">
+                            <History size={18} />
+                        </button>
+                    )}
 
                     {isLoggedIn && (
                         <div className="flex items-center space-x-2 border-l border-gray-700 pl-4 ml-2">
@@ -1,11 +1,15 @@
-import React from 'react';
-import { ProjectState, SceneGroup, Scene } from '../../types';
+import React, { useMemo } from 'react';
+import { ProjectState } from '../../types';
+import { buildScreenplayDocument } from '../../utils/screenplayExport';
 
 interface ScreenplayViewProps {
     state: ProjectState;
 }
 
 export const ScreenplayView: React.FC<ScreenplayViewProps> = ({ state }) => {
+    // Same document as the Fountain / FDX export, so the printout matches the files
+    const screenplay = useMemo(() => buildScreenplayDocument(state), [state]);
+
     return (
         <div className="screenplay-container bg-white text-black p-[1in] font-mono leading-tight max-w-[8.5in] mx-auto min-h-[11in] shadow-2xl print:shadow-none print:m-0 print:p-[1in]">
             {/* Title Page */}
@@ -19,45 +23,27 @@ export const ScreenplayView: React.FC<ScreenplayViewProps> = ({ state }) => {
             </div>
 
             {/* Script Content */}
-            <div className="script-content space-y-6 text-[12pt]">
-                {state.sceneGroups.map((group, groupIdx) => {
-                    const groupScenes = state.scenes.filter(s => s.groupId === group.id);
-                    return (
-                        <div key={group.id} className="scene-group space-y-6">
-                            {groupScenes.map((scene, sceneIdx) => (
-                                <div key={scene.id} className="scene-block space-y-4 break-inside-avoid">
-                                    {/* Slugline */}
-                                    <h2 className="uppercase font-bold pt-4">
-                                        {scene.scene_number}. {group.name} - {scene.prompt_name}
-                                    </h2>
-
-                                    {/* Action / Visual Context */}
-                                    <div className="action-text pl-0 pr-0">
-                                        {scene.visual_context}
-                                    </div>
-
-                                    {/* Dialogue / Voiceover */}
-                                    {scene.voiceover && (
-                                        <div className="dialogue-block mx-auto w-[4in] space-y-1">
-                                            <p className="text-center font-bold uppercase pl-0">NARRATOR (V.O.)</p>
-                                            <p className="text-sm pl-4 pr-4">
-                                                {scene.voiceover}
-                                            </p>
-                                        </div>
-                                    )}
-
-                                    {scene.dialogues && scene.dialogues.length > 0 && scene.dialogues.map((d, dIdx) => (
-                                        <div key={dIdx} className="dialogue-block mx-auto w-[4in] space-y-1">
-                                            <p className="text-center font-bold uppercase pl-0">{d.characterName || 'CHARACTER'}</p>
-                                            <p className="text-sm pl-4 pr-4">
-                                                {d.line}
-                                            </p>
-                                        </div>
-                                    ))}
-                                </div>
-                            ))}
-                        </div>
-                    );
+            <div className="script-content text-[12pt]">
+                {screenplay.elements.map((element, index) => {
+                    switch (element.type) {
+                        case 'heading':
+                            return (
+                                <h2 key={index} className="uppercase font-bold pt-8 pb-4 break-after-avoid">
+                                    {element.sceneNumber && <span className="mr-4">{element.sceneNumber}.</span>}
+                                    {element.text}
+                                </h2>
+                            );
+                        case 'action':
+                            return <p key={index} className="action-text pb-4 whitespace-pre-line">{element.text}</p>;
+                        case 'character':
+                            return <p key={index} className="ml-[2.2in] uppercase break-after-avoid">{element.text}</p>;
+                        case 'parenthetical':
+                            return <p key={index} className="ml-[1.6in] mr-[2in]">{element.text}</p>;
+                        case 'dialogue':
+                            return <p key={index} className="ml-[1in] mr-[1.5in] pb-4">{element.text}</p>;
+                        case 'transition':
+                            return <p key={index} className="text-right uppercase pb-4">{element.text}</p>;
+                    }
                 })}
             </div>
 
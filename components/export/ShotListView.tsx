@@ -0,0 +1,137 @@
+import React from 'react';
+import { ProjectState } from '../../types';
+import { ShotListLocation } from '../../utils/shotList';
+
+interface ShotListViewProps {
+    state: ProjectState;
+    locations: ShotListLocation[];
+}
+
+const Cell: React.FC<{ children: React.ReactNode; className?: string }> = ({ children, className = '' }) => (
+    <td className={`border border-gray-300 px-2 py-1.5 align-top ${className}`}>{children || <span className="text-gray-400">—</span>}</td>
+);
+
+export const ShotListView: React.FC<ShotListViewProps> = ({ state, locations }) => {
+    const totalShots = locations.reduce((sum, l) => sum + l.shots.length, 0);
+
+    return (
+        <div className="shotlist-container bg-white text-black p-8 max-w-[11in] mx-auto shadow-2xl print:shadow-none print:m-0 text-[9pt] leading-snug">
+            {/* Header */}
+            <div className="flex items-end justify-between border-b-2 border-black pb-3 mb-6">
+                <div>
+                    <h1 className="text-2xl font-black uppercase tracking-wider">{state.projectName || 'UNTITLED PROJECT'}</h1>
+                    <p className="text-sm font-bold uppercase tracking-widest text-gray-600">Shot List · Call Sheet</p>
+                </div>
+                <div className="text-right text-xs text-gray-600">
+                    <p>{locations.length} bối cảnh · {totalShots} shot</p>
+                    <p>{new Date().toLocaleDateString('vi-VN')}</p>
+                </div>
+            </div>
+
+            {locations.map((location, index) => (
+                <section key={location.key} className={`location-block mb-8 ${index > 0 ? 'break-before-page' : ''}`}>
+                    {/* Call sheet for this location */}
+                    <div className="flex gap-4 mb-3 break-inside-avoid">
+                        {location.image && (
+                            <img src={location.image} alt={location.name} className="w-40 h-24 object-cover rounded border border-gray-300" />
+                        )}
+                        <div className="flex-1">
+                            <h2 className="text-lg font-black uppercase">
+                                {location.isInterior === undefined ? '' : location.isInterior ? 'INT. ' : 'EXT. '}{location.name}
+                            </h2>
+                            <p className="text-xs text-gray-600 mb-2">
+                                {location.shots.length} shot · ~{Math.round(location.totalDuration)}s thời lượng dựng
+                            </p>
+                            <div className="grid grid-cols-3 gap-3 text-xs">
+                                <div>
+                                    <p className="font-bold uppercase text-[8pt] text-gray-500">Diễn viên</p>
+                                    <p>{location.cast.join(', ') || '—'}</p>
+                                </div>
+                                <div>
+                                    <p className="font-bold uppercase text-[8pt] text-gray-500">Đạo cụ / Sản phẩm</p>
+                                    <p>{location.props.join(', ') || '—'}</p>
+                                </div>
+                                <div>
+                                    <p className="font-bold uppercase text-[8pt] text-gray-500">Thời gian · Thời tiết · Ánh sáng</p>
+                                    {location.conditions.length > 0
+                                        ? location.conditions.map(c => <p key={c}>{c}</p>)
+                                        : <p>—</p>}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Shots */}
+                    <table className="w-full border-collapse">
+                        <thead>
+                            <tr className="bg-gray-100 text-[8pt] uppercase text-left">
+                                <th className="border border-gray-300 px-2 py-1 w-10">#</th>
+                                <th className="border border-gray-300 px-2 py-1 w-28">Khung hình</th>
+                                <th className="border border-gray-300 px-2 py-1">Mô tả</th>
+                                <th className="border border-gray-300 px-2 py-1 w-24">Cỡ cảnh</th>
+                                <th className="border border-gray-300 px-2 py-1 w-20">Ống kính</th>
+                                <th className="border border-gray-300 px-2 py-1 w-20">Máy quay</th>
+                                <th className="border border-gray-300 px-2 py-1 w-24">Nhân vật</th>
+                                <th className="border border-gray-300 px-2 py-1 w-24">Sản phẩm</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {location.shots.map(shot => (
+                                <tr key={shot.sceneId} className="break-inside-avoid">
+                                    <Cell className="font-bold">{shot.sceneNumber}</Cell>
+                                    <Cell>
+                                        {shot.thumbnail && <img src={shot.thumbnail} alt={shot.sceneNumber} className="w-24 h-14 object-cover" />}
+                                    </Cell>
+                                    <Cell>
+                                        {shot.title && <p className="font-bold">{shot.title}</p>}
+                                        <p className="line-clamp-4">{shot.description}</p>
+                                        {(shot.timeOfDay || shot.weather || shot.lightingMood) && (
+                                            <p className="mt-1 text-[8pt] text-gray-500">
+                                                {[shot.timeOfDay, shot.weather, shot.lightingMood].filter(Boolean).join(' · ')}
+                                            </p>
+                                        )}
+                                    </Cell>
+                                    <Cell>{shot.shotType}</Cell>
+                                    <Cell>{shot.lens}</Cell>
+                                    <Cell>{shot.camera}</Cell>
+                                    <Cell>{shot.characters.join(', ')}</Cell>
+                                    <Cell>{shot.products.join(', ')}</Cell>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            ))}
+
+            {/* Global Print Styles */}
+            <style dangerouslySetInnerHTML={{
+                __html: `
+                @media print {
+                    @page {
+                        margin: 0.4in;
+                        size: landscape;
+                    }
+                    body * {
+                        visibility: hidden;
+                    }
+                    .shotlist-container, .shotlist-container * {
+                        visibility: visible;
+                    }
+                    .shotlist-container {
+                        position: absolute;
+                        left: 0;
+                        top: 0;
+                        width: 100%;
+                        max-width: none;
+                        padding: 0;
+                        box-shadow: none !important;
+                    }
+                    .shotlist-container img {
+                        -webkit-print-color-adjust: exact;
+                        print-color-adjust: exact;
+                    }
+                }
+            `}} />
+        </div>
+    );
+};
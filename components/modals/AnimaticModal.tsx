@@ -0,0 +1,148 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import Modal from '../Modal';
+import { Play, Pause, SkipBack, SkipForward, ZoomIn, ZoomOut } from 'lucide-react';
+import { Scene, Character, MusicTrack } from '../../types';
+import { AnimaticPlayer, AnimaticTimeline, AnimaticRenderPanel, SubtitleExportPanel, MusicSyncPanel } from '../animatic';
+import { buildAnimaticTimeline, findClipIndexAt, formatTimecode } from '../../utils/animatic';
+
+interface AnimaticModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    scenes: Scene[];
+    characters: Character[];
+    scriptLanguage?: string;
+    aspectRatio: string;
+    projectName?: string;
+    onRetime: (sceneId: string, seconds: number | undefined) => void;
+    musicTrack?: MusicTrack;
+    onMusicTrackChange: (track: MusicTrack | undefined) => void;
+    onSnapToBeats: () => void;
+}
+
+const ZOOM_LEVELS = [10, 20, 40, 80];
+
+export const AnimaticModal: React.FC<AnimaticModalProps> = ({ isOpen, onClose, scenes, characters, scriptLanguage, aspectRatio, projectName, onRetime, musicTrack, onMusicTrackChange, onSnapToBeats }) => {
+    const [time, setTime] = useState(0);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [zoomIndex, setZoomIndex] = useState(2);
+    const [draft, setDraft] = useState<{ sceneId: string; seconds: number } | null>(null);
+    const timeRef = useRef(0);
+
+    // Dragged duration is previewed before it is written to the scene
+    const timeline = useMemo(() => buildAnimaticTimeline(
+        draft ? scenes.map(s => s.id === draft.sceneId ? { ...s, animaticDuration: draft.seconds } : s) : scenes
+    ), [scenes, draft]);
+
+    const seek = (t: number) => {
+        const clamped = Math.min(timeline.totalDuration, Math.max(0, t));
+        timeRef.current = clamped;
+        setTime(clamped);
+    };
+
+    // Playback clock
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frameId: number;
+        let last = performance.now();
+        const tick = (now: number) => {
+            const next = timeRef.current + (now - last) / 1000;
+            last = now;
+            if (next >= timeline.totalDuration) {
+                timeRef.current = timeline.totalDuration;
+                setTime(timeline.totalDuration);
+                setIsPlaying(false);
+                return;
+            }
+            timeRef.current = next;
+            setTime(next);
+            frameId = requestAnimationFrame(tick);
+        };
+        frameId = requestAnimationFrame(tick);
+        return () => cancelAnimationFrame(frameId);
+    }, [isPlaying, timeline.totalDuration]);
+
+    useEffect(() => {
+        if (!isOpen) setIsPlaying(false);
+    }, [isOpen]);
+
+    const togglePlay = () => {
+        if (!isPlaying && timeRef.current >= timeline.totalDuration) seek(0);
+        setIsPlaying(p => !p);
+    };
+
+    const jumpClip = (direction: -1 | 1) => {
+        const index = findClipIndexAt(timeline, timeRef.current);
+        const target = timeline.clips[Math.min(timeline.clips.length - 1, Math.max(0, index + direction))];
+        if (target) seek(target.start);
+    };
+
+    // Latest handler in a ref: the listener is attached once per open, not on every render
+    const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+    keyHandlerRef.current = (e: KeyboardEvent) => {
+        if ((e.target as HTMLElement)?.tagName === 'INPUT' || (e.target as HTMLElement)?.tagName === 'TEXTAREA') return;
+        if (e.code === 'Space') { e.preventDefault(); togglePlay(); }
+        if (e.code === 'ArrowLeft') jumpClip(-1);
+        if (e.code === 'ArrowRight') jumpClip(1);
+    };
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleKey = (e: KeyboardEvent) => keyHandlerRef.current(e);
+        window.addEventListener('keydown', handleKey);
+        return () => window.removeEventListener('keydown', handleKey);
+    }, [isOpen]);
+
+    const retimedCount = scenes.filter(s => s.animaticDuration).length;
+    const buttonClass = 'h-9 w-9 flex items-center justify-center text-gray-300 hover:text-white bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg transition-all disabled:opacity-40';
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Animatic" maxWidth="max-w-6xl">
+            {scenes.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-8">Chưa có cảnh nào để dựng animatic.</p>
+            ) : (
+                <div className="space-y-4">
+                    <AnimaticPlayer timeline={timeline} time={time} isPlaying={isPlaying} aspectRatio={aspectRatio} />
+
+                    <div className="flex items-center justify-between gap-3">
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => jumpClip(-1)} className={buttonClass} title="Cảnh trước (←)"><SkipBack size={16} /></button>
+                            <button
+                                onClick={togglePlay}
+                                className="h-9 px-5 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-brand-orange hover:bg-brand-red transition-all uppercase tracking-widest"
+                                title="Phát / Dừng (Space)"
+                            >
+                                {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+                                {isPlaying ? 'Dừng' : 'Phát'}
+                            </button>
+                            <button onClick={() => jumpClip(1)} className={buttonClass} title="Cảnh sau (→)"><SkipForward size={16} /></button>
+                            <span className="ml-2 text-xs text-gray-400 font-mono">{formatTimecode(time)} / {formatTimecode(timeline.totalDuration)}</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            {retimedCount > 0 && (
+                                <span className="text-[10px] text-brand-orange">{retimedCount} cảnh đã chỉnh thời lượng</span>
+                            )}
+                            <button onClick={() => setZoomIndex(i => Math.max(0, i - 1))} disabled={zoomIndex === 0} className={buttonClass} title="Thu nhỏ timeline"><ZoomOut size={16} /></button>
+                            <button onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))} disabled={zoomIndex === ZOOM_LEVELS.length - 1} className={buttonClass} title="Phóng to timeline"><ZoomIn size={16} /></button>
+                        </div>
+                    </div>
+
+                    <AnimaticTimeline
+                        timeline={timeline}
+                        time={time}
+                        pxPerSecond={ZOOM_LEVELS[zoomIndex]}
+                        onSeek={seek}
+                        onRetimeDraft={(sceneId, seconds) => setDraft(seconds === null ? null : { sceneId, seconds })}
+                        onRetimeCommit={onRetime}
+                        musicTrack={musicTrack}
+                    />
+
+                    <MusicSyncPanel musicTrack={musicTrack} onMusicTrackChange={onMusicTrackChange} onSnapToBeats={onSnapToBeats} />
+
+                    <AnimaticRenderPanel scenes={scenes} aspectRatio={aspectRatio} projectName={projectName} musicTrack={musicTrack} />
+
+                    <SubtitleExportPanel scenes={scenes} characters={characters} scriptLanguage={scriptLanguage} projectName={projectName} />
+                </div>
+            )}
+        </Modal>
+    );
+};
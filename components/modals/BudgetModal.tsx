@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import Modal from '../Modal';
+import { Wallet, RefreshCw, AlertTriangle, Coins } from 'lucide-react';
+import { ProjectState, CreditBudget } from '../../types';
+import { IMAGE_MODELS } from '../../utils/appConstants';
+import { createGommoClient } from '../../utils/gommoAI';
+import {
+    DEFAULT_CREDIT_BUDGET, estimateRunCost, checkBudget, getCostReport
+} from '../../utils/creditBudget';
+
+interface BudgetModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    state: ProjectState;
+    onBudgetChange: (budget: CreditBudget) => void;
+}
+
+const parseLimit = (value: string): number | undefined => {
+    const n = parseInt(value, 10);
+    return n > 0 ? n : undefined;
+};
+
+const BudgetBar: React.FC<{ label: string; spent: number; limit?: number; warnAt: number }> = ({ label, spent, limit, warnAt }) => {
+    const ratio = limit ? Math.min(1, spent / limit) : 0;
+    const color = !limit ? 'bg-gray-600' : ratio >= 1 ? 'bg-red-500' : ratio >= warnAt ? 'bg-amber-500' : 'bg-green-500';
+    return (
+        <div>
+            <div className="flex justify-between text-[11px] text-gray-400 mb-1">
+                <span>{label}</span>
+                <span className="font-mono">{spent.toLocaleString()} / {limit ? limit.toLocaleString() : '∞'}</span>
+            </div>
+            <div className="h-1.5 bg-gray-800 rounded-full overflow-hidden">
+                <div className={`h-full ${color} transition-all`} style={{ width: `${ratio * 100}%` }} />
+            </div>
+        </div>
+    );
+};
+
+export const BudgetModal: React.FC<BudgetModalProps> = ({ isOpen, onClose, state, onBudgetChange }) => {
+    const budget = { ...DEFAULT_CREDIT_BUDGET, ...state.creditBudget };
+    const [balance, setBalance] = useState<number | null>(null);
+    const [isLoadingBalance, setIsLoadingBalance] = useState(false);
+
+    const gommo = createGommoClient(state.gommoDomain || '', state.gommoAccessToken || '');
+
+    const refreshBalance = async () => {
+        if (!gommo) return;
+        setIsLoadingBalance(true);
+        try {
+            setBalance(await gommo.getCredits());
+        } catch (e) {
+            console.warn('[Budget] Failed to fetch Gommo balance:', e);
+            setBalance(null);
+        } finally {
+            setIsLoadingBalance(false);
+        }
+    };
+
+    useEffect(() => {
+        if (isOpen) refreshBalance();
+    }, [isOpen]);
+
+    const model = state.imageModel || 'gemini-3-pro-image-preview';
+    const modelLabel = IMAGE_MODELS.find(m => m.value === model)?.label || model;
+    const pendingScenes = state.scenes.filter(s => !s.generatedImage && s.contextDescription).length;
+    const estimate = estimateRunCost(pendingScenes, model);
+    const projectSpent = state.creditsSpent || 0;
+    const preflight = checkBudget(state.creditBudget, projectSpent, 0, estimate.total);
+    const report = getCostReport(state);
+
+    const inputClass = 'w-full bg-gray-800 border border-gray-700 rounded-lg px-3 py-2 text-sm text-white focus:border-brand-orange outline-none';
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Ngân sách credits" maxWidth="max-w-2xl">
+            <div className="space-y-5">
+                {/* Budget settings */}
+                <div className="grid grid-cols-3 gap-3">
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-gray-500 uppercase">Giới hạn dự án</span>
+                        <input
+                            type="number"
+                            min={0}
+                            placeholder="Không giới hạn"
+                            value={budget.projectLimit ?? ''}
+                            onChange={e => onBudgetChange({ ...budget, projectLimit: parseLimit(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-gray-500 uppercase">Giới hạn mỗi lượt chạy</span>
+                        <input
+                            type="number"
+                            min={0}
+                            placeholder="Không giới hạn"
+                            value={budget.runLimit ?? ''}
+                            onChange={e => onBudgetChange({ ...budget, runLimit: parseLimit(e.target.value) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-gray-500 uppercase">Cảnh báo khi đạt (%)</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={100}
+                            value={Math.round(budget.warnAt * 100)}
+                            onChange={e => onBudgetChange({ ...budget, warnAt: Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 80)) / 100 })}
+                            className={inputClass}
+                        />
+                    </label>
+                </div>
+
+                <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-3">
+                    <BudgetBar label="Đã dùng (dự án)" spent={projectSpent} limit={budget.projectLimit} warnAt={budget.warnAt} />
+                    <div className="flex items-center justify-between text-xs">
+                        <span className="flex items-center gap-1.5 text-gray-400"><Wallet size={14} /> Số dư Gommo</span>
+                        {gommo ? (
+                            <span className="flex items-center gap-2">
+                                <span className="font-mono text-yellow-400">{balance !== null ? `${balance.toLocaleString()} credits` : '—'}</span>
+                                <button onClick={refreshBalance} disabled={isLoadingBalance} className="p-1 text-gray-400 hover:text-white disabled:opacity-50" title="Làm mới">
+                                    <RefreshCw size={12} className={isLoadingBalance ? 'animate-spin' : ''} />
+                                </button>
+                            </span>
+                        ) : (
+                            <span className="text-gray-500">Chưa kết nối Gommo</span>
+                        )}
+                    </div>
+                </div>
+
+                {/* Pre-flight estimate */}
+                <div className="p-3 bg-white/5 border border-white/10 rounded-xl space-y-2">
+                    <h3 className="text-xs font-bold text-brand-cream flex items-center gap-1.5"><Coins size={14} /> Ước tính cho {pendingScenes} cảnh chưa có ảnh</h3>
+                    <div className="text-[11px] text-gray-400">Model: <span className="text-white">{modelLabel}</span></div>
+                    {estimate.billed ? (
+                        <>
+                            <div className="p-2 rounded-lg border border-brand-orange/50 bg-brand-orange/10 text-center">
+                                <div className="text-[10px] text-gray-500">{estimate.perImage}/ảnh</div>
+                                <div className="text-sm font-bold text-white font-mono">{estimate.total.toLocaleString()}</div>
+                            </div>
+                            {preflight.level !== 'ok' && (
+                                <div className={`flex items-center gap-1.5 text-[11px] ${preflight.level === 'exceeded' ? 'text-red-400' : 'text-amber-400'}`}>
+                                    <AlertTriangle size={12} /> {preflight.message}
+                                </div>
+                            )}
+                            {balance !== null && estimate.total > balance && (
+                                <div className="flex items-center gap-1.5 text-[11px] text-red-400">
+                                    <AlertTriangle size={12} /> Số dư Gommo không đủ cho lượt chạy này
+                                </div>
+                            )}
+                        </>
+                    ) : (
+                        <p className="text-[11px] text-gray-500">Model này không tính phí bằng credits Gommo.</p>
+                    )}
+                </div>
+
+                {/* Cost report by scene group */}
+                <div>
+                    <h3 className="text-xs font-bold text-brand-cream mb-2">Chi phí theo nhóm cảnh</h3>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-gray-500 uppercase border-b border-gray-800">
+                                <th className="text-left py-1.5 font-bold">Nhóm</th>
+                                <th className="text-right py-1.5 font-bold">Có ảnh</th>
+                                <th className="text-right py-1.5 font-bold">Credits</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {report.groups.map(row => (
+                                <tr key={row.groupId || 'ungrouped'} className="border-b border-gray-800/50 text-gray-300">
+                                    <td className="py-1.5 truncate max-w-[240px]">{row.name}</td>
+                                    <td className="py-1.5 text-right font-mono">{row.imagedScenes}/{row.sceneCount}</td>
+                                    <td className="py-1.5 text-right font-mono">{row.credits.toLocaleString()}</td>
+                                </tr>
+                            ))}
+                            {report.other > 0 && (
+                                <tr className="border-b border-gray-800/50 text-gray-400">
+                                    <td className="py-1.5">Nhân vật / concept</td>
+                                    <td className="py-1.5 text-right">—</td>
+                                    <td className="py-1.5 text-right font-mono">{report.other.toLocaleString()}</td>
+                                </tr>
+                            )}
+                            <tr className="text-white font-bold">
+                                <td className="py-1.5">Tổng</td>
+                                <td />
+                                <td className="py-1.5 text-right font-mono">{report.total.toLocaleString()}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                    <p className="mt-2 text-[10px] text-gray-600">Chi phí là ước tính theo bảng giá niêm yết của từng model trên Gommo.</p>
+                </div>
+            </div>
+        </Modal>
+    );
+};
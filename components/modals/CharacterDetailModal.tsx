@@ -1,5 +1,5 @@
 import React from 'react';
-import { Character, CharacterProp } from '../../types';
+import { Character } from '../../types';
 import Modal from '../Modal';
 import SingleImageSlot from '../SingleImageSlot';
 import { QualityRating } from '../common/QualityRating';
@@ -12,7 +12,7 @@ interface CharacterDetailModalProps {
     setDefault: (id: string) => void;
     onAnalyze: (id: string, image: string, options?: { skipMetadata?: boolean }) => void;
     onGenerateSheets: (id: string) => void;
-    onEditImage: (id: string, image: string, type: 'master' | 'face' | 'body' | 'prop' | 'side' | 'back', propIndex?: number) => void;
+    onEditImage: (id: string, image: string, type: 'master' | 'face' | 'body' | 'side' | 'back') => void;
     onOpenCharGen: (id: string, prompt?: string) => void;
     onDelete: (id: string) => void;
 }
@@ -31,12 +31,6 @@ export const CharacterDetailModal: React.FC<CharacterDetailModalProps> = ({
 }) => {
     if (!character) return null;
 
-    const updateProp = (propIndex: number, field: keyof CharacterProp, value: string | null) => {
-        const newProps = [...character.props];
-        newProps[propIndex] = { ...newProps[propIndex], [field]: value };
-        updateCharacter(character.id, { props: newProps });
-    };
-
     return (
         <Modal isOpen={isOpen} onClose={onClose} title={`Chỉnh sửa: ${character.name || 'Unnamed Character'}`}>
             <div className="space-y-6">
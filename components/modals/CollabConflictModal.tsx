@@ -0,0 +1,100 @@
+import React from 'react';
+import Modal from '../Modal';
+import { AlertTriangle, User, Users } from 'lucide-react';
+import { Scene } from '../../types';
+import { SceneConflict } from '../../hooks/useCollaboration';
+import { diffScene, IMAGE_FIELDS, DiffedSceneField } from '../../utils/projectDiff';
+
+interface CollabConflictModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    conflicts: SceneConflict[];
+    onResolve: (sceneId: string, choice: 'mine' | 'theirs') => void;
+}
+
+const FIELD_LABELS: Record<DiffedSceneField, string> = {
+    contextDescription: 'Mô tả bối cảnh',
+    veoPrompt: 'Veo Prompt',
+    voiceOverText: 'Voice Over',
+    voiceover: 'Lời dẫn',
+    cameraAngleOverride: 'Góc máy',
+    transitionType: 'Chuyển cảnh',
+    groupId: 'Nhóm cảnh',
+    generatedImage: 'Ảnh',
+    endFrameImage: 'End Frame',
+    generatedVideo: 'Video'
+};
+
+const FieldValue: React.FC<{ scene?: Scene; field: DiffedSceneField }> = ({ scene, field }) => {
+    const value = scene?.[field];
+    if (IMAGE_FIELDS.includes(field)) {
+        return value
+            ? <img src={value as string} alt={FIELD_LABELS[field]} className="w-full h-28 rounded-lg object-contain bg-black/40" />
+            : <div className="w-full h-28 rounded-lg bg-black/40 flex items-center justify-center text-[10px] text-gray-600">Không có ảnh</div>;
+    }
+    return <p className="text-xs text-brand-cream/80 whitespace-pre-wrap break-words">{value ? String(value) : <span className="text-gray-600 italic">(trống)</span>}</p>;
+};
+
+export const CollabConflictModal: React.FC<CollabConflictModalProps> = ({ isOpen, onClose, conflicts, onResolve }) => {
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Xung đột chỉnh sửa" maxWidth="max-w-4xl">
+            <p className="text-xs text-brand-cream/50 mb-4 flex items-center gap-2">
+                <AlertTriangle size={12} className="text-amber-400" /> Bạn và đồng đội đã cùng sửa các cảnh dưới đây. Chọn phiên bản muốn giữ.
+            </p>
+
+            {conflicts.length === 0 ? (
+                <div className="text-center text-gray-500 py-10 text-sm">Không còn xung đột nào.</div>
+            ) : (
+                <div className="max-h-[65vh] overflow-y-auto space-y-4 pr-2 custom-scrollbar">
+                    {conflicts.map(conflict => {
+                        const fields = conflict.remote ? diffScene(conflict.local, conflict.remote) : [];
+                        return (
+                            <div key={conflict.sceneId} className="rounded-xl border border-gray-700 bg-gray-800/60 p-4">
+                                <div className="flex items-center justify-between mb-3">
+                                    <span className="text-sm font-bold text-white">Cảnh {conflict.local.sceneNumber}</span>
+                                    <span className="text-xs text-amber-400">
+                                        {conflict.kind === 'removed'
+                                            ? `${conflict.authorName} đã xóa cảnh này`
+                                            : `${conflict.authorName} đã sửa cảnh này`}
+                                    </span>
+                                </div>
+
+                                {conflict.kind === 'update' && (
+                                    <div className="space-y-3 mb-3">
+                                        {fields.length === 0 && (
+                                            <p className="text-xs text-gray-500">Khác biệt nằm ở các trường chi tiết (nhân vật, sản phẩm, cài đặt...).</p>
+                                        )}
+                                        {fields.map(field => (
+                                            <div key={field}>
+                                                <div className="text-[10px] uppercase tracking-wider text-gray-500 mb-1">{FIELD_LABELS[field]}</div>
+                                                <div className="grid grid-cols-2 gap-3">
+                                                    <div className="rounded-lg bg-black/20 p-2"><FieldValue scene={conflict.local} field={field} /></div>
+                                                    <div className="rounded-lg bg-black/20 p-2"><FieldValue scene={conflict.remote} field={field} /></div>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                <div className="grid grid-cols-2 gap-3">
+                                    <button
+                                        onClick={() => onResolve(conflict.sceneId, 'mine')}
+                                        className="flex items-center justify-center gap-2 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 text-xs font-semibold text-white transition-colors"
+                                    >
+                                        <User size={12} /> Giữ bản của tôi
+                                    </button>
+                                    <button
+                                        onClick={() => onResolve(conflict.sceneId, 'theirs')}
+                                        className="flex items-center justify-center gap-2 py-2 rounded-lg bg-brand-orange hover:bg-brand-orange/80 text-xs font-semibold text-white transition-colors"
+                                    >
+                                        <Users size={12} /> {conflict.kind === 'removed' ? 'Đồng ý xóa' : `Dùng bản của ${conflict.authorName}`}
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </Modal>
+    );
+};
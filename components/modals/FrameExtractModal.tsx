@@ -0,0 +1,166 @@
+import React, { useEffect, useRef, useState } from 'react';
+import Modal from '../Modal';
+import { Camera, SkipForward, Loader2, Check } from 'lucide-react';
+import { Scene } from '../../types';
+import { extractVideoFrame, FramePosition, FrameTargetField } from '../../utils/videoFrames';
+import { formatTimecode } from '../../utils/animatic';
+
+interface FrameExtractModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    sceneId: string | null; // Scene whose generated video is the source
+    scenes: Scene[];
+    onApply: (targetSceneId: string, updates: Partial<Scene>) => void;
+}
+
+const TARGET_FIELDS: { value: FrameTargetField; label: string; hint: string }[] = [
+    { value: 'generatedImage', label: 'Ảnh chính', hint: 'Thay ảnh của cảnh' },
+    { value: 'referenceImage', label: 'Mỏ neo tham chiếu', hint: 'Prop Anchor' },
+    { value: 'endFrameImage', label: 'End frame', hint: 'Điểm cuối Start/End Frame' }
+];
+
+export const FrameExtractModal: React.FC<FrameExtractModalProps> = ({ isOpen, onClose, sceneId, scenes, onApply }) => {
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const [frame, setFrame] = useState<string | null>(null);
+    const [frameTime, setFrameTime] = useState<FramePosition | null>(null);
+    const [isExtracting, setIsExtracting] = useState(false);
+    const [targetSceneId, setTargetSceneId] = useState<string>('');
+    const [targetField, setTargetField] = useState<FrameTargetField>('generatedImage');
+
+    const sourceIndex = scenes.findIndex(s => s.id === sceneId);
+    const source = sourceIndex >= 0 ? scenes[sourceIndex] : null;
+
+    // Default target: the next scene (the usual "continue from this clip" case)
+    useEffect(() => {
+        if (!isOpen || !source) return;
+        setFrame(null);
+        setFrameTime(null);
+        setTargetSceneId((scenes[sourceIndex + 1] || source).id);
+        setTargetField('generatedImage');
+    }, [isOpen, sceneId]);
+
+    const extract = async (position: FramePosition) => {
+        if (!source?.generatedVideo) return;
+        videoRef.current?.pause();
+        setIsExtracting(true);
+        try {
+            setFrame(await extractVideoFrame(source.generatedVideo, position));
+            setFrameTime(position);
+        } catch (e: any) {
+            console.error('[Frames] Extraction failed:', e);
+            alert(`❌ Không thể trích khung hình: ${e.message}`);
+        } finally {
+            setIsExtracting(false);
+        }
+    };
+
+    const handleApply = () => {
+        if (!frame || !targetSceneId) return;
+        // A new main image no longer matches the Labs media the old one was uploaded as
+        const updates: Partial<Scene> = targetField === 'generatedImage'
+            ? { generatedImage: frame, mediaId: undefined }
+            : { [targetField]: frame };
+        onApply(targetSceneId, updates);
+        onClose();
+    };
+
+    const targetScene = scenes.find(s => s.id === targetSceneId);
+    const replacesExisting = !!targetScene?.[targetField];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title={`Trích khung hình · Cảnh ${source?.sceneNumber || ''}`} maxWidth="max-w-4xl">
+            {!source?.generatedVideo ? (
+                <p className="text-sm text-gray-500 text-center py-8">Cảnh này chưa có video.</p>
+            ) : (
+                <div className="space-y-4">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <video
+                                ref={videoRef}
+                                src={source.generatedVideo}
+                                controls
+                                className="w-full aspect-video bg-black rounded-lg border border-gray-700"
+                            />
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => extract(videoRef.current?.currentTime || 0)}
+                                    disabled={isExtracting}
+                                    className="flex-1 h-9 flex items-center justify-center gap-2 text-[10px] font-bold uppercase tracking-widest text-white rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 disabled:opacity-50"
+                                >
+                                    <Camera size={14} /> Khung hiện tại
+                                </button>
+                                <button
+                                    onClick={() => extract('last')}
+                                    disabled={isExtracting}
+                                    className="flex-1 h-9 flex items-center justify-center gap-2 text-[10px] font-bold uppercase tracking-widest text-white rounded-lg bg-gray-800 hover:bg-gray-700 border border-gray-700 disabled:opacity-50"
+                                >
+                                    <SkipForward size={14} /> Khung cuối
+                                </button>
+                            </div>
+                        </div>
+
+                        <div className="relative aspect-video bg-gray-900 rounded-lg border border-dashed border-gray-700 overflow-hidden flex items-center justify-center">
+                            {isExtracting ? (
+                                <Loader2 size={24} className="animate-spin text-brand-orange" />
+                            ) : frame ? (
+                                <>
+                                    <img src={frame} alt="Extracted frame" className="w-full h-full object-contain" />
+                                    <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/70 text-[9px] font-mono text-gray-300">
+                                        {frameTime === 'last' ? 'Khung cuối' : formatTimecode(frameTime as number)}
+                                    </span>
+                                </>
+                            ) : (
+                                <span className="text-[11px] text-gray-500">Chọn vị trí trên video rồi trích khung</span>
+                            )}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-1.5">Lưu vào cảnh</label>
+                            <select
+                                value={targetSceneId}
+                                onChange={e => setTargetSceneId(e.target.value)}
+                                className="w-full bg-gray-950 text-brand-cream px-2 py-2 rounded text-xs border border-gray-800 focus:border-brand-orange outline-none"
+                            >
+                                {scenes.map(s => (
+                                    <option key={s.id} value={s.id}>
+                                        Cảnh {s.sceneNumber}{s.id === source.id ? ' (nguồn)' : ''}{s.promptName ? ` · ${s.promptName.slice(0, 40)}` : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-[10px] font-black text-gray-500 uppercase tracking-widest mb-1.5">Dùng làm</label>
+                            <div className="flex gap-2">
+                                {TARGET_FIELDS.map(f => (
+                                    <button
+                                        key={f.value}
+                                        onClick={() => setTargetField(f.value)}
+                                        title={f.hint}
+                                        className={`flex-1 py-2 rounded text-[10px] font-bold border transition-colors ${targetField === f.value ? 'bg-brand-orange/20 border-brand-orange text-brand-orange' : 'bg-gray-900 border-gray-800 text-gray-400 hover:text-white'}`}
+                                    >
+                                        {f.label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-end gap-3">
+                        {frame && replacesExisting && (
+                            <span className="text-[10px] text-amber-400">Sẽ thay thế ảnh hiện có của cảnh {targetScene?.sceneNumber}</span>
+                        )}
+                        <button
+                            onClick={handleApply}
+                            disabled={!frame || isExtracting}
+                            className="h-9 px-5 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-brand-orange hover:bg-brand-red disabled:opacity-50 transition-all uppercase tracking-widest"
+                        >
+                            <Check size={14} /> Lưu khung hình
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import Modal from '../Modal';
+import { Play, Pause, ChevronUp, ChevronDown, ChevronsUp, X, RotateCcw, Trash2, Clock, AlertTriangle } from 'lucide-react';
+import { Scene } from '../../types';
+import { GenerationQueue, GenerationJob, GenerationJobStatus, getQueueProgress, formatEta } from '../../utils/generationQueue';
+
+interface GenerationQueueModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    queue: GenerationQueue;
+    scenes: Scene[];
+    imageDelay?: number;
+    isStopping: boolean;
+    onPause: () => void;
+    onResume: () => void;
+    onMove: (jobId: string, direction: 'up' | 'down' | 'top') => void;
+    onCancel: (jobId: string) => void;
+    onRetry: (jobId: string) => void;
+    onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<GenerationJobStatus, { label: string; className: string }> = {
+    queued: { label: 'Chờ', className: 'bg-white/5 text-gray-400 border-white/10' },
+    running: { label: 'Đang tạo', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30 animate-pulse' },
+    done: { label: 'Xong', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+    failed: { label: 'Lỗi', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    skipped: { label: 'Bỏ qua', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' }
+};
+
+const JobRow: React.FC<{
+    job: GenerationJob;
+    scene?: Scene;
+    isFirstQueued: boolean;
+    isLastQueued: boolean;
+    onMove: (direction: 'up' | 'down' | 'top') => void;
+    onCancel: () => void;
+    onRetry: () => void;
+}> = ({ job, scene, isFirstQueued, isLastQueued, onMove, onCancel, onRetry }) => {
+    const style = STATUS_STYLES[job.status];
+    const iconButton = 'p-1.5 rounded-lg transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
+    return (
+        <div className="p-3 bg-white/5 border border-white/5 rounded-xl">
+            <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs font-bold text-brand-cream">#{scene?.sceneNumber || job.sceneNumber}</span>
+                    <span className={`text-[10px] px-2 py-0.5 rounded-full border font-bold uppercase ${style.className}`}>{style.label}</span>
+                    <span className="text-xs text-gray-400 truncate">{scene?.contextDescription || scene?.voiceOverText || '(cảnh đã bị xóa)'}</span>
+                </div>
+                <div className="flex items-center gap-0.5 flex-shrink-0">
+                    {job.status === 'queued' && (
+                        <>
+                            <button onClick={() => onMove('top')} disabled={isFirstQueued} className={`${iconButton} text-gray-400 hover:text-white hover:bg-white/10`} title="Ưu tiên lên đầu">
+                                <ChevronsUp size={14} />
+                            </button>
+                            <button onClick={() => onMove('up')} disabled={isFirstQueued} className={`${iconButton} text-gray-400 hover:text-white hover:bg-white/10`} title="Lên">
+                                <ChevronUp size={14} />
+                            </button>
+                            <button onClick={() => onMove('down')} disabled={isLastQueued} className={`${iconButton} text-gray-400 hover:text-white hover:bg-white/10`} title="Xuống">
+                                <ChevronDown size={14} />
+                            </button>
+                        </>
+                    )}
+                    {(job.status === 'failed' || job.status === 'skipped') && (
+                        <button onClick={onRetry} className={`${iconButton} text-brand-orange hover:bg-brand-orange/10`} title="Thử lại">
+                            <RotateCcw size={14} />
+                        </button>
+                    )}
+                    {job.status !== 'running' && (
+                        <button onClick={onCancel} className={`${iconButton} text-red-400 hover:bg-red-500/10`} title="Xóa khỏi hàng đợi">
+                            <X size={14} />
+                        </button>
+                    )}
+                </div>
+            </div>
+            {(job.attempts > 0 || job.provider) && (
+                <div className="mt-1.5 flex items-center gap-3 text-[10px] text-gray-500">
+                    {job.attempts > 0 && <span>Lần thử: {job.attempts}</span>}
+                    {job.provider && <span>Provider: {job.provider}{job.model ? ` · ${job.model}` : ''}</span>}
+                </div>
+            )}
+            {job.error && (
+                <div className="mt-1.5 flex items-start gap-1.5 text-[10px] text-red-400">
+                    <AlertTriangle size={12} className="flex-shrink-0 mt-0.5" />
+                    <span className="break-words">{job.error}</span>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const GenerationQueueModal: React.FC<GenerationQueueModalProps> = ({
+    isOpen,
+    onClose,
+    queue,
+    scenes,
+    imageDelay,
+    isStopping,
+    onPause,
+    onResume,
+    onMove,
+    onCancel,
+    onRetry,
+    onClearFinished
+}) => {
+    // Tick every second while running so the ETA counts down
+    const [now, setNow] = useState(Date.now());
+    useEffect(() => {
+        if (!isOpen || queue.status !== 'running') return;
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [isOpen, queue.status]);
+
+    const progress = getQueueProgress(queue, scenes, imageDelay, now);
+    const queuedJobs = queue.jobs.filter(j => j.status === 'queued');
+    const hasFinished = queue.jobs.some(j => j.status !== 'queued' && j.status !== 'running');
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Hàng đợi tạo ảnh" maxWidth="max-w-2xl">
+            <div className="space-y-4">
+                {queue.interruptedAt && queue.status === 'paused' && (
+                    <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-xl text-xs text-amber-300 flex items-center gap-2">
+                        <AlertTriangle size={14} className="flex-shrink-0" />
+                        Batch bị gián đoạn lúc {new Date(queue.interruptedAt).toLocaleString('vi-VN')}. Bấm "Tiếp tục" để chạy tiếp.
+                    </div>
+                )}
+
+                <div className="flex items-center justify-between gap-3 p-3 bg-white/5 border border-white/10 rounded-xl">
+                    <div className="text-xs text-gray-300 space-y-1">
+                        <div>
+                            <span className="font-bold text-brand-cream">{progress.done}</span>/{progress.total} xong
+                            {progress.failed > 0 && <span className="text-red-400"> · {progress.failed} lỗi</span>}
+                            {progress.remaining > 0 && <span> · {progress.remaining} còn lại</span>}
+                        </div>
+                        <div className="flex items-center gap-1.5 text-gray-500">
+                            <Clock size={12} />
+                            {progress.remaining === 0
+                                ? 'Không còn cảnh nào trong hàng đợi'
+                                : progress.etaMs !== null
+                                    ? `Ước tính còn ~${formatEta(progress.etaMs)}`
+                                    : 'Chưa đủ dữ liệu để ước tính thời gian'}
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        {queue.status === 'running' ? (
+                            <button
+                                onClick={onPause}
+                                disabled={isStopping}
+                                className="h-9 px-4 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-red-600 hover:bg-red-700 disabled:opacity-50 transition-all uppercase tracking-widest"
+                            >
+                                <Pause size={14} />
+                                {isStopping ? 'Đang dừng...' : 'Tạm dừng'}
+                            </button>
+                        ) : (
+                            <button
+                                onClick={onResume}
+                                disabled={queuedJobs.length === 0}
+                                className="h-9 px-4 flex items-center gap-2 font-bold text-[10px] text-white rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all uppercase tracking-widest"
+                            >
+                                <Play size={14} />
+                                Tiếp tục
+                            </button>
+                        )}
+                        <button
+                            onClick={onClearFinished}
+                            disabled={!hasFinished}
+                            className="h-9 px-3 flex items-center gap-1.5 text-[10px] font-bold text-gray-400 hover:text-white bg-gray-900 border border-gray-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed transition-all uppercase"
+                            title="Xóa các job đã xong / lỗi khỏi danh sách"
+                        >
+                            <Trash2 size={14} />
+                            Dọn
+                        </button>
+                    </div>
+                </div>
+
+                {queue.jobs.length === 0 ? (
+                    <p className="text-sm text-gray-500 text-center py-8">Hàng đợi trống.</p>
+                ) : (
+                    <div className="space-y-2 max-h-[50vh] overflow-y-auto pr-1">
+                        {queue.jobs.map(job => (
+                            <JobRow
+                                key={job.id}
+                                job={job}
+                                scene={scenes.find(s => s.id === job.sceneId)}
+                                isFirstQueued={queuedJobs[0]?.id === job.id}
+                                isLastQueued={queuedJobs[queuedJobs.length - 1]?.id === job.id}
+                                onMove={direction => onMove(job.id, direction)}
+                                onCancel={() => onCancel(job.id)}
+                                onRetry={() => onRetry(job.id)}
+                            />
+                        ))}
+                    </div>
+                )}
+            </div>
+        </Modal>
+    );
+};
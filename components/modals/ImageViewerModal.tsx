@@ -74,7 +74,7 @@ export const ImageViewerModal: React.FC<ImageViewerModalProps> = ({ isOpen, onCl
                         </div>
                         <div>
                             <label className="text-xs font-bold text-gray-400 uppercase">Script (Viet)</label>
-                            <p className="text-sm text-gray-300 italic mt-1">{currentScene.vietnamese || '...'}</p>
+                            <p className="text-sm text-gray-300 italic mt-1">{currentScene.scriptText || '...'}</p>
                         </div>
                     </div>
 
@@ -6,15 +6,24 @@
  */
 
 import React, { useState, useCallback } from 'react';
-import { X, FileText, Upload, Users, Layers, Clock, Play, Film, Palette, AlertTriangle, Check, ChevronDown, ChevronUp, Save, FolderOpen, Trash2, MapPin } from 'lucide-react';
+import { X, FileText, Upload, Users, Layers, Clock, Play, Film, Palette, AlertTriangle, Check, ChevronDown, ChevronUp, Save, FolderOpen, Trash2, MapPin, RefreshCw } from 'lucide-react';
 import { Character, SceneGroup, Scene, ProjectState, CharacterStyleDefinition } from '../../types';
 import { DirectorPreset, DIRECTOR_PRESETS, DirectorCategory } from '../../constants/directors';
 import { BUILT_IN_CHARACTER_STYLES, getStylesByCategory } from '../../constants/characterStyles';
 import { SCRIPT_MODELS } from '../../constants/presets';
-import { useScriptAnalysis, ScriptAnalysisResult } from '../../hooks/useScriptAnalysis';
+import { useScriptAnalysis, computeAnalysisFingerprint } from '../../hooks/useScriptAnalysis';
+import type { ScriptAnalysisResult, ScriptAnalysisProgress } from '../../hooks/useScriptAnalysis';
 import { useResearchPresets, ResearchPreset } from '../../hooks/useResearchPresets';
 import { callGeminiText } from '../../utils/geminiUtils';
 import { generateId } from '../../utils/helpers';
+import { schema, requestStructured } from '../../utils/structuredOutput';
+
+const directorStyleSchema = schema.object({
+    description: schema.string(''),
+    dna: schema.string(''),
+    quote: schema.string(''),
+    signatureCameraStyle: schema.string('')
+});
 
 interface ManualScriptModalProps {
     isOpen: boolean;
@@ -27,9 +36,11 @@ interface ManualScriptModalProps {
         directorId: string | undefined,
         sceneCharacterMap: Record<number, string[]>,
         researchNotes?: { director?: string; dop?: string; story?: string },
-        detectedLocations?: { id: string; name: string; description: string; keywords: string[]; chapterIds: string[]; conceptPrompt: string; isInterior: boolean; timeOfDay?: string; mood?: string }[]
+        detectedLocations?: { id: string; name: string; description: string; keywords: string[]; chapterIds: string[]; conceptPrompt: string; isInterior: boolean; timeOfDay?: string; mood?: string }[],
+        mergeIntoExisting?: boolean // scenes is the full merged scene list, replacing the project's
     ) => void;
     existingCharacters: Character[];
+    existingScenes?: Scene[];
     userApiKey: string | null;
     userId: string | null;
     // [NEW] Persistence props
@@ -42,7 +53,9 @@ interface ManualScriptModalProps {
         directorNotes: string;
         dopNotes: string;
         storyContext: string;
-        analysisResult: any | null;
+        analysisResult: ScriptAnalysisResult | null;
+        analysisProgress?: ScriptAnalysisProgress | null;
+        lastAnalysis?: ScriptAnalysisResult | null;
     };
     onStateChange?: (state: {
         scriptText: string;
@@ -53,7 +66,9 @@ interface ManualScriptModalProps {
         directorNotes: string;
         dopNotes: string;
         storyContext: string;
-        analysisResult: any | null;
+        analysisResult: ScriptAnalysisResult | null;
+        analysisProgress?: ScriptAnalysisProgress | null;
+        lastAnalysis?: ScriptAnalysisResult | null;
     }) => void;
 }
 
@@ -62,6 +77,7 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
     onClose,
     onImport,
     existingCharacters,
+    existingScenes = [],
     userApiKey,
     userId,
     initialState,
@@ -99,11 +115,25 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
     const { presets, isLoading: presetsLoading, savePreset, deletePreset } = useResearchPresets(userId);
 
     // Analysis hook
-    const { isAnalyzing, analysisStage, analysisResult, analysisError, analyzeScript, generateSceneMap, setAnalysisResult } = useScriptAnalysis(userApiKey);
+    const { isAnalyzing, analysisStage, analysisResult, analysisError, analysisProgress, analyzeScript, reanalyzeChanges, generateSceneMap, mergeSceneMap, setAnalysisResult } = useScriptAnalysis(userApiKey, initialState?.analysisProgress || null);
+    const chunksDone = analysisProgress?.chunkResults.filter(Boolean).length || 0;
+    const chunksTotal = analysisProgress?.chunkResults.length || 0;
 
     // Track if user manually went back (to prevent auto-restore)
     const userWentBack = React.useRef(false);
 
+    // Last finished analysis, kept while the script is edited so only the changes get re-analyzed
+    const [lastAnalysis, setLastAnalysis] = useState<ScriptAnalysisResult | null>(initialState?.lastAnalysis || initialState?.analysisResult || null);
+    React.useEffect(() => {
+        if (analysisResult) setLastAnalysis(analysisResult);
+    }, [analysisResult]);
+    const canReanalyze = Boolean(lastAnalysis?.sourceScript) && scriptText.trim() !== lastAnalysis.sourceScript.trim();
+
+    // Project scenes imported from this analysis: importing again merges instead of appending
+    const linkedSceneCount = analysisResult
+        ? existingScenes.filter(s => s.scriptSourceId && analysisResult.scenes.some(a => a.id === s.scriptSourceId)).length
+        : 0;
+
     // [NEW] Restore analysis result from initial state (only on first mount)
     React.useEffect(() => {
         if (initialState?.analysisResult && !analysisResult && !userWentBack.current) {
@@ -129,10 +159,12 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
                 directorNotes,
                 dopNotes,
                 storyContext,
-                analysisResult
+                analysisResult,
+                analysisProgress,
+                lastAnalysis: analysisResult ? null : lastAnalysis // Only needed once analysisResult is cleared
             });
         }
-    }, [scriptText, readingSpeed, selectedStyleId, selectedDirectorId, selectedModel, directorNotes, dopNotes, storyContext, analysisResult, onStateChange, isOpen]);
+    }, [scriptText, readingSpeed, selectedStyleId, selectedDirectorId, selectedModel, directorNotes, dopNotes, storyContext, analysisResult, analysisProgress, lastAnalysis, onStateChange, isOpen]);
 
     // [New] Auto-fill Global Context from analysis
     React.useEffect(() => {
@@ -149,6 +181,29 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
     const selectedDirector = customDirector || allDirectors.find(d => d.id === selectedDirectorId);
     const stylesByCategory = getStylesByCategory([]);
 
+    // Research Notes for AI context injection
+    const researchNotes = (directorNotes || dopNotes || storyContext) ? {
+        director: directorNotes || undefined,
+        dop: dopNotes || undefined,
+        story: storyContext || undefined // [New]
+    } : null;
+
+    // Finished chunks of an unfinished run only resume while the script and settings still match it
+    const [resumableChunks, setResumableChunks] = useState(0);
+    React.useEffect(() => {
+        if (!analysisProgress) {
+            setResumableChunks(0);
+            return;
+        }
+        let cancelled = false;
+        computeAnalysisFingerprint(scriptText, readingSpeed, selectedModel, selectedStyle || null, selectedDirector || null, researchNotes, existingCharacters)
+            .then(fingerprint => {
+                if (cancelled) return;
+                setResumableChunks(fingerprint === analysisProgress.fingerprint ? chunksDone : 0);
+            });
+        return () => { cancelled = true; };
+    }, [analysisProgress, chunksDone, scriptText, readingSpeed, selectedModel, selectedStyle, selectedDirector, directorNotes, dopNotes, storyContext, existingCharacters]);
+
     // Handle analyze
     const handleAnalyze = useCallback(async () => {
         if (!scriptText.trim()) return;
@@ -159,26 +214,41 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
             selectedModel,
             selectedStyle || null,
             selectedDirector || null,
-            // Pass Research Notes for AI context injection
+            researchNotes,
+            existingCharacters, // [Fixed] Check against existing characters
+            analysisProgress // Resumes finished chunks if nothing changed since the last run
+        );
+    }, [scriptText, readingSpeed, selectedModel, analyzeScript, selectedStyle, selectedDirector, directorNotes, dopNotes, storyContext, analysisProgress]);
+
+    // Handle re-analyze: only the paragraphs edited since the last analysis
+    const handleReanalyze = useCallback(async () => {
+        if (!lastAnalysis || !scriptText.trim()) return;
+        userWentBack.current = false;
+        await reanalyzeChanges(
+            lastAnalysis,
+            scriptText,
+            readingSpeed,
+            selectedModel,
+            selectedStyle || null,
+            selectedDirector || null,
             (directorNotes || dopNotes || storyContext) ? {
                 director: directorNotes || undefined,
                 dop: dopNotes || undefined,
-                story: storyContext || undefined // [New]
+                story: storyContext || undefined
             } : null,
-            existingCharacters // [Fixed] Check against existing characters
+            existingCharacters
         );
-    }, [scriptText, readingSpeed, selectedModel, analyzeScript, selectedStyle, selectedDirector, directorNotes, dopNotes, storyContext]);
+    }, [lastAnalysis, scriptText, readingSpeed, selectedModel, reanalyzeChanges, selectedStyle, selectedDirector, directorNotes, dopNotes, storyContext, existingCharacters]);
 
     // Handle import
     const handleImport = useCallback(() => {
         if (!analysisResult) return;
 
-        const { scenes, groups, newCharacters, sceneCharacterMap } = generateSceneMap(
-            analysisResult,
-            selectedDirector || null,
-            selectedStyle || null,
-            existingCharacters
-        );
+        // Merging keeps the untouched scenes (images, videos, overrides) of an earlier import
+        const mergeIntoExisting = linkedSceneCount > 0;
+        const { scenes, groups, newCharacters, sceneCharacterMap } = mergeIntoExisting
+            ? mergeSceneMap(analysisResult, existingScenes, selectedDirector || null, selectedStyle || null, existingCharacters)
+            : generateSceneMap(analysisResult, selectedDirector || null, selectedStyle || null, existingCharacters);
 
         // Pass research notes for storage in ProjectState
         const notes = (directorNotes || dopNotes || storyContext) ? {
@@ -190,9 +260,9 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
         // Pass detected locations for Location Library
         const locations = analysisResult.locations || [];
 
-        onImport(scenes, groups, newCharacters, selectedStyleId, selectedDirectorId, sceneCharacterMap, notes, locations);
+        onImport(scenes, groups, newCharacters, selectedStyleId, selectedDirectorId, sceneCharacterMap, notes, locations, mergeIntoExisting);
         onClose();
-    }, [analysisResult, selectedDirector, selectedStyle, existingCharacters, onImport, onClose, generateSceneMap, selectedStyleId, selectedDirectorId, directorNotes, dopNotes, storyContext]);
+    }, [analysisResult, selectedDirector, selectedStyle, existingCharacters, existingScenes, linkedSceneCount, onImport, onClose, generateSceneMap, mergeSceneMap, selectedStyleId, selectedDirectorId, directorNotes, dopNotes, storyContext]);
 
     if (!isOpen) return null;
 
@@ -212,9 +282,11 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
                 "signatureCameraStyle": "Their signature camera technique in English"
             }`;
 
-            const responseText = await callGeminiText(prompt, 'You are a film historian expert.', true, 'gemini-1.5-flash');
-
-            const data = JSON.parse(responseText.replace(/```json/g, '').replace(/```/g, '').trim());
+            const data = await requestStructured({
+                name: 'Tra cứu đạo diễn',
+                schema: directorStyleSchema,
+                call: correction => callGeminiText(prompt + (correction || ''), 'You are a film historian expert.', true, 'gemini-1.5-flash')
+            });
 
             const newCustomDirector: DirectorPreset = {
                 id: `custom-${generateId()}`,
@@ -291,6 +363,9 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
                                         case 'post-processing': return 'Đang xử lý dữ liệu AI và xây dựng cấu trúc Storyboard...';
                                         case 'validating': return '✅ Đang kiểm tra phân tách Voice-Over / Dialogue...';
                                         case 'finalizing': return 'Đang hoàn tất các bước cuối cùng...';
+                                        case 'shared-context': return 'Kịch bản dài: đang thống nhất nhân vật & bối cảnh chung cho các phần...';
+                                        case 'reanalyzing': return '✏️ Đang phân tích lại các đoạn kịch bản đã sửa...';
+                                        case 'chunks': return `Đang phân tích song song từng phần kịch bản (${chunksDone}/${chunksTotal} phần xong)...`;
                                         default: return 'Đang xử lý...';
                                     }
                                 })()}
@@ -302,6 +377,9 @@ export const ManualScriptModal: React.FC<ManualScriptModalProps> = ({
                                     className="h-full bg-gradient-to-r from-violet-500 to-fuchsia-500 transition-all duration-500"
                                     style={{
                                         width: analysisStage === 'preparing' ? '5%' :
+                                            analysisStage === 'shared-context' ? '15%' :
+                                            analysisStage === 'reanalyzing' ? '50%' :
+                                            analysisStage === 'chunks' ? `${25 + Math.round(60 * chunksDone / (chunksTotal || 1))}%` :
                                             analysisStage === 'dialogue-detection' ? '15%' :
                                                 analysisStage === 'connecting' ? '25%' :
                                                     analysisStage === 'clustering' ? '45%' :
@@ -871,23 +949,36 @@ John enters the room, wearing a tailored Armani suit..."
                             >
                                 Cancel
                             </button>
-                            <button
-                                onClick={handleAnalyze}
-                                disabled={!scriptText.trim() || isAnalyzing}
-                                className="px-6 py-2.5 bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white rounded-xl font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                            >
-                                {isAnalyzing ? (
-                                    <>
-                                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                                        Analyzing...
-                                    </>
-                                ) : (
-                                    <>
-                                        <Play className="w-4 h-4" />
-                                        Analyze Script
-                                    </>
+                            <div className="flex items-center gap-3">
+                                {canReanalyze && (
+                                    <button
+                                        onClick={handleReanalyze}
+                                        disabled={!scriptText.trim() || isAnalyzing}
+                                        title="Chỉ phân tích lại các đoạn đã sửa, giữ nguyên các cảnh còn lại"
+                                        className="px-4 py-2.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 hover:text-white rounded-xl font-medium flex items-center gap-2 transition-colors border border-zinc-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        <RefreshCw className="w-4 h-4" />
+                                        Re-analyze Changes
+                                    </button>
                                 )}
-                            </button>
+                                <button
+                                    onClick={handleAnalyze}
+                                    disabled={!scriptText.trim() || isAnalyzing}
+                                    className="px-6 py-2.5 bg-gradient-to-r from-violet-500 to-fuchsia-500 text-white rounded-xl font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                                >
+                                    {isAnalyzing ? (
+                                        <>
+                                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                                            Analyzing...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Play className="w-4 h-4" />
+                                            {resumableChunks > 0 ? `Resume Analysis (${resumableChunks}/${chunksTotal})` : 'Analyze Script'}
+                                        </>
+                                    )}
+                                </button>
+                            </div>
                         </>
                     ) : (
                         <>
@@ -949,7 +1040,9 @@ John enters the room, wearing a tailored Armani suit..."
                                 className="px-6 py-2.5 bg-gradient-to-r from-emerald-500 to-teal-500 text-white rounded-xl font-medium flex items-center gap-2"
                             >
                                 <Check className="w-4 h-4" />
-                                Generate {analysisResult.suggestedSceneCount} Scenes
+                                {linkedSceneCount > 0
+                                    ? `Update Storyboard (keeps ${linkedSceneCount} scenes)`
+                                    : `Generate ${analysisResult.suggestedSceneCount} Scenes`}
                             </button>
                         </>
                     )}
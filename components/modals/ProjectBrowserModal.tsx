@@ -1,7 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import Modal from '../Modal';
-import { Trash2, FolderOpen, Calendar, Clock } from 'lucide-react';
+import { Trash2, FolderOpen, Calendar, Clock, Cloud, CloudOff, RefreshCw, AlertTriangle, X } from 'lucide-react';
 import { PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER } from '../../constants/presets';
+import { PendingSyncInfo } from '../../hooks/useProjectSync';
 
 interface ProjectInfo {
     id: string;
@@ -14,16 +15,35 @@ interface ProjectBrowserModalProps {
     onClose: () => void;
     projects: ProjectInfo[];
     onLoad: (id: string) => void;
-    onDelete: (id: string) => void;
+    onDelete: (id: string, name?: string) => void;
     loading: boolean;
+    isOnline?: boolean;
+    pendingOperations?: PendingSyncInfo[];
+    onSyncNow?: () => void;
+    onRetryOperation?: (opId: string) => void;
+    onDiscardOperation?: (opId: string) => void;
 }
 
+const SYNC_BADGES: Record<PendingSyncInfo['status'], { label: string; className: string }> = {
+    pending: { label: 'Chờ đồng bộ', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+    syncing: { label: 'Đang đồng bộ', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+    failed: { label: 'Lỗi đồng bộ', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+};
+
 export const ProjectBrowserModal: React.FC<ProjectBrowserModalProps> = ({
-    isOpen, onClose, projects, onLoad, onDelete, loading
+    isOpen, onClose, projects, onLoad, onDelete, loading,
+    isOnline = true, pendingOperations = [], onSyncNow, onRetryOperation, onDiscardOperation
 }) => {
     const [searchTerm, setSearchTerm] = useState('');
 
-    const filteredProjects = projects.filter(p =>
+    // Pending deletions are hidden; saves that never reached the cloud are listed as local projects
+    const pendingDeletes = new Set(pendingOperations.filter(op => op.kind === 'delete-project').map(op => op.projectRef));
+    const pendingSaves = new Map(pendingOperations.filter(op => op.kind === 'save-project').map(op => [op.projectRef, op]));
+    const localOnlyProjects: ProjectInfo[] = pendingOperations
+        .filter(op => op.kind === 'save-project' && !projects.some(p => p.id === op.projectRef))
+        .map(op => ({ id: op.projectRef, name: op.projectName, updated_at: new Date(op.updatedAt).toISOString() }));
+
+    const filteredProjects = [...localOnlyProjects, ...projects.filter(p => !pendingDeletes.has(p.id))].filter(p =>
         p.name.toLowerCase().includes(searchTerm.toLowerCase())
     );
 
@@ -40,6 +60,22 @@ export const ProjectBrowserModal: React.FC<ProjectBrowserModalProps> = ({
 
     return (
         <Modal isOpen={isOpen} onClose={onClose} title="Cloud Projects">
+            <div className="mb-4 flex items-center justify-between text-xs">
+                <span className={`flex items-center gap-2 ${isOnline ? 'text-green-400' : 'text-amber-400'}`}>
+                    {isOnline ? <Cloud size={14} /> : <CloudOff size={14} />}
+                    {isOnline ? 'Đang trực tuyến' : 'Ngoại tuyến - thay đổi sẽ được đồng bộ khi có mạng'}
+                </span>
+                {pendingOperations.length > 0 && (
+                    <button
+                        onClick={onSyncNow}
+                        disabled={!isOnline}
+                        className="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/5 hover:bg-white/10 text-brand-cream/70 disabled:opacity-40 transition-colors"
+                    >
+                        <RefreshCw size={12} /> Đồng bộ ngay ({pendingOperations.length})
+                    </button>
+                )}
+            </div>
+
             <div className="mb-4">
                 <input
                     type="text"
@@ -64,45 +100,77 @@ export const ProjectBrowserModal: React.FC<ProjectBrowserModalProps> = ({
                     </div>
                 )}
 
-                {!loading && filteredProjects.map(project => (
-                    <div
-                        key={project.id}
-                        className="group flex items-center justify-between p-4 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 hover:border-brand-orange/30 transition-all"
-                    >
-                        <div className="flex-1 min-w-0 mr-4">
-                            <h3 className="text-brand-cream font-bold truncate group-hover:text-brand-orange transition-colors">
-                                {project.name}
-                            </h3>
-                            <div className="flex items-center space-x-4 mt-1 text-[10px] text-brand-cream/40 uppercase tracking-widest">
-                                <span className="flex items-center">
-                                    <Calendar size={10} className="mr-1" />
-                                    {formatDate(project.updated_at)}
-                                </span>
+                {!loading && filteredProjects.map(project => {
+                    const pending = pendingSaves.get(project.id);
+                    return (
+                        <div
+                            key={project.id}
+                            className="group flex items-center justify-between p-4 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 hover:border-brand-orange/30 transition-all"
+                        >
+                            <div className="flex-1 min-w-0 mr-4">
+                                <h3 className="text-brand-cream font-bold truncate group-hover:text-brand-orange transition-colors">
+                                    {project.name}
+                                </h3>
+                                <div className="flex items-center space-x-4 mt-1 text-[10px] text-brand-cream/40 uppercase tracking-widest">
+                                    <span className="flex items-center">
+                                        <Calendar size={10} className="mr-1" />
+                                        {formatDate(project.updated_at)}
+                                    </span>
+                                    {pending ? (
+                                        <span
+                                            title={pending.lastError || ''}
+                                            className={`px-1.5 py-0.5 rounded border normal-case tracking-normal ${SYNC_BADGES[pending.status].className}`}
+                                        >
+                                            {SYNC_BADGES[pending.status].label}
+                                        </span>
+                                    ) : (
+                                        <span className="flex items-center text-green-400/60 normal-case tracking-normal">
+                                            <Cloud size={10} className="mr-1" /> Đã đồng bộ
+                                        </span>
+                                    )}
+                                </div>
+                                {pending?.status === 'failed' && (
+                                    <div className="flex items-center gap-2 mt-2 text-[10px] text-red-400">
+                                        <AlertTriangle size={10} />
+                                        <span className="truncate">{pending.lastError}</span>
+                                        <button onClick={() => onRetryOperation?.(pending.id)} className="flex items-center gap-1 text-brand-cream/70 hover:text-brand-cream">
+                                            <RefreshCw size={10} /> Thử lại
+                                        </button>
+                                        <button
+                                            onClick={() => {
+                                                if (window.confirm('Bỏ các thay đổi chưa đồng bộ của dự án này?')) onDiscardOperation?.(pending.id);
+                                            }}
+                                            className="flex items-center gap-1 text-brand-cream/40 hover:text-red-400"
+                                        >
+                                            <X size={10} /> Bỏ
+                                        </button>
+                                    </div>
+                                )}
                             </div>
-                        </div>
 
-                        <div className="flex items-center space-x-2">
-                            <button
-                                onClick={() => onLoad(project.id)}
-                                className="p-2 text-brand-orange hover:bg-brand-orange/10 rounded-lg transition-colors"
-                                title="Mở dự án"
-                            >
-                                <FolderOpen size={18} />
-                            </button>
-                            <button
-                                onClick={() => {
-                                    if (window.confirm(`Bạn có chắc muốn xóa dự án "${project.name}"?`)) {
-                                        onDelete(project.id);
-                                    }
-                                }}
-                                className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
-                                title="Xóa dự án"
-                            >
-                                <Trash2 size={18} />
-                            </button>
+                            <div className="flex items-center space-x-2">
+                                <button
+                                    onClick={() => onLoad(project.id)}
+                                    className="p-2 text-brand-orange hover:bg-brand-orange/10 rounded-lg transition-colors"
+                                    title="Mở dự án"
+                                >
+                                    <FolderOpen size={18} />
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        if (window.confirm(`Bạn có chắc muốn xóa dự án "${project.name}"?`)) {
+                                            onDelete(project.id, project.name);
+                                        }
+                                    }}
+                                    className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                    title="Xóa dự án"
+                                >
+                                    <Trash2 size={18} />
+                                </button>
+                            </div>
                         </div>
-                    </div>
-                ))}
+                    );
+                })}
             </div>
 
             <div className="mt-6 flex justify-end">
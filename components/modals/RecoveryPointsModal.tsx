@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import Modal from '../Modal';
+import { History, RotateCcw, Calendar, Image as ImageIcon, Trash2, HardDrive } from 'lucide-react';
+import { listRecoveryPoints, deleteRecoveryPoints, collectAssetGarbage, getAssetStoreStats, RecoveryPointInfo, AssetStoreStats } from '../../utils/stateManager';
+
+interface RecoveryPointsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    onRestore: (pointId: string) => Promise<boolean>;
+}
+
+export const RecoveryPointsModal: React.FC<RecoveryPointsModalProps> = ({ isOpen, onClose, onRestore }) => {
+    const [points, setPoints] = useState<RecoveryPointInfo[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const [assetStats, setAssetStats] = useState<AssetStoreStats | null>(null);
+
+    const refresh = async () => {
+        setLoading(true);
+        setPoints(await listRecoveryPoints());
+        setAssetStats(await getAssetStoreStats());
+        setLoading(false);
+    };
+
+    const handleCleanup = async () => {
+        const removed = await collectAssetGarbage();
+        await refresh();
+        alert(removed > 0 ? `Đã dọn ${removed} ảnh không còn được sử dụng.` : 'Không có ảnh thừa để dọn.');
+    };
+
+    useEffect(() => {
+        if (isOpen) refresh();
+    }, [isOpen]);
+
+    const handleRestore = async (point: RecoveryPointInfo) => {
+        if (!window.confirm(`Khôi phục "${point.projectName || 'Dự án chưa đặt tên'}" từ ${formatDate(point.timestamp)}? (Có thể Undo)`)) return;
+        setRestoringId(point.id);
+        const ok = await onRestore(point.id);
+        setRestoringId(null);
+        if (ok) onClose();
+        else alert('Không thể khôi phục bản lưu này.');
+    };
+
+    const handleDeleteProject = async (projectKey: string, projectName: string) => {
+        if (!window.confirm(`Xóa tất cả bản lưu tự động của "${projectName || 'Dự án chưa đặt tên'}"?`)) return;
+        await deleteRecoveryPoints(projectKey);
+        refresh();
+    };
+
+    const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('vi-VN', {
+        day: '2-digit',
+        month: '2-digit',
+        year: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit'
+    });
+
+    // Group points by project, newest project first
+    const byProject = new Map<string, RecoveryPointInfo[]>();
+    points.forEach(p => byProject.set(p.projectKey, [...(byProject.get(p.projectKey) || []), p]));
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Bản lưu tự động" maxWidth="max-w-lg">
+            <p className="text-xs text-brand-cream/50 mb-4 flex items-center gap-2">
+                <History size={12} /> Dự án được tự động lưu đầy đủ (kể cả hình ảnh) trong trình duyệt.
+            </p>
+
+            <div className="max-h-[60vh] overflow-y-auto space-y-4 pr-2 custom-scrollbar">
+                {loading && (
+                    <div className="py-20 text-center">
+                        <div className="w-8 h-8 border-2 border-brand-orange border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+                        <p className="text-brand-cream/40 text-xs">Đang tải danh sách...</p>
+                    </div>
+                )}
+
+                {!loading && points.length === 0 && (
+                    <div className="py-20 text-center border border-dashed border-white/10 rounded-2xl">
+                        <p className="text-brand-cream/40 text-sm">Chưa có bản lưu tự động nào.</p>
+                    </div>
+                )}
+
+                {!loading && Array.from(byProject.entries()).map(([projectKey, projectPoints]) => (
+                    <div key={projectKey}>
+                        <div className="flex items-center justify-between mb-2">
+                            <h3 className="text-brand-cream font-bold truncate">{projectPoints[0].projectName || 'Dự án chưa đặt tên'}</h3>
+                            <button
+                                onClick={() => handleDeleteProject(projectKey, projectPoints[0].projectName)}
+                                className="p-1.5 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                title="Xóa bản lưu của dự án này"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        <div className="space-y-2">
+                            {projectPoints.map(point => (
+                                <div
+                                    key={point.id}
+                                    className="group flex items-center justify-between p-3 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 hover:border-brand-orange/30 transition-all"
+                                >
+                                    <div className="flex items-center space-x-4 text-[10px] text-brand-cream/50 uppercase tracking-widest">
+                                        <span className="flex items-center">
+                                            <Calendar size={10} className="mr-1" />
+                                            {formatDate(point.timestamp)}
+                                        </span>
+                                        <span>{point.sceneCount} scenes</span>
+                                        <span className="flex items-center">
+                                            <ImageIcon size={10} className="mr-1" />
+                                            {point.imageCount}
+                                        </span>
+                                    </div>
+                                    <button
+                                        onClick={() => handleRestore(point)}
+                                        disabled={restoringId !== null}
+                                        className="p-2 text-brand-orange hover:bg-brand-orange/10 rounded-lg transition-colors disabled:opacity-40"
+                                        title="Khôi phục"
+                                    >
+                                        {restoringId === point.id
+                                            ? <div className="w-4 h-4 border-2 border-brand-orange border-t-transparent rounded-full animate-spin"></div>
+                                            : <RotateCcw size={16} />}
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="mt-6 flex items-center justify-between">
+                {assetStats ? (
+                    <span className="flex items-center gap-2 text-[10px] text-brand-cream/40">
+                        <HardDrive size={10} />
+                        {assetStats.assetCount} ảnh duy nhất • {(assetStats.totalBytes / (1024 * 1024)).toFixed(1)} MB
+                        <button onClick={handleCleanup} className="text-brand-orange/70 hover:text-brand-orange font-bold">
+                            Dọn dẹp
+                        </button>
+                    </span>
+                ) : <span />}
+                <button
+                    onClick={onClose}
+                    className="px-6 py-2 text-brand-cream/40 hover:text-brand-cream text-sm font-bold transition-colors"
+                >
+                    ĐÓNG
+                </button>
+            </div>
+        </Modal>
+    );
+};
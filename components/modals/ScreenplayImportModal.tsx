@@ -0,0 +1,159 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileText, AlertCircle, Loader2 } from 'lucide-react';
+import Modal from '../Modal';
+import { Character, Location } from '../../types';
+import { parseScreenplayFile, buildProjectFromScreenplay, ScreenplayImportResult } from '../../utils/screenplayImport';
+
+interface ScreenplayImportModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    characters: Character[];
+    locations: Location[];
+    sceneCount: number;
+    onImport: (result: ScreenplayImportResult) => void;
+}
+
+const TIME_OF_DAY_ICONS: Record<string, string> = {
+    dawn: '🌅', morning: '🌤️', noon: '☀️', afternoon: '🌇', sunset: '🌆', dusk: '🌒', night: '🌙', custom: '🕐'
+};
+
+export const ScreenplayImportModal: React.FC<ScreenplayImportModalProps> = ({
+    isOpen,
+    onClose,
+    characters,
+    locations,
+    sceneCount,
+    onImport
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [fileName, setFileName] = useState('');
+    const [result, setResult] = useState<ScreenplayImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isParsing, setIsParsing] = useState(false);
+
+    const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setFileName(file.name);
+        setResult(null);
+        setError(null);
+        setIsParsing(true);
+        try {
+            const document = parseScreenplayFile(file.name, await file.text());
+            if (!document.elements.some(el => el.type === 'heading' || el.type === 'action')) {
+                throw new Error('Không tìm thấy slugline hoặc mô tả hành động nào trong file');
+            }
+            setResult(buildProjectFromScreenplay(document, { characters, locations, sceneCount }));
+        } catch (err: any) {
+            console.error('[ScreenplayImport] Parse failed:', err);
+            setError(err.message);
+        } finally {
+            setIsParsing(false);
+        }
+    };
+
+    const handleImport = () => {
+        if (!result) return;
+        onImport(result);
+        setResult(null);
+        setFileName('');
+        onClose();
+    };
+
+    const dialogueCount = result?.scenes.reduce((sum, s) => sum + (s.dialogues?.length || 0), 0) || 0;
+    const voScenes = result?.scenes.filter(s => s.isVOScene).length || 0;
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Import kịch bản Fountain / Final Draft" maxWidth="max-w-3xl">
+            <div className="space-y-5">
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".fountain,.spmd,.txt,.fdx"
+                    onChange={handleFileSelect}
+                    className="hidden"
+                />
+                <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="w-full border-2 border-dashed border-zinc-700 rounded-xl p-8 text-center hover:border-amber-500/50 hover:bg-amber-500/5 transition-colors"
+                >
+                    {isParsing
+                        ? <Loader2 className="w-10 h-10 text-zinc-500 mx-auto mb-3 animate-spin" />
+                        : <Upload className="w-10 h-10 text-zinc-500 mx-auto mb-3" />}
+                    <p className="text-white font-medium">{fileName || 'Chọn file kịch bản'}</p>
+                    <p className="text-sm text-zinc-500 mt-1">Hỗ trợ .fountain, .spmd, .txt (Fountain) và .fdx (Final Draft)</p>
+                </button>
+
+                <p className="text-xs text-zinc-500">
+                    Mỗi slugline (INT./EXT.) thành một nhóm cảnh gắn bối cảnh; mỗi đoạn hành động thành một phân cảnh, thoại theo sau gắn vào phân cảnh đó.
+                    Thoại của NARRATOR được đưa vào lời dẫn (VO).
+                </p>
+
+                {error && (
+                    <div className="flex items-center gap-2 p-4 bg-red-500/10 border border-red-500/30 rounded-xl text-red-400 text-sm">
+                        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                {result && (
+                    <>
+                        {result.title && (
+                            <p className="flex items-center gap-2 text-sm text-white font-bold">
+                                <FileText className="w-4 h-4 text-amber-400" /> {result.title}
+                            </p>
+                        )}
+                        <div className="grid grid-cols-3 gap-3 text-center">
+                            {[
+                                [result.groups.length, 'Nhóm cảnh (slugline)'],
+                                [result.scenes.length, 'Phân cảnh'],
+                                [dialogueCount, `Câu thoại${voScenes ? ` · ${voScenes} cảnh VO` : ''}`],
+                                [result.linkedCharacterIds.length, 'Nhân vật đã có (liên kết)'],
+                                [result.characters.length, 'Nhân vật mới'],
+                                [result.locations.length, 'Bối cảnh mới']
+                            ].map(([value, label]) => (
+                                <div key={label as string} className="p-3 bg-zinc-800/50 rounded-xl">
+                                    <p className="text-2xl font-black text-white">{value}</p>
+                                    <p className="text-[10px] uppercase tracking-wider text-zinc-500">{label}</p>
+                                </div>
+                            ))}
+                        </div>
+
+                        {result.characters.length > 0 && (
+                            <p className="text-xs text-zinc-400">
+                                <span className="text-zinc-500">Tạo mới:</span> {result.characters.map(c => c.name).join(', ')}
+                            </p>
+                        )}
+
+                        <div className="max-h-56 overflow-y-auto space-y-1 custom-scrollbar">
+                            {result.groups.map(group => (
+                                <div key={group.id} className="flex items-center gap-3 px-3 py-2 bg-zinc-900/60 rounded-lg text-sm">
+                                    <span>{TIME_OF_DAY_ICONS[group.timeOfDay || ''] || '🎬'}</span>
+                                    <span className="flex-1 text-zinc-300 truncate">{group.description}</span>
+                                    <span className="text-xs text-zinc-500">
+                                        {result.scenes.filter(s => s.groupId === group.id).length} cảnh
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-end gap-3 pt-2">
+                    <button onClick={onClose} className="px-4 py-2 text-sm text-zinc-400 hover:text-white">
+                        Hủy
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={!result || result.scenes.length === 0}
+                        className="px-6 py-2 bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 text-white font-bold rounded-lg transition-all disabled:opacity-50"
+                    >
+                        Import {result ? `${result.scenes.length} phân cảnh` : ''}
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -1,12 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import Modal from '../Modal';
-import { Character, Product, ScriptPreset } from '../../types';
+import { Character, Product, ScriptPreset, MusicTrack } from '../../types';
 import { PresetSelector } from '../PresetSelector';
 import { createCustomPreset } from '../../utils/scriptPresets';
 import { PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER, CREATIVE_PRESETS, GLOBAL_STYLES, SCRIPT_MODELS } from '../../constants/presets';
 import { DIRECTOR_CATEGORIES, DIRECTOR_PRESETS, DirectorCategory, DirectorPreset } from '../../constants/directors';
 import { detectCharactersInText, generateId } from '../../utils/helpers';
 import { callGroqText } from '../../utils/geminiUtils';
+import { getBarCount } from '../../utils/beatSync';
+import { schema, requestStructured } from '../../utils/structuredOutput';
+
+const directorStyleSchema = schema.object({
+    description: schema.string(''),
+    dna: schema.string(''),
+    quote: schema.string('')
+});
 
 export interface ScriptGeneratorModalProps {
     isOpen: boolean;
@@ -28,6 +36,7 @@ export interface ScriptGeneratorModalProps {
     onScriptModelChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
     onSmartMapAssets: (scenes: any[], characters: Character[], products: Product[]) => Promise<any>;
     apiKey?: string | null;
+    musicTrack?: MusicTrack; // Groups get a bar count of this song
 }
 
 export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
@@ -49,7 +58,8 @@ export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
     scriptModel,
     onScriptModelChange,
     onSmartMapAssets,
-    apiKey
+    apiKey,
+    musicTrack
 }) => {
     const [step, setStep] = useState<'input' | 'review'>('input');
     const [previewData, setPreviewData] = useState<{ detailedStory: string; groups: any[]; scenes: any[]; globalStoryContext?: string } | null>(null);
@@ -145,8 +155,11 @@ export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
             }
             Respond ONLY with the JSON object.`;
 
-            const responseText = await callGroqText(prompt, 'You are an expert film scholar and cinematic analyst.', true);
-            const data = JSON.parse(responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+            const data = await requestStructured({
+                name: 'Tra cứu đạo diễn',
+                schema: directorStyleSchema,
+                call: correction => callGroqText(prompt + (correction || ''), 'You are an expert film scholar and cinematic analyst.', true)
+            });
 
             const customDirector: DirectorPreset = {
                 id: `custom-${generateId()}`,
@@ -284,6 +297,12 @@ export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
                             />
                         </div>
 
+                        {musicTrack && (
+                            <div className="p-3 bg-purple-500/10 rounded-xl border border-purple-500/30 text-xs text-purple-200">
+                                🎵 <span className="font-bold">{musicTrack.name}</span> · {musicTrack.bpm} BPM · {getBarCount(musicTrack)} ô nhịp — các nhóm cảnh sẽ được chia theo cấu trúc bài hát.
+                            </div>
+                        )}
+
                         <div className="flex items-center justify-between p-4 bg-gray-800/30 rounded-xl border border-gray-700">
                             <div className="flex items-center gap-3">
                                 <span className="text-sm font-medium text-gray-300">Số lượng phân cảnh ước lượng:</span>
@@ -505,6 +524,11 @@ export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
 
                         {/* Groups & Scenes Review */}
                         <div className="space-y-8">
+                            {musicTrack && previewData && (
+                                <p className="text-xs text-purple-300">
+                                    🎵 Đã chia {previewData.groups.reduce((sum, g) => sum + (Number(g.bars) || 0), 0)} / {getBarCount(musicTrack)} ô nhịp của "{musicTrack.name}"
+                                </p>
+                            )}
                             {previewData?.groups.map((group, groupIdx) => {
                                 const groupScenes = previewData.scenes.filter(s => s.group_id === group.id);
                                 return (
@@ -581,6 +605,22 @@ export const ScriptGeneratorModal: React.FC<ScriptGeneratorModalProps> = ({
                                                             {p === 'fast' ? '⚡ NHANH' : p === 'medium' ? '⚖️ VỪA' : '🐌 CHẬM'}
                                                         </button>
                                                     ))}
+                                                    {musicTrack && (
+                                                        <label className="ml-2 flex items-center gap-1 text-[9px] font-bold text-gray-500 uppercase">
+                                                            🎵 Ô nhịp:
+                                                            <input
+                                                                type="number"
+                                                                min={1}
+                                                                value={group.bars || ''}
+                                                                onChange={(e) => {
+                                                                    const newGroups = [...previewData.groups];
+                                                                    newGroups[groupIdx].bars = parseInt(e.target.value) || undefined;
+                                                                    setPreviewData({ ...previewData, groups: newGroups });
+                                                                }}
+                                                                className="w-12 bg-gray-900/50 border border-purple-500/30 rounded px-1 py-0.5 text-[9px] text-purple-200 outline-none [appearance:textfield]"
+                                                            />
+                                                        </label>
+                                                    )}
                                                 </div>
 
                                                 {/* Time & Weather Consistency Controls */}
@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import Modal from '../Modal';
+import { ShotListView } from '../export/ShotListView';
+import { ProjectState } from '../../types';
+import { buildShotList } from '../../utils/shotList';
+
+interface ShotListModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    state: ProjectState;
+}
+
+export const ShotListModal: React.FC<ShotListModalProps> = ({ isOpen, onClose, state }) => {
+    const locations = useMemo(() => isOpen ? buildShotList(state) : [], [isOpen, state]);
+
+    const handlePrint = () => {
+        window.print();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Shot List & Call Sheet" maxWidth="max-w-6xl">
+            <div className="flex flex-col h-[80vh]">
+                <div className="flex justify-between items-center mb-4 p-4 bg-gray-900/50 rounded-xl border border-gray-800">
+                    <p className="text-xs text-gray-400">Danh sách shot gom theo bối cảnh để lên lịch quay. Nhấn <span className="text-brand-green font-bold">In / Xuất PDF</span> để lưu file (khổ ngang).</p>
+                    <button
+                        onClick={handlePrint}
+                        disabled={locations.length === 0}
+                        className="px-6 py-2 bg-brand-green hover:bg-brand-green/80 text-brand-dark font-black rounded-lg transition-all active:scale-95 flex items-center gap-2 disabled:opacity-50"
+                    >
+                        🖨️ In / Xuất PDF
+                    </button>
+                </div>
+
+                <div className="flex-1 overflow-auto bg-gray-950 p-8 rounded-xl border border-gray-800 custom-scrollbar">
+                    {locations.length === 0 ? (
+                        <p className="text-sm text-gray-500 text-center py-8">Chưa có phân cảnh nào.</p>
+                    ) : (
+                        <ShotListView state={state} locations={locations} />
+                    )}
+                </div>
+            </div>
+        </Modal>
+    );
+};
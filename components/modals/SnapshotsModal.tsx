@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import Modal from '../Modal';
+import { Bookmark, GitCompare, Trash2, RotateCcw, ArrowLeft, Calendar, ArrowRight } from 'lucide-react';
+import { SnapshotInfo } from '../../utils/stateManager';
+import { ProjectDiff, SceneDiff, SceneChangeStatus, IMAGE_FIELDS, DiffedSceneField } from '../../utils/projectDiff';
+
+interface SnapshotsModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    snapshots: SnapshotInfo[];
+    isLoading: boolean;
+    onRefresh: () => void;
+    onCreate: (name: string) => Promise<SnapshotInfo | null>;
+    onDelete: (id: string) => void;
+    comparedSnapshot: SnapshotInfo | null;
+    onCompare: (id: string) => Promise<boolean>;
+    onCloseComparison: () => void;
+    diff: ProjectDiff | null;
+    onRestoreScenes: (sceneIds: string[]) => void;
+    onRestoreGroup: (groupId: string) => void;
+}
+
+const STATUS_STYLES: Record<SceneChangeStatus, { label: string; className: string }> = {
+    added: { label: 'Mới thêm', className: 'bg-green-500/20 text-green-400 border-green-500/30' },
+    removed: { label: 'Đã xóa', className: 'bg-red-500/20 text-red-400 border-red-500/30' },
+    modified: { label: 'Đã sửa', className: 'bg-amber-500/20 text-amber-400 border-amber-500/30' },
+    moved: { label: 'Đổi vị trí', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' },
+    unchanged: { label: 'Không đổi', className: 'bg-white/5 text-gray-500 border-white/10' }
+};
+
+const FIELD_LABELS: Record<DiffedSceneField, string> = {
+    contextDescription: 'Mô tả bối cảnh',
+    veoPrompt: 'Veo Prompt',
+    voiceOverText: 'Voice Over',
+    voiceover: 'Lời dẫn',
+    cameraAngleOverride: 'Góc máy',
+    transitionType: 'Chuyển cảnh',
+    groupId: 'Nhóm cảnh',
+    generatedImage: 'Ảnh',
+    endFrameImage: 'End Frame',
+    generatedVideo: 'Video'
+};
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString('vi-VN', {
+    day: '2-digit',
+    month: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+});
+
+const SceneDiffRow: React.FC<{ diff: SceneDiff; onRestore: () => void }> = ({ diff, onRestore }) => {
+    const style = STATUS_STYLES[diff.status];
+    const scene = diff.after || diff.before!;
+    const textFields = diff.changedFields.filter(f => !IMAGE_FIELDS.includes(f));
+    const imageFields = diff.changedFields.filter(f => IMAGE_FIELDS.includes(f));
+
+    return (
+        <div className="p-3 bg-white/5 border border-white/5 rounded-xl">
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2 min-w-0">
+                    <span className="text-xs font-bold text-brand-cream">
+                        #{diff.oldIndex >= 0 ? diff.oldIndex + 1 : '–'}
+                        <ArrowRight size={10} className="inline mx-1 opacity-50" />
+                        #{diff.newIndex >= 0 ? diff.newIndex + 1 : '–'}
+                    </span>
+                    <span className={`text-[10px] px-2 py-0.5 rounded-full border font-bold uppercase ${style.className}`}>{style.label}</span>
+                    {diff.isMoved && diff.status === 'modified' && (
+                        <span className={`text-[10px] px-2 py-0.5 rounded-full border font-bold uppercase ${STATUS_STYLES.moved.className}`}>{STATUS_STYLES.moved.label}</span>
+                    )}
+                    <span className="text-xs text-gray-400 truncate">{scene.contextDescription || scene.voiceOverText || ''}</span>
+                </div>
+                {diff.before && diff.status !== 'unchanged' && (
+                    <button
+                        onClick={onRestore}
+                        className="p-1.5 text-brand-orange hover:bg-brand-orange/10 rounded-lg transition-colors flex-shrink-0"
+                        title="Khôi phục cảnh này từ snapshot"
+                    >
+                        <RotateCcw size={14} />
+                    </button>
+                )}
+            </div>
+
+            {textFields.map(field => (
+                <div key={field} className="mt-2 grid grid-cols-2 gap-2 text-[11px]">
+                    <div className="p-2 rounded-lg bg-red-500/5 border border-red-500/10 text-red-200/80 whitespace-pre-wrap">
+                        <div className="text-[9px] uppercase tracking-widest text-red-400/60 mb-1">{FIELD_LABELS[field]} (snapshot)</div>
+                        {String(diff.before?.[field] ?? '') || <em className="opacity-40">trống</em>}
+                    </div>
+                    <div className="p-2 rounded-lg bg-green-500/5 border border-green-500/10 text-green-200/80 whitespace-pre-wrap">
+                        <div className="text-[9px] uppercase tracking-widest text-green-400/60 mb-1">{FIELD_LABELS[field]} (hiện tại)</div>
+                        {String(diff.after?.[field] ?? '') || <em className="opacity-40">trống</em>}
+                    </div>
+                </div>
+            ))}
+
+            {imageFields.map(field => (
+                <div key={field} className="mt-2 grid grid-cols-2 gap-2">
+                    {[diff.before?.[field], diff.after?.[field]].map((img, idx) => (
+                        <div key={idx} className="rounded-lg overflow-hidden bg-black/40 border border-white/10 aspect-video flex items-center justify-center">
+                            {img
+                                ? <img src={img as string} alt={FIELD_LABELS[field]} className="w-full h-full object-contain" />
+                                : <span className="text-[10px] text-gray-600">Không có ảnh</span>}
+                        </div>
+                    ))}
+                </div>
+            ))}
+
+            {/* Removed / added scenes: show their image if any */}
+            {(diff.status === 'removed' || diff.status === 'added') && scene.generatedImage && (
+                <img src={scene.generatedImage} alt="" className="mt-2 h-24 rounded-lg object-cover opacity-80" />
+            )}
+        </div>
+    );
+};
+
+export const SnapshotsModal: React.FC<SnapshotsModalProps> = ({
+    isOpen, onClose, snapshots, isLoading, onRefresh, onCreate, onDelete,
+    comparedSnapshot, onCompare, onCloseComparison, diff, onRestoreScenes, onRestoreGroup
+}) => {
+    const [newName, setNewName] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [showUnchanged, setShowUnchanged] = useState(false);
+
+    useEffect(() => {
+        if (isOpen) onRefresh();
+    }, [isOpen, onRefresh]);
+
+    const handleCreate = async () => {
+        setIsSaving(true);
+        const info = await onCreate(newName);
+        setIsSaving(false);
+        if (info) setNewName('');
+        else alert('Không thể lưu snapshot.');
+    };
+
+    const handleCompare = async (id: string) => {
+        if (!(await onCompare(id))) alert('Không thể mở snapshot này.');
+    };
+
+    const visibleScenes = diff?.scenes.filter(d => showUnchanged || d.status !== 'unchanged') || [];
+    const changedGroups = diff?.groups.filter(g => g.status !== 'unchanged' && g.status !== 'added') || [];
+
+    return (
+        <Modal isOpen={isOpen} onClose={onClose} title="Snapshots" maxWidth={comparedSnapshot ? 'max-w-5xl' : 'max-w-lg'}>
+            {!comparedSnapshot ? (
+                <>
+                    <div className="flex gap-2 mb-4">
+                        <input
+                            type="text"
+                            placeholder='Tên snapshot (vd: "Trước góp ý của khách")'
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && !isSaving && handleCreate()}
+                            className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-brand-cream focus:outline-none focus:border-brand-orange/50 transition-all text-sm"
+                        />
+                        <button
+                            onClick={handleCreate}
+                            disabled={isSaving}
+                            className="px-4 py-2 bg-brand-orange/20 text-brand-orange border border-brand-orange/30 rounded-xl text-xs font-bold hover:bg-brand-orange/30 transition-colors disabled:opacity-40 flex items-center gap-2"
+                        >
+                            <Bookmark size={14} /> LƯU
+                        </button>
+                    </div>
+
+                    <div className="max-h-[60vh] overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+                        {isLoading && (
+                            <div className="py-20 text-center">
+                                <div className="w-8 h-8 border-2 border-brand-orange border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
+                            </div>
+                        )}
+
+                        {!isLoading && snapshots.length === 0 && (
+                            <div className="py-20 text-center border border-dashed border-white/10 rounded-2xl">
+                                <p className="text-brand-cream/40 text-sm">Chưa có snapshot nào cho dự án này.</p>
+                            </div>
+                        )}
+
+                        {!isLoading && snapshots.map(snap => (
+                            <div key={snap.id} className="group flex items-center justify-between p-4 bg-white/5 border border-white/5 rounded-xl hover:bg-white/10 hover:border-brand-orange/30 transition-all">
+                                <div className="flex-1 min-w-0 mr-4">
+                                    <h3 className="text-brand-cream font-bold truncate group-hover:text-brand-orange transition-colors">{snap.name}</h3>
+                                    <div className="flex items-center space-x-4 mt-1 text-[10px] text-brand-cream/40 uppercase tracking-widest">
+                                        <span className="flex items-center"><Calendar size={10} className="mr-1" />{formatDate(snap.timestamp)}</span>
+                                        <span>{snap.sceneCount} scenes</span>
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-2">
+                                    <button onClick={() => handleCompare(snap.id)} className="p-2 text-brand-orange hover:bg-brand-orange/10 rounded-lg transition-colors" title="So sánh với hiện tại">
+                                        <GitCompare size={18} />
+                                    </button>
+                                    <button
+                                        onClick={() => window.confirm(`Xóa snapshot "${snap.name}"?`) && onDelete(snap.id)}
+                                        className="p-2 text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                        title="Xóa snapshot"
+                                    >
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <>
+                    <div className="flex items-center justify-between mb-4">
+                        <button onClick={onCloseComparison} className="flex items-center gap-2 text-xs text-gray-400 hover:text-white transition-colors">
+                            <ArrowLeft size={14} /> Danh sách
+                        </button>
+                        <div className="text-xs text-gray-400">
+                            So sánh <span className="text-brand-orange font-bold">{comparedSnapshot.name}</span> → hiện tại
+                        </div>
+                    </div>
+
+                    {diff && (
+                        <div className="flex flex-wrap gap-2 mb-4">
+                            {(Object.keys(STATUS_STYLES) as SceneChangeStatus[]).filter(s => s !== 'unchanged').map(status => (
+                                <span key={status} className={`text-[10px] px-2 py-1 rounded-full border font-bold uppercase ${STATUS_STYLES[status].className}`}>
+                                    {STATUS_STYLES[status].label}: {diff.summary[status]}
+                                </span>
+                            ))}
+                            <label className="ml-auto flex items-center gap-2 text-[10px] text-gray-400 cursor-pointer">
+                                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                                Hiện cảnh không đổi ({diff.summary.unchanged})
+                            </label>
+                        </div>
+                    )}
+
+                    {changedGroups.length > 0 && (
+                        <div className="mb-4 flex flex-wrap gap-2">
+                            {changedGroups.map(g => (
+                                <button
+                                    key={g.groupId}
+                                    onClick={() => window.confirm(`Khôi phục toàn bộ nhóm "${g.name}" từ snapshot?`) && onRestoreGroup(g.groupId)}
+                                    className="px-3 py-1.5 text-[10px] font-bold rounded-lg bg-white/5 border border-white/10 text-gray-300 hover:border-brand-orange/40 hover:text-brand-orange transition-colors flex items-center gap-1"
+                                    title="Khôi phục nhóm từ snapshot"
+                                >
+                                    <RotateCcw size={10} /> {g.name} {g.status === 'removed' ? '(đã xóa)' : `(${g.sceneChanges})`}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <div className="max-h-[60vh] overflow-y-auto space-y-2 pr-2 custom-scrollbar">
+                        {visibleScenes.length === 0 && (
+                            <div className="py-20 text-center border border-dashed border-white/10 rounded-2xl">
+                                <p className="text-brand-cream/40 text-sm">Không có thay đổi nào.</p>
+                            </div>
+                        )}
+                        {visibleScenes.map(d => (
+                            <SceneDiffRow key={d.sceneId} diff={d} onRestore={() => onRestoreScenes([d.sceneId])} />
+                        ))}
+                    </div>
+                </>
+            )}
+
+            <div className="mt-6 flex justify-end">
+                <button onClick={onClose} className="px-6 py-2 text-brand-cream/40 hover:text-brand-cream text-sm font-bold transition-colors">
+                    ĐÓNG
+                </button>
+            </div>
+        </Modal>
+    );
+};
@@ -3,9 +3,10 @@ import { GoogleGenAI } from "@google/genai";
 import Modal from '../Modal';
 import { supabase } from '../../utils/supabaseClient';
 import { PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER } from '../../constants/presets';
-import { User, Key, Calendar, ShieldCheck, CreditCard, LogOut, BarChart3, Image, FileText, Layers, Package, Zap, Crown, CheckCircle, XCircle } from 'lucide-react';
+import { User, Key, Calendar, ShieldCheck, CreditCard, LogOut, BarChart3, Image, FileText, Layers, Package, Zap, Crown, CheckCircle, XCircle, FlaskConical } from 'lucide-react';
 import { GommoAI } from '../../utils/gommoAI';
 import { isImperialUltraEnabled, setImperialUltraEnabled, checkImperialHealth, getImperialStatus, setImperialApiKey, getImperialApiKey } from '../../utils/imperialUltraClient';
+import { isMockProviderEnabled, setMockProviderEnabled } from '../../utils/mockProvider';
 
 export interface UserProfileModalProps {
     isOpen: boolean;
@@ -83,6 +84,9 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
     const [imperialKeySaved, setImperialKeySaved] = useState(false);
     const hasAdminImperialKey = !!profile?.assigned_imperial_key;
 
+    // Mock provider (offline development)
+    const [mockEnabled, setMockEnabled] = useState(false);
+
     useEffect(() => {
         if (isOpen) {
             setCheckStatus('idle');
@@ -96,6 +100,7 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
             checkImperialHealth().then(healthy => setImperialHealthy(healthy));
             setLocalImperialKey(localStorage.getItem('imperialApiKey') || '');
             setImperialKeySaved(false);
+            setMockEnabled(isMockProviderEnabled());
         }
     }, [isOpen, apiKey]);
 
@@ -637,6 +642,36 @@ export const UserProfileModal: React.FC<UserProfileModalProps> = ({
                     )}
                 </div>
 
+                {/* Mock Provider Section */}
+                <div className="pt-4 border-t border-gray-700/50 mt-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center space-x-2">
+                            <div className="p-1.5 bg-fuchsia-500/10 rounded">
+                                <FlaskConical className="text-fuchsia-400" size={14} />
+                            </div>
+                            <h4 className="text-xs font-bold text-gray-300 uppercase">Mock Provider (Offline)</h4>
+                        </div>
+                        <button
+                            onClick={() => {
+                                const newState = !mockEnabled;
+                                setMockEnabled(newState);
+                                setMockProviderEnabled(newState);
+                            }}
+                            className={`relative w-12 h-6 rounded-full transition-colors ${mockEnabled ? 'bg-fuchsia-500' : 'bg-gray-700'}`}
+                        >
+                            <span className={`absolute top-1 w-4 h-4 bg-white rounded-full transition-transform ${mockEnabled ? 'right-1' : 'left-1'}`} />
+                        </button>
+                    </div>
+                    <p className="text-[11px] text-gray-500">
+                        Không gọi API thật: ảnh placeholder cố định theo prompt và phản hồi JSON mẫu. Dùng để chạy thử toàn bộ pipeline storyboard khi offline.
+                    </p>
+                    {mockEnabled && (
+                        <div className="bg-fuchsia-900/10 border border-fuchsia-700/30 rounded-lg p-2 mt-2 text-[11px] text-fuchsia-400/80">
+                            🧪 Mock Provider đang bật. Mọi ảnh và văn bản AI đều là dữ liệu giả lập.
+                        </div>
+                    )}
+                </div>
+
                 {/* Gommo AI Section */}
                 <div className="space-y-3">
                     <div className="flex items-center space-x-2">
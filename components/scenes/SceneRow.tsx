@@ -1,7 +1,12 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { GripVertical, Copy, Download, Layers, Play, Plus, RefreshCw, Trash, User, Box, Sparkles, Wand2, Image as ImageIcon, Upload } from 'lucide-react';
+import { GripVertical, Copy, Download, Layers, Play, Plus, RefreshCw, Trash, User, Box, Sparkles, Wand2, Image as ImageIcon, Upload, Lock } from 'lucide-react';
 import { Scene, Character, Product } from '../../types';
 import { QualityRating } from '../common/QualityRating';
+import { selectHeroTake, removeVideoTake } from '../../utils/videoJobs';
+import { getChainPredecessor, getChainStartSource } from '../../utils/frameChain';
+import { getVideoModel, resolveVideoDuration, VideoModelOption } from '../../utils/videoProviders';
+import { VIDEO_MODELS } from '../../utils/appConstants';
+import { getCurrentVoiceAudio, getVoiceAudioDuration } from '../../utils/voiceover';
 
 const LiveTimer: React.FC<{ startTime: number }> = ({ startTime }) => {
     const [elapsed, setElapsed] = useState(0);
@@ -52,12 +57,20 @@ export interface SceneRowProps {
     onDragOver: (index: number) => void;
     onDrop: (index: number) => void;
     generateVeoPrompt: (sceneId: string) => void;
+    generateVideo?: (sceneId: string) => void; // Queue a new Veo take
+    videoModels?: VideoModelOption[];
+    defaultVideoModel?: string; // Project video model, used when the scene has none
+    aspectRatio?: string;
+    onExtractFrame?: (sceneId: string) => void; // Open the frame extractor on this scene's video
+    generateVoice?: (sceneId: string) => void; // TTS for the scene's narration and dialogue
+    onClearVoice?: (sceneId: string) => void;
     onCopyPreviousStyle?: () => void;
     onInsertAngles?: (sceneId: string, selections: { value: string; customPrompt?: string }[], sourceImage: string) => void;
     onExpandScene?: (sceneId: string) => void;
     isExpandingSequence?: boolean;
     scriptLanguage?: string; // 'vietnamese' | 'language1' | 'custom'
     customScriptLanguage?: string;
+    lockedBy?: string; // Name of the teammate currently generating this scene
 }
 
 export const SceneRow: React.FC<SceneRowProps> = ({
@@ -65,12 +78,20 @@ export const SceneRow: React.FC<SceneRowProps> = ({
     generateImage, generateEndFrame, openImageViewer,
     onDragStart, onDragOver, onDrop,
     generateVeoPrompt,
+    generateVideo,
+    videoModels = VIDEO_MODELS,
+    defaultVideoModel,
+    aspectRatio,
+    onExtractFrame,
+    generateVoice,
+    onClearVoice,
     onCopyPreviousStyle,
     onInsertAngles,
     onExpandScene,
     isExpandingSequence,
     scriptLanguage = 'vietnamese',
-    customScriptLanguage
+    customScriptLanguage,
+    lockedBy
 }) => {
     const endFrameInputRef = useRef<HTMLInputElement>(null);
     const imageUploadInputRef = useRef<HTMLInputElement>(null);
@@ -79,6 +100,12 @@ export const SceneRow: React.FC<SceneRowProps> = ({
     const [selectedAngles, setSelectedAngles] = useState<string[]>([]);
     const [customAnglePrompt, setCustomAnglePrompt] = useState('');
     const [showSecondaryLang, setShowSecondaryLang] = useState(false);
+    const isVideoPending = scene.videoStatus === 'queued' || scene.videoStatus === 'starting' || scene.videoStatus === 'active';
+    const chainPredecessor = getChainPredecessor(scenes, sceneGroups, scene.id);
+    const chainSource = chainPredecessor ? getChainStartSource(chainPredecessor) : null;
+    const videoModel = getVideoModel(scene.videoModel || defaultVideoModel, videoModels);
+    const videoCaps = videoModel.capabilities;
+    const videoDuration = resolveVideoDuration(videoCaps, scene.videoDuration);
 
     // Handle main image upload
     const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -145,6 +172,11 @@ export const SceneRow: React.FC<SceneRowProps> = ({
             {/* Scene Number */}
             <div className="md:col-span-1 flex flex-col items-center space-y-2">
                 <div className="bg-gray-700 rounded-full w-8 h-8 flex items-center justify-center font-bold text-gray-300 text-sm">{index + 1}</div>
+                {lockedBy && (
+                    <div title={`${lockedBy} đang tạo ảnh cho cảnh này`} className="flex items-center gap-1 text-[9px] font-bold text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded px-1 py-0.5 max-w-full truncate">
+                        <Lock size={9} /> {lockedBy}
+                    </div>
+                )}
                 <input
                     type="text"
                     value={scene.sceneNumber}
@@ -202,6 +234,39 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                         )}
                     </div>
                 )}
+                {/* TTS voiceover: one clip per narration / dialogue line */}
+                {generateVoice && (scene.voiceAudio?.length || scene.voiceOverText || scene.voiceover || scene.dialogues?.length) ? (
+                    <div className="space-y-1 bg-violet-900/10 border border-violet-500/20 rounded p-1.5">
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={() => generateVoice(scene.id)}
+                                disabled={scene.isVoiceGenerating}
+                                className="text-[9px] font-bold text-violet-400 hover:text-violet-200 transition-colors disabled:opacity-50"
+                            >
+                                {scene.isVoiceGenerating ? '⏳ Đang tạo giọng...' : scene.voiceAudio?.length ? '🔄 Đọc lại' : '🎙️ Tạo giọng đọc'}
+                            </button>
+                            {getCurrentVoiceAudio(scene) ? (
+                                <span className="text-[9px] font-mono text-violet-300" title="Độ dài thực của audio (thay cho ước tính)">
+                                    {getVoiceAudioDuration(scene.voiceAudio).toFixed(1)}s
+                                </span>
+                            ) : null}
+                            {onClearVoice && scene.voiceAudio?.length ? (
+                                <button onClick={() => onClearVoice(scene.id)} className="ml-auto text-gray-500 hover:text-red-400" title="Xóa giọng đọc">
+                                    <Trash size={10} />
+                                </button>
+                            ) : null}
+                        </div>
+                        {scene.voiceAudio?.map(clip => (
+                            <div key={clip.id} className="flex items-center gap-1">
+                                <span className="text-[8px] text-violet-300 w-14 truncate" title={clip.text}>
+                                    {clip.kind === 'narration' ? 'VO' : characters.find(c => c.id === clip.characterId)?.name || 'Thoại'}
+                                </span>
+                                <audio src={clip.url} controls preload="none" className="h-6 flex-1 min-w-0" />
+                            </div>
+                        ))}
+                        {scene.voiceError && <div className="text-[8px] text-red-400">❌ {scene.voiceError}</div>}
+                    </div>
+                ) : null}
                 {/* Primary Script Field - Dynamic based on scriptLanguage */}
                 {(() => {
                     // Language mapping
@@ -222,8 +287,8 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                         <>
                             <div className="relative">
                                 <ExpandableTextarea
-                                    value={useVietnameseField ? scene.vietnamese : scene.language1}
-                                    onChange={(val) => updateScene(scene.id, useVietnameseField ? { vietnamese: val } : { language1: val })}
+                                    value={scene.scriptText}
+                                    onChange={(val) => updateScene(scene.id, { scriptText: val })}
                                     placeholder={`Dialogue / Lời thoại (${currentLang.label})...`}
                                     rows={scene.voiceOverText ? 2 : 3}
                                     className="w-full bg-gray-900 border border-gray-600 rounded p-2 pt-4 text-xs text-white focus:border-green-500 resize-none"
@@ -252,8 +317,8 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                             {/* Secondary Script Field (hidden by default) */}
                             {showSecondaryLang && (
                                 <ExpandableTextarea
-                                    value={useVietnameseField ? scene.language1 : scene.vietnamese}
-                                    onChange={(val) => updateScene(scene.id, useVietnameseField ? { language1: val } : { vietnamese: val })}
+                                    value={scene.scriptTranslation}
+                                    onChange={(val) => updateScene(scene.id, { scriptTranslation: val })}
                                     placeholder={useVietnameseField ? 'English script...' : 'Lời thoại (Việt)...'}
                                     rows={2}
                                     className="w-full bg-gray-900/50 border border-gray-700/50 rounded p-2 text-xs text-gray-400 focus:border-green-500 resize-none"
@@ -378,13 +443,25 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                             <option key={p.value} value={p.value}>{p.label}</option>
                         ))}
                     </select>
-                    <button
-                        onClick={() => generateVeoPrompt(scene.id)}
-                        className="text-[10px] font-bold text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
-                        title="Tạo lại Veo Prompt"
-                    >
-                        <span>🔄 Gen</span>
-                    </button>
+                    <div className="flex items-center gap-2">
+                        <button
+                            onClick={() => generateVeoPrompt(scene.id)}
+                            className="text-[10px] font-bold text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
+                            title="Tạo lại Veo Prompt"
+                        >
+                            <span>🔄 Gen</span>
+                        </button>
+                        {generateVideo && (
+                            <button
+                                onClick={() => generateVideo(scene.id)}
+                                disabled={isVideoPending}
+                                className="text-[10px] font-bold text-red-400 hover:text-red-300 flex items-center gap-1 transition-colors disabled:opacity-40"
+                                title={scene.videoHistory?.length ? 'Tạo thêm một take video' : 'Tạo video Veo'}
+                            >
+                                <span>🎬 {scene.videoHistory?.length ? 'Take mới' : 'Video'}</span>
+                            </button>
+                        )}
+                    </div>
                 </div>
                 <ExpandableTextarea
                     value={scene.veoPrompt}
@@ -394,6 +471,38 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                     className="w-full h-[130px] bg-gray-900 border border-blue-900/30 rounded p-2 text-[11px] text-blue-200 focus:border-blue-500 font-mono resize-none leading-relaxed"
                     title="Veo Video Prompt"
                 />
+                <div className="flex items-center gap-1.5">
+                    <select
+                        value={scene.videoModel || ''}
+                        onChange={(e) => updateScene(scene.id, { videoModel: e.target.value || undefined })}
+                        className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[9px] text-gray-300 outline-none focus:border-blue-500"
+                        title={videoModel.description || 'Model video'}
+                    >
+                        <option value="">Mặc định · {getVideoModel(defaultVideoModel, videoModels).label}</option>
+                        {videoModels.map(m => (
+                            <option key={m.value} value={m.value} disabled={m.isHeader}>{m.label}</option>
+                        ))}
+                    </select>
+                    <select
+                        value={videoDuration}
+                        onChange={(e) => updateScene(scene.id, { videoDuration: Number(e.target.value) })}
+                        disabled={videoCaps.durations.length < 2}
+                        className="bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[9px] text-gray-300 outline-none focus:border-blue-500 disabled:opacity-60"
+                        title="Độ dài clip"
+                    >
+                        {videoCaps.durations.map(d => (
+                            <option key={d} value={d}>{d}s</option>
+                        ))}
+                    </select>
+                </div>
+                {aspectRatio && !videoCaps.aspectRatios.includes(aspectRatio) && (
+                    <div className="text-[8px] text-amber-400" title={`Tỉ lệ hỗ trợ: ${videoCaps.aspectRatios.join(', ')}`}>
+                        ⚠️ Model không hỗ trợ {aspectRatio}, tỉ lệ video sẽ bị quy đổi
+                    </div>
+                )}
+                {!videoCaps.supportsStartFrame && (
+                    <div className="text-[8px] text-gray-500">Text → Video: model không dùng ảnh cảnh làm khung đầu</div>
+                )}
             </div>
 
             {/* Characters & Products */}
@@ -447,11 +556,16 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                 <div className="flex items-center gap-2 bg-gray-900/60 p-1.5 rounded border border-gray-700/50">
                     <span className="text-[9px] text-gray-500 font-semibold">🎥 Veo:</span>
                     {VEO_MODES.map(mode => (
-                        <label key={mode.value} className="flex items-center gap-1 cursor-pointer">
+                        <label
+                            key={mode.value}
+                            className={`flex items-center gap-1 ${mode.value === 'start-end-frame' && !videoCaps.supportsEndFrame ? 'opacity-40 cursor-not-allowed' : 'cursor-pointer'}`}
+                            title={mode.value === 'start-end-frame' && !videoCaps.supportsEndFrame ? `${videoModel.label} không hỗ trợ end frame` : mode.hint}
+                        >
                             <input
                                 type="radio"
                                 name={`veo-mode-${scene.id}`}
                                 value={mode.value}
+                                disabled={mode.value === 'start-end-frame' && !videoCaps.supportsEndFrame}
                                 checked={(scene.veoMode || 'image-to-video') === mode.value}
                                 onChange={() => updateScene(scene.id, {
                                     veoMode: mode.value as 'image-to-video' | 'start-end-frame',
@@ -464,6 +578,21 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                     ))}
                 </div>
 
+                {/* Chained group: this clip starts where the previous one ends */}
+                {chainPredecessor && chainSource && (
+                    <div className="flex items-center gap-2 px-1.5 py-1 rounded bg-green-900/20 border border-green-700/40">
+                        {scene.chainedStartFrame && scene.chainedFromSceneId === chainPredecessor.id && (
+                            <img src={scene.chainedStartFrame} alt="Chained start" className="h-6 aspect-video object-cover rounded border border-green-600/60" />
+                        )}
+                        <span className="text-[9px] text-green-300 font-bold">
+                            🔗 Bắt đầu từ cảnh {chainPredecessor.sceneNumber}
+                        </span>
+                        <span className="text-[8px] text-gray-400">
+                            {chainSource.type === 'end-frame' ? '(end frame)' : chainSource.type === 'video' ? '(khung cuối video)' : '(chờ cảnh trước)'}
+                        </span>
+                    </div>
+                )}
+
                 <div className="flex gap-2">
                     <div
                         className={`relative flex-1 aspect-video bg-black rounded border overflow-hidden group cursor-pointer transition-colors ${scene.imageRole === 'start-frame' ? 'border-green-500' :
@@ -496,7 +625,7 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                         )}
 
 
-                        {scene.isGenerating && !scene.videoStatus ? (
+                        {scene.isGenerating ? (
                             <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900/80 z-10 backdrop-blur-[1px]">
                                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-500 mb-2 shadow-[0_0_15px_rgba(34,197,94,0.4)]"></div>
                                 <div className="text-[10px] text-green-400 font-mono flex flex-col items-center gap-1">
@@ -689,20 +818,62 @@ export const SceneRow: React.FC<SceneRowProps> = ({
                 </div>
 
                 {/* Video Generation Display */}
-                {(scene.generatedVideo || (scene.isGenerating && (scene.videoStatus === 'starting' || scene.videoStatus === 'active'))) && (
+                {(scene.generatedVideo || isVideoPending) && (
                     <div className="relative w-full aspect-video bg-black rounded border border-gray-600 overflow-hidden mt-1">
-                        {scene.isGenerating && (scene.videoStatus === 'starting' || scene.videoStatus === 'active') ? (
-                            <div className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900/90 z-10">
-                                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-500 mb-2"></div>
-                                <span className="text-[10px] text-red-400 animate-pulse">Generating Video...</span>
-                            </div>
-                        ) : scene.generatedVideo ? (
+                        {scene.generatedVideo && (
                             <video
+                                key={scene.generatedVideo}
                                 src={scene.generatedVideo}
                                 controls
                                 className="w-full h-full object-cover"
                             />
-                        ) : null}
+                        )}
+                        {scene.generatedVideo && onExtractFrame && (
+                            <button
+                                onClick={() => onExtractFrame(scene.id)}
+                                className="absolute top-1 left-1 z-10 px-1.5 py-0.5 rounded bg-black/70 hover:bg-brand-orange text-white text-[9px] font-bold transition-colors"
+                                title="Trích khung hình từ video vào storyboard"
+                            >
+                                🖼 Trích khung
+                            </button>
+                        )}
+                        {isVideoPending && (
+                            <div className={`absolute z-10 flex items-center gap-2 ${scene.generatedVideo ? 'top-1 right-1 px-2 py-0.5 rounded bg-black/70' : 'inset-0 flex-col justify-center bg-gray-900/90'}`}>
+                                <div className={`animate-spin rounded-full border-b-2 border-red-500 ${scene.generatedVideo ? 'h-3 w-3' : 'h-8 w-8'}`}></div>
+                                <span className="text-[10px] text-red-400 animate-pulse">
+                                    {scene.videoStatus === 'queued' ? 'Đang chờ...' : 'Generating Video...'}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {/* Video takes: pick the hero */}
+                {scene.videoHistory && scene.videoHistory.length > 1 && (
+                    <div className="flex flex-wrap items-center gap-1 mt-1">
+                        <span className="text-[8px] text-gray-500 font-bold uppercase">Takes</span>
+                        {scene.videoHistory.map((take, takeIndex) => (
+                            <div key={take.id} className="flex items-center">
+                                <button
+                                    onClick={() => updateScene(scene.id, selectHeroTake(scene, take.id))}
+                                    className={`px-1.5 py-0.5 rounded-l text-[9px] font-bold transition-colors ${take.id === scene.heroTakeId ? 'bg-red-600 text-white' : 'bg-gray-800 text-gray-400 hover:bg-gray-700'}`}
+                                    title={`${new Date(take.createdAt).toLocaleString()} · ${take.prompt.slice(0, 80)}`}
+                                >
+                                    {take.id === scene.heroTakeId ? '★' : ''} T{takeIndex + 1}
+                                </button>
+                                <button
+                                    onClick={() => updateScene(scene.id, removeVideoTake(scene, take.id))}
+                                    className="px-1 py-0.5 rounded-r text-[9px] bg-gray-800 text-gray-600 hover:text-red-400"
+                                    title="Xóa take"
+                                >✕</button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {scene.videoError && (
+                    <div className={`p-1.5 text-center rounded mt-1 text-[10px] ${scene.videoStatus === 'failed' ? 'bg-red-900/70 text-red-200' : 'bg-yellow-900/50 text-yellow-200'}`}>
+                        🎬 {scene.videoError}
                     </div>
                 )}
 
@@ -1,5 +1,5 @@
 import React, { useState, useRef } from 'react';
-import { Trash2, Brush, GripVertical, Download, Pencil, Layers, X, Eye, Sparkles, Upload } from 'lucide-react';
+import { Trash2, Brush, GripVertical, Download, Pencil, Layers, X, Eye, Sparkles, Upload, Lock } from 'lucide-react';
 import { SceneRowProps } from './SceneRow';
 import { ExpandableTextarea } from '../common/ExpandableTextarea';
 
@@ -26,7 +26,8 @@ export const StoryBoardCard: React.FC<StoryBoardCardProps> = ({
     onInsertAngles,
     onEditImage,
     onExpandScene,
-    isExpandingSequence
+    isExpandingSequence,
+    lockedBy
 }) => {
     const [showAnglesMenu, setShowAnglesMenu] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
@@ -241,8 +242,8 @@ export const StoryBoardCard: React.FC<StoryBoardCardProps> = ({
                     </div>
                 )}
                 <ExpandableTextarea
-                    value={scene.language1 || scene.vietnamese || ''}
-                    onChange={(val) => updateScene(scene.id, { language1: val })}
+                    value={scene.scriptText || ''}
+                    onChange={(val) => updateScene(scene.id, { scriptText: val })}
                     placeholder="Nội dung kịch bản..."
                     rows={3}
                     className="w-full bg-transparent border-none p-0 text-xs text-gray-300 focus:ring-0 resize-none overflow-hidden scrollbar-none italic leading-relaxed"
@@ -253,6 +254,11 @@ export const StoryBoardCard: React.FC<StoryBoardCardProps> = ({
                         <span className="text-[10px] font-black text-brand-orange bg-brand-orange/10 px-2 py-0.5 rounded-md border border-brand-orange/20">
                             {scene.sceneNumber || (index + 1)}
                         </span>
+                        {lockedBy && (
+                            <span title={`${lockedBy} đang tạo ảnh cho cảnh này`} className="flex items-center gap-0.5 text-[8px] font-black text-amber-400 bg-amber-500/10 px-1.5 py-0.5 rounded border border-amber-500/20">
+                                <Lock size={8} /> {lockedBy}
+                            </span>
+                        )}
                         {scene.groupId && (
                             <span className="text-[8px] font-black text-purple-400 bg-purple-500/10 px-1.5 py-0.5 rounded border border-purple-500/20 uppercase">
                                 {sceneGroups?.find(g => g.id === scene.groupId)?.name}
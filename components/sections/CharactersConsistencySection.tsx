@@ -3,6 +3,7 @@ import { Plus } from 'lucide-react';
 import { SectionTitle } from '../common/SectionTitle';
 import { CharacterCard } from '../characters/CharacterCard';
 import { Character } from '../../types';
+import type { TtsVoice } from '../../utils/voiceover';
 
 interface CharactersConsistencySectionProps {
     characters: Character[];
@@ -11,6 +12,9 @@ interface CharactersConsistencySectionProps {
     onUpdateCharacter: (id: string, updates: Partial<Character>) => void;
     onSetEditingCharacterId: (id: string) => void;
     onAddCharacter: () => void;
+    voices?: TtsVoice[];
+    narratorVoiceId?: string;
+    onNarratorVoiceChange?: (voiceId: string) => void;
 }
 
 export const CharactersConsistencySection: React.FC<CharactersConsistencySectionProps> = ({
@@ -19,11 +23,29 @@ export const CharactersConsistencySection: React.FC<CharactersConsistencySection
     onDeleteCharacter,
     onUpdateCharacter,
     onSetEditingCharacterId,
-    onAddCharacter
+    onAddCharacter,
+    voices,
+    narratorVoiceId,
+    onNarratorVoiceChange
 }) => {
     return (
         <div className="my-16">
             <SectionTitle>Characters Consistency</SectionTitle>
+            {voices && voices.length > 0 && onNarratorVoiceChange && (
+                <div className="flex items-center gap-2 mb-4">
+                    <span className="text-xs text-gray-400">🎙️ Người dẫn chuyện:</span>
+                    <select
+                        value={narratorVoiceId || ''}
+                        onChange={(e) => onNarratorVoiceChange(e.target.value)}
+                        className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-gray-300 outline-none focus:border-brand-orange"
+                    >
+                        <option value="">Mặc định · {voices[0].label}</option>
+                        {voices.map(v => (
+                            <option key={v.value} value={v.value}>{v.label}</option>
+                        ))}
+                    </select>
+                </div>
+            )}
             <div className="grid md:grid-cols-3 gap-6">
                 {characters.map((char, index) => (
                     <CharacterCard
@@ -34,6 +56,7 @@ export const CharactersConsistencySection: React.FC<CharactersConsistencySection
                         onDelete={() => onDeleteCharacter(char.id)}
                         onValuesChange={onUpdateCharacter}
                         onEdit={() => onSetEditingCharacterId(char.id)}
+                        voices={voices}
                     />
                 ))}
                 {/* Add Character Button */}
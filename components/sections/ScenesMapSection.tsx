@@ -1,9 +1,14 @@
 import React from 'react';
-import { Table, LayoutGrid, Trash2, Plus, ImageMinus, ChevronDown, ChevronRight, Zap, Image as ImageIcon, Wind, Clock, Sun, StopCircle, MapPin } from 'lucide-react';
+import { Table, LayoutGrid, Trash2, Plus, ImageMinus, ChevronDown, ChevronRight, Zap, Image as ImageIcon, Wind, Clock, Sun, StopCircle, MapPin, ListOrdered, Play, Wallet, Film, RefreshCw, Mic } from 'lucide-react';
 import { SceneRow } from '../scenes/SceneRow';
 import { StoryBoardCard } from '../scenes/StoryBoardCard';
 import { Tooltip } from '../common/Tooltip';
-import { Scene, Character, Product, SceneGroup } from '../../types';
+import { Scene, Character, Product, SceneGroup, CreditBudget } from '../../types';
+import { GenerationQueue, getQueueProgress, formatEta } from '../../utils/generationQueue';
+import { VideoJobQueue, getVideoJobCounts } from '../../utils/videoJobs';
+import type { VideoModelOption } from '../../utils/videoProviders';
+import { DEFAULT_VIDEO_MODEL } from '../../utils/appConstants';
+import { checkBudget } from '../../utils/creditBudget';
 import { PRIMARY_GRADIENT, PRIMARY_GRADIENT_HOVER, VEO_PRESETS } from '../../constants/presets';
 
 interface ScenesMapSectionProps {
@@ -23,6 +28,14 @@ interface ScenesMapSectionProps {
     isBatchGenerating: boolean;
     isStopping: boolean;
     stopBatchGeneration: () => void;
+    generationQueue?: GenerationQueue;    // Persistent batch queue (status, ETA)
+    onOpenGenerationQueue?: () => void;
+    onResumeGenerationQueue?: () => void;
+    creditsSpent?: number;                // Estimated credits spent on this project
+    creditBudget?: CreditBudget;
+    onOpenBudget?: () => void;
+    onOpenAnimatic?: () => void;          // Timeline preview of the cut
+    onExtractVideoFrame?: (sceneId: string) => void; // Grab a frame of a scene's video into the storyboard
     handleGenerateAllVeoPrompts: () => void;
     generateVeoPrompt: (sceneId: string) => void;
     suggestVeoPresets: () => void;
@@ -34,12 +47,25 @@ interface ScenesMapSectionProps {
     stopVeoGeneration?: () => void;
     handleGenerateAllVideos: () => void;
     isVideoGenerating: boolean;
+    videoJobs?: VideoJobQueue;            // Veo job tracker (queued / running / failed counts)
+    generateSceneVideo?: (sceneId: string) => void;
+    generateSceneVoice?: (sceneId: string) => void;
+    onClearSceneVoice?: (sceneId: string) => void;
+    onGenerateAllVoices?: () => void;
+    isVoiceBatchRunning?: boolean;
+    onStopVoiceGeneration?: () => void;
+    videoModels?: VideoModelOption[];     // Built-in + Gommo video models
+    videoModel?: string;                  // Project default video model
+    onVideoModelChange?: (model: string) => void;
+    aspectRatio?: string;
+    onCancelVideoJobs?: () => void;
+    onRetryFailedVideos?: () => void;
     addScene: () => void;
     detailedScript: string;
     onDetailedScriptChange: (val: string) => void;
     onCleanAll: () => void;
     createGroup: (name: string, description?: string) => string;
-    updateGroup: (id: string, updates: Partial<{ name: string; description: string }>) => void;
+    updateGroup: (id: string, updates: Partial<{ name: string; description: string; chainFrames: boolean; bars: number }>) => void;
     deleteGroup: (id: string) => void;
     assignSceneToGroup: (sceneId: string, groupId: string | undefined) => void;
     draggedSceneIndex: number | null;
@@ -55,6 +81,7 @@ interface ScenesMapSectionProps {
     onOpenLocationLibrary?: () => void;  // NEW: Open Location Library panel
     locationCount?: number;               // NEW: Number of locations in library
     onEditSceneImage?: (scene: any) => void; // NEW: Edit scene image in Advanced Image Editor
+    sceneLocks?: Record<string, string>;  // sceneId -> teammate generating it (realtime collaboration)
 }
 
 export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
@@ -73,6 +100,14 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
     isBatchGenerating,
     isStopping,
     stopBatchGeneration,
+    generationQueue,
+    onOpenGenerationQueue,
+    onResumeGenerationQueue,
+    creditsSpent = 0,
+    creditBudget,
+    onOpenBudget,
+    onOpenAnimatic,
+    onExtractVideoFrame,
     handleGenerateAllVeoPrompts,
     generateVeoPrompt,
     suggestVeoPresets,
@@ -82,6 +117,19 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
     stopVeoGeneration,
     handleGenerateAllVideos,
     isVideoGenerating,
+    videoJobs,
+    generateSceneVideo,
+    generateSceneVoice,
+    onClearSceneVoice,
+    onGenerateAllVoices,
+    isVoiceBatchRunning,
+    onStopVoiceGeneration,
+    videoModels,
+    videoModel,
+    onVideoModelChange,
+    aspectRatio,
+    onCancelVideoJobs,
+    onRetryFailedVideos,
     addScene,
     detailedScript,
     onDetailedScriptChange,
@@ -105,13 +153,22 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
     customScriptLanguage,
     onOpenLocationLibrary,
     locationCount = 0,
-    onEditSceneImage
+    onEditSceneImage,
+    sceneLocks
 }) => {
     const [collapsedGroups, setCollapsedGroups] = React.useState<Record<string, boolean>>({});
     const [activeGroupMenu, setActiveGroupMenu] = React.useState<string | null>(null);
     const [showDOP, setShowDOP] = React.useState(false);
     const [showDetailedScript, setShowDetailedScript] = React.useState(false);
 
+    const budgetCheck = checkBudget(creditBudget, creditsSpent, 0);
+
+    const queueProgress = generationQueue && generationQueue.jobs.length > 0
+        ? getQueueProgress(generationQueue, scenes)
+        : null;
+
+    const videoCounts = videoJobs ? getVideoJobCounts(videoJobs) : null;
+
     const toggleGroupCollapse = (groupId: string | undefined) => {
         const id = groupId || 'none';
         setCollapsedGroups(prev => ({ ...prev, [id]: !prev[id] }));
@@ -197,17 +254,62 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
                             </button>
                         )}
 
+                        <div className="w-px h-4 bg-gray-800 mx-1"></div>
+
+                        {onGenerateAllVoices && (
+                            <button
+                                onClick={isVoiceBatchRunning ? onStopVoiceGeneration : onGenerateAllVoices}
+                                className={`h-9 px-4 font-black text-[9px] text-brand-cream rounded-lg hover:bg-white/5 transition-all duration-300 uppercase tracking-widest flex items-center gap-2 ${isVoiceBatchRunning ? 'text-violet-400' : 'text-gray-400'}`}
+                                title={isVoiceBatchRunning ? 'Dừng tạo giọng đọc' : 'Tạo giọng đọc (TTS) cho các cảnh chưa có audio'}
+                            >
+                                {isVoiceBatchRunning ? <StopCircle size={14} /> : <Mic size={14} />}
+                                {isVoiceBatchRunning ? 'Đang đọc...' : 'Voice'}
+                            </button>
+                        )}
+
                         {/* TEMPORARILY HIDDEN: Video Feature
                         <div className="w-px h-4 bg-gray-800 mx-1"></div>
 
+                        {videoModels && onVideoModelChange && (
+                            <select
+                                value={videoModel || DEFAULT_VIDEO_MODEL}
+                                onChange={(e) => onVideoModelChange(e.target.value)}
+                                className="h-7 max-w-[140px] bg-gray-900 border border-gray-800 rounded px-1.5 text-[9px] text-gray-300 outline-none focus:border-brand-orange font-bold"
+                                title="Model video mặc định (mỗi cảnh có thể chọn riêng)"
+                            >
+                                {videoModels.map(m => (
+                                    <option key={m.value} value={m.value} disabled={m.isHeader}>{m.label}</option>
+                                ))}
+                            </select>
+                        )}
                         <button
                             onClick={handleGenerateAllVideos}
-                            disabled={isVideoGenerating}
                             className={`h-9 px-4 font-black text-[9px] text-brand-cream rounded-lg hover:bg-white/5 transition-all duration-300 disabled:opacity-50 uppercase tracking-widest flex items-center gap-2 ${isVideoGenerating ? 'text-brand-orange' : 'text-gray-400'}`}
+                            title={videoCounts ? `${videoCounts.running} đang chạy · ${videoCounts.queued} chờ · ${videoCounts.succeeded} xong · ${videoCounts.failed} lỗi` : undefined}
                         >
                             <Wind size={14} />
-                            {isVideoGenerating ? '3. Video...' : '3. Video'}
+                            {isVideoGenerating && videoCounts ? `3. Video ${videoCounts.succeeded}/${videoCounts.succeeded + videoCounts.running + videoCounts.queued}` : '3. Video'}
                         </button>
+                        {videoCounts && videoCounts.queued > 0 && onCancelVideoJobs && (
+                            <button
+                                onClick={onCancelVideoJobs}
+                                className="h-9 px-3 bg-red-500/20 hover:bg-red-500/40 text-red-300 rounded-lg transition-all flex items-center gap-1 text-[9px] font-bold uppercase"
+                                title="Hủy các video đang chờ (video đang chạy vẫn hoàn tất)"
+                            >
+                                <StopCircle size={14} />
+                                Hủy ({videoCounts.queued})
+                            </button>
+                        )}
+                        {videoCounts && videoCounts.failed > 0 && onRetryFailedVideos && (
+                            <button
+                                onClick={onRetryFailedVideos}
+                                className="h-9 px-3 bg-yellow-500/20 hover:bg-yellow-500/40 text-yellow-300 rounded-lg transition-all flex items-center gap-1 text-[9px] font-bold uppercase"
+                                title="Thử lại các video lỗi"
+                            >
+                                <RefreshCw size={14} />
+                                Lỗi ({videoCounts.failed})
+                            </button>
+                        )}
                         */}
                     </div>
 
@@ -236,6 +338,54 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
                         <ImageIcon size={14} />
                     </button>
 
+                    {onOpenAnimatic && (
+                        <button
+                            onClick={onOpenAnimatic}
+                            disabled={scenes.length === 0}
+                            className="h-9 px-3 flex items-center gap-1.5 text-[9px] font-bold text-gray-300 hover:text-white bg-gray-900 border border-gray-700 rounded-lg transition-all uppercase disabled:opacity-40"
+                            title="Xem animatic (timeline)"
+                        >
+                            <Film size={14} />
+                            <span>Animatic</span>
+                        </button>
+                    )}
+
+                    {onOpenBudget && (
+                        <button
+                            onClick={onOpenBudget}
+                            className={`h-9 px-3 flex items-center gap-1.5 text-[9px] font-bold bg-gray-900 border rounded-lg transition-all uppercase ${budgetCheck.level === 'exceeded' ? 'text-red-400 border-red-900/50' : budgetCheck.level === 'warning' ? 'text-amber-400 border-amber-900/50' : 'text-gray-300 hover:text-white border-gray-700'}`}
+                            title="Ngân sách credits"
+                        >
+                            <Wallet size={14} />
+                            <span className="font-mono normal-case">{creditsSpent.toLocaleString()}{creditBudget?.projectLimit ? ` / ${creditBudget.projectLimit.toLocaleString()}` : ''}</span>
+                        </button>
+                    )}
+
+                    {queueProgress && (
+                        <button
+                            onClick={onOpenGenerationQueue}
+                            className="h-9 px-3 flex items-center gap-1.5 text-[9px] font-bold text-gray-300 hover:text-white bg-gray-900 border border-gray-700 rounded-lg transition-all uppercase"
+                            title="Hàng đợi tạo ảnh"
+                        >
+                            <ListOrdered size={14} />
+                            <span>{queueProgress.done}/{queueProgress.total}</span>
+                            {queueProgress.remaining > 0 && queueProgress.etaMs !== null && (
+                                <span className="text-gray-500 normal-case">~{formatEta(queueProgress.etaMs)}</span>
+                            )}
+                            {queueProgress.failed > 0 && <span className="text-red-400">{queueProgress.failed} lỗi</span>}
+                        </button>
+                    )}
+
+                    {!isBatchGenerating && generationQueue?.status === 'paused' && queueProgress && queueProgress.remaining > 0 && onResumeGenerationQueue && (
+                        <button
+                            onClick={onResumeGenerationQueue}
+                            className="h-9 px-4 flex items-center gap-1.5 font-black text-[9px] text-white rounded-lg bg-green-600 hover:bg-green-700 transition-all uppercase tracking-widest"
+                        >
+                            <Play size={12} />
+                            Tiếp tục
+                        </button>
+                    )}
+
                     {isBatchGenerating && (
                         <button
                             onClick={stopBatchGeneration}
@@ -561,6 +711,12 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
                                                         />
                                                         <div className="flex items-center gap-2">
                                                             <span className="text-[10px] bg-purple-500/20 text-purple-400 px-2 py-0.5 rounded-full uppercase tracking-wider font-black">Group</span>
+                                                            {group.chainFrames && (
+                                                                <span className="text-[10px] bg-green-500/20 text-green-400 px-2 py-0.5 rounded-full uppercase tracking-wider font-black" title="Mỗi cảnh bắt đầu từ khung hình cuối của cảnh trước">🔗 Chain</span>
+                                                            )}
+                                                            {group.bars && (
+                                                                <span className="text-[10px] bg-purple-500/20 text-purple-300 px-2 py-0.5 rounded-full font-bold" title="Số ô nhịp nhạc của nhóm (Khớp nhịp trong Animatic)">🎵 {group.bars} ô nhịp</span>
+                                                            )}
                                                             <span className={`text-[10px] px-2 py-0.5 rounded-full font-bold ${scenesWithImages === groupScenes.length ? 'bg-green-500/20 text-green-400' : 'bg-gray-800 text-gray-400'}`}>
                                                                 {scenesWithImages}/{groupScenes.length} scenes
                                                             </span>
@@ -624,6 +780,26 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
 
                                                 {activeGroupMenu === currentGroupId && (
                                                     <div className="absolute right-0 top-full mt-1 w-48 bg-gray-900 border border-gray-700 rounded-lg shadow-2xl z-[60] overflow-hidden py-1 animate-fade-in" onClick={(e) => e.stopPropagation()}>
+                                                        <button
+                                                            onClick={() => {
+                                                                updateGroup(currentGroupId as string, { chainFrames: !group?.chainFrames });
+                                                                setActiveGroupMenu(null);
+                                                            }}
+                                                            className="w-full text-left px-4 py-2 text-[10px] text-green-400 hover:bg-gray-800 font-bold uppercase tracking-wider"
+                                                            title="Cảnh N+1 bắt đầu từ end frame (hoặc khung cuối video) của cảnh N"
+                                                        >
+                                                            {group?.chainFrames ? 'Tắt nối khung hình' : '🔗 Nối khung hình (Chain)'}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => {
+                                                                const value = prompt('Số ô nhịp nhạc của nhóm (để trống = tự khớp theo nhịp):', group?.bars ? String(group.bars) : '');
+                                                                if (value !== null) updateGroup(currentGroupId as string, { bars: parseInt(value) || undefined });
+                                                                setActiveGroupMenu(null);
+                                                            }}
+                                                            className="w-full text-left px-4 py-2 text-[10px] text-purple-300 hover:bg-gray-800 font-bold uppercase tracking-wider"
+                                                        >
+                                                            🎵 Số ô nhịp
+                                                        </button>
                                                         <button
                                                             onClick={() => {
                                                                 if (confirm('Unassign this scene from group?')) {
@@ -682,12 +858,20 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
                                             characters={characters}
                                             products={products}
                                             sceneGroups={sceneGroups}
+                                            lockedBy={sceneLocks?.[scene.id]}
                                             assignSceneToGroup={assignSceneToGroup}
                                             updateScene={updateScene}
                                             removeScene={removeScene}
                                             generateImage={(retryContext) => performImageGeneration(scene.id, undefined, false, retryContext?.currentImage, retryContext?.currentImage, undefined, retryContext)}
                                             generateEndFrame={() => performImageGeneration(scene.id, undefined, true)}
                                             generateVeoPrompt={generateVeoPrompt}
+                                            generateVideo={generateSceneVideo}
+                                            generateVoice={generateSceneVoice}
+                                            onClearVoice={onClearSceneVoice}
+                                            videoModels={videoModels}
+                                            defaultVideoModel={videoModel}
+                                            aspectRatio={aspectRatio}
+                                            onExtractFrame={onExtractVideoFrame}
                                             openImageViewer={() => handleOpenImageViewer(index)}
                                             onCopyPreviousStyle={() => {
                                                 if (index > 0) {
@@ -745,6 +929,7 @@ export const ScenesMapSection: React.FC<ScenesMapSectionProps> = ({
                                         characters={characters}
                                         products={products}
                                         sceneGroups={sceneGroups}
+                                        lockedBy={sceneLocks?.[scene.id]}
                                         assignSceneToGroup={assignSceneToGroup}
                                         updateScene={updateScene}
                                         removeScene={removeScene}
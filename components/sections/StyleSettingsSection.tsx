@@ -39,6 +39,7 @@ interface StyleSettingsSectionProps {
     toggleOutfitLockMode: () => void;
     onOpenManualScript?: () => void; // NEW: Open Manual Script Import modal
     onOpenExcelImport?: () => void; // NEW: Open Excel Import modal
+    onOpenScreenplayImport?: () => void; // Open Fountain / FDX import modal
     generationConfig?: import('../../types').GenerationConfig;
     onGenerationConfigChange?: (config: import('../../types').GenerationConfig) => void;
 }
@@ -81,6 +82,7 @@ export const StyleSettingsSection: React.FC<StyleSettingsSectionProps> = ({
     toggleOutfitLockMode,
     onOpenManualScript,
     onOpenExcelImport,
+    onOpenScreenplayImport,
     generationConfig,
     onGenerationConfigChange
 }) => {
@@ -368,6 +370,14 @@ export const StyleSettingsSection: React.FC<StyleSettingsSectionProps> = ({
                             📊 Import Excel
                         </button>
                     </div>
+                    <div className="w-full relative">
+                        <button
+                            onClick={onOpenScreenplayImport}
+                            className={`w-full px-6 py-2 font-semibold text-white rounded-lg bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-500 hover:to-orange-500 transition-all duration-300 transform hover:scale-105 shadow-lg shadow-amber-700/20`}
+                        >
+                            🎬 Import Fountain / FDX
+                        </button>
+                    </div>
                 </div>
             </div>
 
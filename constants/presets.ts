@@ -1,4 +1,5 @@
 import type { ProjectState } from '../types';
+import type { ImageModelOption } from '../utils/imageProviders/types';
 
 export const APP_NAME = "Scene Director";
 export const PRIMARY_GRADIENT = "from-orange-600 to-red-600";
@@ -311,7 +312,7 @@ export const IMAGE_ROLES = [
     { value: 'end-frame', label: '🔴 End Frame', color: 'red' },
 ];
 
-export const IMAGE_MODELS = [
+export const IMAGE_MODELS: ImageModelOption[] = [
     // ═══════════════════════════════════════════════════════════════════════════
     // 👑 IMPERIAL ULTRA - Premium Gemini 3 Access
     // ═══════════════════════════════════════════════════════════════════════════
@@ -446,11 +447,6 @@ export const INITIAL_STATE: ProjectState = {
         bodyImage: null,
         sideImage: null,
         backImage: null,
-        props: [
-            { id: generateId(), name: '', image: null },
-            { id: generateId(), name: '', image: null },
-            { id: generateId(), name: '', image: null },
-        ],
         isDefault: false,
         isAnalyzing: false,
     })),
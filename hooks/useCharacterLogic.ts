@@ -5,11 +5,25 @@ import { GLOBAL_STYLES, CHARACTER_STYLES } from '../constants/presets';
 import { getCharacterStyleById } from '../constants/characterStyles';
 import { callGroqText, callGroqVision, callCharacterImageAPI } from '../utils/geminiUtils';
 import { uploadImageToSupabase, syncUserStatsToCloud } from '../utils/storageUtils';
+import { addCreditsSpent } from '../utils/creditBudget';
 import { normalizePromptAsync, needsNormalization, containsVietnamese, formatNormalizationLog } from '../utils/promptNormalizer';
 import { recordPrompt, approvePrompt, searchSimilarPrompts } from '../utils/dopLearning';
 import { performQualityCheck, shouldAutoRetry, generateRefinedPrompt } from '../utils/qualityScoring';
 import { analyzeAndEnhance, predictSuccess, getInsights } from '../utils/dopIntelligence';
 import { incrementGlobalStats, recordGeneratedImage } from '../utils/userGlobalStats';
+import { schema, requestStructured } from '../utils/structuredOutput';
+
+const characterSummarySchema = schema.object({
+    name: schema.string(''),
+    description: schema.string('')
+});
+
+const characterSheetAnalysisSchema = schema.object({
+    name: schema.string(''),
+    description: schema.string(''),
+    art_style: schema.string(''),
+    is_illustration: schema.boolean(false)
+});
 
 export function useCharacterLogic(
     state: ProjectState,
@@ -38,11 +52,6 @@ export function useCharacterLogic(
             bodyImage: null,
             sideImage: null,
             backImage: null,
-            props: [
-                { id: generateId(), name: '', image: null },
-                { id: generateId(), name: '', image: null },
-                { id: generateId(), name: '', image: null },
-            ],
             isDefault: false,
             isAnalyzing: false,
         };
@@ -117,14 +126,12 @@ export function useCharacterLogic(
             const analyzePrompt = `Analyze this character's main features. Return JSON: {"name": "Suggest a concise name", "description": "Short Vietnamese description (2-3 sentences) of key physical traits, clothing, and overall vibe. Focus on what makes them unique."}`;
             
             // Use Groq Vision for analysis
-            const analysisText = await callGroqVision(analyzePrompt, [{ data, mimeType }]);
-
-            let json = { name: "", description: "" };
-            try {
-                json = JSON.parse(analysisText.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                console.error("JSON parse error", e);
-            }
+            const json = await requestStructured({
+                name: 'Phân tích nhân vật',
+                schema: characterSummarySchema,
+                call: correction => callGroqVision(analyzePrompt + (correction || ''), [{ data, mimeType }]),
+                fallback: { name: "", description: "" }
+            });
 
             updateCharacter(id, {
                 masterImage: finalMasterUrl,
@@ -209,14 +216,12 @@ Return JSON:
     "is_illustration": true/false
 }`;
 
-            const analysisText = await callGroqVision(analyzePrompt, [{ data, mimeType }]);
-
-            let json = { name: "", description: "", art_style: "", is_illustration: false };
-            try {
-                json = JSON.parse(analysisText.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                console.error("JSON parse error", e);
-            }
+            const json = await requestStructured({
+                name: 'Phân tích nhân vật',
+                schema: characterSheetAnalysisSchema,
+                call: correction => callGroqVision(analyzePrompt + (correction || ''), [{ data, mimeType }]),
+                fallback: { name: "", description: "", art_style: "", is_illustration: false }
+            });
 
             const charName = json.name || "Unnamed Character";
             const charDescription = json.description || "Character";
@@ -282,12 +287,13 @@ MATCH THE EXACT artistic style: "${detectedStyle}"
                 bodyImage: bodyUrl || undefined,
                 isAnalyzing: false
             });
+            updateStateAndRecord(s => addCreditsSpent(s, model, [faceUrl, bodyUrl].filter(Boolean).length));
 
         } catch (error: any) {
             console.error("[Lora Gen] ❌ Groq Analysis Failed", error);
             updateCharacter(id, { isAnalyzing: false });
         }
-    }, [updateCharacter, userId, state.imageModel, state.characters, state.globalCharacterStyleId, state.customCharacterStyles, state.gommoDomain, state.gommoAccessToken]);
+    }, [updateCharacter, updateStateAndRecord, userId, state.imageModel, state.characters, state.globalCharacterStyleId, state.customCharacterStyles, state.gommoDomain, state.gommoAccessToken]);
 
     const generateCharacterSheets = useCallback(async (id: string) => {
         const char = state.characters.find(c => c.id === id);
@@ -324,12 +330,13 @@ MATCH THE EXACT artistic style: "${detectedStyle}"
                 bodyImage: char.masterImage,
                 isAnalyzing: false
             });
+            if (faceUrl) updateStateAndRecord(s => addCreditsSpent(s, model));
 
         } catch (e) {
             console.error("Generation Sheets Failed", e);
             updateCharacter(id, { isAnalyzing: false });
         }
-    }, [state.imageModel, state.stylePrompt, updateCharacter, state.characters, userId, state.gommoDomain, state.gommoAccessToken]);
+    }, [state.imageModel, state.stylePrompt, updateCharacter, updateStateAndRecord, state.characters, userId, state.gommoDomain, state.gommoAccessToken]);
 
     const generateCharacterImage = useCallback(async (
         charId: string,
@@ -342,7 +349,7 @@ MATCH THE EXACT artistic style: "${detectedStyle}"
             model: string
         }
     ) => {
-        const { prompt, style, customStyle, aspectRatio, model } = params;
+        const { prompt, style, customStyle, aspectRatio, resolution, model } = params;
         updateCharacter(charId, {
             isGenerating: true,
             generationStartTime: Date.now(),
@@ -436,8 +443,12 @@ CRITICAL: ONE SINGLE FULL-BODY IMAGE on solid white background.
                 updateStateAndRecord(s => {
                     const currentStats = s.usageStats || { '1K': 0, '2K': 0, '4K': 0, total: 0 };
                     return {
-                        ...s,
-                        usageStats: { ...currentStats, total: (currentStats.total || 0) + 1, characters: (currentStats.characters || 0) + 1 }
+                        ...addCreditsSpent(s, model),
+                        usageStats: {
+                            ...currentStats,
+                            total: (currentStats.total || 0) + 1,
+                            characters: (currentStats.characters || 0) + 1
+                        }
                     };
                 });
             } else {
@@ -0,0 +1,267 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { ProjectState, Scene } from '../types';
+import {
+    joinProjectChannel,
+    prepareScenePatch,
+    applyRemoteScene,
+    applySceneOrder,
+    sceneSignature,
+    pickCollaboratorColor,
+    ProjectChannel,
+    CollaboratorPresence,
+    SceneUpdateMessage,
+    SceneRemovedMessage,
+    SceneOrderMessage
+} from '../utils/collaboration';
+
+export interface SceneConflict {
+    sceneId: string;
+    kind: 'update' | 'removed';
+    local: Scene;
+    remote?: Scene;
+    remoteRev: number;
+    authorName: string;
+}
+
+// Last synced version of each scene: what we broadcast or accepted from a teammate
+interface SceneBase {
+    scene: Scene | null;
+    signature: string;
+    rev: number;
+    lastAuthorId: string;
+}
+
+const BROADCAST_DEBOUNCE_MS = 800;
+
+export const useCollaboration = (
+    state: ProjectState,
+    updateState: (fn: (s: ProjectState) => ProjectState) => void, // Remote edits are not undo steps
+    projectId: string | null,
+    user: { id: string; name: string } | null
+) => {
+    const [collaborators, setCollaborators] = useState<CollaboratorPresence[]>([]);
+    const [conflicts, setConflicts] = useState<SceneConflict[]>([]);
+
+    const channelRef = useRef<ProjectChannel | null>(null);
+    const baseRef = useRef(new Map<string, SceneBase>());
+    const lastOrderRef = useRef<string[]>([]);
+    const stateRef = useRef(state);
+    const conflictsRef = useRef(conflicts);
+    const joinedAtRef = useRef(Date.now());
+
+    useEffect(() => { stateRef.current = state; }, [state]);
+    useEffect(() => { conflictsRef.current = conflicts; }, [conflicts]);
+
+    const setBase = (scene: Scene, rev: number, authorId: string) => {
+        baseRef.current.set(scene.id, { scene, signature: sceneSignature(scene), rev, lastAuthorId: authorId });
+    };
+
+    const addConflict = (conflict: SceneConflict) => {
+        setConflicts(prev => [...prev.filter(c => c.sceneId !== conflict.sceneId), conflict]);
+    };
+
+    const acceptRemoteScene = useCallback((remote: Scene, rev: number, authorId: string, index: number) => {
+        const local = stateRef.current.scenes.find(s => s.id === remote.id);
+        const merged = applyRemoteScene(local, remote);
+        setBase(merged, rev, authorId);
+
+        updateState(s => {
+            const existingIndex = s.scenes.findIndex(sc => sc.id === remote.id);
+            const scenes = [...s.scenes];
+            if (existingIndex === -1) scenes.splice(Math.min(index, scenes.length), 0, merged);
+            else scenes[existingIndex] = merged;
+            lastOrderRef.current = scenes.map(sc => sc.id);
+            return { ...s, scenes };
+        });
+    }, [updateState]);
+
+    const removeLocalScene = useCallback((sceneId: string) => {
+        baseRef.current.delete(sceneId);
+        updateState(s => {
+            const scenes = s.scenes.filter(sc => sc.id !== sceneId);
+            lastOrderRef.current = scenes.map(sc => sc.id);
+            return { ...s, scenes };
+        });
+    }, [updateState]);
+
+    // Has this scene been edited locally since the last synced version?
+    const isLocallyDirty = (scene: Scene | undefined) => {
+        if (!scene) return false;
+        const base = baseRef.current.get(scene.id);
+        if (!base) return true;
+        return base.scene !== scene && base.signature !== sceneSignature(scene);
+    };
+
+    // --- Join / leave the project channel ---
+    useEffect(() => {
+        if (!projectId || !user) return;
+
+        baseRef.current = new Map();
+        stateRef.current.scenes.forEach(s => setBase(s, 0, ''));
+        lastOrderRef.current = stateRef.current.scenes.map(s => s.id);
+        joinedAtRef.current = Date.now();
+
+        const handleSceneUpdate = (msg: SceneUpdateMessage) => {
+            const local = stateRef.current.scenes.find(s => s.id === msg.sceneId);
+            if (!local && !msg.full) {
+                console.warn(`[Collab] Ignoring a partial update of unknown scene ${msg.sceneId}`);
+                return;
+            }
+            const remote = { ...(msg.full ? {} : local), ...msg.patch } as Scene;
+            const base = baseRef.current.get(msg.sceneId);
+            // Our own broadcast edit is newer than what the sender started from
+            const concurrent = !!base && msg.baseRev < base.rev && base.lastAuthorId === user.id;
+
+            if (local && (isLocallyDirty(local) || concurrent)) {
+                addConflict({ sceneId: local.id, kind: 'update', local, remote, remoteRev: msg.rev, authorName: msg.authorName });
+                return;
+            }
+            acceptRemoteScene(remote, msg.rev, msg.authorId, msg.index);
+        };
+
+        const handleSceneRemoved = (msg: SceneRemovedMessage) => {
+            const local = stateRef.current.scenes.find(s => s.id === msg.sceneId);
+            if (!local) return;
+            if (isLocallyDirty(local)) {
+                addConflict({ sceneId: local.id, kind: 'removed', local, remoteRev: baseRef.current.get(local.id)?.rev || 0, authorName: msg.authorName });
+                return;
+            }
+            removeLocalScene(msg.sceneId);
+        };
+
+        const handleSceneOrder = (msg: SceneOrderMessage) => {
+            updateState(s => {
+                const scenes = applySceneOrder(s.scenes, msg.order);
+                lastOrderRef.current = scenes.map(sc => sc.id);
+                return { ...s, scenes };
+            });
+        };
+
+        const channel = joinProjectChannel(projectId, user.id, {
+            onPresence: list => setCollaborators(list.filter(c => c.userId !== user.id)),
+            onSceneUpdate: handleSceneUpdate,
+            onSceneRemoved: handleSceneRemoved,
+            onSceneOrder: handleSceneOrder
+        });
+        channelRef.current = channel;
+        console.log(`[Collab] Joined project ${projectId}`);
+
+        return () => {
+            channel.leave();
+            channelRef.current = null;
+            setCollaborators([]);
+            setConflicts([]);
+        };
+    }, [projectId, user?.id]);
+
+    // --- Broadcast local scene edits (debounced) ---
+    const flushLocalChanges = useCallback(async () => {
+        const channel = channelRef.current;
+        if (!channel || !projectId || !user) return;
+
+        const scenes = stateRef.current.scenes;
+        const conflictIds = new Set(conflictsRef.current.map(c => c.sceneId));
+
+        for (let index = 0; index < scenes.length; index++) {
+            const scene = scenes[index];
+            if (conflictIds.has(scene.id) || scene.isGenerating) continue;
+
+            const base = baseRef.current.get(scene.id);
+            if (base?.scene === scene) continue;
+            const signature = sceneSignature(scene);
+            if (base && base.signature === signature) {
+                base.scene = scene;
+                continue;
+            }
+
+            const baseRev = base?.rev || 0;
+            const baseScene = base?.scene || null;
+            setBase(scene, baseRev + 1, user.id);
+            try {
+                const patch = await prepareScenePatch(scene, baseScene, user.id);
+                await channel.sendSceneUpdate({
+                    sceneId: scene.id, patch, full: !baseScene, index, baseRev, rev: baseRev + 1, authorId: user.id, authorName: user.name
+                });
+            } catch (err) {
+                // Retry on the next flush
+                console.error(`[Collab] Failed to broadcast scene ${scene.id}:`, err);
+                if (base) baseRef.current.set(scene.id, base);
+                else baseRef.current.delete(scene.id);
+            }
+        }
+
+        const currentIds = new Set(scenes.map(s => s.id));
+        for (const sceneId of Array.from(baseRef.current.keys())) {
+            if (!currentIds.has(sceneId) && !conflictIds.has(sceneId)) {
+                baseRef.current.delete(sceneId);
+                await channel.sendSceneRemoved({ sceneId, authorId: user.id, authorName: user.name });
+            }
+        }
+
+        const order = scenes.map(s => s.id);
+        if (order.join(',') !== lastOrderRef.current.join(',')) {
+            lastOrderRef.current = order;
+            await channel.sendSceneOrder({ order, authorId: user.id });
+        }
+    }, [projectId, user?.id, user?.name]);
+
+    useEffect(() => {
+        if (!channelRef.current) return;
+        const timer = setTimeout(flushLocalChanges, BROADCAST_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [state.scenes, flushLocalChanges]);
+
+    // --- Presence: publish which scenes we are generating (scene locks) ---
+    const generatingKey = state.scenes.filter(s => s.isGenerating).map(s => s.id).join(',');
+    useEffect(() => {
+        if (!channelRef.current || !user) return;
+        channelRef.current.updatePresence({
+            userId: user.id,
+            name: user.name,
+            color: pickCollaboratorColor(user.id),
+            generatingSceneIds: generatingKey ? generatingKey.split(',') : [],
+            joinedAt: joinedAtRef.current
+        });
+    }, [generatingKey, projectId, user?.id, user?.name]);
+
+    // sceneId -> name of the teammate currently generating it
+    const sceneLocks = useMemo(() => {
+        const locks: Record<string, string> = {};
+        collaborators.forEach(c => c.generatingSceneIds.forEach(id => { locks[id] = c.name; }));
+        return locks;
+    }, [collaborators]);
+
+    const resolveConflict = useCallback((sceneId: string, choice: 'mine' | 'theirs') => {
+        const conflict = conflictsRef.current.find(c => c.sceneId === sceneId);
+        if (!conflict) return;
+
+        if (choice === 'theirs') {
+            if (conflict.kind === 'removed') removeLocalScene(sceneId);
+            else if (conflict.remote) {
+                const index = stateRef.current.scenes.findIndex(s => s.id === sceneId);
+                acceptRemoteScene(conflict.remote, conflict.remoteRev, '', index);
+            }
+        } else {
+            // Keep ours: rebase on their revision so the next flush re-broadcasts our version
+            const base = baseRef.current.get(sceneId);
+            baseRef.current.set(sceneId, {
+                scene: null,
+                signature: '',
+                rev: Math.max(base?.rev || 0, conflict.remoteRev),
+                lastAuthorId: ''
+            });
+        }
+
+        conflictsRef.current = conflictsRef.current.filter(c => c.sceneId !== sceneId);
+        setConflicts(conflictsRef.current);
+        if (choice === 'mine') flushLocalChanges();
+    }, [acceptRemoteScene, removeLocalScene, flushLocalChanges]);
+
+    return {
+        isCollaborating: !!projectId && !!user,
+        collaborators,
+        sceneLocks,
+        conflicts,
+        resolveConflict
+    };
+};
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { ProjectState, Scene, Product } from '../types';
+import { schema, requestStructured } from '../utils/structuredOutput';
 
 export interface RaccordInsight {
     type: 'prop' | 'environment' | 'character' | 'flow';
@@ -22,6 +23,23 @@ export interface DecisionResult {
     confidence: number; // 0-1
 }
 
+// Strict by default: a missing verdict counts as a mismatch
+const visionRaccordSchema = schema.object({
+    isValid: schema.boolean(false),
+    errors: schema.array(schema.object({
+        type: schema.string('character'),
+        description: schema.string('')
+    }), { default: [] }),
+    correctionPrompt: schema.optional(schema.string())
+});
+
+const retryDecisionSchema = schema.object({
+    action: schema.enum(['retry', 'skip', 'try_once'] as const, 'try_once'),
+    reason: schema.string('AI analysis'),
+    confidence: schema.number({ min: 0, max: 1, default: 0.5 }),
+    enhancedPrompt: schema.optional(schema.string())
+});
+
 // Error classification for credit optimization
 const UNFIXABLE_KEYWORDS = [
     'face', 'identity', 'completely different', 'wrong person',
@@ -353,46 +371,41 @@ Do NOT say "hoàn hảo" (perfect) unless faces are IDENTICAL.`;
                 };
             }
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.0-flash', // Using 2.0 for better vision accuracy
-                contents: [
-                    { text: 'PREVIOUS SHOT:' },
-                    { inlineData: { data: prevImgData.data, mimeType: prevImgData.mimeType } },
-                    { text: 'CURRENT SHOT:' },
-                    { inlineData: { data: currImgData.data, mimeType: currImgData.mimeType } },
-                    { text: dopPrompt }
-                ]
+            const result = await requestStructured({
+                name: 'DOP Vision',
+                schema: visionRaccordSchema,
+                call: async correction => {
+                    const response = await ai.models.generateContent({
+                        model: 'gemini-2.0-flash', // Using 2.0 for better vision accuracy
+                        contents: [
+                            { text: 'PREVIOUS SHOT:' },
+                            { inlineData: { data: prevImgData.data, mimeType: prevImgData.mimeType } },
+                            { text: 'CURRENT SHOT:' },
+                            { inlineData: { data: currImgData.data, mimeType: currImgData.mimeType } },
+                            { text: dopPrompt + (correction || '') }
+                        ]
+                    });
+                    const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+                    console.log('[DOP Vision] Raw response:', text.substring(0, 200));
+                    return text;
+                },
+                // FAIL-CLOSE: If can't parse, assume faces don't match → trigger retry
+                fallback: {
+                    isValid: false,
+                    errors: [{ type: 'character', description: 'Could not validate - assuming mismatch' }]
+                }
             });
+            console.log('[DOP Vision] Validation result:', result);
 
-            const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-            console.log('[DOP Vision] Raw response:', text.substring(0, 200));
-
-            const jsonMatch = text.match(/\{[\s\S]*\}/);
-
-            try {
-                // Use extracted JSON match, not raw text
-                const jsonToParse = jsonMatch ? jsonMatch[0] : text;
-                const result = JSON.parse(jsonToParse);
-                console.log('[DOP Vision] Validation result:', result);
+            // Quick Classification
+            const { decision } = classifyErrors(result.errors);
 
-                // Quick Classification
-                const { decision } = classifyErrors(result.errors || []);
-
-                return {
-                    isValid: result.isValid ?? false, // Default to FALSE (strict)
-                    errors: result.errors || [],
-                    correctionPrompt: result.correctionPrompt,
-                    decision // Return classification decision
-                };
-            } catch (e) {
-                console.error('[DOP Vision] JSON Parse Error:', e, 'Raw text:', text.substring(0, 300));
-                // FAIL-CLOSE: If can't parse, assume faces don't match → trigger retry
-                return {
-                    isValid: false,
-                    errors: [{ type: 'character', description: 'Could not validate - assuming mismatch' }],
-                    decision: 'retry' as const
-                };
-            }
+            return {
+                isValid: result.isValid,
+                errors: result.errors,
+                correctionPrompt: result.correctionPrompt,
+                decision // Return classification decision
+            };
         } catch (error) {
             console.error('[DOP Vision] Error:', error);
             // FAIL-CLOSE: Don't silently approve on errors
@@ -474,30 +487,30 @@ RESPOND IN JSON ONLY:
   "enhancedPrompt": "if action is retry, provide SPECIFIC additions to fix the errors"
 }`;
 
-                    const response = await ai.models.generateContent({
-                        model: 'gemini-1.5-flash',
-                        contents: [
-                            { text: 'FAILED IMAGE:' },
-                            { inlineData: { data: failedData.data, mimeType: failedData.mimeType } },
-                            { text: 'REFERENCE IMAGE (should match):' },
-                            { inlineData: { data: refData.data, mimeType: refData.mimeType } },
-                            { text: agentPrompt }
-                        ]
+                    const result = await requestStructured({
+                        name: 'DOP Agent',
+                        schema: retryDecisionSchema,
+                        call: async correction => {
+                            const response = await ai.models.generateContent({
+                                model: 'gemini-1.5-flash',
+                                contents: [
+                                    { text: 'FAILED IMAGE:' },
+                                    { inlineData: { data: failedData.data, mimeType: failedData.mimeType } },
+                                    { text: 'REFERENCE IMAGE (should match):' },
+                                    { inlineData: { data: refData.data, mimeType: refData.mimeType } },
+                                    { text: agentPrompt + (correction || '') }
+                                ]
+                            });
+                            return response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+                        }
                     });
-
-                    const text = response.candidates?.[0]?.content?.parts?.[0]?.text || '';
-                    const jsonMatch = text.match(/\{[\s\S]*\}/);
-
-                    if (jsonMatch) {
-                        const result = JSON.parse(jsonMatch[0]);
-                        console.log('[DOP Agent] AI Decision:', result);
-                        return {
-                            action: result.action || 'try_once',
-                            reason: result.reason || 'AI analysis',
-                            enhancedPrompt: result.enhancedPrompt,
-                            confidence: result.confidence || 0.5
-                        };
-                    }
+                    console.log('[DOP Agent] AI Decision:', result);
+                    return {
+                        action: result.action,
+                        reason: result.reason,
+                        enhancedPrompt: result.enhancedPrompt,
+                        confidence: result.confidence
+                    };
                 }
             } catch (error) {
                 console.error('[DOP Agent] AI analysis failed:', error);
@@ -1,6 +1,7 @@
 import { useCallback, useRef } from 'react';
 import { ProjectState, AgentStatus, Scene, ProductionLogEntry } from '../types';
 import { callGeminiText } from '../utils/geminiUtils';
+import { schema, requestStructured } from '../utils/structuredOutput';
 
 // Memory for pending actions
 interface PendingAction {
@@ -11,6 +12,37 @@ interface PendingAction {
     timestamp: number;
 }
 
+const DIRECTOR_INTENTS = [
+    'PAUSE_BATCH', 'REGENERATE_RANGE', 'UPDATE_STYLE', 'PROD_Q_AND_A', 'SYNERGY_DIRECTIVE', 'MATERIAL_INHERITANCE',
+    'SYNC_AND_REGENERATE', 'ADD_SCENE', 'DELETE_SCENE', 'INSERT_SCENE', 'CLEAR_ALL_IMAGES', 'UPDATE_SCENE_PROMPT',
+    'EXECUTE_PENDING', 'COMPOSITE_OBJECT_TRANSFER', 'GENERATE_ALL', 'GENERATE_SCENE'
+] as const;
+
+const optionalNumber = schema.optional(schema.number());
+const optionalString = schema.optional(schema.string());
+
+const intentSchema = schema.object({
+    intent: schema.enum(DIRECTOR_INTENTS),
+    entities: schema.object({
+        range: schema.optional(schema.array(schema.number())),
+        sceneIds: schema.optional(schema.array(schema.string())),
+        styleInstruction: optionalString,
+        directive: optionalString,
+        sourceSceneId: optionalString,
+        targetSceneId: optionalString,
+        count: optionalNumber,
+        insertAfter: optionalNumber,
+        sceneNumber: optionalNumber,
+        newPrompt: optionalString,
+        visualDirective: optionalString,
+        referencePrevious: schema.optional(schema.boolean()),
+        sourceSceneNumber: optionalNumber,
+        targetSceneNumber: optionalNumber,
+        objectDescription: optionalString
+    }, {}),
+    response: schema.string('')
+});
+
 interface UseDirectorChatProps {
     state: ProjectState;
     userApiKey: string | null;
@@ -129,16 +161,12 @@ OUTPUT FORMAT: JSON only
 
 
 
-        try {
-            const response = await callGeminiText(userApiKey || '', command, systemPrompt, 'gemini-1.5-flash', true);
-
-
-            return JSON.parse(response);
-        } catch (error) {
-
-            console.error('Failed to recognize intent:', error);
-            return { intent: 'PROD_Q_AND_A', response: 'Tôi nghe rõ, nhưng có chút trục trặc khi phân tích lệnh. Bạn có thể nói rõ hơn không?' };
-        }
+        return requestStructured({
+            name: 'Nhận diện lệnh',
+            schema: intentSchema,
+            call: correction => callGeminiText(userApiKey || '', command, systemPrompt + (correction || ''), 'gemini-1.5-flash', true),
+            fallback: { intent: 'PROD_Q_AND_A', entities: {}, response: 'Tôi nghe rõ, nhưng có chút trục trặc khi phân tích lệnh. Bạn có thể nói rõ hơn không?' }
+        });
     }, [state]);
 
     const handleCommand = useCallback(async (command: string) => {
@@ -206,29 +234,29 @@ OUTPUT FORMAT: JSON only
                         ["New prompt 1", "New prompt 2", ...]`;
 
 
-                        const rawUpdates = await callGeminiText(userApiKey || '', rewritePrompt, 'You are an Expert Director.', 'gemini-1.5-flash', true);
-
+                        const newPrompts = await requestStructured({
+                            name: 'Viết lại phong cách',
+                            schema: schema.refine(schema.array(schema.string()), prompts =>
+                                prompts.length === scenesToUpdate.length ? null : `expected ${scenesToUpdate.length} prompts, got ${prompts.length}`),
+                            call: correction => callGeminiText(userApiKey || '', rewritePrompt + (correction || ''), 'You are an Expert Director.', 'gemini-1.5-flash', true)
+                        });
 
-                        const newPrompts = JSON.parse(rawUpdates);
-
-                        if (Array.isArray(newPrompts) && newPrompts.length === scenesToUpdate.length) {
-                            updateStateAndRecord(s => ({
-                                ...s,
-                                scenes: s.scenes.map(scene => {
-                                    if (!scene.generatedImage) {
-                                        const index = scenesToUpdate.findIndex(su => su.id === scene.id);
-                                        if (index !== -1) {
-                                            return {
-                                                ...scene,
-                                                contextDescription: newPrompts[index]
-                                            };
-                                        }
+                        updateStateAndRecord(s => ({
+                            ...s,
+                            scenes: s.scenes.map(scene => {
+                                if (!scene.generatedImage) {
+                                    const index = scenesToUpdate.findIndex(su => su.id === scene.id);
+                                    if (index !== -1) {
+                                        return {
+                                            ...scene,
+                                            contextDescription: newPrompts[index]
+                                        };
                                     }
-                                    return scene;
-                                })
-                            }));
-                            setAgentState('director', 'success', 'Đã cập nhật chỉ dẫn thẩm mỹ và ánh sáng cho các cảnh tới.');
-                        }
+                                }
+                                return scene;
+                            })
+                        }));
+                        setAgentState('director', 'success', 'Đã cập nhật chỉ dẫn thẩm mỹ và ánh sáng cho các cảnh tới.');
                     } catch (e) {
                         console.error('Bulk rewrite failed:', e);
                         setAgentState('director', 'error', 'Tôi gặp chút khó khăn khi thiết kế lại các cảnh. Đã áp dụng chỉ dẫn cơ bản.');
@@ -26,7 +26,7 @@ export const useEditorLogic = ({
         setEditingImage(null);
     }, []);
 
-    const openEditor = useCallback((id: string, image: string, type: any, propIndex?: number, viewKey?: string) => {
+    const openEditor = useCallback((id: string, image: string, type: any, viewKey?: string) => {
         let editorHistory = undefined;
         if (type === 'scene') {
             editorHistory = state.scenes.find(s => s.id === id)?.editHistory;
@@ -50,13 +50,13 @@ export const useEditorLogic = ({
             }
         }
 
-        setEditingImage({ id, image, type, propIndex, viewKey, history: editorHistory });
+        setEditingImage({ id, image, type, viewKey, history: editorHistory });
         setIsEditorOpen(true);
     }, [state.scenes, state.characters, state.products]);
 
     const handleEditorSave = useCallback((newImage: string, history: any[], savedViewKey?: string) => {
         if (!editingImage) return;
-        const { id, type, propIndex, viewKey: initialViewKey } = editingImage;
+        const { id, type, viewKey: initialViewKey } = editingImage;
         const viewKey = savedViewKey || initialViewKey;
 
         console.log('[Editor] Saving:', { type, id, viewKey, historyLength: history?.length });
@@ -64,15 +64,7 @@ export const useEditorLogic = ({
         // Add edited image to gallery automatically
         addToGallery(newImage, 'edit', 'Edited version', id);
 
-        if (type === 'prop' && typeof propIndex === 'number') {
-            const char = state.characters.find(c => c.id === id);
-            if (char) {
-                const newProps = [...char.props];
-                newProps[propIndex] = { ...newProps[propIndex], image: newImage };
-                updateCharacter(id, { props: newProps });
-            }
-        }
-        else if (type === 'master' || viewKey === 'master') updateCharacter(id, { masterImage: newImage, masterEditHistory: history });
+        if (type === 'master' || viewKey === 'master') updateCharacter(id, { masterImage: newImage, masterEditHistory: history });
         else if (type === 'face' || viewKey === 'face') updateCharacter(id, { faceImage: newImage, faceEditHistory: history });
         else if (type === 'body' || viewKey === 'body') updateCharacter(id, { bodyImage: newImage, bodyEditHistory: history });
         else if (type === 'side' || viewKey === 'side') updateCharacter(id, { sideImage: newImage, sideEditHistory: history });
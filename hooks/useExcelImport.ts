@@ -160,7 +160,6 @@ export function useExcelImport() {
                     bodyImage: null,
                     sideImage: null,
                     backImage: null,
-                    props: [],
                     isDefault: false
                 };
             });
@@ -189,8 +188,8 @@ export function useExcelImport() {
                     id: generateId(),
                     sceneNumber,
                     groupId: group?.id || '',
-                    language1: formattedDialogue,
-                    vietnamese: '',
+                    scriptText: formattedDialogue,
+                    scriptTranslation: '',
                     promptName: `Scene ${sceneNumber}`,
                     voiceOverText: String(row[mapping.voiceOver] || '').trim(),
                     isVOScene: Boolean(row[mapping.voiceOver]),
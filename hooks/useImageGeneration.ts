@@ -9,15 +9,21 @@ import { DIRECTOR_PRESETS, DirectorCategory } from '../constants/directors';
 import { getPresetById } from '../utils/scriptPresets';
 import { uploadImageToSupabase, syncUserStatsToCloud } from '../utils/storageUtils';
 import { safeGetImageData, callGroqVision, preWarmImageCache, fixMimeType } from '../utils/geminiUtils';
-import { GommoAI, urlToBase64 } from '../utils/gommoAI';
+import { generateImage as generateImageWithProvider, getImageModelCapabilities, getImageProviderForModel } from '../utils/imageProviders';
+import {
+    GenerationQueue, loadGenerationQueue, saveGenerationQueue, enqueueScenes, nextQueuedJob, updateJob,
+    setQueueStatus, moveJob, removeJob, retryJob, clearFinishedJobs, pruneMissingScenes
+} from '../utils/generationQueue';
 import { IMAGE_MODELS } from '../utils/appConstants';
+import { createGommoClient } from '../utils/gommoAI';
+import { getImageCreditCost, addCreditsSpent, estimateRunCost, checkBudget, isCreditBilledModel } from '../utils/creditBudget';
 import { normalizePrompt, normalizePromptAsync, formatNormalizationLog, needsNormalization, containsVietnamese } from '../utils/promptNormalizer';
 import { recordPrompt, approvePrompt, getSuggestedKeywords } from '../utils/dopLearning';
 import { analyzeSceneContinuity, extractCharacterState } from '../utils/dopIntelligence';
 import { incrementGlobalStats, recordGeneratedImage } from '../utils/userGlobalStats';
 import { validateRaccord as validateRaccordWithVision, formatValidationResult } from '../utils/dopRaccordValidator';
 import type { RaccordValidationResult } from '../utils/dopRaccordValidator';
-import { isGridModel, splitImageGrid } from '../utils/imageUtils';
+import { splitImageGrid } from '../utils/imageUtils';
 import { RetryContext, getCorrectionPrompt } from '../utils/dopCorrections';
 import { loadDirectorMemory, saveDirectorMemory, recordGeneration as recordDirectorGeneration } from '../utils/directorBrain';
 // Helper function to clean VEO-specific tokens from prompt for image generation
@@ -30,17 +36,6 @@ const cleanPromptForImageGen = (prompt: string): string => {
         .trim();
 };
 
-// Helper: Determine which provider to use based on model ID
-const getProviderFromModel = (modelId: string): 'gemini' | 'gommo' | 'fal' | 'imperial' => {
-    const model = IMAGE_MODELS.find(m => m.value === modelId);
-    if (!model) return 'gemini';
-
-    const p = model.provider;
-    if (p === 'imperial') return 'imperial';
-    if (p === 'google') return 'gommo'; // Google models via Gommo Proxy
-    return (p as 'gemini' | 'gommo' | 'fal') || 'gemini';
-};
-
 // Helper: Delay function for retries
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -143,6 +138,21 @@ export function useImageGeneration(
     // Generation Lock: Track which scenes are currently being generated to prevent duplicates
     const generatingSceneIdsRef = useRef<Set<string>>(new Set());
 
+    // Persistent job queue (survives reloads; an interrupted batch comes back paused)
+    const [generationQueue, setGenerationQueue] = useState<GenerationQueue>(() => loadGenerationQueue());
+    const queueRef = useRef<GenerationQueue>(generationQueue);
+    const isQueueRunningRef = useRef(false);
+    // Batch-specific reference/base images stay in memory only
+    const jobImagesRef = useRef(new Map<string, { referenceImage?: string; baseImage?: string }>());
+
+    const commitQueue = useCallback((fn: (queue: GenerationQueue) => GenerationQueue) => {
+        const next = fn(queueRef.current);
+        if (next === queueRef.current) return;
+        queueRef.current = next;
+        saveGenerationQueue(next);
+        setGenerationQueue(next);
+    }, []);
+
     // [Fix] Signal stop when the hook instance is destroyed, key changes, or project changes
     React.useEffect(() => {
         return () => {
@@ -154,6 +164,13 @@ export function useImageGeneration(
         };
     }, [userApiKey, state.projectName]);
 
+    // Another project was opened or scenes were deleted: drop queued jobs of scenes that no longer exist
+    const sceneIdsKey = state.scenes.map(s => s.id).join(',');
+    React.useEffect(() => {
+        if (state.scenes.length === 0 || isQueueRunningRef.current) return;
+        commitQueue(q => pruneMissingScenes(q, state.scenes.map(s => s.id)));
+    }, [state.projectName, sceneIdsKey, commitQueue]);
+
     /**
      * Pi Strategic Dispatcher - Backend Optimization
      * Calls the backend Pi service to optimize the prompt based on model weaknesses
@@ -275,330 +292,14 @@ export function useImageGeneration(
         imageSize: string = '1K',
         gommoCredentials?: { domain: string; accessToken: string }
     ): Promise<{ imageUrl: string; mediaId?: string }> => {
-        const provider = getProviderFromModel(model);
-
-        console.log(`[ImageGen] Provider: ${provider}, Model: ${model}`);
         console.log(`[ImageGen] Gommo credentials check:`, {
             domain: gommoCredentials?.domain || '(empty)',
             hasToken: !!gommoCredentials?.accessToken,
             tokenLength: gommoCredentials?.accessToken?.length || 0
         });
 
-        // ═══════════════════════════════════════════════════════════════
-        // 👑 IMPERIAL ULTRA PATH: Premium Gemini 3 Image Generation
-        // ═══════════════════════════════════════════════════════════════
-        if (provider === 'imperial') {
-            console.log('[ImageGen] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-            console.log('[ImageGen] 👑 Using IMPERIAL ULTRA provider');
-
-            // Dynamically import to avoid circular deps
-            const { callImperialImage, isImperialUltraEnabled, checkImperialHealth, getImperialKeySource } = await import('../utils/imperialUltraClient');
-
-            if (!isImperialUltraEnabled()) {
-                console.warn('[ImageGen] ⚠️ Imperial Ultra disabled, falling back to Fal.ai');
-                // Fall through to Fal.ai below
-            } else {
-                const isHealthy = await checkImperialHealth();
-                if (!isHealthy) {
-                    console.warn('[ImageGen] ⚠️ Imperial Ultra unhealthy, falling back to Fal.ai');
-                    // Fall through to Fal.ai below
-                } else {
-                    try {
-                        const keySource = getImperialKeySource();
-                        console.log(`[ImageGen] 👑 Imperial Image Request:`);
-                        console.log(`  ├─ Model: ${model}`);
-                        console.log(`  ├─ Key Source: ${keySource.toUpperCase()}`);
-                        console.log(`  ├─ Aspect Ratio: ${aspectRatio}`);
-                        console.log(`  └─ Prompt: ${prompt.substring(0, 80)}...`);
-
-                        const result = await callImperialImage(prompt, {
-                            model: model,
-                            aspectRatio: aspectRatio
-                        });
-
-                        if (result.base64) {
-                            console.log('[ImageGen] 👑 ✅ Imperial image generated (base64)');
-                            return { imageUrl: result.base64 };
-                        } else if (result.url) {
-                            console.log('[ImageGen] 👑 ✅ Imperial image generated (URL)');
-                            // Convert to base64 for consistency
-                            const { urlToBase64 } = await import('../utils/gommoAI');
-                            const base64 = await urlToBase64(result.url);
-                            return { imageUrl: base64 };
-                        }
-                        throw new Error('No image in Imperial response');
-                    } catch (error: any) {
-                        console.error('[ImageGen] 👑 ❌ Imperial image failed:', error.message);
-                        console.log('[ImageGen] 📉 Fallback: Imperial → Fal.ai');
-                        // Fall through to Fal.ai below
-                    }
-                }
-            }
-            console.log('[ImageGen] ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
-        }
-
-        // ═══════════════════════════════════════════════════════════════
-        // FAL.AI PATH: Optimized for Flux.1 Sequential Consistency
-        // ═══════════════════════════════════════════════════════════════
-        if (provider === 'fal') {
-            console.log('[ImageGen] 🚀 Using FAL.AI provider');
-            try {
-                // Get references from parts
-                let face_id_url = undefined;
-                let image_url = undefined;
-
-                // Extract URLs from parts (logic for sequential passing)
-                // In this implementation, we assume the last image part is the continuity ref
-                // and character parts have specific labels
-                const facePart = parts.find(p => p.text?.includes('FACE ID LOCK') || p.text?.includes('IDENTITY'));
-                const continuityPart = parts.find(p => p.text?.includes('CONTINUITY_ANCHOR') || p.text?.includes('LOCATION CONTINUITY'));
-
-                // Log details for debugging
-                if (continuityPart) console.log(`[ImageGen] 🔗 Sequential reference detected: ${continuityPart.imageUrl?.substring(0, 50)}...`);
-                if (facePart) console.log(`[ImageGen] 🎭 Face ID reference detected: ${facePart.imageUrl?.substring(0, 50)}...`);
-
-                // Retrieve Fal API Key from localStorage (User Setting)
-                const customFalKey = typeof window !== 'undefined' ? localStorage.getItem('falApiKey') : null;
-                const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-                if (customFalKey) {
-                    headers['x-fal-api-key'] = customFalKey;
-                }
-
-                const response = await fetch('/api/proxy/fal/flux', {
-                    method: 'POST',
-                    headers,
-                    body: JSON.stringify({
-                        prompt,
-                        image_url: continuityPart?.imageUrl || undefined,
-                        face_id_url: facePart?.imageUrl || undefined,
-                        aspect_ratio: aspectRatio === '16:9' ? 'landscape_16_9' :
-                            aspectRatio === '9:16' ? 'portrait_16_9' : 'square'
-                    })
-                });
-
-                const data = await response.json();
-                if (!data.success) throw new Error(data.error || 'Fal.ai generation failed');
-
-                return { imageUrl: data.url };
-            } catch (error: any) {
-                console.error('[ImageGen] ❌ Fal.ai generation failed:', error.message);
-                throw error;
-            }
-        }
-
-        // ═══════════════════════════════════════════════════════════════
-        // GOMMO PATH: Supports subjects array for Face ID references
-        // ═══════════════════════════════════════════════════════════════
-        if (provider === 'gommo' && gommoCredentials?.domain && gommoCredentials?.accessToken) {
-            console.log('[ImageGen] 🟡 Using GOMMO provider');
-
-            // ═══════════════════════════════════════════════════════════════
-            // SMART SUBJECT EXTRACTION: Prioritize Face ID > Body > Continuity
-            // This ensures character identity is preserved when limiting subjects
-            // ═══════════════════════════════════════════════════════════════
-
-            // Categorize parts by type for smart prioritization
-            const faceSubjects: Array<{ data: string; url?: string; charName?: string }> = [];
-            const bodySubjects: Array<{ data: string; url?: string; charName?: string }> = [];
-            const otherSubjects: Array<{ data: string; url?: string }> = [];
-
-            for (let i = 0; i < parts.length; i++) {
-                const part = parts[i];
-
-                // Skip non-image parts
-                if (!part.inlineData?.data || !part.inlineData?.mimeType) continue;
-
-                const base64Data = part.inlineData.data;
-                const publicUrl = part.imageUrl && part.imageUrl.startsWith('http') && !part.imageUrl.includes('blob:')
-                    ? part.imageUrl
-                    : undefined;
-
-                // Look at the PREVIOUS part for context (text instruction)
-                const prevPart = i > 0 ? parts[i - 1] : null;
-                const prevText = prevPart?.text?.toUpperCase() || '';
-
-                // Categorize based on instruction text
-                if (prevText.includes('FACE ID') || prevText.includes('IDENTITY_') || prevText.includes('IDENTITY LOCK')) {
-                    // Extract character name from text like "[IDENTITY_JOHN]:" or "FACE ID LOCK - JOHN"
-                    const nameMatch = prevText.match(/(?:IDENTITY_|FACE ID LOCK[^A-Z]*)([\w\s]+)/);
-                    faceSubjects.push({ data: base64Data, url: publicUrl, charName: nameMatch?.[1]?.trim() });
-                    console.log(`[ImageGen] 🔒 Found FACE ID reference${nameMatch ? ` for ${nameMatch[1].trim()}` : ''} (Using URL: ${!!publicUrl})`);
-                } else if (prevText.includes('FULL BODY') || prevText.includes('FULLBODY_') || prevText.includes('COSTUME')) {
-                    const nameMatch = prevText.match(/(?:FULLBODY_|)([\w\s]+)\s*(?:FULL BODY|COSTUME)/);
-                    bodySubjects.push({ data: base64Data, url: publicUrl, charName: nameMatch?.[1]?.trim() });
-                    console.log(`[ImageGen] 👕 Found BODY reference${nameMatch ? ` for ${nameMatch[1].trim()}` : ''} (Using URL: ${!!publicUrl})`);
-                } else {
-                    otherSubjects.push({ data: base64Data, url: publicUrl });
-                }
-            }
-
-            // Build prioritized subjects array: FACE first, then BODY, then others
-            // This ensures Face ID is never dropped when limiting
-            const prioritizedSubjects: Array<{ id_base?: string; url?: string; data?: string }> = [];
-
-            const buildSubject = (s: { data: string; url?: string }) => {
-                // IMPORTANT: If we have a public URL, use it and SKIP the huge base64 data
-                // This drastically reduces payload size for Gommo Proxy (x-www-form-urlencoded)
-                if (s.url) {
-                    return { url: s.url };
-                }
-                return { data: s.data };
-            };
-
-            // 1. Add ALL Face IDs first (critical for identity)
-            faceSubjects.forEach(s => prioritizedSubjects.push(buildSubject(s)));
-
-            // 2. Add Body references (important for clothing consistency)
-            bodySubjects.forEach(s => prioritizedSubjects.push(buildSubject(s)));
-
-            // 3. Add other references (continuity, environment, etc.)
-            otherSubjects.forEach(s => prioritizedSubjects.push(buildSubject(s)));
-
-            console.log(`[ImageGen] 📊 Subject breakdown: ${faceSubjects.length} Face, ${bodySubjects.length} Body, ${otherSubjects.length} Other = ${prioritizedSubjects.length} total`);
-
-            // Use prioritizedSubjects instead of simple array
-            const subjects = prioritizedSubjects;
-
-            try {
-                const client = new GommoAI(gommoCredentials.domain, gommoCredentials.accessToken);
-                const gommoRatio = GommoAI.convertRatio(aspectRatio);
-
-                // GOMMO IDENTITY INJECTION: Prepend instruction to match subject images
-                // Gommo models need explicit instruction to use subjects for face/body
-                let gommoPrompt = prompt;
-                if (subjects.length > 0) {
-                    // Build character summary for identity lock
-                    const faceNames = faceSubjects.map(s => s.charName).filter(Boolean).join(', ');
-                    const bodyNames = bodySubjects.map(s => s.charName).filter(Boolean).join(', ');
-
-                    let identityPrefix = `[IDENTITY LOCK] Use the provided reference image(s) as the ONLY source for character identity. Match the face structure, features, bone structure, and eyes EXACTLY from the first reference image(s). `;
-
-                    if (faceNames) identityPrefix += `Strictly maintain identity for: ${faceNames}. `;
-                    if (bodyNames) identityPrefix += `Strictly maintain outfit/physique for: ${bodyNames}. `;
-
-                    identityPrefix += `Do NOT generate generic or different faces. The visual references are the absolute truth. `;
-
-                    gommoPrompt = identityPrefix + prompt;
-                    console.log(`[ImageGen] 🔒 Added IDENTITY LOCK prefix for Gommo (${faceSubjects.length} face, ${bodySubjects.length} body)`);
-                }
-
-                // ═══════════════════════════════════════════════════════════════
-                // SMART SUBJECT LIMITING: Model-aware limits with clear logging
-                // Since we prioritized Face > Body > Other above, simple slice works correctly
-                // ═══════════════════════════════════════════════════════════════
-
-                // Get model-specific subject limit from appConstants (some models support more)
-                const modelInfo = IMAGE_MODELS.find(m => m.value === model);
-                const supportsSubject = modelInfo?.supportsSubject !== false;
-
-                // Most Gommo models support 3-9 subjects depending on model
-                // seedream_4_0, google_image_gen_banana: 9 subjects
-                // google_image_gen_banana_pro, seedream_4_5, o1: 6 subjects  
-                // google_image_gen_4_5: 3 subjects
-                const getSubjectLimit = (modelId: string): number => {
-                    if (modelId.includes('seedream_4_0') || modelId.includes('banana') && !modelId.includes('pro')) return 9;
-                    if (modelId.includes('banana_pro') || modelId.includes('seedream_4_5') || modelId === 'o1') return 6;
-                    if (modelId.includes('4_5')) return 3;
-                    return 6; // Default safe limit
-                };
-
-                const subjectLimit = supportsSubject ? getSubjectLimit(model) : 0;
-                const limitedSubjects = subjects.slice(0, subjectLimit);
-
-                if (subjects.length > subjectLimit) {
-                    console.log(`[ImageGen] ⚠️ Limiting subjects from ${subjects.length} to ${subjectLimit} for model ${model}`);
-                    console.log(`[ImageGen] 📊 Kept: ${Math.min(faceSubjects.length, subjectLimit)} Face IDs, ${Math.min(bodySubjects.length, Math.max(0, subjectLimit - faceSubjects.length))} Body refs`);
-                } else if (subjects.length > 0) {
-                    console.log(`[ImageGen] ✅ Using all ${subjects.length} subjects (limit: ${subjectLimit} for ${model})`);
-                }
-
-                // Map UI resolution to Gommo format
-                const gommoResolution = imageSize as '1K' | '2K' | '4K';
-                console.log(`[ImageGen] Gommo resolution setting: ${gommoResolution}`);
-
-                const generationParams = {
-                    prompt: gommoPrompt,
-                    ratio: gommoRatio,
-                    resolution: gommoResolution,
-                    model: model,
-                    subjects: limitedSubjects.length > 0 ? limitedSubjects : undefined,
-                };
-
-                console.log(`[ImageGen] 🚀 Calling Gommo generateImage with params:`, JSON.stringify({
-                    ...generationParams,
-                    subjects: generationParams.subjects?.map(s => ({ ...s, data: s.data ? 'base64...' : undefined }))
-                }));
-
-                // Generate image via Gommo (async with polling)
-                const cdnUrl = await client.generateImage(gommoPrompt, {
-                    ratio: gommoRatio,
-                    resolution: gommoResolution,
-                    model: model,
-                    subjects: limitedSubjects.length > 0 ? limitedSubjects : undefined,
-                    onProgress: (status, attempt) => {
-                        console.log(`[Gommo] Polling ${attempt}/60: ${status}`);
-                    }
-                });
-
-                // Convert CDN URL to base64 for consistency with existing code
-                const base64Image = await urlToBase64(cdnUrl);
-                console.log('[ImageGen] ✅ Gommo image generated successfully');
-
-                return { imageUrl: base64Image };
-            } catch (error: any) {
-                console.error('[ImageGen] ❌ Gommo generation failed:', error.message);
-                throw new Error(`Gommo Error: ${error.message}`);
-            }
-        }
-
-        // ═══════════════════════════════════════════════════════════════
-        // ERROR: Gommo model selected but credentials missing
-        // ═══════════════════════════════════════════════════════════════
-        if (provider === 'gommo') {
-            console.error('[ImageGen] ❌ Gommo model selected but credentials missing!', {
-                domain: gommoCredentials?.domain || '(empty)',
-                token: gommoCredentials?.accessToken ? '(set)' : '(empty)'
-            });
-            throw new Error('Gommo credentials chưa được cấu hình. Vào Profile → Gommo AI để nhập Domain và Access Token.');
-        }
-
-        // ═══════════════════════════════════════════════════════════════
-        // DEFAULT PATH: Fall back to Fal.ai for any other provider
-        // (Previously Gemini - now migrated to Fal.ai)
-        // ═══════════════════════════════════════════════════════════════
-        console.log('[ImageGen] 🚀 Using FAL.AI provider (default fallback)');
-        try {
-            // Get references from parts for Fal.ai
-            const facePart = parts.find(p => p.text?.includes('FACE ID LOCK') || p.text?.includes('IDENTITY'));
-            const continuityPart = parts.find(p => p.text?.includes('CONTINUITY_ANCHOR') || p.text?.includes('LOCATION CONTINUITY'));
-
-            // Retrieve Fal API Key from localStorage (User Setting)
-            const customFalKey = typeof window !== 'undefined' ? localStorage.getItem('falApiKey') : null;
-            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-            if (customFalKey) {
-                headers['x-fal-api-key'] = customFalKey;
-            }
-
-            const response = await fetch('/api/proxy/fal/flux', {
-                method: 'POST',
-                headers,
-                body: JSON.stringify({
-                    prompt,
-                    image_url: continuityPart?.imageUrl || undefined,
-                    face_id_url: facePart?.imageUrl || undefined,
-                    aspect_ratio: aspectRatio === '16:9' ? 'landscape_16_9' :
-                        aspectRatio === '9:16' ? 'portrait_16_9' : 'square'
-                })
-            });
-
-            const data = await response.json();
-            if (!data.success) throw new Error(data.error || 'Fal.ai generation failed');
-
-            return { imageUrl: data.url || data.imageUrl };
-        } catch (error: any) {
-            console.error('[ImageGen] ❌ Fal.ai generation failed:', error.message);
-            throw error;
-        }
+        // Provider-specific packing (subjects, face locks, ratios) lives in the adapters
+        return generateImageWithProvider({ prompt, model, aspectRatio, imageSize, parts, gommoCredentials });
     };
 
     // referenceImage: Optional image URL to use as visual DNA reference (from another scene)
@@ -1929,7 +1630,7 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
             let variants: string[] = [];
 
             // [MJ FIX] Detect Midjourney grid and split into 4 images
-            if (isGridModel(modelToUse) && rawImageUrl.startsWith('data:image')) {
+            if (getImageModelCapabilities(modelToUse).gridOutput && rawImageUrl.startsWith('data:image')) {
                 try {
                     console.log('[ImageGen] 🧩 Midjourney grid detected, splitting...');
                     variants = await splitImageGrid(rawImageUrl);
@@ -1973,6 +1674,7 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
                 const resolutionKey = (currentState.resolution || '1K') as '1K' | '2K' | '4K';
                 const currentStats = s.usageStats || { '1K': 0, '2K': 0, '4K': 0, total: 0 };
                 const newCount = (currentStats[resolutionKey] || 0) + 1;
+                const imageCost = getImageCreditCost(modelToUse);
 
                 const updatedStats = {
                     ...currentStats,
@@ -2017,6 +1719,7 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
 
                 return {
                     ...s,
+                    creditsSpent: (s.creditsSpent || 0) + imageCost,
                     totalGenerationTime: (s.totalGenerationTime || 0) + duration,
                     scenes: s.scenes.map(sc => sc.id === sceneId ? {
                         ...sc,
@@ -2024,6 +1727,7 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
                         generationStartTime: undefined,
                         ...(fromManual ? { endFrameImage: imageUrl } : { generatedImage: imageUrl }),
                         generatedByModel: currentState.imageModel, // Track which model generated this
+                        generationCost: (sc.generationCost || 0) + imageCost,
                         mediaId: fromManual ? sc.mediaId : (mediaId || sc.mediaId),
                         isGenerating: false,
                         error: null,
@@ -2182,7 +1886,7 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
                     }
 
                     return {
-                        ...s,
+                        ...addCreditsSpent(s, currentState.imageModel || 'gemini-3-pro-image-preview'),
                         usageStats: updatedStats
                     };
                 });
@@ -2200,33 +1904,11 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
     }, [stateRef, userApiKey, setApiKeyModalOpen, userId]);
 
     // specificSceneIds: Optional list of specific IDs to regenerate
-    // referenceMap: Optional mapping of sceneId -> sourceImageURL for DNA syncing
-    // baseImageMap: Optional mapping of sceneId -> baseImageURL for Img2Img editing from a specific source
-    const handleGenerateAllImages = useCallback(async (specificSceneIds?: string[], referenceMap?: { [key: string]: string }, baseImageMap?: { [key: string]: string }) => {
-        console.log('[BatchGen] handleGenerateAllImages called', { specificSceneIds, hasReferenceMap: !!referenceMap, hasBaseImageMap: !!baseImageMap });
-
-        const allScenesToGenerate = specificSceneIds
-            ? stateRef.current.scenes.filter(s => specificSceneIds.includes(s.id))
-            : stateRef.current.scenes.filter(s => !s.generatedImage && s.contextDescription);
-
-        // Generation Lock: Filter out scenes that are already being generated
-        const scenesToGenerate = allScenesToGenerate.filter(scene => {
-            if (generatingSceneIdsRef.current.has(scene.id)) {
-                console.warn(`[BatchGen] ⏸️ Scene ${scene.sceneNumber} (${scene.id}) already generating, skipping duplicate request`);
-                return false;
-            }
-            return true;
-        });
-
-        // Mark all scenes as generating
-        scenesToGenerate.forEach(scene => generatingSceneIdsRef.current.add(scene.id));
-
-        console.log('[BatchGen] Scenes to generate:', scenesToGenerate.length, '(filtered from', allScenesToGenerate.length, ')');
-
-        if (scenesToGenerate.length === 0) {
-            console.log('[BatchGen] No scenes to generate (all duplicates or empty), returning');
-            return; // Don't show alert if we filtered out duplicates
-        }
+    // Run queued jobs in order until the queue is empty or paused (stop button, fatal API error)
+    const runGenerationQueue = useCallback(async () => {
+        if (isQueueRunningRef.current) return;
+        if (!nextQueuedJob(queueRef.current)) return;
+        isQueueRunningRef.current = true;
 
         // PRE-WARM CACHE: Load all character/product reference images upfront
         // This significantly speeds up first image generation
@@ -2264,362 +1946,418 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
         setIsBatchGenerating(true);
         setIsStopping(false);
         stopRef.current = false;
+        commitQueue(q => setQueueStatus(q, 'running'));
 
         console.log('[BatchGen] Starting batch generation...');
         const batchStartTime = Date.now();
+        // Run budget counts credits spent since this run started
+        const creditsAtStart = stateRef.current.creditsSpent || 0;
+        let budgetWarned = false;
+        let pausedByBudget = false;
         setAgentState('director', 'thinking', 'Đang lập kế hoạch sản xuất cho các phân cảnh...');
         setAgentState('dop', 'idle', '');
 
         try {
-            // KEY FRAME STRATEGY: Generate Key Frames FIRST within each group
-            // This ensures hero shots are available as references for other scenes
-            const sortedScenes = [...scenesToGenerate].sort((a, b) => {
-                // Key frames first
-                if (a.isKeyFrame && !b.isKeyFrame) return -1;
-                if (!a.isKeyFrame && b.isKeyFrame) return 1;
-                // Then by scene number
-                return parseInt(a.sceneNumber) - parseInt(b.sceneNumber);
-            });
-
-            const keyFrameCount = sortedScenes.filter(s => s.isKeyFrame).length;
-            if (keyFrameCount > 0) {
-                console.log(`[BatchGen] ⭐ Key Frame Strategy: ${keyFrameCount} key frames will be generated first`);
-            }
-
-            for (let i = 0; i < sortedScenes.length; i++) {
-                const scene = sortedScenes[i];
-                if (stopRef.current) break;
-
-                setAgentState('director', 'speaking', `Đang chỉ đạo Phân cảnh ${scene.sceneNumber}...`);
-
-                // STORYBOARD MODE: Find cascade reference from same group for visual consistency
-                const cascadeRef = findCascadeReference(scene, stateRef.current);
+            while (!stopRef.current) {
+                const job = nextQueuedJob(queueRef.current);
+                if (!job) break;
+
+                const scene = stateRef.current.scenes.find(s => s.id === job.sceneId);
+                // Generation Lock: the scene may be generating from a single-scene request
+                if (!scene || generatingSceneIdsRef.current.has(scene.id)) {
+                    console.warn(`[BatchGen] ⏸️ Skipping job for scene ${job.sceneNumber}: ${scene ? 'already generating' : 'scene removed'}`);
+                    commitQueue(q => updateJob(q, job.id, {
+                        status: 'skipped',
+                        finishedAt: Date.now(),
+                        error: scene ? 'Cảnh đang được tạo ở nơi khác' : 'Cảnh đã bị xóa'
+                    }));
+                    continue;
+                }
 
-                // Check if this scene has a specific DNA reference image (from Reference Map OR Scene Attributes)
-                // Priority: explicit referenceMap > scene.referenceImage > cascadeReference
-                const dnaReference = (referenceMap && referenceMap[scene.id]) || scene.referenceImage || cascadeRef || undefined;
+                const model = stateRef.current.imageModel || 'gemini-3-pro-image-preview';
 
-                // Check if scene ALREADY has an image -> Treat as Base Image for Editing
-                // PRIORITIZE explicitly passed baseImageMap
-                const existingBaseImage = (baseImageMap && baseImageMap[scene.id]) || scene.generatedImage || undefined;
+                // BUDGET GUARD: pause before a job that would exceed the project or run budget
+                const projectSpent = stateRef.current.creditsSpent || 0;
+                const budgetCheck = checkBudget(
+                    stateRef.current.creditBudget,
+                    projectSpent,
+                    projectSpent - creditsAtStart,
+                    getImageCreditCost(model)
+                );
+                if (budgetCheck.level === 'exceeded') {
+                    console.warn(`[BatchGen] 💸 ${budgetCheck.message}. Pausing queue.`);
+                    setAgentState('director', 'error', `${budgetCheck.message}. Đã tạm dừng hàng đợi.`);
+                    if (addProductionLog) {
+                        addProductionLog('director', `💸 ${budgetCheck.message}. Hàng đợi đã tạm dừng - tăng ngân sách rồi bấm "Tiếp tục".`, 'warning');
+                    }
+                    pausedByBudget = true;
+                    stopRef.current = true;
+                    break;
+                }
+                if (budgetCheck.level === 'warning' && !budgetWarned) {
+                    budgetWarned = true;
+                    console.warn(`[BatchGen] 💰 ${budgetCheck.message}`);
+                    if (addProductionLog) {
+                        addProductionLog('director', `💰 ${budgetCheck.message}`, 'warning');
+                    }
+                }
 
-                const result = await performImageGeneration(scene.id, undefined, false, dnaReference, existingBaseImage);
+                commitQueue(q => updateJob(q, job.id, {
+                    status: 'running',
+                    attempts: job.attempts + 1,
+                    startedAt: Date.now(),
+                    model,
+                    provider: getImageProviderForModel(model).id,
+                    error: undefined
+                }));
+                generatingSceneIdsRef.current.add(scene.id);
+                const imageBefore = scene.generatedImage;
+                const jobImages = jobImagesRef.current.get(scene.id);
 
-                if (result === 'critical_error') {
-                    console.warn(`[BatchGen] ⚠️ CRITICAL DOP ERROR in Scene ${scene.sceneNumber}. Marking as unfixable but CONTINUING batch.`);
-                    // We do NOT break here anymore, per user request.
-                    // The scene is already marked as error in state by performImageGeneration.
-                }
+                try {
+                    setAgentState('director', 'speaking', `Đang chỉ đạo Phân cảnh ${scene.sceneNumber}...`);
 
-                setAgentState('director', 'success', `Đã xử lý xong Phân cảnh ${scene.sceneNumber}.`);
+                    // STORYBOARD MODE: Find cascade reference from same group for visual consistency
+                    const cascadeRef = findCascadeReference(scene, stateRef.current);
 
+                    // Check if this scene has a specific DNA reference image (from Reference Map OR Scene Attributes)
+                    // Priority: explicit referenceMap (this session only) > scene.referenceImage > cascadeReference
+                    const dnaReference = jobImages?.referenceImage || scene.referenceImage || cascadeRef || undefined;
 
-                // Get the newly generated image
-                const updatedState = stateRef.current;
-                const updatedScene = updatedState.scenes.find(s => s.id === scene.id);
-                const currentImage = updatedScene?.generatedImage;
+                    // Check if scene ALREADY has an image -> Treat as Base Image for Editing
+                    // PRIORITIZE explicitly passed baseImageMap
+                    const existingBaseImage = jobImages?.baseImage || scene.generatedImage || undefined;
 
-                // DOP Vision Validation - Re-enabled for raccord checking
-                // Validates visual continuity with previous scene
-                // User toggle: isDOPEnabled from state
-                if (isDOPEnabled && validateRaccordWithVision && currentImage && userApiKey) {
-                    const currentSceneIndex = updatedState.scenes.findIndex(s => s.id === scene.id);
-                    const prevScene = currentSceneIndex > 0 ? updatedState.scenes[currentSceneIndex - 1] : null;
+                    const result = await performImageGeneration(scene.id, undefined, false, dnaReference, existingBaseImage);
 
-                    if (prevScene?.generatedImage) {
-                        setAgentState('dop', 'thinking', 'Đang kiểm tra tính nhất quán (Raccord) với cảnh trước...');
-                        console.log('[DOP] Validating raccord between scenes...');
+                    if (result === 'critical_error') {
+                        console.warn(`[BatchGen] ⚠️ CRITICAL DOP ERROR in Scene ${scene.sceneNumber}. Marking as unfixable but CONTINUING batch.`);
+                        // We do NOT break here anymore, per user request.
+                        // The scene is already marked as error in state by performImageGeneration.
+                    }
 
+                    setAgentState('director', 'success', `Đã xử lý xong Phân cảnh ${scene.sceneNumber}.`);
 
-                        // [DOP UI FEEDBACK] Show validation in progress
-                        updateStateAndRecord(s => ({
-                            ...s,
-                            scenes: s.scenes.map(sc => sc.id === scene.id ? {
-                                ...sc,
-                                error: '🎬 DOP đang kiểm tra...'
-                            } : sc)
-                        }));
 
-                        // Max 1 retry: If still wrong, show error message for user review
-                        let MAX_DOP_RETRIES = 1;
-                        let retryCount = 0;
-                        let lastValidation = await validateRaccordWithVision(
-                            currentImage,
-                            prevScene.generatedImage,
-                            updatedScene!,
-                            prevScene,
-                            userApiKey
-                        );
+                    // Get the newly generated image
+                    const updatedState = stateRef.current;
+                    const updatedScene = updatedState.scenes.find(s => s.id === scene.id);
+                    const currentImage = updatedScene?.generatedImage;
 
-                        // DEBUG: Log full validation result
-                        console.log('[DOP] Validation result:', {
-                            isValid: lastValidation.isValid,
-                            errorCount: lastValidation.errors?.length || 0,
-                            errors: lastValidation.errors,
-                            decision: lastValidation.decision
-                        });
+                    // DOP Vision Validation - Re-enabled for raccord checking
+                    // Validates visual continuity with previous scene
+                    // User toggle: isDOPEnabled from state
+                    if (isDOPEnabled && validateRaccordWithVision && currentImage && userApiKey) {
+                        const currentSceneIndex = updatedState.scenes.findIndex(s => s.id === scene.id);
+                        const prevScene = currentSceneIndex > 0 ? updatedState.scenes[currentSceneIndex - 1] : null;
 
-                        // Filter for critical errors (warrant regen)
-                        // character: face/identity wrong
-                        // prop: items missing/wrong
-                        // spatial: background/environment wrong
-                        const criticalErrors = lastValidation.errors.filter(e =>
-                            e.type === 'character' || e.type === 'prop' || e.type === 'spatial'
-                        );
+                        if (prevScene?.generatedImage) {
+                            setAgentState('dop', 'thinking', 'Đang kiểm tra tính nhất quán (Raccord) với cảnh trước...');
+                            console.log('[DOP] Validating raccord between scenes...');
 
-                        console.log('[DOP] Critical errors:', criticalErrors.length, criticalErrors);
 
-                        // FIX: If validation passed OR no critical errors, clear the checking status immediately
-                        if (lastValidation.isValid || criticalErrors.length === 0) {
+                            // [DOP UI FEEDBACK] Show validation in progress
                             updateStateAndRecord(s => ({
                                 ...s,
                                 scenes: s.scenes.map(sc => sc.id === scene.id ? {
                                     ...sc,
-                                    error: lastValidation.isValid ? null : `ℹ️ Minor issues (non-critical): ${lastValidation.errors.map(e => e.description).join('; ')}`
+                                    error: '🎬 DOP đang kiểm tra...'
                                 } : sc)
                             }));
 
-                            if (lastValidation.isValid) {
-                                console.log('[DOP] Raccord validation PASSED - clearing status');
-                                setAgentState('dop', 'success', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo!`);
-                            } else {
-                                console.log('[DOP] Only minor issues found - continuing without retry');
-                                setAgentState('dop', 'idle', '');
+                            // Max 1 retry: If still wrong, show error message for user review
+                            let MAX_DOP_RETRIES = 1;
+                            let retryCount = 0;
+                            let lastValidation = await validateRaccordWithVision(
+                                currentImage,
+                                prevScene.generatedImage,
+                                updatedScene!,
+                                prevScene,
+                                userApiKey
+                            );
+
+                            // DEBUG: Log full validation result
+                            console.log('[DOP] Validation result:', {
+                                isValid: lastValidation.isValid,
+                                errorCount: lastValidation.errors?.length || 0,
+                                errors: lastValidation.errors,
+                                decision: lastValidation.decision
+                            });
+
+                            // Filter for critical errors (warrant regen)
+                            // character: face/identity wrong
+                            // prop: items missing/wrong
+                            // spatial: background/environment wrong
+                            const criticalErrors = lastValidation.errors.filter(e =>
+                                e.type === 'character' || e.type === 'prop' || e.type === 'spatial'
+                            );
+
+                            console.log('[DOP] Critical errors:', criticalErrors.length, criticalErrors);
+
+                            // FIX: If validation passed OR no critical errors, clear the checking status immediately
+                            if (lastValidation.isValid || criticalErrors.length === 0) {
+                                updateStateAndRecord(s => ({
+                                    ...s,
+                                    scenes: s.scenes.map(sc => sc.id === scene.id ? {
+                                        ...sc,
+                                        error: lastValidation.isValid ? null : `ℹ️ Minor issues (non-critical): ${lastValidation.errors.map(e => e.description).join('; ')}`
+                                    } : sc)
+                                }));
+
+                                if (lastValidation.isValid) {
+                                    console.log('[DOP] Raccord validation PASSED - clearing status');
+                                    setAgentState('dop', 'success', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo!`);
+                                } else {
+                                    console.log('[DOP] Only minor issues found - continuing without retry');
+                                    setAgentState('dop', 'idle', '');
+                                }
                             }
-                        }
 
-                        // Use Decision Agent if available, otherwise use simple retry logic
-                        if (!lastValidation.isValid && criticalErrors.length > 0) {
-                            console.log(`[DOP] RACCORD ERROR DETECTED:`, criticalErrors);
+                            // Use Decision Agent if available, otherwise use simple retry logic
+                            if (!lastValidation.isValid && criticalErrors.length > 0) {
+                                console.log(`[DOP] RACCORD ERROR DETECTED:`, criticalErrors);
 
-                            // Get original prompt for decision agent
-                            const originalPrompt = updatedScene?.contextDescription || '';
+                                // Get original prompt for decision agent
+                                const originalPrompt = updatedScene?.contextDescription || '';
 
-                            // Ask Decision Agent if we should retry
-                            let shouldRetry = true;
-                            let enhancedCorrection = lastValidation.correctionPrompt;
+                                // Ask Decision Agent if we should retry
+                                let shouldRetry = true;
+                                let enhancedCorrection = lastValidation.correctionPrompt;
 
-                            if (makeRetryDecision && currentImage) {
-                                setAgentState('dop', 'speaking', 'Phát hiện lỗi Raccord! Đang phân tích khả năng sửa đổi...');
-                                console.log('[DOP Agent] Analyzing if retry will succeed...');
+                                if (makeRetryDecision && currentImage) {
+                                    setAgentState('dop', 'speaking', 'Phát hiện lỗi Raccord! Đang phân tích khả năng sửa đổi...');
+                                    console.log('[DOP Agent] Analyzing if retry will succeed...');
 
 
-                                // [DOP UI FEEDBACK] Show decision agent thinking
-                                updateStateAndRecord(s => ({
-                                    ...s,
-                                    scenes: s.scenes.map(sc => sc.id === scene.id ? {
-                                        ...sc,
-                                        error: '🧠 DOP Agent đang phân tích lỗi...'
-                                    } : sc)
-                                }));
+                                    // [DOP UI FEEDBACK] Show decision agent thinking
+                                    updateStateAndRecord(s => ({
+                                        ...s,
+                                        scenes: s.scenes.map(sc => sc.id === scene.id ? {
+                                            ...sc,
+                                            error: '🧠 DOP Agent đang phân tích lỗi...'
+                                        } : sc)
+                                    }));
+
+                                    const decision = await makeRetryDecision(
+                                        currentImage,
+                                        prevScene.generatedImage,
+                                        originalPrompt,
+                                        criticalErrors,
+                                        userApiKey
+                                    );
 
-                                const decision = await makeRetryDecision(
-                                    currentImage,
-                                    prevScene.generatedImage,
-                                    originalPrompt,
-                                    criticalErrors,
-                                    userApiKey
-                                );
-
-                                console.log('[DOP Agent] Decision:', decision);
-
-                                // ALWAYS TRY ONCE before giving up
-                                // Decision Agent now only affects enhancement prompt, not skip decision
-                                if (decision.action === 'skip' && retryCount === 0) {
-                                    console.log('[DOP Agent] Would skip, but forcing 1 retry first');
-                                    // Still try once with enhanced correction
-                                    if (decision.enhancedPrompt) {
+                                    console.log('[DOP Agent] Decision:', decision);
+
+                                    // ALWAYS TRY ONCE before giving up
+                                    // Decision Agent now only affects enhancement prompt, not skip decision
+                                    if (decision.action === 'skip' && retryCount === 0) {
+                                        console.log('[DOP Agent] Would skip, but forcing 1 retry first');
+                                        // Still try once with enhanced correction
+                                        if (decision.enhancedPrompt) {
+                                            enhancedCorrection = decision.enhancedPrompt;
+                                        }
+                                        // Mark that this is a "last chance" retry
+                                        MAX_DOP_RETRIES = 1;
+                                    } else if (decision.action === 'skip' && retryCount >= 1) {
+                                        // Already retried once, now truly skip
+                                        console.log('[DOP Agent] SKIP after 1 retry - errors are unfixable');
+                                        shouldRetry = false;
+
+                                        // FIX: Clear checking status and show clear unfixable message
+                                        const unfixableMsg = decision.reason.includes('face') || decision.reason.includes('identity')
+                                            ? `🚫 UNFIXABLE: Nhân vật khác (AI không thể sửa - cần chọn reference khác)`
+                                            : `⚠️ DOP: Đã retry 1 lần nhưng vẫn lỗi - ${decision.reason}`;
+
+                                        updateStateAndRecord(s => ({
+                                            ...s,
+                                            scenes: s.scenes.map(sc => sc.id === scene.id ? {
+                                                ...sc,
+                                                error: unfixableMsg,
+                                                dopFailed: true
+                                            } : sc)
+                                        }));
+
+                                        setAgentState('dop', 'error', 'Lỗi không thể sửa sau 1 retry');
+                                        if (addProductionLog) {
+                                            addProductionLog('dop', unfixableMsg, 'warning');
+                                        }
+                                    } else if (decision.action === 'try_once') {
+                                        MAX_DOP_RETRIES = 1;
+                                        if (decision.enhancedPrompt) {
+                                            enhancedCorrection = decision.enhancedPrompt;
+                                        }
+                                    } else if (decision.enhancedPrompt) {
                                         enhancedCorrection = decision.enhancedPrompt;
                                     }
-                                    // Mark that this is a "last chance" retry
-                                    MAX_DOP_RETRIES = 1;
-                                } else if (decision.action === 'skip' && retryCount >= 1) {
-                                    // Already retried once, now truly skip
-                                    console.log('[DOP Agent] SKIP after 1 retry - errors are unfixable');
-                                    shouldRetry = false;
-
-                                    // FIX: Clear checking status and show clear unfixable message
-                                    const unfixableMsg = decision.reason.includes('face') || decision.reason.includes('identity')
-                                        ? `🚫 UNFIXABLE: Nhân vật khác (AI không thể sửa - cần chọn reference khác)`
-                                        : `⚠️ DOP: Đã retry 1 lần nhưng vẫn lỗi - ${decision.reason}`;
+                                }
+
+                                // Only retry if Decision Agent approves
+                                while (shouldRetry && !lastValidation.isValid && retryCount < MAX_DOP_RETRIES) {
+                                    // [Fix] Check stop signal inside retry loop
+                                    if (stopRef.current) {
+                                        console.log('[DOP] Batch stopped during retry.');
+                                        break;
+                                    }
+
+                                    console.log(`[DOP] Retrying with enhanced correction (attempt ${retryCount + 1}/${MAX_DOP_RETRIES})`);
 
+                                    // Clear the bad image and regenerate with correction
                                     updateStateAndRecord(s => ({
                                         ...s,
                                         scenes: s.scenes.map(sc => sc.id === scene.id ? {
                                             ...sc,
-                                            error: unfixableMsg,
-                                            dopFailed: true
+                                            generatedImage: null,
+                                            error: `DOP Retry ${retryCount + 1}: ${lastValidation.errors.filter(e => e.type === 'character' || e.type === 'prop').map(e => e.description).join('; ')}`
                                         } : sc)
                                     }));
 
-                                    setAgentState('dop', 'error', 'Lỗi không thể sửa sau 1 retry');
-                                    if (addProductionLog) {
-                                        addProductionLog('dop', unfixableMsg, 'warning');
-                                    }
-                                } else if (decision.action === 'try_once') {
-                                    MAX_DOP_RETRIES = 1;
-                                    if (decision.enhancedPrompt) {
-                                        enhancedCorrection = decision.enhancedPrompt;
+                                    // Wait a bit then regenerate with enhanced correction prompt
+                                    await new Promise(r => setTimeout(r, 500));
+
+                                    console.log('[DOP] Auto-regenerating with correction:', enhancedCorrection);
+
+                                    // Construct Negative Prompt based on specific errors
+                                    const negativeConstraints: string[] = [];
+                                    let retryBoost = '';
+
+                                    lastValidation.errors.forEach(e => {
+                                        const desc = (e.description || '').toLowerCase();
+                                        if (e.type === 'character' || desc.includes('face') || desc.includes('person')) {
+                                            negativeConstraints.push('wrong person', 'different face', 'extra people', 'ugly face', 'distorted face');
+                                            // STRONG IDENTITY FIX
+                                            retryBoost += ' !!! CRITICAL IDENTITY LOCK !!! Match the EXACT face from Face ID reference. Copy facial bone structure, eye shape, nose, mouth PRECISELY. Do NOT create a new person. ';
+                                        }
+                                        if (e.type === 'prop' || desc.includes('missing')) {
+                                            negativeConstraints.push('missing object', 'floating objects', 'bad hands', 'mutated');
+                                            retryBoost += ' Ensure ALL props from the scene are VISIBLE and correctly positioned. ';
+                                        }
+                                        if (e.type === 'lighting') {
+                                            negativeConstraints.push('bad lighting', 'wrong exposure', 'dark image');
+                                        }
+                                        if (e.type === 'spatial' || desc.includes('scale') || desc.includes('perspective') || desc.includes('floating')) {
+                                            negativeConstraints.push('same background', 'floating furniture', 'double exposure', 'collage', 'surreal', 'bad perspective');
+                                        }
+                                        if (desc.includes('static background') || desc.includes('identical') || desc.includes('wallpaper')) {
+                                            negativeConstraints.push('static background', 'identical composition', 'same pixels', 'exact match', 'repetitive');
+                                            // JITTER FIX: Force camera movement
+                                            retryBoost += ' (CAMERA MOVEMENT: Shift angle slightly! Dynamic perspective change! Do not reuse exact background pixels!) ';
+                                        }
+                                        if (desc.includes('outfit') || desc.includes('clothing') || desc.includes('costume')) {
+                                            retryBoost += ' OUTFIT LOCK: Character MUST wear the EXACT same clothes as in the reference. Copy colors, patterns, accessories. ';
+                                        }
+                                    });
+
+                                    const negativePrompt = negativeConstraints.length > 0
+                                        ? `(${[...new Set(negativeConstraints)].join(', ')})`
+                                        : undefined;
+
+                                    // Construct enhanced retry prompt with corrections
+                                    const retryPrompt = `${retryBoost}${enhancedCorrection || ''}`.trim() || undefined;
+
+                                    console.log('[DOP] Retry with identity boost:', retryBoost?.substring(0, 100) || '');
+
+                                    // Pass previous scene image as reference for continuity
+                                    await performImageGeneration(scene.id, retryPrompt, false, prevScene.generatedImage, undefined, negativePrompt);
+
+                                    // Re-validate
+                                    const reUpdatedState = stateRef.current;
+                                    const reUpdatedScene = reUpdatedState.scenes.find(s => s.id === scene.id);
+                                    const newImage = reUpdatedScene?.generatedImage;
+
+                                    if (newImage) {
+                                        lastValidation = await validateRaccordWithVision(
+                                            newImage,
+                                            prevScene.generatedImage,
+                                            reUpdatedScene!,
+                                            prevScene,
+                                            userApiKey
+                                        );
+
+                                        // [Fix] Re-evaluate critical errors to determine if we should continue retrying
+                                        const currentCriticalErrors = lastValidation.errors.filter(e =>
+                                            e.type === 'character' || e.type === 'prop'
+                                        );
+
+                                        // If no critical errors remain (only minor ones), stop retrying
+                                        if (currentCriticalErrors.length === 0) {
+                                            console.log('[DOP] Critical errors resolved. Stopping retries.');
+                                            break;
+                                        }
+                                    } else {
+                                        // If generation failed (no image), stick with previous validation result or break
+                                        console.warn('[DOP] Retry generation failed to produce image.');
+                                        break;
                                     }
-                                } else if (decision.enhancedPrompt) {
-                                    enhancedCorrection = decision.enhancedPrompt;
+
+                                    retryCount++;
                                 }
                             }
 
-                            // Only retry if Decision Agent approves
-                            while (shouldRetry && !lastValidation.isValid && retryCount < MAX_DOP_RETRIES) {
-                                // [Fix] Check stop signal inside retry loop
-                                if (stopRef.current) {
-                                    console.log('[DOP] Batch stopped during retry.');
-                                    break;
+                            if (retryCount >= MAX_DOP_RETRIES && !lastValidation.isValid) {
+                                console.warn('[DOP] Max retries reached. Marking scene as FAILED but CONTINUING batch.');
+                                if (addProductionLog) {
+                                    addProductionLog('dop', `⚠️ Cảnh ${scene.sceneNumber} lỗi raccord - đã bỏ qua. Tiếp tục cảnh tiếp theo.`, 'warning');
                                 }
 
-                                console.log(`[DOP] Retrying with enhanced correction (attempt ${retryCount + 1}/${MAX_DOP_RETRIES})`);
-
-                                // Clear the bad image and regenerate with correction
+                                // Mark scene as failed with clear error message
                                 updateStateAndRecord(s => ({
                                     ...s,
                                     scenes: s.scenes.map(sc => sc.id === scene.id ? {
                                         ...sc,
-                                        generatedImage: null,
-                                        error: `DOP Retry ${retryCount + 1}: ${lastValidation.errors.filter(e => e.type === 'character' || e.type === 'prop').map(e => e.description).join('; ')}`
+                                        // Keep the generated image but mark as needs review
+                                        error: `⚠️ DOP FAILED: ${lastValidation.errors.map(e => e.description).join('; ')} - Cần review thủ công`,
+                                        dopFailed: true // Flag for next scene to skip this as reference
                                     } : sc)
                                 }));
 
-                                // Wait a bit then regenerate with enhanced correction prompt
-                                await new Promise(r => setTimeout(r, 500));
-
-                                console.log('[DOP] Auto-regenerating with correction:', enhancedCorrection);
-
-                                // Construct Negative Prompt based on specific errors
-                                const negativeConstraints: string[] = [];
-                                let retryBoost = '';
-
-                                lastValidation.errors.forEach(e => {
-                                    const desc = (e.description || '').toLowerCase();
-                                    if (e.type === 'character' || desc.includes('face') || desc.includes('person')) {
-                                        negativeConstraints.push('wrong person', 'different face', 'extra people', 'ugly face', 'distorted face');
-                                        // STRONG IDENTITY FIX
-                                        retryBoost += ' !!! CRITICAL IDENTITY LOCK !!! Match the EXACT face from Face ID reference. Copy facial bone structure, eye shape, nose, mouth PRECISELY. Do NOT create a new person. ';
-                                    }
-                                    if (e.type === 'prop' || desc.includes('missing')) {
-                                        negativeConstraints.push('missing object', 'floating objects', 'bad hands', 'mutated');
-                                        retryBoost += ' Ensure ALL props from the scene are VISIBLE and correctly positioned. ';
-                                    }
-                                    if (e.type === 'lighting') {
-                                        negativeConstraints.push('bad lighting', 'wrong exposure', 'dark image');
-                                    }
-                                    if (e.type === 'spatial' || desc.includes('scale') || desc.includes('perspective') || desc.includes('floating')) {
-                                        negativeConstraints.push('same background', 'floating furniture', 'double exposure', 'collage', 'surreal', 'bad perspective');
-                                    }
-                                    if (desc.includes('static background') || desc.includes('identical') || desc.includes('wallpaper')) {
-                                        negativeConstraints.push('static background', 'identical composition', 'same pixels', 'exact match', 'repetitive');
-                                        // JITTER FIX: Force camera movement
-                                        retryBoost += ' (CAMERA MOVEMENT: Shift angle slightly! Dynamic perspective change! Do not reuse exact background pixels!) ';
-                                    }
-                                    if (desc.includes('outfit') || desc.includes('clothing') || desc.includes('costume')) {
-                                        retryBoost += ' OUTFIT LOCK: Character MUST wear the EXACT same clothes as in the reference. Copy colors, patterns, accessories. ';
-                                    }
-                                });
-
-                                const negativePrompt = negativeConstraints.length > 0
-                                    ? `(${[...new Set(negativeConstraints)].join(', ')})`
-                                    : undefined;
-
-                                // Construct enhanced retry prompt with corrections
-                                const retryPrompt = `${retryBoost}${enhancedCorrection || ''}`.trim() || undefined;
+                                setAgentState('dop', 'error', `Cảnh ${scene.sceneNumber} lỗi - tiếp tục cảnh sau`);
 
-                                console.log('[DOP] Retry with identity boost:', retryBoost?.substring(0, 100) || '');
-
-                                // Pass previous scene image as reference for continuity
-                                await performImageGeneration(scene.id, retryPrompt, false, prevScene.generatedImage, undefined, negativePrompt);
-
-                                // Re-validate
-                                const reUpdatedState = stateRef.current;
-                                const reUpdatedScene = reUpdatedState.scenes.find(s => s.id === scene.id);
-                                const newImage = reUpdatedScene?.generatedImage;
-
-                                if (newImage) {
-                                    lastValidation = await validateRaccordWithVision(
-                                        newImage,
-                                        prevScene.generatedImage,
-                                        reUpdatedScene!,
-                                        prevScene,
-                                        userApiKey
-                                    );
-
-                                    // [Fix] Re-evaluate critical errors to determine if we should continue retrying
-                                    const currentCriticalErrors = lastValidation.errors.filter(e =>
-                                        e.type === 'character' || e.type === 'prop'
-                                    );
-
-                                    // If no critical errors remain (only minor ones), stop retrying
-                                    if (currentCriticalErrors.length === 0) {
-                                        console.log('[DOP] Critical errors resolved. Stopping retries.');
-                                        break;
-                                    }
-                                } else {
-                                    // If generation failed (no image), stick with previous validation result or break
-                                    console.warn('[DOP] Retry generation failed to produce image.');
-                                    break;
+                                // DO NOT RETURN - Continue to next scene
+                                // Next scene will check dopFailed flag and use last GOOD scene as reference
+                            } else if (lastValidation.isValid) {
+                                console.log('[DOP] Raccord validation PASSED');
+                                if (addProductionLog) {
+                                    addProductionLog('dop', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo. Tiếp tục sản xuất.`, 'success');
                                 }
+                                // [DOP UI FEEDBACK] Clear status on success
+                                updateStateAndRecord(s => ({
+                                    ...s,
+                                    scenes: s.scenes.map(sc => sc.id === scene.id ? {
+                                        ...sc,
+                                        error: null, // Clear the status indicator
+                                        dopFailed: false // This is a GOOD reference for future scenes
+                                    } : sc)
+                                }));
 
-                                retryCount++;
-                            }
-                        }
-
-                        if (retryCount >= MAX_DOP_RETRIES && !lastValidation.isValid) {
-                            console.warn('[DOP] Max retries reached. Marking scene as FAILED but CONTINUING batch.');
-                            if (addProductionLog) {
-                                addProductionLog('dop', `⚠️ Cảnh ${scene.sceneNumber} lỗi raccord - đã bỏ qua. Tiếp tục cảnh tiếp theo.`, 'warning');
-                            }
-
-                            // Mark scene as failed with clear error message
-                            updateStateAndRecord(s => ({
-                                ...s,
-                                scenes: s.scenes.map(sc => sc.id === scene.id ? {
-                                    ...sc,
-                                    // Keep the generated image but mark as needs review
-                                    error: `⚠️ DOP FAILED: ${lastValidation.errors.map(e => e.description).join('; ')} - Cần review thủ công`,
-                                    dopFailed: true // Flag for next scene to skip this as reference
-                                } : sc)
-                            }));
-
-                            setAgentState('dop', 'error', `Cảnh ${scene.sceneNumber} lỗi - tiếp tục cảnh sau`);
-
-                            // DO NOT RETURN - Continue to next scene
-                            // Next scene will check dopFailed flag and use last GOOD scene as reference
-                        } else if (lastValidation.isValid) {
-                            console.log('[DOP] Raccord validation PASSED');
-                            if (addProductionLog) {
-                                addProductionLog('dop', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo. Tiếp tục sản xuất.`, 'success');
+                                setAgentState('dop', 'success', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo!`);
                             }
-                            // [DOP UI FEEDBACK] Clear status on success
-                            updateStateAndRecord(s => ({
-                                ...s,
-                                scenes: s.scenes.map(sc => sc.id === scene.id ? {
-                                    ...sc,
-                                    error: null, // Clear the status indicator
-                                    dopFailed: false // This is a GOOD reference for future scenes
-                                } : sc)
-                            }));
 
-                            setAgentState('dop', 'success', `Cảnh ${scene.sceneNumber} khớp raccord hoàn hảo!`);
                         }
-
                     }
+                } catch (e: any) {
+                    console.error(`[BatchGen] Generation interrupted at scene ${scene.sceneNumber}:`, e);
+                    setAgentState('director', 'error', 'Có lỗi xảy ra khi tạo ảnh.');
+                    stopRef.current = true;
+                } finally {
+                    generatingSceneIdsRef.current.delete(scene.id);
                 }
 
-                const imageDelay = state.generationConfig?.imageDelay || 500;
+                // A job is done when the scene ends up with a new image (DOP warnings are kept on the scene)
+                const finishedScene = stateRef.current.scenes.find(s => s.id === scene.id);
+                const succeeded = !!finishedScene?.generatedImage && finishedScene.generatedImage !== imageBefore;
+                if (succeeded) jobImagesRef.current.delete(scene.id);
+                commitQueue(q => updateJob(q, job.id, succeeded
+                    ? { status: 'done', finishedAt: Date.now(), error: finishedScene?.dopFailed ? finishedScene.error || undefined : undefined }
+                    : { status: 'failed', finishedAt: Date.now(), error: finishedScene?.error || 'Không tạo được ảnh' }
+                ));
+
+                const imageDelay = stateRef.current.generationConfig?.imageDelay || 500;
                 await new Promise(r => setTimeout(r, imageDelay));
             }
-        } catch (e) {
-            console.error('[BatchGen] Generation interrupted:', e);
-            setAgentState('director', 'error', 'Có lỗi xảy ra khi tạo ảnh.');
         } finally {
-            // Generation Lock Cleanup: Remove all scene IDs that were being generated
-            scenesToGenerate.forEach(scene => generatingSceneIdsRef.current.delete(scene.id));
-            console.log('[BatchGen] Cleaned up generation lock for', scenesToGenerate.length, 'scenes');
+            isQueueRunningRef.current = false;
+            const paused = stopRef.current && !!nextQueuedJob(queueRef.current);
+            commitQueue(q => setQueueStatus(q, paused ? 'paused' : 'idle'));
 
             setIsBatchGenerating(false);
             setIsStopping(false);
@@ -2634,11 +2372,118 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
                 if (addProductionLog) {
                     addProductionLog('director', `Production hoàn tất. Thời gian thực thi: ${timeStr}`, 'success');
                 }
-            } else {
+            } else if (!pausedByBudget) {
                 setAgentState('director', 'idle', 'Đã dừng production.');
             }
         }
-    }, [state.scenes, performImageGeneration, isDOPEnabled, validateRaccordWithVision, makeRetryDecision, userApiKey, stateRef, updateStateAndRecord, setAgentState]);
+    }, [performImageGeneration, isDOPEnabled, validateRaccordWithVision, makeRetryDecision, userApiKey, stateRef, updateStateAndRecord, setAgentState, addProductionLog, commitQueue]);
+
+    // referenceMap: Optional mapping of sceneId -> sourceImageURL for DNA syncing
+    // baseImageMap: Optional mapping of sceneId -> baseImageURL for Img2Img editing from a specific source
+    const handleGenerateAllImages = useCallback(async (specificSceneIds?: string[], referenceMap?: { [key: string]: string }, baseImageMap?: { [key: string]: string }) => {
+        console.log('[BatchGen] handleGenerateAllImages called', { specificSceneIds, hasReferenceMap: !!referenceMap, hasBaseImageMap: !!baseImageMap });
+
+        const allScenesToGenerate = specificSceneIds
+            ? stateRef.current.scenes.filter(s => specificSceneIds.includes(s.id))
+            : stateRef.current.scenes.filter(s => !s.generatedImage && s.contextDescription);
+
+        // KEY FRAME STRATEGY: Generate Key Frames FIRST within each group
+        // This ensures hero shots are available as references for other scenes
+        const sortedScenes = [...allScenesToGenerate].sort((a, b) => {
+            // Key frames first
+            if (a.isKeyFrame && !b.isKeyFrame) return -1;
+            if (!a.isKeyFrame && b.isKeyFrame) return 1;
+            // Then by scene number
+            return parseInt(a.sceneNumber) - parseInt(b.sceneNumber);
+        });
+
+        const keyFrameCount = sortedScenes.filter(s => s.isKeyFrame).length;
+        if (keyFrameCount > 0) {
+            console.log(`[BatchGen] ⭐ Key Frame Strategy: ${keyFrameCount} key frames will be generated first`);
+        }
+
+        // Scenes already waiting in the queue are not added twice
+        const { queue, added } = enqueueScenes(queueRef.current, sortedScenes);
+        commitQueue(() => queue);
+        added.forEach(job => {
+            const referenceImage = referenceMap?.[job.sceneId];
+            const baseImage = baseImageMap?.[job.sceneId];
+            if (referenceImage || baseImage) jobImagesRef.current.set(job.sceneId, { referenceImage, baseImage });
+        });
+
+        console.log('[BatchGen] Scenes queued:', added.length, '(requested', allScenesToGenerate.length, ')');
+
+        if (added.length === 0 && !nextQueuedJob(queueRef.current)) {
+            console.log('[BatchGen] No scenes to generate (all duplicates or empty), returning');
+            return; // Don't show alert if we filtered out duplicates
+        }
+
+        // PRE-FLIGHT COST ESTIMATE: confirm before a run that breaks the budget or the Gommo balance
+        const currentState = stateRef.current;
+        const model = currentState.imageModel || 'gemini-3-pro-image-preview';
+        const pendingCount = queueRef.current.jobs.filter(j => j.status === 'queued').length;
+        const estimate = estimateRunCost(pendingCount, model);
+        if (estimate.billed && estimate.total > 0) {
+            console.log(`[BatchGen] 💰 Pre-flight estimate: ${estimate.imageCount} × ${estimate.perImage} = ~${estimate.total} credits`);
+            const warnings: string[] = [];
+
+            const budgetCheck = checkBudget(currentState.creditBudget, currentState.creditsSpent || 0, 0, estimate.total);
+            if (budgetCheck.level !== 'ok' && budgetCheck.message) warnings.push(budgetCheck.message);
+
+            const gommo = createGommoClient(currentState.gommoDomain || '', currentState.gommoAccessToken || '');
+            if (gommo && isCreditBilledModel(model)) {
+                try {
+                    const balance = await gommo.getCredits();
+                    if (estimate.total > balance) {
+                        warnings.push(`Số dư Gommo không đủ: cần ~${estimate.total.toLocaleString()}, còn ${balance.toLocaleString()} credits`);
+                    }
+                } catch (e) {
+                    console.warn('[BatchGen] Could not fetch Gommo balance:', e);
+                }
+            }
+
+            if (warnings.length > 0) {
+                const proceed = confirm(
+                    `💰 Ước tính: ${estimate.imageCount} ảnh × ${estimate.perImage} = ~${estimate.total.toLocaleString()} credits\n\n` +
+                    warnings.map(w => `⚠️ ${w}`).join('\n') +
+                    '\n\nVẫn chạy? (Hàng đợi sẽ tự tạm dừng khi vượt ngân sách)'
+                );
+                if (!proceed) {
+                    commitQueue(q => setQueueStatus(q, 'paused'));
+                    return;
+                }
+            }
+        }
+
+        await runGenerationQueue();
+    }, [stateRef, commitQueue, runGenerationQueue]);
+
+    // ═══════════════════════════════════════════════════════════════
+    // Queue controls
+    // ═══════════════════════════════════════════════════════════════
+
+    const resumeGenerationQueue = useCallback(async () => {
+        console.log('[BatchGen] ▶️ Resuming generation queue');
+        await runGenerationQueue();
+    }, [runGenerationQueue]);
+
+    const moveGenerationJob = useCallback((jobId: string, direction: 'up' | 'down' | 'top') => {
+        commitQueue(q => moveJob(q, jobId, direction));
+    }, [commitQueue]);
+
+    const cancelGenerationJob = useCallback((jobId: string) => {
+        const job = queueRef.current.jobs.find(j => j.id === jobId);
+        if (job) jobImagesRef.current.delete(job.sceneId);
+        commitQueue(q => removeJob(q, jobId));
+    }, [commitQueue]);
+
+    const retryGenerationJob = useCallback((jobId: string) => {
+        commitQueue(q => retryJob(q, jobId));
+    }, [commitQueue]);
+
+    const clearFinishedGenerationJobs = useCallback(() => {
+        commitQueue(clearFinishedJobs);
+    }, [commitQueue]);
 
 
     return {
@@ -2647,6 +2492,12 @@ IGNORE any prior text descriptions if they conflict with this visual DNA.` });
         performImageGeneration,
         generateGroupConcept,
         handleGenerateAllImages,
-        stopBatchGeneration
+        stopBatchGeneration,
+        generationQueue,
+        resumeGenerationQueue,
+        moveGenerationJob,
+        cancelGenerationJob,
+        retryGenerationJob,
+        clearFinishedGenerationJobs
     };
 }
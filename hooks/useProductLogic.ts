@@ -3,6 +3,13 @@ import { ProjectState, Product } from '../types';
 import { generateId } from '../utils/helpers';
 import { callGeminiAPI, callGeminiVisionReasoning } from '../utils/geminiUtils';
 import { uploadImageToSupabase, syncUserStatsToCloud } from '../utils/storageUtils';
+import { addCreditsSpent } from '../utils/creditBudget';
+import { schema, requestStructured } from '../utils/structuredOutput';
+
+const productSummarySchema = schema.object({
+    name: schema.string(''),
+    description: schema.string('')
+});
 
 export function useProductLogic(
     state: ProjectState,
@@ -83,30 +90,29 @@ export function useProductLogic(
             const analyzePrompt = `Analyze this PRODUCT/PROP image. Return JSON: {"name": "Product Name", "description": "Detailed physical description."}`;
 
             // Use Smart Vision (prioritize Gemini 1.5 Flash -> Fallback Groq)
-            const textResponse = await callGeminiVisionReasoning(
-                analyzePrompt,
-                [{ data, mimeType }],
-                'gemini-1.5-flash'
-            );
-
-            let json = { name: "", description: "" };
-            try {
-                json = JSON.parse(textResponse.replace(/```json/g, '').replace(/```/g, '').trim());
-            } catch (e) {
-                console.error("JSON parse error", e);
-            }
+            const json = await requestStructured({
+                name: 'Phân tích sản phẩm',
+                schema: productSummarySchema,
+                call: correction => callGeminiVisionReasoning(
+                    analyzePrompt + (correction || ''),
+                    [{ data, mimeType }],
+                    'gemini-1.5-flash'
+                ),
+                fallback: { name: "", description: "" }
+            });
 
             updateProduct(id, { masterImage: finalMasterUrl, name: json.name, description: json.description });
 
             const referenceImage = `data:${mimeType};base64,${data}`;
             const promptTemplate = (viewInfo: string) => `(STRICT REFERENCE: EXACT REPLICA) Generate a ${viewInfo} of the product described: ${json.description}. BACKGROUND: Pure Solid White Studio Background. STYLE: Product Photography.`.trim();
 
+            const viewModel = 'gemini-3-pro-image-preview';
             let [front, back, left, right, top] = await Promise.all([
-                callGeminiAPI(apiKey, promptTemplate('OFFICIAL FRONT VIEW (0 degrees)'), '1:1', 'gemini-3-pro-image-preview', referenceImage),
-                callGeminiAPI(apiKey, promptTemplate('OFFICIAL BACK VIEW (180 degrees)'), '1:1', 'gemini-3-pro-image-preview', referenceImage),
-                callGeminiAPI(apiKey, promptTemplate('OFFICIAL LEFT PROFILE VIEW (90 degrees)'), '1:1', 'gemini-3-pro-image-preview', referenceImage),
-                callGeminiAPI(apiKey, promptTemplate('OFFICIAL RIGHT PROFILE VIEW (90 degrees)'), '1:1', 'gemini-3-pro-image-preview', referenceImage),
-                callGeminiAPI(apiKey, promptTemplate('TOP-DOWN BIRD\'S EYE VIEW'), '1:1', 'gemini-3-pro-image-preview', referenceImage),
+                callGeminiAPI(apiKey, promptTemplate('OFFICIAL FRONT VIEW (0 degrees)'), '1:1', viewModel, referenceImage),
+                callGeminiAPI(apiKey, promptTemplate('OFFICIAL BACK VIEW (180 degrees)'), '1:1', viewModel, referenceImage),
+                callGeminiAPI(apiKey, promptTemplate('OFFICIAL LEFT PROFILE VIEW (90 degrees)'), '1:1', viewModel, referenceImage),
+                callGeminiAPI(apiKey, promptTemplate('OFFICIAL RIGHT PROFILE VIEW (90 degrees)'), '1:1', viewModel, referenceImage),
+                callGeminiAPI(apiKey, promptTemplate('TOP-DOWN BIRD\'S EYE VIEW'), '1:1', viewModel, referenceImage),
             ]);
 
             if (userId) {
@@ -141,7 +147,7 @@ export function useProductLogic(
                     lastGeneratedAt: new Date().toISOString()
                 };
                 if (userId) syncUserStatsToCloud(userId, updatedStats);
-                return { ...s, usageStats: updatedStats };
+                return { ...addCreditsSpent(s, viewModel, viewCount), usageStats: updatedStats };
             });
         } catch (error) {
             console.error("Product Analysis Error:", error);
@@ -168,9 +174,11 @@ export function useProductLogic(
 
         try {
             const masterPrompt = `Professional product photography of ${description}. Studio lighting, white background, 8K detail, centered, front view, high quality product shot.`;
-            const masterImage = await callGeminiAPI(apiKey, masterPrompt, '1:1');
+            const masterModel = 'fal-ai/flux-general';
+            const masterImage = await callGeminiAPI(apiKey, masterPrompt, '1:1', masterModel);
             if (masterImage) {
                 updateProduct(id, { masterImage: masterImage });
+                updateStateAndRecord(s => addCreditsSpent(s, masterModel));
                 await handleProductMasterImageUpload(id, masterImage);
             } else {
                 updateProduct(id, { isAnalyzing: false });
@@ -181,7 +189,7 @@ export function useProductLogic(
             updateProduct(id, { isAnalyzing: false });
             alert("Lỗi khi tạo sản phẩm. Vui lòng kiểm tra API Key.");
         }
-    }, [userApiKey, updateProduct, handleProductMasterImageUpload, setApiKeyModalOpen, userId]);
+    }, [userApiKey, updateProduct, updateStateAndRecord, handleProductMasterImageUpload, setApiKeyModalOpen, userId]);
 
     return {
         addProduct,
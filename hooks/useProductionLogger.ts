@@ -1,5 +1,6 @@
 import { useCallback, useEffect, useRef } from 'react';
 import { ProjectState, AgentStatus } from '../types';
+import { setStructuredOutputReporter } from '../utils/structuredOutput';
 
 export const useProductionLogger = (
     state: ProjectState,
@@ -30,6 +31,12 @@ export const useProductionLogger = (
         }));
     }, [updateStateAndRecord]);
 
+    // Malformed AI responses from any structured call land in the production log
+    useEffect(() => {
+        setStructuredOutputReporter((message, type) => addProductionLog('system', message, type, 'structured_output'));
+        return () => setStructuredOutputReporter(null);
+    }, [addProductionLog]);
+
     const setAgentState = useCallback((agent: 'director' | 'dop', status: AgentStatus, message?: string, stage?: string) => {
         updateStateAndRecord(s => ({
             ...s,
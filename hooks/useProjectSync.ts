@@ -1,85 +1,226 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '../utils/supabaseClient';
 import { ProjectState } from '../types';
 import { processProjectAssets } from '../utils/storageUtils';
+import { migrateProject, withSchemaVersion, formatMigrationReport } from '../utils/projectMigrations';
+import {
+    SyncOperation,
+    MAX_SYNC_ATTEMPTS,
+    listOperations,
+    enqueueSave,
+    enqueueDelete,
+    updateOperationStatus,
+    completeOperation,
+    rebaseProjectRef,
+    removeOperation,
+    createLocalProjectRef,
+    isLocalProjectRef,
+    isNetworkError,
+    getRetryDelay
+} from '../utils/syncQueue';
 
-export function useProjectSync(userId?: string) {
+const PROJECT_LIMIT_ERROR = 'Bạn đã đạt giới hạn 3 dự án trên Cloud cho gói Pro. Vui lòng xóa bớt dự án cũ.';
+
+// Queue entry without the (large) project payload, for the UI
+export type PendingSyncInfo = Omit<SyncOperation, 'state'>;
+
+// onProjectCreated: a project saved offline got its cloud id (localRef -> cloudId)
+export function useProjectSync(userId?: string, onProjectCreated?: (localRef: string, cloudId: string) => void) {
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [isOnline, setIsOnline] = useState(typeof navigator === 'undefined' ? true : navigator.onLine);
+    const [pendingOperations, setPendingOperations] = useState<PendingSyncInfo[]>([]);
+
+    const inFlightRef = useRef(new Set<string>());
+    const isProcessingRef = useRef(false);
+    const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+    const onProjectCreatedRef = useRef(onProjectCreated);
+    onProjectCreatedRef.current = onProjectCreated;
+
+    const refreshQueue = useCallback(async () => {
+        if (!userId) {
+            setPendingOperations([]);
+            return [];
+        }
+        const ops = await listOperations(userId);
+        setPendingOperations(ops.map(({ state, ...info }) => info));
+        return ops;
+    }, [userId]);
+
+    // --- Upload one project state (assets first, then the row) ---
+    const uploadProject = useCallback(async (state: ProjectState, projectId?: string) => {
+        if (!userId) throw new Error('Vui lòng đăng nhập để lưu vào Cloud.');
+
+        // Limit Check for NEW projects
+        if (!projectId) {
+            const { count, error: countErr } = await supabase
+                .from('projects')
+                .select('*', { count: 'exact', head: true })
+                .eq('user_id', userId);
+
+            if (countErr) throw countErr;
+            if (count !== null && count >= 3) throw new Error(PROJECT_LIMIT_ERROR);
+        }
+        // First, process and upload any base64 assets (content-addressed, so a retry skips finished uploads)
+        const processedState = await processProjectAssets(withSchemaVersion(state), userId);
+
+        // Ensure the name is captured from the state (or placeholder)
+        const resolvedName = state.projectName.trim() || 'Dự án chưa đặt tên';
+
+        const projectToSave = {
+            user_id: userId,
+            name: resolvedName,
+            project_data: { ...processedState, projectName: resolvedName } as any,
+            updated_at: new Date().toISOString()
+        };
+
+        let result;
+        if (projectId) {
+            result = await supabase
+                .from('projects')
+                .update(projectToSave)
+                .eq('id', projectId)
+                .select()
+                .single();
+        } else {
+            result = await supabase
+                .from('projects')
+                .insert(projectToSave)
+                .select()
+                .single();
+        }
+
+        if (result.error) throw result.error;
+        return result.data;
+    }, [userId]);
+
+    // --- Run a single queued operation, recording the outcome in the queue ---
+    const syncOperation = useCallback(async (op: SyncOperation): Promise<{ data: any; error: string | null; offline: boolean }> => {
+        if (inFlightRef.current.has(op.id)) return { data: null, error: null, offline: false };
+        inFlightRef.current.add(op.id);
+        await updateOperationStatus(op, { status: 'syncing' });
+
+        try {
+            let data: any = null;
+            if (op.kind === 'save-project' && op.state) {
+                const isNew = isLocalProjectRef(op.projectRef);
+                data = await uploadProject(op.state, isNew ? undefined : op.projectRef);
+                if (isNew) {
+                    // A newer save of the same project may have been queued meanwhile - it must update, not insert
+                    await rebaseProjectRef(op.projectRef, data.id);
+                    onProjectCreatedRef.current?.(op.projectRef, data.id);
+                }
+            } else if (op.kind === 'delete-project') {
+                const { error } = await supabase.from('projects').delete().eq('id', op.projectRef);
+                if (error) throw error;
+            }
+
+            await completeOperation(op);
+            console.log(`[SyncQueue] ${op.kind} "${op.projectName}" synced`);
+            return { data, error: null, offline: false };
+        } catch (err: any) {
+            const errMsg = err.message || JSON.stringify(err);
+            const offline = isNetworkError(err);
+            const attempts = offline ? op.attempts : op.attempts + 1;
+            const failed = errMsg === PROJECT_LIMIT_ERROR || attempts >= MAX_SYNC_ATTEMPTS;
+
+            await updateOperationStatus(op, {
+                status: failed ? 'failed' : 'pending',
+                attempts,
+                nextAttemptAt: Date.now() + getRetryDelay(attempts),
+                lastError: errMsg
+            });
+            console.warn(`[SyncQueue] ${op.kind} "${op.projectName}" ${failed ? 'failed' : 'will retry'}:`, errMsg);
+            return { data: null, error: errMsg, offline };
+        } finally {
+            inFlightRef.current.delete(op.id);
+        }
+    }, [uploadProject]);
+
+    // --- Process every due operation, then schedule the next retry ---
+    const processQueue = useCallback(async () => {
+        if (!userId || isProcessingRef.current) return;
+        isProcessingRef.current = true;
+        if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+
+        try {
+            const ops = await listOperations(userId);
+            for (const op of ops) {
+                if (op.status === 'failed' || op.nextAttemptAt > Date.now()) continue;
+                const { offline } = await syncOperation(op);
+                if (offline) break; // Wait for the 'online' event
+            }
+
+            const remaining = await refreshQueue();
+            const nextDue = remaining
+                .filter(op => op.status !== 'failed')
+                .reduce((min, op) => Math.min(min, op.nextAttemptAt), Infinity);
+            if (nextDue !== Infinity && navigator.onLine) {
+                retryTimerRef.current = setTimeout(() => processQueue(), Math.max(nextDue - Date.now(), 1000));
+            }
+        } finally {
+            isProcessingRef.current = false;
+        }
+    }, [userId, syncOperation, refreshQueue]);
+
+    useEffect(() => {
+        const handleOnline = () => {
+            setIsOnline(true);
+            console.log('[SyncQueue] Back online, flushing pending operations');
+            processQueue();
+        };
+        const handleOffline = () => setIsOnline(false);
+
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        processQueue(); // Resume whatever was left from the previous session
+
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+            if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+        };
+    }, [processQueue]);
 
     const saveProjectToCloud = useCallback(async (state: ProjectState, projectId?: string, userTier: string = 'free') => {
         if (!userId) {
             const err = 'Vui lòng đăng nhập để lưu vào Cloud.';
             setError(err);
-            return { data: null, error: err };
+            return { data: null, error: err, queued: false, projectRef: null };
         }
 
         // Tier Checks
         if (userTier !== 'pro') {
             const err = 'Vui lòng nâng cấp lên Pro để lưu vào Cloud.';
             setError(err);
-            return { data: null, error: err };
+            return { data: null, error: err, queued: false, projectRef: null };
         }
         setLoading(true);
         setError(null);
 
         try {
             console.log('[useProjectSync] Starting save to cloud...');
+            const projectRef = projectId || createLocalProjectRef();
+            const op = await enqueueSave(userId, projectRef, state);
 
-            // Limit Check for NEW projects
-            if (!projectId) {
-                const { count, error: countErr } = await supabase
-                    .from('projects')
-                    .select('*', { count: 'exact', head: true })
-                    .eq('user_id', userId);
-
-                if (countErr) throw countErr;
-                if (count !== null && count >= 3) {
-                    const err = 'Bạn đã đạt giới hạn 3 dự án trên Cloud cho gói Pro. Vui lòng xóa bớt dự án cũ.';
-                    setError(err);
-                    return { data: null, error: err };
-                }
-            }
-            // First, process and upload any base64 assets
-            const processedState = await processProjectAssets(state, userId);
-
-            // Ensure the name is captured from the state (or placeholder)
-            const resolvedName = state.projectName.trim() || 'Dự án chưa đặt tên';
-
-            const projectToSave = {
-                user_id: userId,
-                name: resolvedName,
-                project_data: { ...processedState, projectName: resolvedName } as any,
-                updated_at: new Date().toISOString()
-            };
-
-            let result;
-            if (projectId) {
-                result = await supabase
-                    .from('projects')
-                    .update(projectToSave)
-                    .eq('id', projectId)
-                    .select()
-                    .single();
-            } else {
-                result = await supabase
-                    .from('projects')
-                    .insert(projectToSave)
-                    .select()
-                    .single();
-            }
+            const result = await syncOperation(op);
+            await refreshQueue();
+            if (result.data) return { data: result.data, error: null, queued: false, projectRef: result.data.id as string };
 
-            if (result.error) throw result.error;
-            return { data: result.data, error: null };
+            // Still in the queue (offline / retrying) - the save is not lost
+            const stillQueued = result.error !== PROJECT_LIMIT_ERROR;
+            if (result.error) setError(result.error);
+            if (stillQueued) processQueue();
+            return { data: null, error: stillQueued ? null : result.error, queued: stillQueued, projectRef };
         } catch (err: any) {
             const errMsg = err.message || JSON.stringify(err);
             setError(errMsg);
             console.error('Save to cloud error:', err);
-            return { data: null, error: errMsg };
+            return { data: null, error: errMsg, queued: false, projectRef: null };
         } finally {
             setLoading(false);
         }
-    }, [userId]);
+    }, [userId, syncOperation, refreshQueue, processQueue]);
 
     const fetchProjects = useCallback(async () => {
         if (!userId) return [];
@@ -98,29 +239,45 @@ export function useProjectSync(userId?: string) {
             return [];
         } finally {
             setLoading(false);
+            refreshQueue();
         }
-    }, [userId]);
+    }, [userId, refreshQueue]);
 
     const loadProjectFromCloud = useCallback(async (projectId: string) => {
         setLoading(true);
         setError(null);
         try {
-            const { data, error } = await supabase
-                .from('projects')
-                .select('project_data')
-                .eq('id', projectId)
-                .single();
+            // A queued save is newer than what the cloud has (and the only copy of local-only projects)
+            const queued = userId
+                ? (await listOperations(userId)).find(op => op.kind === 'save-project' && op.projectRef === projectId)
+                : undefined;
 
-            if (error) throw error;
+            let projectData: unknown;
+            if (queued?.state) {
+                console.log(`[useProjectSync] Loading "${queued.projectName}" from the sync queue`);
+                projectData = queued.state;
+            } else {
+                const { data, error } = await supabase
+                    .from('projects')
+                    .select('project_data')
+                    .eq('id', projectId)
+                    .single();
+
+                if (error) throw error;
+                projectData = data.project_data;
+            }
 
             // Sanitize state: Reset all "isGenerating" flags to false on load
-            const rawData = data.project_data as ProjectState;
+            const { state: rawData, report } = migrateProject(projectData);
+            const summary = formatMigrationReport(report);
+            if (summary) console.log('[useProjectSync] ' + summary);
             const sanitizedData: ProjectState = {
                 ...rawData,
                 scenes: (rawData.scenes || []).map(s => ({
                     ...s,
                     isGenerating: false,
-                    videoStatus: s.videoStatus === 'starting' || s.videoStatus === 'active' ? 'failed' : s.videoStatus
+                    isVoiceGenerating: false,
+                    videoStatus: s.videoStatus === 'queued' || s.videoStatus === 'starting' || s.videoStatus === 'active' ? 'failed' : s.videoStatus
                 })),
                 characters: (rawData.characters || []).map(c => ({ ...c, isGenerating: false, isAnalyzing: false })),
                 products: (rawData.products || []).map(p => ({ ...p, isAnalyzing: false })),
@@ -135,18 +292,19 @@ export function useProjectSync(userId?: string) {
         } finally {
             setLoading(false);
         }
-    }, []);
+    }, [userId]);
 
-    const deleteProjectFromCloud = useCallback(async (projectId: string) => {
+    const deleteProjectFromCloud = useCallback(async (projectId: string, projectName: string = '') => {
+        if (!userId) return { success: false, error: 'Vui lòng đăng nhập.' };
         setLoading(true);
         setError(null);
         try {
-            const { error } = await supabase
-                .from('projects')
-                .delete()
-                .eq('id', projectId);
+            const op = await enqueueDelete(userId, projectId, projectName);
+            const result = op ? await syncOperation(op) : { error: null, offline: false };
+            await refreshQueue();
 
-            if (error) throw error;
+            if (result.error && !result.offline) throw new Error(result.error);
+            if (result.offline) processQueue();
             return { success: true, error: null };
         } catch (err: any) {
             const errMsg = err.message || JSON.stringify(err);
@@ -155,14 +313,32 @@ export function useProjectSync(userId?: string) {
         } finally {
             setLoading(false);
         }
-    }, []);
+    }, [userId, syncOperation, refreshQueue, processQueue]);
+
+    // Manual retry of failed operations (resets their attempt counter)
+    const retryOperation = useCallback(async (opId: string) => {
+        const op = userId ? (await listOperations(userId)).find(o => o.id === opId) : undefined;
+        if (!op) return;
+        await updateOperationStatus(op, { status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+        await processQueue();
+    }, [userId, processQueue]);
+
+    const discardOperation = useCallback(async (opId: string) => {
+        await removeOperation(opId);
+        await refreshQueue();
+    }, [refreshQueue]);
 
     return {
         loading,
         error,
+        isOnline,
+        pendingOperations,
         saveProjectToCloud,
         fetchProjects,
         loadProjectFromCloud,
-        deleteProjectFromCloud
+        deleteProjectFromCloud,
+        syncNow: processQueue,
+        retryOperation,
+        discardOperation
     };
 }
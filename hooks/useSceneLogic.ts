@@ -1,6 +1,7 @@
 import React, { useCallback } from 'react';
 import { ProjectState, Scene, DirectorPreset } from '../types';
 import { generateId } from '../utils/helpers';
+import { dropStaleVoiceAudio } from '../utils/voiceover';
 
 export function useSceneLogic(
     state: ProjectState,
@@ -16,8 +17,8 @@ export function useSceneLogic(
             id: generateId(),
             sceneNumber: `${state.scenes.length + 1}`,
             groupId: lastScene?.groupId, // Inherit group from last scene
-            language1: '',
-            vietnamese: '',
+            scriptText: '',
+            scriptTranslation: '',
             promptName: '',
             contextDescription: '',
             characterIds: defaultCharacter ? [defaultCharacter.id] : [],
@@ -33,7 +34,7 @@ export function useSceneLogic(
     const updateScene = useCallback((id: string, updates: Partial<Scene>) => {
         updateStateAndRecord(s => ({
             ...s,
-            scenes: s.scenes.map(sc => sc.id === id ? { ...sc, ...updates } : sc)
+            scenes: s.scenes.map(sc => sc.id === id ? dropStaleVoiceAudio({ ...sc, ...updates }) : sc)
         }));
     }, [updateStateAndRecord]);
 
@@ -56,8 +57,8 @@ export function useSceneLogic(
             id,
             sceneNumber: `${index + 1}`,
             groupId: prevScene?.groupId, // Inherit group from previous scene
-            language1: '',
-            vietnamese: '',
+            scriptText: '',
+            scriptTranslation: '',
             promptName: '',
             contextDescription: '',
             characterIds: defaultCharacter ? [defaultCharacter.id] : [],
@@ -96,7 +97,7 @@ export function useSceneLogic(
         return newGroup.id;
     }, [updateStateAndRecord]);
 
-    const updateGroup = useCallback((id: string, updates: Partial<{ name: string; description: string }>) => {
+    const updateGroup = useCallback((id: string, updates: Partial<{ name: string; description: string; chainFrames: boolean; bars: number }>) => {
         updateStateAndRecord(s => ({
             ...s,
             sceneGroups: (s.sceneGroups || []).map(g => g.id === id ? { ...g, ...updates } : g)
@@ -159,6 +160,8 @@ export function useSceneLogic(
                 }
 
                 const defaultCharacter = state.characters.find(c => c.isDefault);
+                // Columns: scene, English, Vietnamese, prompt name, context
+                const useVietnameseField = state.scriptLanguage === 'vietnamese';
                 const newScenes: Scene[] = json.slice(1)
                     .filter(row => row && row.length > 0 && row[0] !== undefined && row[0] !== null && String(row[0]).trim() !== '')
                     .map(row => {
@@ -172,8 +175,8 @@ export function useSceneLogic(
                         return {
                             id: generateId(),
                             sceneNumber: sceneNumber,
-                            language1: String(row[1] || ''),
-                            vietnamese: String(row[2] || ''),
+                            scriptText: String(row[useVietnameseField ? 2 : 1] || ''),
+                            scriptTranslation: String(row[useVietnameseField ? 1 : 2] || ''),
                             promptName: String(row[3] || ''),
                             contextDescription: String(row[4] || ''),
                             characterIds: characterIds,
@@ -213,7 +216,9 @@ export function useSceneLogic(
                     description: g.description,
                     continuityReferenceGroupId: g.continuity_reference_group_id,
                     stylePrompt: g.stylePrompt,
-                    customStyleInstruction: g.customStyleInstruction
+                    customStyleInstruction: g.customStyleInstruction,
+                    pacing: g.pacing,
+                    bars: Number(g.bars) || undefined
                 };
             });
 
@@ -223,9 +228,7 @@ export function useSceneLogic(
                 continuityReferenceGroupId: g.continuityReferenceGroupId ? (groupMap[g.continuityReferenceGroupId] || g.continuityReferenceGroupId) : undefined
             }));
 
-            // Determine which field to use based on scriptLanguage setting
             const scriptContent = (sc: any) => sc.voiceover || (sc.dialogues?.[0]?.line) || '';
-            const useVietnameseField = s.scriptLanguage === 'vietnamese';
 
             const newScenes: Scene[] = scenes.map((sc: any) => ({
                 id: generateId(),
@@ -243,9 +246,8 @@ export function useSceneLogic(
                 veoPrompt: '',
                 isGenerating: false,
                 error: null,
-                // Assign script to correct field based on scriptLanguage setting
-                language1: useVietnameseField ? '' : scriptContent(sc),
-                vietnamese: useVietnameseField ? scriptContent(sc) : ''
+                scriptText: scriptContent(sc),
+                scriptTranslation: ''
             }));
 
             return {
@@ -6,6 +6,10 @@
  * 2. Identify characters
  * 3. Suggest scene breakdown
  * 4. Generate visual prompts with Director + Character Style
+ *
+ * Long scripts are split into chapter chunks that are analyzed in parallel
+ * and merged; finished chunks are kept so a failed run can resume.
+ * An edited script re-analyzes only its changed paragraphs (reanalyzeChanges + mergeSceneMap).
  */
 
 import { useState, useCallback } from 'react';
@@ -14,6 +18,10 @@ import { DirectorPreset, DIRECTOR_PRESETS } from '../constants/directors';
 import { resolveStyleWithInheritance } from '../constants/characterStyles';
 import { callGroqText } from '../utils/geminiUtils';
 import { isImperialUltraEnabled } from '../utils/imperialUltraClient';
+import { sha256Hex } from '../utils/assetStore';
+import { schema, requestStructured } from '../utils/structuredOutput';
+import { splitParagraphs, normalizeParagraph, diffParagraphs, ParagraphChange } from '../utils/scriptDiff';
+import { generateId } from '../utils/helpers';
 
 // Analysis result types
 export interface ChapterAnalysis {
@@ -36,6 +44,8 @@ export interface CharacterAnalysis {
 }
 
 export interface SceneAnalysis {
+    id?: string;                 // Stable across re-analysis; imported Scenes keep it as scriptSourceId
+    paragraphIndex?: number;     // Script paragraph (splitParagraphs) the scene's text starts in
     voiceOverText: string;      // Narration/commentary (off-screen narrator)
     dialogueText?: string;       // Character dialogue (spoken on-screen)
     dialogueSpeaker?: string;    // Who is speaking the dialogue
@@ -73,8 +83,56 @@ export interface ScriptAnalysisResult {
     suggestedSceneCount: number;
     scenes: SceneAnalysis[];
     globalContext?: string; // World setting, era, tone summary from AI
+    sourceScript?: string; // Script text this analysis was made from, diffed by reanalyzeChanges
+    // Scene ids changed by re-analysis since the full analysis, used when merging into existing Scenes
+    replacedSceneIds?: string[];
+    addedSceneIds?: string[];
 }
 
+// Shape of the analysis JSON; broken list entries are dropped instead of failing a long analysis
+const analysisResponseSchema = schema.object({
+    globalContext: schema.optional(schema.string()),
+    locations: schema.array(schema.object({
+        id: schema.string(),
+        name: schema.string(),
+        description: schema.string(''),
+        keywords: schema.array(schema.string(), { default: [] }),
+        chapterIds: schema.array(schema.string(), { default: [] }),
+        sceneRanges: schema.array(schema.object({ start: schema.number(), end: schema.number() }), { default: [] }),
+        conceptPrompt: schema.string(''),
+        isInterior: schema.boolean(false),
+        timeOfDay: schema.optional(schema.string()),
+        mood: schema.optional(schema.string())
+    }), { default: [], dropInvalid: true }),
+    chapters: schema.array(schema.object({
+        id: schema.string(),
+        title: schema.string(''),
+        suggestedTimeOfDay: schema.optional(schema.string()),
+        suggestedWeather: schema.optional(schema.string()),
+        locationAnchor: schema.optional(schema.string())
+    }), { default: [], dropInvalid: true }),
+    characters: schema.array(schema.object({
+        name: schema.string(),
+        mentions: schema.number({ min: 0, default: 0 }),
+        suggestedDescription: schema.string(''),
+        outfitByChapter: schema.optional(schema.record(schema.string())),
+        isMain: schema.boolean(false)
+    }), { default: [], dropInvalid: true }),
+    scenes: schema.array(schema.object({
+        voiceOverText: schema.string(''),
+        dialogueText: schema.optional(schema.string()),
+        dialogueSpeaker: schema.optional(schema.string()),
+        visualPrompt: schema.string(''), // A scene without one still carries its VO; the prompt is written later
+        chapterId: schema.string(''),
+        characterNames: schema.array(schema.string(), { default: [] }),
+        needsExpansion: schema.boolean(false),
+        expansionScenes: schema.optional(schema.array(schema.object({
+            visualPrompt: schema.string(),
+            isBRoll: schema.boolean(true)
+        }), { dropInvalid: true }))
+    }), { minItems: 1, dropInvalid: true })
+});
+
 // Words per minute for duration estimation
 const WPM_SLOW = 120;
 const WPM_MEDIUM = 150;
@@ -168,209 +226,264 @@ function validateDialogueSeparation(scenes: SceneAnalysis[]): { warnings: string
     return { warnings, autoFixes };
 }
 
-export type AnalysisStage = 'idle' | 'preparing' | 'dialogue-detection' | 'connecting' | 'clustering' | 'thinking' | 'post-processing' | 'validating' | 'finalizing';
+export type AnalysisStage = 'idle' | 'preparing' | 'dialogue-detection' | 'connecting' | 'clustering' | 'thinking' | 'post-processing' | 'validating' | 'finalizing' | 'shared-context' | 'chunks' | 'reanalyzing';
 
-export function useScriptAnalysis(userApiKey: string | null) {
-    const [isAnalyzing, setIsAnalyzing] = useState(false);
-    const [analysisStage, setAnalysisStage] = useState<AnalysisStage>('idle');
-    const [analysisResult, setAnalysisResult] = useState<ScriptAnalysisResult | null>(null);
-    const [analysisError, setAnalysisError] = useState<string | null>(null);
+// ═══════════════════════════════════════════════════════════════
+// CHUNKED ANALYSIS (feature-length scripts)
+// ═══════════════════════════════════════════════════════════════
 
-    /**
-     * Analyze script text using AI
-     */
-    const analyzeScript = useCallback(async (
-        scriptText: string,
-        readingSpeed: 'slow' | 'medium' | 'fast' = 'medium',
-        modelSelector: string = 'llama-3.3-70b-versatile|none', // format: model|thinkingLevel
-        characterStyle?: CharacterStyleDefinition | null,
-        director?: DirectorPreset | null,
-        researchNotes?: { director?: string; dop?: string; story?: string } | null,
-        activeCharacters: { id: string; name: string; description?: string }[] = [] // New Param for auto-assignment
-    ): Promise<ScriptAnalysisResult | null> => {
-        // Check API Keys
-        // If Imperial Ultra is enabled and we are using a Gemini/Imperial model, we don't need userApiKey
-        const [modelName] = modelSelector.split('|');
-        const isImperialRequest = isImperialUltraEnabled() && (modelName.includes('gemini') || modelName.includes('imperial'));
+// Roughly 12 minutes of VO per chunk keeps each clustering response well inside the model's output limit
+const CHUNK_WORD_BUDGET = 1800;
+const CHUNK_CONCURRENCY = 3;
 
-        if (!userApiKey && !isImperialRequest) {
-            setAnalysisError('API key required');
-            return null;
-        }
+export interface ChapterMarker {
+    lineNumber: number; // 1-indexed
+    header: string;
+    chapterId: string;
+}
 
-        setIsAnalyzing(true);
-        setAnalysisStage('preparing');
-        setAnalysisError(null);
+export interface ScriptChunk {
+    index: number;
+    startLine: number;          // 1-indexed line in the full script
+    text: string;
+    wordCount: number;
+    markers: ChapterMarker[];   // Line numbers relative to the chunk
+    leadingChapterId?: string;  // Chapter continued from the previous chunk (chunk starts mid-chapter)
+}
 
-        try {
-            const wpm = readingSpeed === 'slow' ? WPM_SLOW : readingSpeed === 'fast' ? WPM_FAST : WPM_MEDIUM;
-            const wordCount = scriptText.split(/\s+/).length;
-            const estimatedTotalDuration = Math.ceil((wordCount / wpm) * 60);
+// Cast and locations agreed on before the chunks run, so every chunk uses the same names and ids
+export interface SharedAnalysisContext {
+    globalContext?: string;
+    characters: { name: string; suggestedDescription: string; isMain: boolean }[];
+    locations: { id: string; name: string; description: string; isInterior: boolean }[];
+}
 
-            // ═══════════════════════════════════════════════════════════════
-            // PRE-PROCESSING: Dialogue Detection with Regex
-            // ═══════════════════════════════════════════════════════════════
-            setAnalysisStage('dialogue-detection');
-            const { markedScript, dialogueHints, stats } = preProcessDialogue(scriptText);
-            console.log(`[Dialogue Detection] Found ${stats.totalDialogues} dialogues, ${stats.totalVOLines} VO lines`);
+/**
+ * Partially completed chunked analysis, persisted in manualScriptState.
+ * Chunk results are only reused when the fingerprint (script + settings) still matches.
+ */
+export interface ScriptAnalysisProgress {
+    fingerprint: string;
+    sharedContext?: SharedAnalysisContext;
+    chunkResults: (ScriptAnalysisResult | null)[];
+}
 
-            // Build dialogue hints for AI
-            const dialogueHintsForAI = dialogueHints.length > 0
-                ? `\n[PRE-DETECTED DIALOGUES - USE THESE AS HINTS]:\n${dialogueHints.map(h => `- Speaker: "${h.speaker}" | Dialogue: "${h.text}"`).join('\n')}\n`
-                : '';
+const sharedContextSchema = schema.object({
+    globalContext: schema.optional(schema.string()),
+    characters: schema.array(schema.object({
+        name: schema.string(),
+        suggestedDescription: schema.string(''),
+        isMain: schema.boolean(false)
+    }), { default: [], dropInvalid: true }),
+    locations: schema.array(schema.object({
+        id: schema.string(),
+        name: schema.string(),
+        description: schema.string(''),
+        isInterior: schema.boolean(false)
+    }), { default: [], dropInvalid: true })
+});
+
+const countWords = (text: string): number => text.split(/\s+/).filter(Boolean).length;
 
-            // ═══════════════════════════════════════════════════════════════
-            // PRE-PROCESSING: Chapter Header Detection (CRITICAL FOR GROUPING)
-            // ═══════════════════════════════════════════════════════════════
-            // Detect chapter headers using regex patterns for "Location, Date/Year" format
-            // This MUST happen before AI analysis to ensure correct scene grouping
-            interface ChapterMarker {
-                lineNumber: number;
-                header: string;
-                chapterId: string;
-            }
-
-            const chapterMarkers: ChapterMarker[] = [];
-            const lines = scriptText.split('\n');
+/**
+ * Split the script into chunks of at most `wordBudget` words.
+ * Chunks break at chapter headers; a chapter longer than the budget breaks at blank lines,
+ * and short neighbouring chapters share a chunk.
+ */
+export function splitScriptIntoChunks(scriptText: string, markers: ChapterMarker[], wordBudget: number = CHUNK_WORD_BUDGET): ScriptChunk[] {
+    const lines = scriptText.split('\n');
+    const lineWords = lines.map(countWords);
+
+    // Chapters are packed whole; only a chapter longer than the budget is cut, at paragraph breaks
+    const chapterStarts = [...new Set([0, ...markers.map(m => m.lineNumber - 1)])].sort((a, b) => a - b);
+    const ranges: { start: number; end: number; words: number }[] = [];
+    chapterStarts.forEach((start, i) => {
+        const end = chapterStarts[i + 1] ?? lines.length;
+        const chapterWords = lineWords.slice(start, end).reduce((sum, n) => sum + n, 0);
+        let current = ranges[ranges.length - 1];
+        if (!current || current.words + chapterWords > wordBudget) {
+            current = { start, end: start, words: 0 };
+            ranges.push(current);
+        }
 
-            // Regex patterns for chapter headers:
-            // PRIORITY 1: Explicit bracket format [Chapter Title] - 100% reliable
-            // FALLBACK: Other patterns for non-bracketed scripts
-            // Regex patterns for chapter headers:
-            const chapterPatterns = [
-                // PRIORITY: Bracket format [Chapter Title] - MOST RELIABLE
-                /^\[(.+)\]$/,
+        let paragraphStart = start;
+        let paragraphWords = 0;
+        for (let line = start; line < end; line++) {
+            paragraphWords += lineWords[line];
+            if (lines[line].trim() && line < end - 1) continue;
+            if (current.words > 0 && current.words + paragraphWords > wordBudget) {
+                current = { start: paragraphStart, end: paragraphStart, words: 0 };
+                ranges.push(current);
+            }
+            current.end = line + 1;
+            current.words += paragraphWords;
+            paragraphStart = line + 1;
+            paragraphWords = 0;
+        }
+    });
+
+    return ranges
+        .filter(range => range.words > 0)
+        .map((range, index) => {
+            const inChunk = markers.filter(m => m.lineNumber - 1 >= range.start && m.lineNumber - 1 < range.end);
+            const opensWithHeader = inChunk.length > 0 && inChunk[0].lineNumber - 1 === range.start;
+            const previous = markers.filter(m => m.lineNumber - 1 < range.start).pop();
+            return {
+                index,
+                startLine: range.start + 1,
+                text: lines.slice(range.start, range.end).join('\n'),
+                wordCount: range.words,
+                markers: inChunk.map(m => ({ ...m, lineNumber: m.lineNumber - range.start })),
+                leadingChapterId: opensWithHeader ? undefined : previous?.chapterId
+            };
+        });
+}
+/**
+ * Detect chapter headers using regex patterns for "Location, Date/Year" format.
+ * This MUST happen before AI analysis to ensure correct scene grouping
+ */
+export function detectChapterMarkers(scriptText: string): ChapterMarker[] {
+    const chapterMarkers: ChapterMarker[] = [];
+    const lines = scriptText.split('\n');
 
-                // Pattern: Explicit Act/Chapter markers (ACTO 1, ACT 1, CHAPTER 1, CHƯƠNG 1, HOOK)
-                /^(ACTO|ACT|CHAPTER|CHƯƠNG|PHẦN|HOOK|INTRO|OUTRO|ACTO|EPILOGUE|PROLOGUE)\s*(\d+|[A-Z]+)?\s*[:\-\.]?\s*(.*)$/i,
+    // Regex patterns for chapter headers:
+    // PRIORITY 1: Explicit bracket format [Chapter Title] - 100% reliable
+    // FALLBACK: Other patterns for non-bracketed scripts
+    // Regex patterns for chapter headers:
+    const chapterPatterns = [
+        // PRIORITY: Bracket format [Chapter Title] - MOST RELIABLE
+        /^\[(.+)\]$/,
 
-                // Pattern 1: "Place, Month Year" (Support English & Spanish months)
-                /^([A-Za-zÀ-ÿ][A-Za-zÀ-ÿ\s\-']+),?\s*(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|January|February|March|April|May|June|July|August|September|October|November|December|Enero|Febrero|Marzo|Abril|Mayo|Junio|Julio|Agosto|Septiembre|Octubre|Noviembre|Diciembre)\s*(?:de\s+)?(\d{4}s?)$/i,
+        // Pattern: Explicit Act/Chapter markers (ACTO 1, ACT 1, CHAPTER 1, CHƯƠNG 1, HOOK)
+        /^(ACTO|ACT|CHAPTER|CHƯƠNG|PHẦN|HOOK|INTRO|OUTRO|ACTO|EPILOGUE|PROLOGUE)\s*(\d+|[A-Z]+)?\s*[:\-\.]?\s*(.*)$/i,
 
-                // Pattern 2: "Place, Country Year" (e.g., "Rouen, France 1820s") 
-                /^([A-Za-zÀ-ÿ][A-Za-zÀ-ÿ\s\-']+),?\s*([A-Za-zÀ-ÿ]+)\s+(\d{4}s?|\d{3}0s)$/i,
+        // Pattern 1: "Place, Month Year" (Support English & Spanish months)
+        /^([A-Za-zÀ-ÿ][A-Za-zÀ-ÿ\s\-']+),?\s*(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec|January|February|March|April|May|June|July|August|September|October|November|December|Enero|Febrero|Marzo|Abril|Mayo|Junio|Julio|Agosto|Septiembre|Octubre|Noviembre|Diciembre)\s*(?:de\s+)?(\d{4}s?)$/i,
 
-                // Pattern 3: Time jump phrases
-                /^(Two|Three|Four|Five|Six|Seven|Eight|Nine|Ten|\d+)\s+(Years?|Months?|Weeks?|Days?|Hours?|Năm|Tháng|Tuần|Ngày|Giờ)\s+(Later|Earlier|Before|After|Ago|Sau|Trước)$/i,
+        // Pattern 2: "Place, Country Year" (e.g., "Rouen, France 1820s") 
+        /^([A-Za-zÀ-ÿ][A-Za-zÀ-ÿ\s\-']+),?\s*([A-Za-zÀ-ÿ]+)\s+(\d{4}s?|\d{3}0s)$/i,
 
-                // Pattern 4: Section titles (e.g., "The Mask")
-                /^(The|Vụ|Cái|Hành|Trận)\s+[A-ZÀ-Ỹ][a-zA-ZÀ-ỹ]+$/,
+        // Pattern 3: Time jump phrases
+        /^(Two|Three|Four|Five|Six|Seven|Eight|Nine|Ten|\d+)\s+(Years?|Months?|Weeks?|Days?|Hours?|Năm|Tháng|Tuần|Ngày|Giờ)\s+(Later|Earlier|Before|After|Ago|Sau|Trước)$/i,
 
-                // Pattern 5: Standalone header - Allow colons and basic punctuation
-                /^[A-ZÀ-Ỹ][a-zA-ZÀ-ỹ\s\-',:\.]{2,40}$/,
-            ];
+        // Pattern 4: Section titles (e.g., "The Mask")
+        /^(The|Vụ|Cái|Hành|Trận)\s+[A-ZÀ-Ỹ][a-zA-ZÀ-ỹ]+$/,
 
-            lines.forEach((line, index) => {
-                const trimmedLine = line.trim();
+        // Pattern 5: Standalone header - Allow colons and basic punctuation
+        /^[A-ZÀ-Ỹ][a-zA-ZÀ-ỹ\s\-',:\.]{2,40}$/,
+    ];
 
-                // Skip extremely long lines or lines with typical ending punctuation
-                if (!trimmedLine || trimmedLine.length > 60 || /[.!?]\s+[A-Z]/.test(trimmedLine)) return;
+    lines.forEach((line, index) => {
+        const trimmedLine = line.trim();
 
-                // Also skip lines that are clearly not headers (too many words)
-                const wordCount = trimmedLine.split(/\s+/).length;
-                if (wordCount > 8) return;
+        // Skip extremely long lines or lines with typical ending punctuation
+        if (!trimmedLine || trimmedLine.length > 60 || /[.!?]\s+[A-Z]/.test(trimmedLine)) return;
 
-                for (const pattern of chapterPatterns) {
-                    if (pattern.test(trimmedLine)) {
-                        // Special check: if it looks like a sentence but matched pattern 5, skip it
-                        if (trimmedLine.includes(' ') && !trimmedLine.includes(',') && !trimmedLine.includes(':') && wordCount > 4 && !/^(The|Act|Acto|Chapter|Chương)/i.test(trimmedLine)) {
-                            // High chance it's just a short sentence
-                            continue;
-                        }
+        // Also skip lines that are clearly not headers (too many words)
+        const wordCount = trimmedLine.split(/\s+/).length;
+        if (wordCount > 8) return;
 
-                        // Generate chapter ID from header
-                        const chapterId = trimmedLine
-                            .toLowerCase()
-                            .replace(/[^a-z0-9\s]/g, '')
-                            .replace(/\s+/g, '_')
-                            .substring(0, 30);
-
-                        chapterMarkers.push({
-                            lineNumber: index + 1,
-                            header: trimmedLine,
-                            chapterId: chapterId
-                        });
-                        console.log(`[Chapter Detection] 📍 Found chapter: "${trimmedLine}" → ${chapterId}`);
-                        break;
-                    }
+        for (const pattern of chapterPatterns) {
+            if (pattern.test(trimmedLine)) {
+                // Special check: if it looks like a sentence but matched pattern 5, skip it
+                if (trimmedLine.includes(' ') && !trimmedLine.includes(',') && !trimmedLine.includes(':') && wordCount > 4 && !/^(The|Act|Acto|Chapter|Chương)/i.test(trimmedLine)) {
+                    // High chance it's just a short sentence
+                    continue;
                 }
-            });
-
-            // Build chapter hints for AI
-            const chapterHintsForAI = chapterMarkers.length > 0
-                ? `\n[PRE-DETECTED CHAPTER BOUNDARIES - STRICTLY FOLLOW THESE]:\n${chapterMarkers.map((ch, i) => {
-                    const nextChapter = chapterMarkers[i + 1];
-                    const endNote = nextChapter
-                        ? `(ALL scenes until line ${nextChapter.lineNumber - 1} belong here)`
-                        : `(ALL remaining scenes belong here)`;
-                    return `- Line ${ch.lineNumber}: "${ch.header}" → chapter_id: "${ch.chapterId}" ${endNote}`;
-                }).join('\n')}\n⚠️ CRITICAL: Use EXACTLY these chapter_ids for scenes. Do NOT create your own chapter boundaries!\n`
-                : '';
-
-            console.log(`[Chapter Detection] Found ${chapterMarkers.length} chapter boundaries`);
-
-            // Parse model selector format: "model-name|thinking-level"
-            const [modelName, thinkingLevel] = modelSelector.split('|');
 
-            // Context Injection
-            let contextInstructions = "";
-
-            // [New] Global Story Context - INJECT FIRST
-            if (researchNotes?.story) {
-                contextInstructions += `\n[GLOBAL STORY CONTEXT - MANDATORY WORLD SETTING]:\n${researchNotes.story}\n- ALL visual descriptions MUST align with this world setting. Do not hallucinate settings that contradict this context.\n`;
-            }
-
-            if (characterStyle) {
-                // Check if this is a mannequin style
-                const isMannequinStyle = characterStyle.id?.includes('mannequin') || characterStyle.name?.toLowerCase().includes('mannequin');
-                const mannequinPrefix = isMannequinStyle ? 'Faceless white mannequin, egg-shaped head. ' : '';
-
-                contextInstructions += `\nVISUAL STYLE CONSTRAINT: The user selected the character style "${characterStyle.name}" (${characterStyle.promptInjection.global}).\n- You MUST generate "suggestedDescription" that aligns with this style.\n${isMannequinStyle ? `- MANDATORY MANNEQUIN PREFIX: Every character's suggestedDescription MUST start with: "${mannequinPrefix}"\n` : ''}- CRITICAL: You MUST extract the SPECIFIC OUTFIT (uniforms, period clothing, colors) from the script.\n- IF SCRIPT IS VAGUE: You MUST INFER appropriate period-accurate clothing in EXTREME DETAIL.\n- TEXTURE & MATERIAL LOCK: You MUST describe textures with MICROSCOPIC DETAIL (e.g. "cracked leather with oil stains", "coarse wool with pilling", "rusted brass buttons", "frayed cotton edges").\n- FORMAT: "${mannequinPrefix}WEARING: [Detailed Outfit Description with specific textures/materials] + [Accessories/Props] + [SHOES: specific footwear]."\n- Example: "Faceless white mannequin, egg-shaped head. WEARING: A heavy, cracked vintage bomber jacket (worn leather texture), coarse grey wool trousers with mud splatters, tarnished silver cufflinks. SHOES: Brown leather oxford shoes with scuff marks."\n- COMPLETE OUTFIT MANDATORY: Every character MUST have pants/skirt AND shoes specified.\n`;
-            } else {
-                contextInstructions += `\n- For characters, provide a HIGHLY DETAILED VISUAL DESCRIPTION (Age, Ethnicity, Hair, Face, Body, Initial Outfit).`;
-            }
-
-            if (director) {
-                contextInstructions += `\nDIRECTOR VISION: ${director.name} (${director.description}).\n- Frame scenes according to this director's style.\n`;
-            }
-
-            // Inject Research Notes (User's custom research for this script)
-            if (researchNotes?.director) {
-                contextInstructions += `\n[USER DIRECTOR NOTES - MANDATORY CONTEXT]:\n${researchNotes.director}\n- Apply these storytelling guidelines to scene breakdown and character actions.\n`;
-            }
-            if (researchNotes?.dop) {
-                contextInstructions += `\n[USER DOP NOTES - MANDATORY CAMERA/LIGHTING CONTEXT]:\n${researchNotes.dop}\n- Apply these cinematography guidelines to visual prompts.\n`;
+                // Generate chapter ID from header
+                const chapterId = trimmedLine
+                    .toLowerCase()
+                    .replace(/[^a-z0-9\s]/g, '')
+                    .replace(/\s+/g, '_')
+                    .substring(0, 30);
+
+                chapterMarkers.push({
+                    lineNumber: index + 1,
+                    header: trimmedLine,
+                    chapterId: chapterId
+                });
+                console.log(`[Chapter Detection] 📍 Found chapter: "${trimmedLine}" → ${chapterId}`);
+                break;
             }
+        }
+    });
 
-            // Expected Scene Count (Soft Target)
-            // Expected Scene Count (Strict Target for Granularity)
-            // For 2700 words, we want ~200-300 shots. 
-            const wordsPerScene = readingSpeed === 'slow' ? 8 : readingSpeed === 'fast' ? 15 : 10;
-            const targetMinShots = Math.ceil(wordCount / wordsPerScene);
+    return chapterMarkers;
+}
 
-            // [New] Existing Character Library - Inject to avoid duplicates
-            if (activeCharacters && activeCharacters.length > 0) {
-                const charList = activeCharacters.map(c => `- ${c.name}: ${c.description || 'No description'}`).join('\n');
-                contextInstructions += `\n[EXISTING CHARACTER LIBRARY - MANDATORY REUSE]:\n${charList}\n- CRITICAL: If the script refers to any of these characters (by name or context), you MUST reuse their exact name. Do NOT create new entries for them in the "characters" JSON array unless they are truly new characters not found in this list.\n`;
-            }
+interface ChunkAnalysisOptions {
+    name: string;                 // Shown in structured-output reports
+    userApiKey: string | null;
+    modelName: string;
+    wpm: number;
+    wordsPerScene: number;
+    contextInstructions: string;  // Style, director, research notes and shared cast/locations
+    onStage?: (stage: AnalysisStage) => void;
+}
 
-            // [New] Inject pre-detected dialogue hints
-            if (dialogueHintsForAI) {
-                contextInstructions += dialogueHintsForAI;
-                contextInstructions += `- IMPORTANT: These dialogues were pre-detected by regex. Use them as HINTS for your dialogueText/dialogueSpeaker fields.\n`;
-            }
+/**
+ * Two-pass analysis of one chunk: Director's visual clustering, then the DOP's JSON.
+ * Chapter hints and the chapter override only look at the chunk's own lines.
+ */
+async function analyzeScriptChunk(chunk: ScriptChunk, options: ChunkAnalysisOptions): Promise<ScriptAnalysisResult> {
+    const { userApiKey, modelName, wpm, onStage } = options;
+    const scriptText = chunk.text;
+    const wordCount = chunk.wordCount;
+    const estimatedTotalDuration = Math.ceil((wordCount / wpm) * 60);
+    const lines = scriptText.split('\n');
+
+    // A chunk that starts mid-chapter opens with the chapter it continues
+    const chapterMarkers: ChapterMarker[] = chunk.leadingChapterId
+        ? [{ lineNumber: 1, header: '(continued)', chapterId: chunk.leadingChapterId }, ...chunk.markers]
+        : chunk.markers;
+
+    // ═══════════════════════════════════════════════════════════════
+    // PRE-PROCESSING: Dialogue Detection with Regex
+    // ═══════════════════════════════════════════════════════════════
+    onStage?.('dialogue-detection');
+    const { markedScript, dialogueHints, stats } = preProcessDialogue(scriptText);
+    console.log(`[Dialogue Detection] Found ${stats.totalDialogues} dialogues, ${stats.totalVOLines} VO lines`);
+
+    // Build dialogue hints for AI
+    const dialogueHintsForAI = dialogueHints.length > 0
+        ? `\n[PRE-DETECTED DIALOGUES - USE THESE AS HINTS]:\n${dialogueHints.map(h => `- Speaker: "${h.speaker}" | Dialogue: "${h.text}"`).join('\n')}\n`
+        : '';
+
+    // Build chapter hints for AI
+    const chapterHintsForAI = chapterMarkers.length > 0
+        ? `\n[PRE-DETECTED CHAPTER BOUNDARIES - STRICTLY FOLLOW THESE]:\n${chapterMarkers.map((ch, i) => {
+            const nextChapter = chapterMarkers[i + 1];
+            const endNote = nextChapter
+                ? `(ALL scenes until line ${nextChapter.lineNumber - 1} belong here)`
+                : `(ALL remaining scenes belong here)`;
+            return `- Line ${ch.lineNumber}: "${ch.header}" → chapter_id: "${ch.chapterId}" ${endNote}`;
+        }).join('\n')}\n⚠️ CRITICAL: Use EXACTLY these chapter_ids for scenes. Do NOT create your own chapter boundaries!\n`
+        : '';
+
+    let contextInstructions = options.contextInstructions;
+
+    // Expected Scene Count (Strict Target for Granularity)
+    // For 2700 words, we want ~200-300 shots.
+    const targetMinShots = Math.ceil(wordCount / options.wordsPerScene);
+
+    // [New] Inject pre-detected dialogue hints
+    if (dialogueHintsForAI) {
+        contextInstructions += dialogueHintsForAI;
+        contextInstructions += `- IMPORTANT: These dialogues were pre-detected by regex. Use them as HINTS for your dialogueText/dialogueSpeaker fields.\n`;
+    }
 
-            // [New] Inject pre-detected chapter boundaries (CRITICAL FOR CORRECT GROUPING)
-            if (chapterHintsForAI) {
-                contextInstructions += chapterHintsForAI;
-            }
+    // [New] Inject pre-detected chapter boundaries (CRITICAL FOR CORRECT GROUPING)
+    if (chapterHintsForAI) {
+        contextInstructions += chapterHintsForAI;
+    }
 
-            // ═══════════════════════════════════════════════════════════════
-            // STEP 1: VISUAL CLUSTERING (The "Director's Thinking" Phase)
-            // ═══════════════════════════════════════════════════════════════
-            setAnalysisStage('clustering'); // New Stage
+    // ═══════════════════════════════════════════════════════════════
+    // STEP 1: VISUAL CLUSTERING (The "Director's Thinking" Phase)
+    // ═══════════════════════════════════════════════════════════════
+    onStage?.('clustering'); // New Stage
 
-            const clusteringSystemPrompt = `
+    const clusteringSystemPrompt = `
 *** CRITICAL ROLE: VISUAL DIRECTOR ***
 You are NOT a text splitter. You are a CINEMATIC ADAPTER.
 Your job is to read the raw input and restructure it into VISUAL BLOCKS (Shots).
@@ -502,9 +615,9 @@ Input VO: "The system is collapsing." (Location: City at Night)
 Input VO: "He felt the eyes of everyone on him." (Location: Dark Alley)
 [C3] Output: "High angle looking down. Multiple CCTV cameras visible on the walls, their red recording lights glowing in the shadows, all pointing at the subject."
 Do NOT hide important actions inside B-rolls. They need to be MAIN scenes.
-            `;
+    `;
 
-            let clusteringUserPrompt = `
+    let clusteringUserPrompt = `
 Analyze and REWRITE the following voice-over script into a list of "VISUAL SHOTS".
 Don't worry about JSON format yet. Just simple text blocks.
 
@@ -529,19 +642,19 @@ OUTPUT FORMAT:
 - Shot 1: [Visual Description] (Covers text: "...")
 - Shot 2: [Visual Description] (Covers text: "...")
 ...
-             `;
+     `;
 
-            // If using Llama 3.3, increase the weight of chapter instructions
-            if (modelName.includes('llama')) {
-                clusteringUserPrompt += `\n\nREMINDER: Pay EXTREME attention to Location/Time headers. They MUST create NEW Chapters. Do not merge them!`;
-            }
+    // If using Llama 3.3, increase the weight of chapter instructions
+    if (modelName.includes('llama')) {
+        clusteringUserPrompt += `\n\nREMINDER: Pay EXTREME attention to Location/Time headers. They MUST create NEW Chapters. Do not merge them!`;
+    }
 
-            // GEMINI SPECIAL INSTRUCTIONS: Force high granularity and prevent summarization
-            if (modelName.includes('gemini')) {
-                // Determine target shot count based on word count
-                const estimatedShots = Math.ceil(wordCount / 10); // Approx 1 shot per 10 words
+    // GEMINI SPECIAL INSTRUCTIONS: Force high granularity and prevent summarization
+    if (modelName.includes('gemini')) {
+        // Determine target shot count based on word count
+        const estimatedShots = Math.ceil(wordCount / 10); // Approx 1 shot per 10 words
 
-                clusteringUserPrompt = `
+        clusteringUserPrompt = `
 *** MISSION CRITICAL: SCRIPT SEGMENTATION ***
 You are an expert Film Editor. Your SOLE JOB is to slice this long script into INDIVIDUAL SHOTS.
 
@@ -569,20 +682,20 @@ ${scriptText}
 
 *** OUTPUT LIST (Start now, do not stop until the end) ***
 `;
-            }
+    }
 
-            // Call Step 1 (Clustering / Segmentation)
-            const visualPlan = await callGroqText(userApiKey || '', clusteringSystemPrompt + "\n\n" + clusteringUserPrompt, '', modelName, false);
+    // Call Step 1 (Clustering / Segmentation)
+    const visualPlan = await callGroqText(userApiKey || '', clusteringSystemPrompt + "\n\n" + clusteringUserPrompt, '', modelName, false);
 
-            console.log('[ScriptAnalysis] 🧠 Visual Plan:', visualPlan);
+    console.log('[ScriptAnalysis] 🧠 Visual Plan:', visualPlan);
 
 
-            // ═══════════════════════════════════════════════════════════════
-            // STEP 2: JSON GENERATION (The "DOP's Execution" Phase)
-            // ═══════════════════════════════════════════════════════════════
-            setAnalysisStage('thinking'); // Transition to JSON generation
+    // ═══════════════════════════════════════════════════════════════
+    // STEP 2: JSON GENERATION (The "DOP's Execution" Phase)
+    // ═══════════════════════════════════════════════════════════════
+    onStage?.('thinking'); // Transition to JSON generation
 
-            const prompt = `Analyze this voice-over script and the Director's Visual Plan to generate the final Production Script JSON.
+    const prompt = `Analyze this voice-over script and the Director's Visual Plan to generate the final Production Script JSON.
 
 === ORIGINAL SCRIPT ===
 """
@@ -729,157 +842,552 @@ RESPOND WITH JSON ONLY:
   ]
 }`;
 
-            setAnalysisStage('connecting');
-            setAnalysisStage('connecting');
-            const responseText = await callGroqText(userApiKey || '', prompt, 'You are a professional script analyst.', modelName, true);
+    onStage?.('connecting');
+    const parsed = await requestStructured({
+        name: options.name,
+        schema: analysisResponseSchema,
+        call: correction => callGroqText(userApiKey || '', prompt + (correction || ''), 'You are a professional script analyst.', modelName, true)
+    });
+
+    onStage?.('post-processing');
+
+    // Calculate durations and finalize
+    const result: ScriptAnalysisResult = {
+        totalWords: wordCount,
+        estimatedDuration: estimatedTotalDuration,
+        chapters: parsed.chapters.map(ch => ({
+            ...ch,
+            startIndex: 0,
+            endIndex: 0,
+            estimatedDuration: Math.ceil(estimatedTotalDuration / (parsed.chapters.length || 1))
+        })),
+        characters: parsed.characters.map(c => ({ ...c, outfitByChapter: c.outfitByChapter || {} })),
+        locations: parsed.locations,
+        suggestedSceneCount: parsed.scenes.length,
+        scenes: parsed.scenes.map(s => ({
+            ...s,
+            estimatedDuration: Math.ceil(((s.voiceOverText || '').split(/\s+/).length / wpm) * 60)
+        })),
+        globalContext: parsed.globalContext
+    };
 
-            setAnalysisStage('post-processing');
-            const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-            if (!jsonMatch) throw new Error('No JSON in response');
+    // ═══════════════════════════════════════════════════════════════
+    // POST-PROCESSING: Override chapterId based on voiceOverText position
+    // This fixes AI's incorrect chapter assignments by finding where
+    // each scene's text appears in the original script
+    // ═══════════════════════════════════════════════════════════════
+    if (chapterMarkers.length > 0) {
+        console.log('[ScriptAnalysis] 🔧 POST-PROCESSING: Overriding chapter assignments...');
+
+        // Build chapter ranges (start line to end line for each chapter)
+        const chapterRanges = chapterMarkers.map((marker, i) => {
+            const nextMarker = chapterMarkers[i + 1];
+            return {
+                chapterId: marker.chapterId,
+                header: marker.header,
+                startLine: marker.lineNumber,
+                endLine: nextMarker ? nextMarker.lineNumber - 1 : lines.length
+            };
+        });
 
-            const parsed = JSON.parse(jsonMatch[0]);
+        console.log('[Chapter Ranges]:', chapterRanges.map(r => `${r.header}: lines ${r.startLine}-${r.endLine}`).join(', '));
 
-            // Calculate durations and finalize
-            const result: ScriptAnalysisResult = {
-                totalWords: wordCount,
-                estimatedDuration: estimatedTotalDuration,
-                chapters: (parsed.chapters || []).map((ch: any) => ({
-                    ...ch,
-                    startIndex: 0,
-                    endIndex: 0,
-                    estimatedDuration: Math.ceil(estimatedTotalDuration / (parsed.chapters?.length || 1))
-                })),
-                characters: parsed.characters || [],
-                locations: (parsed.locations || []).map((loc: any) => ({
-                    ...loc,
-                    sceneRanges: loc.sceneRanges || []
-                })),
-                suggestedSceneCount: parsed.scenes.length,
-                scenes: parsed.scenes.map((s: any) => ({
-                    ...s,
-                    estimatedDuration: Math.ceil(((s.voiceOverText || '').split(/\s+/).length / wpm) * 60)
-                })),
-                globalContext: parsed.globalContext
-            };
+        // Helper function to find text in script
+        const findTextInScript = (text: string): number => {
+            if (!text || text.length < 5) return -1;
+            const cleanText = text.toLowerCase().replace(/[^a-z0-9\s]/g, '');
 
-            // ═══════════════════════════════════════════════════════════════
-            // POST-PROCESSING: Override chapterId based on voiceOverText position
-            // This fixes AI's incorrect chapter assignments by finding where
-            // each scene's text appears in the original script
-            // ═══════════════════════════════════════════════════════════════
-            if (chapterMarkers.length > 0) {
-                console.log('[ScriptAnalysis] 🔧 POST-PROCESSING: Overriding chapter assignments...');
-
-                // Build chapter ranges (start line to end line for each chapter)
-                const chapterRanges = chapterMarkers.map((marker, i) => {
-                    const nextMarker = chapterMarkers[i + 1];
-                    return {
-                        chapterId: marker.chapterId,
-                        header: marker.header,
-                        startLine: marker.lineNumber,
-                        endLine: nextMarker ? nextMarker.lineNumber - 1 : lines.length
-                    };
-                });
+            // Try different search lengths (8, 6, 4, 3 words)
+            for (const wordLimit of [8, 6, 4, 3]) {
+                const searchWords = cleanText.split(/\s+/).slice(0, wordLimit).filter(w => w.length > 2);
+                if (searchWords.length < 2) continue;
+                const searchString = searchWords.join(' ');
 
-                console.log('[Chapter Ranges]:', chapterRanges.map(r => `${r.header}: lines ${r.startLine}-${r.endLine}`).join(', '));
+                for (let i = 0; i < lines.length; i++) {
+                    const lineLower = lines[i].toLowerCase().replace(/[^a-z0-9\s]/g, '');
+                    if (lineLower.includes(searchString)) {
+                        return i + 1; // 1-indexed line number
+                    }
+                }
+            }
+            return -1;
+        };
 
-                // Helper function to find text in script
-                const findTextInScript = (text: string): number => {
-                    if (!text || text.length < 5) return -1;
-                    const cleanText = text.toLowerCase().replace(/[^a-z0-9\s]/g, '');
+        // Assign chapter based on line number
+        const getChapterForLine = (lineNum: number): string => {
+            for (const range of chapterRanges) {
+                if (lineNum >= range.startLine && lineNum <= range.endLine) {
+                    return range.chapterId;
+                }
+            }
+            return chapterMarkers[0]?.chapterId || '';
+        };
 
-                    // Try different search lengths (8, 6, 4, 3 words)
-                    for (const wordLimit of [8, 6, 4, 3]) {
-                        const searchWords = cleanText.split(/\s+/).slice(0, wordLimit).filter(w => w.length > 2);
-                        if (searchWords.length < 2) continue;
-                        const searchString = searchWords.join(' ');
+        // Process each scene
+        const totalScenes = result.scenes.length;
+        result.scenes = result.scenes.map((scene: any, sceneIndex: number) => {
+            const voText = scene.voiceOverText || '';
 
-                        for (let i = 0; i < lines.length; i++) {
-                            const lineLower = lines[i].toLowerCase().replace(/[^a-z0-9\s]/g, '');
-                            if (lineLower.includes(searchString)) {
-                                return i + 1; // 1-indexed line number
-                            }
-                        }
-                    }
-                    return -1;
-                };
-
-                // Assign chapter based on line number
-                const getChapterForLine = (lineNum: number): string => {
-                    for (const range of chapterRanges) {
-                        if (lineNum >= range.startLine && lineNum <= range.endLine) {
-                            return range.chapterId;
-                        }
-                    }
-                    return chapterMarkers[0]?.chapterId || '';
-                };
-
-                // Process each scene
-                const totalScenes = result.scenes.length;
-                result.scenes = result.scenes.map((scene: any, sceneIndex: number) => {
-                    const voText = scene.voiceOverText || '';
-
-                    // Try to find voiceOverText in original script
-                    let foundLineNumber = findTextInScript(voText);
-
-                    // Fallback: use scene index proportion to estimate line position
-                    if (foundLineNumber === -1) {
-                        // Estimate: scene 5 of 20 scenes → ~25% through script → line 25% of total lines
-                        const proportion = sceneIndex / totalScenes;
-                        foundLineNumber = Math.floor(proportion * lines.length) + 1;
-                        console.log(`[Chapter Fallback] Scene ${sceneIndex + 1}: using proportion ${(proportion * 100).toFixed(0)}% → line ~${foundLineNumber}`);
-                    }
+            // Try to find voiceOverText in original script
+            let foundLineNumber = findTextInScript(voText);
 
-                    const correctChapterId = getChapterForLine(foundLineNumber);
+            // Fallback: use scene index proportion to estimate line position
+            if (foundLineNumber === -1) {
+                // Estimate: scene 5 of 20 scenes → ~25% through script → line 25% of total lines
+                const proportion = sceneIndex / totalScenes;
+                foundLineNumber = Math.floor(proportion * lines.length) + 1;
+                console.log(`[Chapter Fallback] Scene ${sceneIndex + 1}: using proportion ${(proportion * 100).toFixed(0)}% → line ~${foundLineNumber}`);
+            }
 
-                    if (correctChapterId && correctChapterId !== scene.chapterId) {
-                        console.log(`[Chapter Override] Scene ${sceneIndex + 1} "${voText.substring(0, 25)}..." (line ${foundLineNumber}): ${scene.chapterId || 'none'} → ${correctChapterId}`);
-                    }
+            const correctChapterId = getChapterForLine(foundLineNumber);
 
-                    return { ...scene, chapterId: correctChapterId || scene.chapterId };
-                });
+            if (correctChapterId && correctChapterId !== scene.chapterId) {
+                console.log(`[Chapter Override] Scene ${sceneIndex + 1} "${voText.substring(0, 25)}..." (line ${foundLineNumber}): ${scene.chapterId || 'none'} → ${correctChapterId}`);
             }
 
+            return { ...scene, chapterId: correctChapterId || scene.chapterId };
+        });
+    }
+
+    // ═══════════════════════════════════════════════════════════════
+    // POST-PROCESSING: Clean Silent Visual Notes (...) from VoiceOver
+    // ═══════════════════════════════════════════════════════════════
+    console.log('[ScriptAnalysis] 🧹 cleaning visual notes (...) from voice-over text...');
+    result.scenes = result.scenes.map((scene: any) => {
+        // Regex to remove content inside parentheses, handling nested or multiple per line
+        const cleanText = (text: string) => {
+            if (!text) return '';
+            // Replace (...) with empty string, trimming extra spaces
+            return text.replace(/\([^)]+\)/g, '').replace(/\s+/g, ' ').trim();
+        };
+
+        const oldVO = scene.voiceOverText || '';
+        const newVO = cleanText(oldVO);
+
+        if (oldVO !== newVO) {
+            console.log(`[Clean Output] Removed notes from VO: "${oldVO}" -> "${newVO}"`);
+        }
+
+        // Also clean dialogue text if present
+        const oldDiag = scene.dialogueText || '';
+        const newDiag = cleanText(oldDiag);
+
+        return {
+            ...scene,
+            voiceOverText: newVO,
+            dialogueText: newDiag
+        };
+    });
+
+    if (result.locations.length > 0) {
+        console.log(`[ScriptAnalysis] 📍 Detected ${result.locations.length} unique locations:`,
+            result.locations.map(l => l.name).join(', '));
+    }
+
+    return result;
+}
+
+/**
+ * Prompt context shared by every chunk: world setting, character style, director and research notes,
+ * and the existing character library.
+ */
+function buildContextInstructions(
+    characterStyle: CharacterStyleDefinition | null | undefined,
+    director: DirectorPreset | null | undefined,
+    researchNotes: { director?: string; dop?: string; story?: string } | null | undefined,
+    activeCharacters: { id: string; name: string; description?: string }[]
+): string {
+    // Context Injection
+    let contextInstructions = "";
+
+    // [New] Global Story Context - INJECT FIRST
+    if (researchNotes?.story) {
+        contextInstructions += `\n[GLOBAL STORY CONTEXT - MANDATORY WORLD SETTING]:\n${researchNotes.story}\n- ALL visual descriptions MUST align with this world setting. Do not hallucinate settings that contradict this context.\n`;
+    }
+
+    if (characterStyle) {
+        // Check if this is a mannequin style
+        const isMannequinStyle = characterStyle.id?.includes('mannequin') || characterStyle.name?.toLowerCase().includes('mannequin');
+        const mannequinPrefix = isMannequinStyle ? 'Faceless white mannequin, egg-shaped head. ' : '';
+
+        contextInstructions += `\nVISUAL STYLE CONSTRAINT: The user selected the character style "${characterStyle.name}" (${characterStyle.promptInjection.global}).\n- You MUST generate "suggestedDescription" that aligns with this style.\n${isMannequinStyle ? `- MANDATORY MANNEQUIN PREFIX: Every character's suggestedDescription MUST start with: "${mannequinPrefix}"\n` : ''}- CRITICAL: You MUST extract the SPECIFIC OUTFIT (uniforms, period clothing, colors) from the script.\n- IF SCRIPT IS VAGUE: You MUST INFER appropriate period-accurate clothing in EXTREME DETAIL.\n- TEXTURE & MATERIAL LOCK: You MUST describe textures with MICROSCOPIC DETAIL (e.g. "cracked leather with oil stains", "coarse wool with pilling", "rusted brass buttons", "frayed cotton edges").\n- FORMAT: "${mannequinPrefix}WEARING: [Detailed Outfit Description with specific textures/materials] + [Accessories/Props] + [SHOES: specific footwear]."\n- Example: "Faceless white mannequin, egg-shaped head. WEARING: A heavy, cracked vintage bomber jacket (worn leather texture), coarse grey wool trousers with mud splatters, tarnished silver cufflinks. SHOES: Brown leather oxford shoes with scuff marks."\n- COMPLETE OUTFIT MANDATORY: Every character MUST have pants/skirt AND shoes specified.\n`;
+    } else {
+        contextInstructions += `\n- For characters, provide a HIGHLY DETAILED VISUAL DESCRIPTION (Age, Ethnicity, Hair, Face, Body, Initial Outfit).`;
+    }
+
+    if (director) {
+        contextInstructions += `\nDIRECTOR VISION: ${director.name} (${director.description}).\n- Frame scenes according to this director's style.\n`;
+    }
+
+    // Inject Research Notes (User's custom research for this script)
+    if (researchNotes?.director) {
+        contextInstructions += `\n[USER DIRECTOR NOTES - MANDATORY CONTEXT]:\n${researchNotes.director}\n- Apply these storytelling guidelines to scene breakdown and character actions.\n`;
+    }
+    if (researchNotes?.dop) {
+        contextInstructions += `\n[USER DOP NOTES - MANDATORY CAMERA/LIGHTING CONTEXT]:\n${researchNotes.dop}\n- Apply these cinematography guidelines to visual prompts.\n`;
+    }
+
+    // [New] Existing Character Library - Inject to avoid duplicates
+    if (activeCharacters && activeCharacters.length > 0) {
+        const charList = activeCharacters.map(c => `- ${c.name}: ${c.description || 'No description'}`).join('\n');
+        contextInstructions += `\n[EXISTING CHARACTER LIBRARY - MANDATORY REUSE]:\n${charList}\n- CRITICAL: If the script refers to any of these characters (by name or context), you MUST reuse their exact name. Do NOT create new entries for them in the "characters" JSON array unless they are truly new characters not found in this list.\n`;
+    }
+
+    return contextInstructions;
+}
+
+const SHARED_CONTEXT_JSON_FORMAT = `{
+  "globalContext": "World, era, setting and tone in 2-3 sentences",
+  "characters": [{ "name": "Étienne Marchand", "suggestedDescription": "Faceless white mannequin...", "isMain": true }],
+  "locations": [{ "id": "loc_casino", "name": "Casino Interior", "description": "Dark luxurious 1940s gambling hall...", "isInterior": true }]
+}`;
+
+// Step 1 of the shared context: cast and locations of one chunk (chunks stay within the model's input limit)
+function buildChunkSummaryPrompt(chunk: ScriptChunk, chunkCount: number): string {
+    return `Read part ${chunk.index + 1} of ${chunkCount} of a voice-over script and list the cast and locations that appear in it.
+
+=== SCRIPT PART ===
+"""
+${chunk.text}
+"""
+
+RULES:
+- One entry per real person or place. Merge nicknames and titles ("the Captain", "Captain Reyes") into one name.
+- Location ids are short snake_case ("loc_casino").
+- Keep descriptions to one or two sentences.
+
+RESPOND WITH JSON ONLY:
+${SHARED_CONTEXT_JSON_FORMAT}`;
+}
+
+// Step 2: merge the chunk summaries into the one list every chunk analysis will use
+function buildSharedContextPrompt(summaries: SharedAnalysisContext[], contextInstructions: string): string {
+    const parts = summaries.map((summary, i) => `--- PART ${i + 1} ---\n${JSON.stringify(summary)}`).join('\n');
+    return `These are the cast and locations found in each part of one voice-over script.
+Merge them into a single list. The script will then be analyzed in parts, and every part must use the names and ids you choose here.
+
+=== PARTS ===
+${parts}
+${contextInstructions}
+RULES:
+- One entry per real person or place: the same character or place seen in several parts (or under a nickname/title) becomes ONE entry.
+- Location ids are short snake_case ("loc_casino").
+- Keep descriptions to one or two sentences; globalContext describes the whole script.
+
+RESPOND WITH JSON ONLY:
+${SHARED_CONTEXT_JSON_FORMAT}`;
+}
+
+function describeSharedContext(shared?: SharedAnalysisContext): string {
+    if (!shared) return '';
+    const characters = shared.characters.map(c => `- ${c.name}${c.isMain ? ' (main)' : ''}: ${c.suggestedDescription}`).join('\n');
+    const locations = shared.locations.map(l => `- ${l.id} | ${l.name} (${l.isInterior ? 'interior' : 'exterior'}): ${l.description}`).join('\n');
+    return `\n[SHARED CAST & LOCATIONS - THIS SCRIPT IS ANALYZED IN PARTS]:\n${shared.globalContext ? `World: ${shared.globalContext}\n` : ''}Characters:\n${characters || '- (none)'}\nLocations:\n${locations || '- (none)'}\n- CRITICAL: Use these EXACT character names and location ids/names, and reuse these descriptions as suggestedDescription. Only add entries for characters or locations truly missing from this list.\n`;
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Merge chunk results in script order. Characters and locations are deduplicated by name,
+ * and location scene ranges are shifted to the merged scene numbering.
+ */
+export function mergeAnalysisResults(
+    results: ScriptAnalysisResult[],
+    totals: { totalWords: number; estimatedDuration: number; globalContext?: string }
+): ScriptAnalysisResult {
+    const chapters: ChapterAnalysis[] = [];
+    const characters: CharacterAnalysis[] = [];
+    const locations: LocationAnalysis[] = [];
+    const scenes: SceneAnalysis[] = [];
+
+    for (const result of results) {
+        const sceneOffset = scenes.length;
+
+        for (const chapter of result.chapters) {
+            const existing = chapters.find(ch => ch.id === chapter.id);
+            if (!existing) {
+                chapters.push({ ...chapter });
+                continue;
+            }
+            // Chapter split across chunks: keep the first description, fill its gaps
+            existing.estimatedDuration += chapter.estimatedDuration;
+            existing.locationAnchor = existing.locationAnchor || chapter.locationAnchor;
+            existing.suggestedTimeOfDay = existing.suggestedTimeOfDay || chapter.suggestedTimeOfDay;
+            existing.suggestedWeather = existing.suggestedWeather || chapter.suggestedWeather;
+        }
+
+        for (const character of result.characters) {
+            const existing = characters.find(c => normalizeName(c.name) === normalizeName(character.name));
+            if (!existing) {
+                characters.push({ ...character, outfitByChapter: { ...character.outfitByChapter } });
+                continue;
+            }
+            existing.mentions += character.mentions;
+            existing.isMain = existing.isMain || character.isMain;
+            existing.suggestedDescription = existing.suggestedDescription || character.suggestedDescription;
+            existing.outfitByChapter = { ...character.outfitByChapter, ...existing.outfitByChapter };
+        }
+
+        for (const location of result.locations) {
+            const sceneRanges = location.sceneRanges.map(r => ({ start: r.start + sceneOffset, end: r.end + sceneOffset }));
+            const existing = locations.find(l => normalizeName(l.name) === normalizeName(location.name));
+            if (!existing) {
+                // Another chunk may have used the same id for a different place
+                const id = locations.some(l => l.id === location.id) ? `${location.id}_${locations.length + 1}` : location.id;
+                locations.push({ ...location, id, sceneRanges });
+                continue;
+            }
+            existing.keywords = [...new Set([...existing.keywords, ...location.keywords])];
+            existing.chapterIds = [...new Set([...existing.chapterIds, ...location.chapterIds])];
+            existing.sceneRanges = [...existing.sceneRanges, ...sceneRanges];
+            existing.description = existing.description || location.description;
+            existing.conceptPrompt = existing.conceptPrompt || location.conceptPrompt;
+        }
+
+        scenes.push(...result.scenes);
+    }
+
+    return {
+        totalWords: totals.totalWords,
+        estimatedDuration: totals.estimatedDuration,
+        chapters,
+        characters,
+        locations,
+        suggestedSceneCount: scenes.length,
+        scenes,
+        globalContext: totals.globalContext || results.find(r => r.globalContext)?.globalContext
+    };
+}
+
+async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T) => Promise<void>): Promise<void> {
+    const queue = [...items];
+    const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+        while (queue.length > 0) {
+            await worker(queue.shift()!);
+        }
+    });
+    await Promise.all(runners);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// INCREMENTAL RE-ANALYSIS (edited scripts)
+// ═══════════════════════════════════════════════════════════════
+
+const createAnalysisSceneId = (): string => `sa_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Give scenes a stable id and the paragraph their text starts in.
+ * The search only moves forward, so a repeated phrase resolves to the right occurrence;
+ * a scene that can't be found stays on the previous scene's paragraph.
+ */
+function anchorScenesToParagraphs(scenes: SceneAnalysis[], paragraphs: string[], offset: number = 0): SceneAnalysis[] {
+    const normalized = paragraphs.map(normalizeParagraph);
+    let cursor = 0;
+    return scenes.map(scene => {
+        const words = normalizeParagraph(scene.voiceOverText || scene.dialogueText || '').split(' ').filter(Boolean);
+        for (const limit of [6, 4, 2]) {
+            if (words.length === 0) break;
+            const needle = words.slice(0, limit).join(' ');
+            const found = normalized.findIndex((paragraph, i) => i >= cursor && paragraph.includes(needle));
+            if (found >= 0) {
+                cursor = found;
+                break;
+            }
+        }
+        return { ...scene, id: scene.id || createAnalysisSceneId(), paragraphIndex: cursor + offset };
+    });
+}
+
+interface ReanalysisRegion {
+    oldFrom: number; // Half-open paragraph ranges in the old and new script
+    oldTo: number;
+    newFrom: number;
+    newTo: number;
+}
+
+/**
+ * Widen each paragraph change to whole scenes: the scene running into the change and
+ * every paragraph of the last scene it touches are re-analyzed with it.
+ */
+function findReanalysisRegions(scenes: SceneAnalysis[], oldParagraphCount: number, changes: ParagraphChange[]): ReanalysisRegion[] {
+    const starts = scenes.map(s => s.paragraphIndex ?? 0);
+    const regions: ReanalysisRegion[] = [];
+
+    for (const change of changes) {
+        let oldFrom = change.oldStart;
+        let oldTo = change.oldEnd;
+        if (oldTo > oldFrom) {
+            const runningInto = starts.filter(p => p < oldFrom).pop();
+            if (runningInto !== undefined && !starts.includes(oldFrom)) oldFrom = runningInto;
+            oldTo = starts.find(p => p >= oldTo) ?? oldParagraphCount;
+        }
+        // Paragraphs between the change and the widened edges are unchanged, so they shift 1:1
+        const newFrom = change.newStart - (change.oldStart - oldFrom);
+        const newTo = change.newEnd + (oldTo - change.oldEnd);
+
+        const last = regions[regions.length - 1];
+        if (last && oldFrom <= last.oldTo) {
+            // Widening ran into the previous region; the later change has the right offset for the end
+            if (oldTo >= last.oldTo) {
+                last.oldTo = oldTo;
+                last.newTo = newTo;
+            }
+        } else {
+            regions.push({ oldFrom, oldTo, newFrom, newTo });
+        }
+    }
+    return regions;
+}
+/**
+ * Identifies the script + settings of a chunked analysis; a saved ScriptAnalysisProgress only resumes
+ * when the current fingerprint matches its own.
+ */
+export async function computeAnalysisFingerprint(
+    scriptText: string,
+    readingSpeed: 'slow' | 'medium' | 'fast',
+    modelSelector: string,
+    characterStyle: CharacterStyleDefinition | null | undefined,
+    director: DirectorPreset | null | undefined,
+    researchNotes: { director?: string; dop?: string; story?: string } | null | undefined,
+    activeCharacters: { name: string }[]
+): Promise<string> {
+    return await sha256Hex(new TextEncoder().encode(JSON.stringify([
+        scriptText, readingSpeed, modelSelector, characterStyle?.id, director?.id, researchNotes, activeCharacters.map(c => c.name)
+    ])));
+}
+
+export function useScriptAnalysis(userApiKey: string | null, initialProgress: ScriptAnalysisProgress | null = null) {
+    const [isAnalyzing, setIsAnalyzing] = useState(false);
+    const [analysisStage, setAnalysisStage] = useState<AnalysisStage>('idle');
+    const [analysisResult, setAnalysisResult] = useState<ScriptAnalysisResult | null>(null);
+    const [analysisError, setAnalysisError] = useState<string | null>(null);
+    const [analysisProgress, setAnalysisProgress] = useState<ScriptAnalysisProgress | null>(initialProgress);
+
+    /**
+     * Analyze script text using AI
+     */
+    const analyzeScript = useCallback(async (
+        scriptText: string,
+        readingSpeed: 'slow' | 'medium' | 'fast' = 'medium',
+        modelSelector: string = 'llama-3.3-70b-versatile|none', // format: model|thinkingLevel
+        characterStyle?: CharacterStyleDefinition | null,
+        director?: DirectorPreset | null,
+        researchNotes?: { director?: string; dop?: string; story?: string } | null,
+        activeCharacters: { id: string; name: string; description?: string }[] = [], // New Param for auto-assignment
+        resumeFrom?: ScriptAnalysisProgress | null // Partial chunked analysis to continue
+    ): Promise<ScriptAnalysisResult | null> => {
+        // Check API Keys
+        // If Imperial Ultra is enabled and we are using a Gemini/Imperial model, we don't need userApiKey
+        const [modelName] = modelSelector.split('|');
+        const isImperialRequest = isImperialUltraEnabled() && (modelName.includes('gemini') || modelName.includes('imperial'));
+
+        if (!userApiKey && !isImperialRequest) {
+            setAnalysisError('API key required');
+            return null;
+        }
+
+        setIsAnalyzing(true);
+        setAnalysisStage('preparing');
+        setAnalysisError(null);
+
+        try {
+            const wpm = readingSpeed === 'slow' ? WPM_SLOW : readingSpeed === 'fast' ? WPM_FAST : WPM_MEDIUM;
+            const wordCount = scriptText.split(/\s+/).length;
+            const estimatedTotalDuration = Math.ceil((wordCount / wpm) * 60);
+
+            const contextInstructions = buildContextInstructions(characterStyle, director, researchNotes, activeCharacters);
+
+            // Words per shot, for the granularity target of each chunk
+            const wordsPerScene = readingSpeed === 'slow' ? 8 : readingSpeed === 'fast' ? 15 : 10;
+
             // ═══════════════════════════════════════════════════════════════
-            // POST-PROCESSING: Clean Silent Visual Notes (...) from VoiceOver
+            // PRE-PROCESSING: Chapter Header Detection (CRITICAL FOR GROUPING)
             // ═══════════════════════════════════════════════════════════════
-            console.log('[ScriptAnalysis] 🧹 cleaning visual notes (...) from voice-over text...');
-            result.scenes = result.scenes.map((scene: any) => {
-                // Regex to remove content inside parentheses, handling nested or multiple per line
-                const cleanText = (text: string) => {
-                    if (!text) return '';
-                    // Replace (...) with empty string, trimming extra spaces
-                    return text.replace(/\([^)]+\)/g, '').replace(/\s+/g, ' ').trim();
-                };
-
-                const oldVO = scene.voiceOverText || '';
-                const newVO = cleanText(oldVO);
-
-                if (oldVO !== newVO) {
-                    console.log(`[Clean Output] Removed notes from VO: "${oldVO}" -> "${newVO}"`);
-                }
+            const chapterMarkers = detectChapterMarkers(scriptText);
+            console.log(`[Chapter Detection] Found ${chapterMarkers.length} chapter boundaries`);
 
-                // Also clean dialogue text if present
-                const oldDiag = scene.dialogueText || '';
-                const newDiag = cleanText(oldDiag);
+            // ═══════════════════════════════════════════════════════════════
+            // CHUNKING: long scripts are analyzed chapter by chapter, in parallel
+            // ═══════════════════════════════════════════════════════════════
+            const chunks = splitScriptIntoChunks(scriptText, chapterMarkers);
+            console.log(`[ScriptAnalysis] 📦 ${chunks.length} chunk(s):`, chunks.map(c => `line ${c.startLine} (${c.wordCount} words)`).join(', '));
+
+            const fingerprint = await computeAnalysisFingerprint(scriptText, readingSpeed, modelSelector, characterStyle, director, researchNotes, activeCharacters);
+            let progress: ScriptAnalysisProgress = resumeFrom?.fingerprint === fingerprint && resumeFrom.chunkResults.length === chunks.length
+                ? resumeFrom
+                : { fingerprint, chunkResults: chunks.map(() => null) };
+            const chunkResults = [...progress.chunkResults];
+            const resumedCount = chunkResults.filter(Boolean).length;
+            if (resumedCount > 0) {
+                console.log(`[ScriptAnalysis] ⏩ Resuming: ${resumedCount}/${chunks.length} chunks already analyzed`);
+            }
+            setAnalysisProgress(progress);
+
+            // Shared cast & locations so parallel chunks agree on names: summarize each chunk, then merge the summaries
+            if (chunks.length > 1 && !progress.sharedContext) {
+                setAnalysisStage('shared-context');
+                const summaries: SharedAnalysisContext[] = [];
+                await runWithConcurrency(chunks, CHUNK_CONCURRENCY, async chunk => {
+                    summaries[chunk.index] = await requestStructured({
+                        name: `Nhân vật & bối cảnh (phần ${chunk.index + 1}/${chunks.length})`,
+                        schema: sharedContextSchema,
+                        call: correction => callGroqText(userApiKey || '', buildChunkSummaryPrompt(chunk, chunks.length) + (correction || ''), 'You are a professional script analyst.', modelName, true)
+                    });
+                });
+                const sharedContext = await requestStructured({
+                    name: 'Nhân vật & bối cảnh chung',
+                    schema: sharedContextSchema,
+                    call: correction => callGroqText(userApiKey || '', buildSharedContextPrompt(summaries, contextInstructions) + (correction || ''), 'You are a professional script analyst.', modelName, true)
+                });
+                progress = { ...progress, sharedContext };
+                setAnalysisProgress(progress);
+            }
 
-                return {
-                    ...scene,
-                    voiceOverText: newVO,
-                    dialogueText: newDiag
-                };
+            if (chunks.length > 1) setAnalysisStage('chunks');
+            const chunkContext = contextInstructions + describeSharedContext(progress.sharedContext);
+            const failures: string[] = [];
+            await runWithConcurrency(chunks.filter(chunk => !chunkResults[chunk.index]), CHUNK_CONCURRENCY, async chunk => {
+                try {
+                    chunkResults[chunk.index] = await analyzeScriptChunk(chunk, {
+                        name: chunks.length > 1 ? `Phân tích kịch bản (phần ${chunk.index + 1}/${chunks.length})` : 'Phân tích kịch bản',
+                        userApiKey,
+                        modelName,
+                        wpm,
+                        wordsPerScene,
+                        contextInstructions: chunkContext,
+                        onStage: chunks.length === 1 ? setAnalysisStage : undefined
+                    });
+                    // Recorded after every chunk so an interrupted run resumes from here
+                    setAnalysisProgress({ ...progress, chunkResults: [...chunkResults] });
+                    console.log(`[ScriptAnalysis] ✅ Chunk ${chunk.index + 1}/${chunks.length}: ${chunkResults[chunk.index].scenes.length} scenes`);
+                } catch (error: any) {
+                    console.error(`[ScriptAnalysis] ❌ Chunk ${chunk.index + 1}/${chunks.length} failed:`, error);
+                    failures.push(error.message || 'Analysis failed');
+                }
             });
-
-            if (result.locations.length > 0) {
-                console.log(`[ScriptAnalysis] 📍 Detected ${result.locations.length} unique locations:`,
-                    result.locations.map(l => l.name).join(', '));
+            if (failures.length > 0) {
+                throw new Error(chunks.length === 1
+                    ? failures[0]
+                    : `${failures.length}/${chunks.length} script parts failed (${failures[0]}). Analyze again to resume from the unfinished parts.`);
             }
 
+            setAnalysisStage('post-processing');
+            const merged = mergeAnalysisResults(chunkResults, {
+                totalWords: wordCount,
+                estimatedDuration: estimatedTotalDuration,
+                globalContext: progress.sharedContext?.globalContext
+            });
+            const result: ScriptAnalysisResult = {
+                ...merged,
+                scenes: anchorScenesToParagraphs(merged.scenes, splitParagraphs(scriptText)),
+                sourceScript: scriptText
+            };
+
             setAnalysisStage('finalizing');
+            setAnalysisProgress(null);
             setAnalysisResult(result);
             console.log('[ScriptAnalysis] ✅ Analysis complete:', result);
             return result;
-
         } catch (error: any) {
             console.error('[ScriptAnalysis] ❌ Error:', error);
             setAnalysisError(error.message || 'Analysis failed');
@@ -890,6 +1398,141 @@ RESPOND WITH JSON ONLY:
         }
     }, [userApiKey]);
 
+    /**
+     * Re-analyze only the paragraphs that changed since `previous` was analyzed.
+     * Untouched scenes keep their ids, so mergeSceneMap keeps the Scenes imported from them.
+     */
+    const reanalyzeChanges = useCallback(async (
+        previous: ScriptAnalysisResult,
+        scriptText: string,
+        readingSpeed: 'slow' | 'medium' | 'fast' = 'medium',
+        modelSelector: string = 'llama-3.3-70b-versatile|none',
+        characterStyle?: CharacterStyleDefinition | null,
+        director?: DirectorPreset | null,
+        researchNotes?: { director?: string; dop?: string; story?: string } | null,
+        activeCharacters: { id: string; name: string; description?: string }[] = []
+    ): Promise<ScriptAnalysisResult | null> => {
+        // Analyses made before paragraph tracking can only be redone in full
+        if (!previous.sourceScript) {
+            return analyzeScript(scriptText, readingSpeed, modelSelector, characterStyle, director, researchNotes, activeCharacters);
+        }
+
+        const [modelName] = modelSelector.split('|');
+        const isImperialRequest = isImperialUltraEnabled() && (modelName.includes('gemini') || modelName.includes('imperial'));
+        if (!userApiKey && !isImperialRequest) {
+            setAnalysisError('API key required');
+            return null;
+        }
+
+        setIsAnalyzing(true);
+        setAnalysisStage('preparing');
+        setAnalysisError(null);
+
+        try {
+            const wpm = readingSpeed === 'slow' ? WPM_SLOW : readingSpeed === 'fast' ? WPM_FAST : WPM_MEDIUM;
+            const wordsPerScene = readingSpeed === 'slow' ? 8 : readingSpeed === 'fast' ? 15 : 10;
+            const wordCount = scriptText.split(/\s+/).length;
+
+            const oldParagraphs = splitParagraphs(previous.sourceScript);
+            const newParagraphs = splitParagraphs(scriptText);
+            const { changes, oldToNew } = diffParagraphs(oldParagraphs, newParagraphs);
+            const regions = findReanalysisRegions(previous.scenes, oldParagraphs.length, changes);
+            console.log(`[ScriptAnalysis] ✏️ ${changes.length} paragraph change(s) → re-analyzing ${regions.length} region(s):`,
+                regions.map(r => `¶${r.oldFrom}-${r.oldTo} → ¶${r.newFrom}-${r.newTo}`).join(', '));
+
+            // Edited parts reuse the cast & locations of the existing analysis
+            const contextInstructions = buildContextInstructions(characterStyle, director, researchNotes, activeCharacters) + describeSharedContext({
+                globalContext: previous.globalContext,
+                characters: previous.characters.map(c => ({ name: c.name, suggestedDescription: c.suggestedDescription, isMain: c.isMain })),
+                locations: previous.locations.map(l => ({ id: l.id, name: l.name, description: l.description, isInterior: l.isInterior }))
+            });
+
+            setAnalysisStage('reanalyzing');
+            const regionResults: (ScriptAnalysisResult | null)[] = regions.map(() => null);
+            const failures: string[] = [];
+            await runWithConcurrency(regions.map((region, index) => ({ region, index })), CHUNK_CONCURRENCY, async ({ region, index }) => {
+                const paragraphs = newParagraphs.slice(region.newFrom, region.newTo);
+                if (paragraphs.length === 0) return; // Deleted text: its scenes just go away
+                const text = paragraphs.join('\n');
+                const markers = detectChapterMarkers(text);
+                const precedingScene = previous.scenes.filter(s => (s.paragraphIndex ?? 0) < region.oldFrom).pop();
+                try {
+                    const result = await analyzeScriptChunk({
+                        index,
+                        startLine: region.newFrom + 1,
+                        text,
+                        wordCount: countWords(text),
+                        markers,
+                        leadingChapterId: markers[0]?.lineNumber === 1 ? undefined : (precedingScene?.chapterId || previous.chapters[0]?.id)
+                    }, {
+                        name: `Phân tích lại đoạn đã sửa (${index + 1}/${regions.length})`,
+                        userApiKey,
+                        modelName,
+                        wpm,
+                        wordsPerScene,
+                        contextInstructions
+                    });
+                    regionResults[index] = { ...result, scenes: anchorScenesToParagraphs(result.scenes, paragraphs, region.newFrom) };
+                } catch (error: any) {
+                    console.error(`[ScriptAnalysis] ❌ Re-analysis of region ${index + 1}/${regions.length} failed:`, error);
+                    failures.push(error.message || 'Analysis failed');
+                }
+            });
+            if (failures.length > 0) {
+                throw new Error(`${failures.length}/${regions.length} edited parts failed to re-analyze (${failures[0]})`);
+            }
+
+            setAnalysisStage('post-processing');
+            // Untouched scenes keep everything but their paragraph number; changed ranges are swapped out
+            const keep = (scene: SceneAnalysis): SceneAnalysis => {
+                const paragraphIndex = oldToNew[scene.paragraphIndex ?? 0];
+                return paragraphIndex >= 0 ? { ...scene, paragraphIndex } : scene;
+            };
+            const scenes: SceneAnalysis[] = [];
+            const replacedSceneIds: string[] = [];
+            let next = 0;
+            regions.forEach((region, index) => {
+                for (; next < previous.scenes.length && (previous.scenes[next].paragraphIndex ?? 0) < region.oldFrom; next++) {
+                    scenes.push(keep(previous.scenes[next]));
+                }
+                for (; next < previous.scenes.length && (previous.scenes[next].paragraphIndex ?? 0) < region.oldTo; next++) {
+                    replacedSceneIds.push(previous.scenes[next].id);
+                }
+                scenes.push(...(regionResults[index]?.scenes || []));
+            });
+            scenes.push(...previous.scenes.slice(next).map(keep));
+
+            const addedSceneIds = regionResults.flatMap(r => r?.scenes.map(s => s.id) || []);
+            const merged = mergeAnalysisResults([{ ...previous, scenes: [] }, ...regionResults.filter(Boolean)], {
+                totalWords: wordCount,
+                estimatedDuration: Math.ceil((wordCount / wpm) * 60),
+                globalContext: previous.globalContext
+            });
+            const result: ScriptAnalysisResult = {
+                ...merged,
+                chapters: merged.chapters.filter(ch => scenes.some(s => s.chapterId === ch.id)),
+                scenes,
+                suggestedSceneCount: scenes.length,
+                sourceScript: scriptText,
+                replacedSceneIds: [...(previous.replacedSceneIds || []), ...replacedSceneIds],
+                addedSceneIds: [...(previous.addedSceneIds || []).filter(id => !replacedSceneIds.includes(id)), ...addedSceneIds]
+            };
+
+            setAnalysisStage('finalizing');
+            setAnalysisResult(result);
+            console.log(`[ScriptAnalysis] ✅ Re-analysis complete: ${replacedSceneIds.length} scenes replaced by ${addedSceneIds.length}, ${scenes.length - addedSceneIds.length} kept`);
+            return result;
+
+        } catch (error: any) {
+            console.error('[ScriptAnalysis] ❌ Re-analysis error:', error);
+            setAnalysisError(error.message || 'Analysis failed');
+            return null;
+        } finally {
+            setIsAnalyzing(false);
+            setAnalysisStage('idle');
+        }
+    }, [userApiKey, analyzeScript]);
+
     /**
      * Generate Scene Map from analysis result
      */
@@ -1038,14 +1681,15 @@ RESPOND WITH JSON ONLY:
                 id: `scene_${sceneNumber}`,
                 sceneNumber: String(sceneNumber),
                 groupId: sceneAnalysis.chapterId,
+                scriptSourceId: sceneAnalysis.id,
 
                 // Dialogue - if AI detected dialogue, format it with speaker
-                language1: sceneAnalysis.dialogueText
+                scriptText: sceneAnalysis.dialogueText
                     ? (sceneAnalysis.dialogueSpeaker
                         ? `${sceneAnalysis.dialogueSpeaker}: ${sceneAnalysis.dialogueText}`
                         : sceneAnalysis.dialogueText)
                     : '',
-                vietnamese: '', // Secondary language empty by default
+                scriptTranslation: '', // Secondary language empty by default
 
                 promptName: `Scene ${sceneNumber}`,
 
@@ -1124,14 +1768,15 @@ RESPOND WITH JSON ONLY:
                         id: `scene_${sceneNumber}`,
                         sceneNumber: String(sceneNumber),
                         groupId: sceneAnalysis.chapterId,
-                        language1: '',
-                        vietnamese: '',
+                        scriptText: '',
+                        scriptTranslation: '',
                         promptName: `B-Roll ${sceneNumber}`,
 
                         // B-roll has no VO
                         voiceOverText: undefined,
                         isVOScene: false,
                         referenceSceneId: mainScene.id, // Reference the VO scene
+                        scriptSourceId: sceneAnalysis.id,
 
                         // PHASE 3: B-roll inherits locationAnchor from parent scene
                         contextDescription: [
@@ -1174,13 +1819,84 @@ RESPOND WITH JSON ONLY:
         return { scenes, groups, newCharacters, sceneCharacterMap };
     }, []);
 
+    /**
+     * Merge a re-analysis into the project's existing scenes.
+     * Scenes of untouched analysis scenes are kept as they are (images, videos, overrides),
+     * scenes of replaced ones are dropped, and only the re-analyzed scenes are generated.
+     * Scenes that didn't come from this script stay after the scene they followed.
+     * sceneCharacterMap only covers the generated scenes.
+     */
+    const mergeSceneMap = useCallback((
+        analysis: ScriptAnalysisResult,
+        existingScenes: Scene[],
+        director: DirectorPreset | null,
+        characterStyle: CharacterStyleDefinition | null,
+        existingCharacters: Character[] = []
+    ): { scenes: Scene[]; groups: SceneGroup[]; newCharacters: { name: string; description: string }[]; sceneCharacterMap: Record<number, string[]>; keptCount: number } => {
+        const generated = generateSceneMap(analysis, director, characterStyle, existingCharacters);
+        const analysisIds = new Set(analysis.scenes.map(s => s.id));
+        const replaced = new Set(analysis.replacedSceneIds || []);
+        const added = new Set(analysis.addedSceneIds || []);
+
+        // Existing scenes, grouped under the analysis scene they belong to (or follow)
+        const leading: Scene[] = [];
+        const keptBySource = new Map<string, Scene[]>();
+        let anchor: string | null = null;
+        for (const scene of existingScenes) {
+            if (scene.scriptSourceId && replaced.has(scene.scriptSourceId)) continue;
+            if (scene.scriptSourceId && analysisIds.has(scene.scriptSourceId)) anchor = scene.scriptSourceId;
+            if (anchor) {
+                keptBySource.set(anchor, [...(keptBySource.get(anchor) || []), scene]);
+            } else {
+                leading.push(scene);
+            }
+        }
+
+        const scenes: Scene[] = [...leading];
+        const sceneCharacterMap: Record<number, string[]> = {};
+        const newIds = new Map<string, string>(); // Generated id -> project-unique id
+        const emitted = new Set<string>();
+        generated.scenes.forEach((scene, index) => {
+            const sourceId = scene.scriptSourceId;
+            const kept = keptBySource.get(sourceId);
+            if (kept) {
+                if (!emitted.has(sourceId)) scenes.push(...kept);
+                emitted.add(sourceId);
+                return;
+            }
+            // Not in the project and not re-analyzed: the user deleted it, leave it out
+            if (!added.has(sourceId)) return;
+
+            const id = generateId();
+            newIds.set(scene.id, id);
+            sceneCharacterMap[scenes.length] = generated.sceneCharacterMap[index];
+            scenes.push({
+                ...scene,
+                id,
+                referenceSceneId: scene.referenceSceneId ? newIds.get(scene.referenceSceneId) : undefined
+            });
+        });
+
+        const keptCount = scenes.length - Object.keys(sceneCharacterMap).length;
+        return {
+            scenes: scenes.map((scene, i) => ({ ...scene, sceneNumber: `${i + 1}` })),
+            groups: generated.groups,
+            newCharacters: generated.newCharacters,
+            sceneCharacterMap,
+            keptCount
+        };
+    }, [generateSceneMap]);
+
     return {
         isAnalyzing,
         analysisStage,
         analysisResult,
         analysisError,
+        analysisProgress,
         analyzeScript,
+        reanalyzeChanges,
         generateSceneMap,
+        mergeSceneMap,
         setAnalysisResult
     };
 }
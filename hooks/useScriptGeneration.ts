@@ -5,6 +5,51 @@ import { buildScriptPrompt, buildGroupRegenerationPrompt } from '../utils/prompt
 import { generateId } from '../utils/helpers';
 
 import { callGeminiText } from '../utils/geminiUtils';
+import { schema, requestStructured } from '../utils/structuredOutput';
+
+// ═══════════════════════════════════════════════════════════════
+// Response schemas
+// ═══════════════════════════════════════════════════════════════
+
+const generatedSceneSchema = schema.object({
+    scene_number: schema.string(''),
+    group_id: schema.optional(schema.string()),
+    prompt_name: schema.string(''),
+    visual_context: schema.string(),
+    character_ids: schema.array(schema.string(), { default: [] }),
+    product_ids: schema.array(schema.string(), { default: [] }),
+    dialogues: schema.optional(schema.array(schema.object({
+        characterName: schema.string(''),
+        line: schema.string()
+    }), { dropInvalid: true })),
+    voiceover: schema.optional(schema.string()),
+    camera_angle: schema.optional(schema.string())
+});
+
+const scriptResponseSchema = schema.object({
+    global_story_context: schema.string(''),
+    detailed_story: schema.string(''),
+    scene_groups: schema.array(schema.object({
+        id: schema.string(),
+        name: schema.string(''),
+        description: schema.string(''),
+        continuity_reference_group_id: schema.optional(schema.string()),
+        bars: schema.optional(schema.number({ min: 1 }))
+    }), { default: [] }),
+    scenes: schema.array(generatedSceneSchema, { minItems: 1 })
+});
+
+const regeneratedGroupSchema = schema.object({
+    scenes: schema.array(generatedSceneSchema, { minItems: 1 })
+});
+
+// Corrected visual_context per scene; objects with a visual_context field are tolerated
+const styleAuditSchema = schema.array(schema.any<string | { visual_context?: string }>());
+
+const assetMappingSchema = schema.record(schema.object({
+    character_ids: schema.array(schema.string(), { default: [] }),
+    product_ids: schema.array(schema.string(), { default: [] })
+}));
 
 
 export function useScriptGeneration(
@@ -92,7 +137,7 @@ OPTIMIZED VISUAL PLAN (STRICTLY FOLLOW THIS STRUCTURE):
 ${visualPlan}
             `;
 
-            const prompt = buildScriptPrompt(optimizedIdea, activePreset, activeCharacters, activeProducts, count, effectiveLanguage, state.customScriptInstruction, director);
+            const prompt = buildScriptPrompt(optimizedIdea, activePreset, activeCharacters, activeProducts, count, effectiveLanguage, state.customScriptInstruction, director, state.musicTrack);
 
             // Build the scene schema description for JSON mode
             const sceneSchemaDescription = `
@@ -105,7 +150,8 @@ You must respond with a valid JSON object containing these fields:
       "id": "string - unique group ID",
       "name": "string - group name",
       "description": "string - group description",
-      "continuity_reference_group_id": "string (optional) - reference to another group for continuity"
+      "continuity_reference_group_id": "string (optional) - reference to another group for continuity"${state.musicTrack ? `,
+      "bars": "number - bars of the music track this group covers"` : ''}
     }
   ],
   "scenes": [
@@ -130,23 +176,17 @@ ${sceneSchemaDescription}
 
 Generate the script now. Respond ONLY with valid JSON.`;
 
-            const rawText = await callGeminiText(fullPrompt, 'You are an expert film director and screenwriter.', true, state.scriptModel);
-
-            // Parse JSON - handle potential markdown wrapping
-            let jsonResponse;
-            try {
-                const cleanedText = rawText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-                jsonResponse = JSON.parse(cleanedText);
-            } catch (e) {
-                console.error('Failed to parse script JSON:', rawText);
-                throw new Error('Failed to parse script response as JSON');
-            }
+            const jsonResponse = await requestStructured({
+                name: 'Tạo kịch bản',
+                schema: scriptResponseSchema,
+                call: correction => callGeminiText(fullPrompt + (correction || ''), 'You are an expert film director and screenwriter.', true, state.scriptModel)
+            });
 
             const finalScript = {
                 globalStoryContext: jsonResponse.global_story_context || '',
                 detailedStory: jsonResponse.detailed_story || '',
-                groups: jsonResponse.scene_groups || [],
-                scenes: jsonResponse.scenes || []
+                groups: jsonResponse.scene_groups,
+                scenes: jsonResponse.scenes
             };
 
             // --- Pre-Production Style Audit (The "Gatekeeper") ---
@@ -167,26 +207,25 @@ Generate the script now. Respond ONLY with valid JSON.`;
             Respond with ONLY the JSON array, no explanation.`;
 
             try {
-                const auditedTextsRaw = await callGeminiText(auditPrompt, 'System: Expert Film Director.', true, state.scriptModel);
-
-                let auditedTexts;
-                try {
-                    const cleanedAudit = auditedTextsRaw.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-                    auditedTexts = JSON.parse(cleanedAudit);
-                } catch (e) {
-                    console.error('Failed to parse audit response:', auditedTextsRaw);
-                    auditedTexts = null;
-                }
-
-                if (Array.isArray(auditedTexts) && auditedTexts.length === finalScript.scenes.length) {
+                // Optional step: on failure the original scenes are kept
+                const auditedTexts = await requestStructured({
+                    name: 'Style Audit',
+                    schema: schema.refine(styleAuditSchema, list =>
+                        list.length === finalScript.scenes.length ? null : `expected ${finalScript.scenes.length} items, got ${list.length}`),
+                    call: correction => callGeminiText(auditPrompt + (correction || ''), 'System: Expert Film Director.', true, state.scriptModel),
+                    fallback: null
+                });
+
+                if (auditedTexts) {
                     finalScript.scenes = finalScript.scenes.map((s: any, idx: number) => {
                         let newVisual = s.visual_context;
                         // Safety check: Ensure we have a valid string update
-                        if (auditedTexts[idx]) {
-                            if (typeof auditedTexts[idx] === 'string') {
-                                newVisual = auditedTexts[idx];
-                            } else if (typeof auditedTexts[idx] === 'object' && auditedTexts[idx].visual_context) {
-                                newVisual = auditedTexts[idx].visual_context;
+                        const audited = auditedTexts[idx];
+                        if (audited) {
+                            if (typeof audited === 'string') {
+                                newVisual = audited;
+                            } else if (typeof audited === 'object' && audited.visual_context) {
+                                newVisual = audited.visual_context;
                             }
                         }
                         return { ...s, visual_context: newVisual };
@@ -260,7 +299,8 @@ Generate the script now. Respond ONLY with valid JSON.`;
                 effectiveLanguage,
                 state.customScriptInstruction,
                 groupToRegen.pacing,
-                sceneCount
+                sceneCount,
+                state.musicTrack
             );
 
             const fullPrompt = `${prompt}
@@ -269,19 +309,14 @@ Respond with a JSON object containing a "scenes" array with the regenerated scen
 Each scene should have: scene_number, group_id, prompt_name, visual_context, character_ids, product_ids.
 Respond ONLY with valid JSON.`;
 
-            const rawText = await callGeminiText(fullPrompt, 'You are an expert film director.', true, state.scriptModel);
-
-            let jsonResponse;
-            try {
-                const cleanedText = rawText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-                jsonResponse = JSON.parse(cleanedText);
-            } catch (e) {
-                console.error('Failed to parse regeneration JSON:', rawText);
-                throw new Error('Failed to parse regeneration response');
-            }
+            const jsonResponse = await requestStructured({
+                name: 'Tái tạo nhóm phân cảnh',
+                schema: regeneratedGroupSchema,
+                call: correction => callGeminiText(fullPrompt + (correction || ''), 'You are an expert film director.', true, state.scriptModel)
+            });
 
             setAgentState('dop', 'success', 'Cấu trúc nhóm phân cảnh đã được cập nhật.');
-            return jsonResponse.scenes || [];
+            return jsonResponse.scenes;
 
         } catch (error) {
             console.error("Group regeneration failed:", error);
@@ -326,18 +361,12 @@ Respond ONLY with valid JSON.`;
             }
             `;
 
-            const rawText = await callGeminiText(mappingPrompt, 'You are an expert script supervisor.', true, state.scriptModel);
-
-            let result;
-            try {
-                const cleanedText = rawText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-                result = JSON.parse(cleanedText);
-            } catch (e) {
-                console.error('Failed to parse mapping JSON:', rawText);
-                return null;
-            }
-
-            return result;
+            return await requestStructured({
+                name: 'Gán nhân vật / sản phẩm',
+                schema: assetMappingSchema,
+                call: correction => callGeminiText(mappingPrompt + (correction || ''), 'You are an expert script supervisor.', true, state.scriptModel),
+                fallback: null
+            });
         } catch (error) {
             console.error("Smart mapping failed:", error);
             return null;
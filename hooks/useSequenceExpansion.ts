@@ -1,7 +1,17 @@
 import { useState, useCallback } from 'react';
 import { callGeminiText } from '../utils/geminiUtils';
+import { schema, requestStructured } from '../utils/structuredOutput';
 import { Scene, Character, SceneGroup } from '../types';
 
+const expansionSchema = schema.object({
+    expanded_scenes: schema.array(schema.object({
+        visual_prompt: schema.string(),
+        vo_segment: schema.string(''),
+        camera_angle: schema.string(''),
+        shot_type: schema.string('')
+    }), { minItems: 1, dropInvalid: true })
+});
+
 interface ExpansionResult {
     scenes: Partial<Scene>[];
 }
@@ -44,7 +54,7 @@ You are an expert Film Editor and Cinematographer.
 Your task is to SPLIT a single Voice-Over (VO) segment into a SEQUENCE of 3-5 visual shots that effectively tell the story.
 
 INPUT SCENE VO:
-"${scene.voiceOverText || scene.vietnamese || ''}"
+"${scene.voiceOverText || scene.scriptText || ''}"
 
 CURRENT VISUAL CONTEXT:
 "${scene.contextDescription || scene.promptName || 'No visual description'}"
@@ -73,22 +83,16 @@ RESPONSE FORMAT:
 `;
 
             // Use callGeminiText with fallback (prioritize gemini-1.5-flash)
-            const responseText = await callGeminiText(prompt, 'You are an expert Film Editor.', true, 'gemini-1.5-flash');
-
-            // Parse JSON
-            const jsonMatch = responseText.match(/\{[\s\S]*\}/);
-            if (!jsonMatch) throw new Error("No JSON found in response");
-
-            const parsed = JSON.parse(jsonMatch[0]);
-
-            if (!parsed.expanded_scenes || !Array.isArray(parsed.expanded_scenes)) {
-                throw new Error("Invalid JSON structure");
-            }
+            const parsed = await requestStructured({
+                name: 'Tách cảnh',
+                schema: expansionSchema,
+                call: correction => callGeminiText(prompt + (correction || ''), 'You are an expert Film Editor.', true, 'gemini-1.5-flash')
+            });
 
             // Map to Partial<Scene>
-            const newScenes: Partial<Scene>[] = parsed.expanded_scenes.map((s: any) => ({
+            const newScenes: Partial<Scene>[] = parsed.expanded_scenes.map(s => ({
                 voiceOverText: s.vo_segment,
-                vietnamese: s.vo_segment, // Sync for now
+                scriptText: s.vo_segment, // Sync for now
                 contextDescription: s.visual_prompt,
                 promptName: `${s.shot_type}: ${s.camera_angle}`,
                 customCameraAngle: s.camera_angle,
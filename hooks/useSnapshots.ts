@@ -0,0 +1,84 @@
+import { useState, useCallback, useMemo } from 'react';
+import { ProjectState } from '../types';
+import {
+    saveSnapshot,
+    listSnapshots,
+    loadSnapshot,
+    deleteSnapshot,
+    getProjectKey,
+    getLegacyProjectKey,
+    SnapshotInfo
+} from '../utils/stateManager';
+import { diffProjects, restoreScenes, restoreGroup } from '../utils/projectDiff';
+
+export const useSnapshots = (
+    state: ProjectState,
+    updateStateAndRecord: (fn: (s: ProjectState) => ProjectState) => void
+) => {
+    const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+    const [isLoadingSnapshots, setIsLoadingSnapshots] = useState(false);
+    const [comparedSnapshot, setComparedSnapshot] = useState<{ info: SnapshotInfo; state: ProjectState } | null>(null);
+
+    const projectKey = getProjectKey(state);
+    const legacyKey = getLegacyProjectKey(state.projectName);
+
+    const refreshSnapshots = useCallback(async () => {
+        setIsLoadingSnapshots(true);
+        // Also show snapshots taken before the project had an id
+        const lists = await Promise.all([...new Set([projectKey, legacyKey])].map(key => listSnapshots(key)));
+        setSnapshots(lists.flat().sort((a, b) => b.timestamp - a.timestamp));
+        setIsLoadingSnapshots(false);
+    }, [projectKey, legacyKey]);
+
+    const createSnapshot = useCallback(async (name: string) => {
+        const info = await saveSnapshot(state, name);
+        if (info) setSnapshots(prev => [info, ...prev]);
+        return info;
+    }, [state]);
+
+    const removeSnapshot = useCallback(async (id: string) => {
+        await deleteSnapshot(id);
+        setSnapshots(prev => prev.filter(s => s.id !== id));
+        setComparedSnapshot(prev => (prev?.info.id === id ? null : prev));
+    }, []);
+
+    const openComparison = useCallback(async (id: string) => {
+        const info = snapshots.find(s => s.id === id);
+        const snapshotState = await loadSnapshot(id);
+        if (!info || !snapshotState) return false;
+        setComparedSnapshot({ info, state: snapshotState });
+        return true;
+    }, [snapshots]);
+
+    const closeComparison = useCallback(() => setComparedSnapshot(null), []);
+
+    // Snapshot is "before", current project is "after"
+    const diff = useMemo(
+        () => (comparedSnapshot ? diffProjects(comparedSnapshot.state, state) : null),
+        [comparedSnapshot, state]
+    );
+
+    const restoreScenesFromSnapshot = useCallback((sceneIds: string[]) => {
+        if (!comparedSnapshot) return;
+        updateStateAndRecord(s => restoreScenes(s, comparedSnapshot.state, sceneIds));
+    }, [comparedSnapshot, updateStateAndRecord]);
+
+    const restoreGroupFromSnapshot = useCallback((groupId: string) => {
+        if (!comparedSnapshot) return;
+        updateStateAndRecord(s => restoreGroup(s, comparedSnapshot.state, groupId));
+    }, [comparedSnapshot, updateStateAndRecord]);
+
+    return {
+        snapshots,
+        isLoadingSnapshots,
+        refreshSnapshots,
+        createSnapshot,
+        removeSnapshot,
+        comparedSnapshot: comparedSnapshot?.info || null,
+        openComparison,
+        closeComparison,
+        diff,
+        restoreScenesFromSnapshot,
+        restoreGroupFromSnapshot
+    };
+};
@@ -1,132 +1,45 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { ProjectState, Character, Product, Scene } from '../types';
+import { ProjectState } from '../types';
 import { saveProject, openProject } from '../utils/fileUtils';
+import { MigrationReport, formatMigrationReport } from '../utils/projectMigrations';
 import { INITIAL_STATE } from '../constants/presets';
-import { slugify } from '../utils/helpers';
-import { saveState, loadState, clearState, PersistedState } from '../utils/stateManager';
-
-// Debounce helper
-let saveTimeout: NodeJS.Timeout | null = null;
-const debouncedPersist = (state: ProjectState, delayMs: number = 3000) => {
-    if (saveTimeout) clearTimeout(saveTimeout);
-    saveTimeout = setTimeout(() => {
-        // Convert to persistable format (strip base64 images to save space)
-        const persistable: Partial<PersistedState> = {
-            characters: state.characters.map(c => ({
-                id: c.id,
-                name: c.name,
-                description: c.description || '',
-                masterImageUrl: c.masterImage?.startsWith('http') ? c.masterImage : undefined,
-                faceIdUrl: c.faceImage?.startsWith('http') ? c.faceImage : undefined,
-            })),
-            products: state.products.map(p => ({
-                id: p.id,
-                name: p.name,
-                description: p.description || '',
-                imageUrl: p.masterImage?.startsWith('http') ? p.masterImage : undefined,
-            })),
-            scenes: state.scenes.map(s => ({
-                id: s.id,
-                visualPrompt: s.contextDescription || '',
-                audioPrompt: s.voiceover || '',
-                duration: 5,
-                characterId: s.characterIds?.[0],
-                productId: s.productIds?.[0],
-                cameraAngle: s.cameraAngle,
-                transition: s.transitionType,
-            })),
-            settings: {
-                stylePrompt: state.stylePrompt,
-                customStyleInstruction: state.customStyleInstruction,
-                imageModel: state.imageModel,
-                aspectRatio: state.aspectRatio,
-                resolution: state.resolution,
-                scriptLanguage: state.scriptLanguage,
-            },
-            project: {
-                name: state.projectName,
-            },
-        };
-        saveState(persistable);
-    }, delayMs);
-};
-
-export function useStateManager() {
-    // Try to restore persisted state on first load
-    const getInitialState = (): ProjectState => {
-        const persisted = loadState();
-        if (!persisted) return INITIAL_STATE;
-
-        console.log('[StateManager] Restoring persisted state...');
-
-        // Merge persisted data into initial state - only restore basic info
-        const restoredCharacters: Character[] = persisted.characters?.map(c => ({
-            ...INITIAL_STATE.characters[0], // Use default character as template
-            id: c.id,
-            name: c.name,
-            description: c.description,
-            masterImage: c.masterImageUrl || null,
-            faceImage: c.faceIdUrl || null,
-        })) || INITIAL_STATE.characters;
-
-        const restoredProducts: Product[] = persisted.products?.map(p => ({
-            id: p.id,
-            name: p.name,
-            description: p.description,
-            masterImage: p.imageUrl || null,
-            views: { front: null, back: null, left: null, right: null, top: null },
-            isAnalyzing: false,
-        })) || INITIAL_STATE.products;
-
-        const restoredScenes: Scene[] = persisted.scenes?.map(s => ({
-            ...INITIAL_STATE.scenes[0], // Use default scene template
-            id: s.id,
-            sceneNumber: '',
-            language1: '',
-            vietnamese: '',
-            promptName: '',
-            contextDescription: s.visualPrompt,
-            voiceover: s.audioPrompt,
-            characterIds: s.characterId ? [s.characterId] : [],
-            productIds: s.productId ? [s.productId] : [],
-            cameraAngle: s.cameraAngle,
-            transitionType: s.transition,
-            generatedImage: null,
-            veoPrompt: '',
-            isGenerating: false,
-            error: null,
-        })) || INITIAL_STATE.scenes;
-
-        return {
-            ...INITIAL_STATE,
-            projectName: persisted.project?.name || '',
-            characters: restoredCharacters,
-            products: restoredProducts,
-            scenes: restoredScenes,
-            stylePrompt: persisted.settings?.stylePrompt || INITIAL_STATE.stylePrompt,
-            customStyleInstruction: persisted.settings?.customStyleInstruction || '',
-            imageModel: persisted.settings?.imageModel || INITIAL_STATE.imageModel,
-            aspectRatio: persisted.settings?.aspectRatio || INITIAL_STATE.aspectRatio,
-            resolution: persisted.settings?.resolution || INITIAL_STATE.resolution,
-            scriptLanguage: persisted.settings?.scriptLanguage || INITIAL_STATE.scriptLanguage,
-        };
-    };
+import { slugify, generateId } from '../utils/helpers';
+import { storeMusicAudio } from '../utils/beatSync';
+import { debouncedSave, loadState, loadRecoveryPoint, clearState, deleteRecoveryPoints } from '../utils/stateManager';
 
-    const [state, setState] = useState<ProjectState>(getInitialState);
+// onProjectReplaced: called after the whole project is swapped for another one (open file, new project, recovery point)
+export function useStateManager(onProjectReplaced?: () => void) {
+    const [state, setState] = useState<ProjectState>(INITIAL_STATE);
     const stateRef = useRef<ProjectState>(state);
+    const onProjectReplacedRef = useRef(onProjectReplaced);
+    onProjectReplacedRef.current = onProjectReplaced;
     const [history, setHistory] = useState<{ past: ProjectState[], future: ProjectState[] }>({ past: [], future: [] });
-    const isInitialMount = useRef(true);
+    const isRestoring = useRef(true);
 
     useEffect(() => {
         stateRef.current = state;
     }, [state]);
 
-    // Auto-save when state changes (after initial mount)
+    // Restore the last autosaved project from IndexedDB on first load
     useEffect(() => {
-        if (isInitialMount.current) {
-            isInitialMount.current = false;
-            return;
-        }
+        loadState()
+            .then(restored => {
+                // Only apply if the user hasn't started a storyboard in the meantime
+                const current = stateRef.current;
+                if (restored && current.scenes.length === 0 && !current.projectName.trim()) {
+                    console.log('[StateManager] Restoring autosaved project...');
+                    stateRef.current = restored;
+                    setState(restored);
+                }
+            })
+            .finally(() => {
+                isRestoring.current = false;
+            });
+    }, []);
+
+    // Auto-save when state changes (after restore finished)
+    useEffect(() => {
+        if (isRestoring.current) return;
 
         // Only save if there's meaningful content
         const hasContent = state.scenes.length > 0 ||
@@ -135,7 +48,7 @@ export function useStateManager() {
             state.projectName.trim();
 
         if (hasContent) {
-            debouncedPersist(state);
+            debouncedSave(state);
         }
     }, [state]);
 
@@ -157,6 +70,32 @@ export function useStateManager() {
         });
     }, []);
 
+    // Update without an undo step (changes that didn't come from this user, e.g. a teammate's edit)
+    const updateState = useCallback((updater: (prevState: ProjectState) => ProjectState) => {
+        setState(current => {
+            const newState = updater(current);
+            stateRef.current = newState;
+            return newState;
+        });
+    }, []);
+
+    // New projects and saves from before stable ids get an id to key their recovery points and snapshots
+    useEffect(() => {
+        if (state.projectId) return;
+        updateState(current => (current.projectId ? current : { ...current, projectId: generateId() }));
+    }, [state.projectId, updateState]);
+
+    // Songs arrive inline from project files and older saves: move them into the asset store
+    useEffect(() => {
+        const track = state.musicTrack;
+        if (!track?.url.startsWith('data:')) return;
+        storeMusicAudio(track)
+            .then(stored => updateState(current =>
+                current.musicTrack?.url === track.url ? { ...current, musicTrack: stored } : current
+            ))
+            .catch(err => console.error('[StateManager] Storing music failed:', err));
+    }, [state.musicTrack, updateState]);
+
     const undo = useCallback(() => {
         setHistory(h => {
             if (h.past.length === 0) return h;
@@ -186,8 +125,14 @@ export function useStateManager() {
 
     const handleOpen = useCallback(() => {
         if (typeof openProject !== 'undefined') {
-            openProject((loadedState: ProjectState) => {
+            openProject((loadedState: ProjectState, report: MigrationReport) => {
                 updateStateAndRecord(() => loadedState);
+                onProjectReplacedRef.current?.();
+                const summary = formatMigrationReport(report);
+                if (summary) {
+                    console.log('[Open] ' + summary);
+                    alert(summary);
+                }
             });
         }
     }, [updateStateAndRecord]);
@@ -197,7 +142,7 @@ export function useStateManager() {
         if (hasContent) {
             if (!window.confirm('Bạn có chắc muốn tạo project mới? Mọi thay đổi chưa lưu sẽ bị mất!')) return;
         }
-        // Clear persisted state when creating new project
+        // Stop auto-restoring the old project (its recovery points are kept)
         clearState();
         updateStateAndRecord(() => ({
             ...INITIAL_STATE,
@@ -205,11 +150,22 @@ export function useStateManager() {
             imageModel: state.imageModel,
             assetGallery: []
         }));
+        onProjectReplacedRef.current?.();
     }, [state.scenes.length, state.characters.length, state.projectName, state.apiKey, state.imageModel, updateStateAndRecord]);
 
-    // Manual clear persisted state
-    const clearPersistedState = useCallback(() => {
+    // Restore a recovery point (undoable)
+    const restoreRecoveryPoint = useCallback(async (pointId: string) => {
+        const restored = await loadRecoveryPoint(pointId);
+        if (!restored) return false;
+        updateStateAndRecord(() => restored);
+        onProjectReplacedRef.current?.();
+        return true;
+    }, [updateStateAndRecord]);
+
+    // Manual clear persisted state (including all recovery points)
+    const clearPersistedState = useCallback(async () => {
         clearState();
+        await deleteRecoveryPoints();
         console.log('[StateManager] Persisted state cleared');
     }, []);
 
@@ -219,11 +175,13 @@ export function useStateManager() {
         stateRef,
         history,
         updateStateAndRecord,
+        updateState,
         undo,
         redo,
         handleSave,
         handleOpen,
         handleNewProject,
+        restoreRecoveryPoint,
         clearPersistedState
     };
 }
@@ -1,10 +1,34 @@
-import { useState, useCallback, useRef } from 'react';
-import { ProjectState, AgentStatus } from '../types';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { ProjectState, AgentStatus, VideoTake } from '../types';
 
 import { CAMERA_ANGLES, LENS_OPTIONS, VEO_PRESETS, VEO_CAMERA_MOTIONS } from '../constants/presets';
 import { DIRECTOR_PRESETS, DirectorPreset } from '../constants/directors';
 import { Scene } from '../types';
 import { fixMimeType, callGeminiText, callSmartVision } from '../utils/geminiUtils';
+import {
+    VideoJob, VideoJobQueue, VIDEO_POLL_INTERVAL_MS,
+    loadVideoJobs, saveVideoJobs, enqueueVideoJobs, updateVideoJob, failVideoJob, getStartableVideoJobs,
+    cancelQueuedVideoJobs, retryFailedVideoJobs, clearFinishedVideoJobs, pruneVideoJobs, isPendingVideoJob,
+    addVideoTake
+} from '../utils/videoJobs';
+import { getChainPredecessor, resolveChainStartFrame } from '../utils/frameChain';
+import {
+    VideoModelOption, VideoProviderId, VideoPollResult, VideoCredentials, VideoProviderError,
+    getVideoProvider, getVideoModel, resolveVideoDuration, loadVideoModels
+} from '../utils/videoProviders';
+import { VIDEO_MODELS } from '../utils/appConstants';
+import { schema, requestStructured } from '../utils/structuredOutput';
+
+const VIDEO_JOB_TIMEOUT_MS = 15 * 60 * 1000; // Labs operations normally finish in 1-3 minutes
+
+// Scene id -> suggested VEO_PRESETS value
+const presetMappingSchema = schema.record(schema.enum(VEO_PRESETS.map(p => p.value)));
+
+const getVideoCredentials = (state: ProjectState): VideoCredentials => ({
+    labsToken: state.genyuToken,
+    gommoDomain: state.gommoDomain,
+    gommoAccessToken: state.gommoAccessToken
+});
 
 export function useVideoGeneration(
     state: ProjectState,
@@ -17,11 +41,243 @@ export function useVideoGeneration(
 
     const [isVeoGenerating, setIsVeoGenerating] = useState(false);
     const [isVeoStopping, setIsVeoStopping] = useState(false);
-    const [isVideoGenerating, setIsVideoGenerating] = useState(false);
     const stopVeoRef = useRef(false);
 
+    // Video job tracker (persistent; active provider operations resume polling after a reload)
+    const [videoJobs, setVideoJobs] = useState<VideoJobQueue>(() => loadVideoJobs());
+    const videoJobsRef = useRef<VideoJobQueue>(videoJobs);
+    const stateRef = useRef(state);
+    stateRef.current = state;
+    const isTickingRef = useRef(false);
+    const lastVideoStartRef = useRef(0);
+
+    // Built-in models + the Gommo video catalogue once credentials are set
+    const [videoModels, setVideoModels] = useState<VideoModelOption[]>(VIDEO_MODELS);
+    const videoModelsRef = useRef(videoModels);
+    videoModelsRef.current = videoModels;
+    const videoModelsLoadedRef = useRef(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadVideoModels({ gommoDomain: state.gommoDomain, gommoAccessToken: state.gommoAccessToken }).then(models => {
+            if (cancelled) return;
+            videoModelsRef.current = models;
+            videoModelsLoadedRef.current = true;
+            setVideoModels(models);
+        });
+        return () => { cancelled = true; };
+    }, [state.gommoDomain, state.gommoAccessToken]);
+
+    const getSceneVideoModel = useCallback((scene: Scene) =>
+        getVideoModel(scene.videoModel || stateRef.current.videoModel, videoModelsRef.current), []);
+
+    const commitVideoJobs = useCallback((fn: (queue: VideoJobQueue) => VideoJobQueue) => {
+        const next = fn(videoJobsRef.current);
+        if (next === videoJobsRef.current) return;
+        videoJobsRef.current = next;
+        saveVideoJobs(next);
+        setVideoJobs(next);
+    }, []);
+
+    const patchScene = useCallback((sceneId: string, patch: (scene: Scene) => Partial<Scene>) => {
+        updateStateAndRecord(s => ({
+            ...s,
+            scenes: s.scenes.map(sc => sc.id === sceneId ? { ...sc, ...patch(sc) } : sc)
+        }));
+    }, [updateStateAndRecord]);
 
+    const isVideoGenerating = videoJobs.jobs.some(isPendingVideoJob);
+
+    // Another project was opened or scenes were deleted: drop jobs of scenes that no longer exist
+    const sceneIdsKey = state.scenes.map(s => s.id).join(',');
+    useEffect(() => {
+        if (state.scenes.length === 0) return;
+        commitVideoJobs(q => pruneVideoJobs(q, state.scenes.map(s => s.id)));
+    }, [state.projectName, sceneIdsKey, commitVideoJobs]);
+
+    const handleVideoJobFailure = useCallback((job: VideoJob, message: string, retryable: boolean) => {
+        commitVideoJobs(q => failVideoJob(q, job.id, message, retryable));
+        const updated = videoJobsRef.current.jobs.find(j => j.id === job.id);
+        const willRetry = updated?.status === 'queued';
+        const retryIn = willRetry && updated?.nextAttemptAt ? Math.round((updated.nextAttemptAt - Date.now()) / 1000) : 0;
+
+        console.warn(`[VideoJobs] Scene ${job.sceneNumber} failed (attempt ${updated?.attempts}): ${message}${willRetry ? ` - retry in ${retryIn}s` : ''}`);
+        patchScene(job.sceneId, () => ({
+            videoStatus: willRetry ? 'queued' : 'failed',
+            videoError: willRetry ? `${message} · thử lại sau ${retryIn}s` : message
+        }));
+        if (!willRetry) addProductionLog?.('system', `❌ Video cảnh ${job.sceneNumber} thất bại: ${message}`, 'error');
+    }, [commitVideoJobs, patchScene, addProductionLog]);
+
+    const startVideoJob = useCallback(async (job: VideoJob) => {
+        const current = stateRef.current;
+        const scene = current.scenes.find(s => s.id === job.sceneId);
+        if (!scene) return handleVideoJobFailure(job, 'Phân cảnh đã bị xóa', false);
+
+        const model = getSceneVideoModel(scene);
+        const provider = getVideoProvider(model.provider);
+        const { capabilities } = model;
+        if (scene.videoModel && scene.videoModel !== model.value) {
+            console.warn(`[VideoJobs] Model ${scene.videoModel} is not available, using ${model.value}`);
+        }
+        // Text-to-video models ignore the scene image, so there is nothing to chain either
+        const predecessor = capabilities.supportsStartFrame ? getChainPredecessor(current.scenes, current.sceneGroups, scene.id) : null;
+        if (predecessor && !predecessor.endFrameImage && !predecessor.generatedVideo) {
+            return handleVideoJobFailure(job, `Cảnh ${predecessor.sceneNumber} chưa có end frame hoặc video để nối`, false);
+        }
 
+        commitVideoJobs(q => updateVideoJob(q, job.id, {
+            status: 'starting', attempts: job.attempts + 1, startedAt: Date.now(), provider: provider.id, model: model.value
+        }));
+        patchScene(job.sceneId, () => ({ videoStatus: 'starting', videoError: undefined }));
+        console.log(`[VideoJobs] 🎬 Starting scene ${job.sceneNumber} on ${provider.label} / ${model.value} (attempt ${job.attempts + 1})`);
+
+        try {
+            // Chained group: start on the previous clip's last frame instead of the scene's own image
+            const chain = predecessor ? await resolveChainStartFrame(current.scenes, current.sceneGroups, scene.id) : null;
+            if (chain) {
+                patchScene(job.sceneId, () => ({ chainedStartFrame: chain.image, chainedFromSceneId: chain.fromSceneId }));
+            }
+            const useEndFrame = capabilities.supportsEndFrame && (chain || scene.veoMode === 'start-end-frame') && scene.endFrameImage;
+
+            const operationName = await provider.start({
+                prompt: job.prompt,
+                model: model.value,
+                aspectRatio: current.aspectRatio,
+                duration: resolveVideoDuration(capabilities, scene.videoDuration),
+                startImage: !capabilities.supportsStartFrame ? {}
+                    : chain ? { image: chain.image }
+                    : { mediaId: scene.mediaId, image: scene.generatedImage || undefined },
+                endImage: useEndFrame ? scene.endFrameImage! : undefined,
+                credentials: getVideoCredentials(current)
+            });
+
+            commitVideoJobs(q => updateVideoJob(q, job.id, { status: 'active', operationName }));
+            patchScene(job.sceneId, () => ({ videoStatus: 'active', videoOperationName: operationName }));
+        } catch (e: any) {
+            handleVideoJobFailure(job, e.message || 'Unknown error', e instanceof VideoProviderError ? e.retryable : true);
+        }
+    }, [commitVideoJobs, patchScene, handleVideoJobFailure, getSceneVideoModel]);
+
+    // One status round trip per provider for every running operation
+    const pollActiveVideoJobs = useCallback(async () => {
+        const active = videoJobsRef.current.jobs.filter(j => j.status === 'active' && j.operationName);
+        if (active.length === 0) return;
+
+        const byProvider = new Map<VideoProviderId, VideoJob[]>();
+        for (const job of active) {
+            const providerId = job.provider || 'labs-veo';
+            byProvider.set(providerId, [...(byProvider.get(providerId) || []), job]);
+        }
+
+        for (const [providerId, jobs] of byProvider) {
+            const provider = getVideoProvider(providerId);
+            let results: Record<string, VideoPollResult> = {};
+            try {
+                results = await provider.poll(jobs.map(j => j.operationName!), getVideoCredentials(stateRef.current));
+            } catch (e) {
+                // No status this tick; jobs past the timeout still fail below
+                console.warn(`[VideoJobs] ${provider.label} poll failed, will retry next tick:`, e);
+            }
+
+            for (const job of jobs) {
+                const result = results[job.operationName!];
+                const timedOut = !!job.startedAt && Date.now() - job.startedAt > VIDEO_JOB_TIMEOUT_MS;
+
+                if (result?.status === 'succeeded') {
+                    const take: VideoTake = { id: crypto.randomUUID(), url: result.url, prompt: job.prompt, operationName: job.operationName, createdAt: Date.now() };
+                    commitVideoJobs(q => updateVideoJob(q, job.id, { status: 'succeeded', error: undefined, finishedAt: Date.now() }));
+                    patchScene(job.sceneId, scene => ({ ...addVideoTake(scene, take), videoStatus: 'succeeded', videoError: undefined }));
+                    console.log(`[VideoJobs] ✅ Scene ${job.sceneNumber} video ready`);
+                    addProductionLog?.('system', `🎬 Video cảnh ${job.sceneNumber} đã xong`, 'success');
+                } else if (result?.status === 'failed') {
+                    handleVideoJobFailure(job, result.error, result.retryable);
+                } else if (timedOut) {
+                    // A job that ran past the timeout is abandoned, not resubmitted
+                    handleVideoJobFailure(job, `Quá thời gian chờ ${provider.label}`, false);
+                } else if (!result) {
+                    continue; // Missing from this poll response
+                } else if (stateRef.current.scenes.find(s => s.id === job.sceneId)?.videoStatus !== 'active') {
+                    // Restored after a reload (restore marks in-flight videos failed)
+                    patchScene(job.sceneId, () => ({ videoStatus: 'active', videoError: undefined }));
+                }
+            }
+        }
+    }, [commitVideoJobs, patchScene, handleVideoJobFailure, addProductionLog]);
+
+    /**
+     * Scheduler tick: poll running operations, then start queued jobs. At most
+     * generationConfig.concurrencyLimit operations run at once and starts are spaced by veoDelay.
+     */
+    const tickVideoJobs = useCallback(async () => {
+        if (isTickingRef.current) return;
+        isTickingRef.current = true;
+        try {
+            await pollActiveVideoJobs();
+            const config = stateRef.current.generationConfig;
+            const maxConcurrent = Math.max(1, config?.concurrencyLimit || 1);
+            const veoDelay = config?.veoDelay ?? 200;
+            // A chained scene waits until the scene before it has finished rendering
+            // (and its new take has reached the project state)
+            const isWaitingOnChain = (job: VideoJob) => {
+                const predecessor = getChainPredecessor(stateRef.current.scenes, stateRef.current.sceneGroups, job.sceneId);
+                if (!predecessor) return false;
+                const predecessorJob = videoJobsRef.current.jobs.find(j => j.sceneId === predecessor.id);
+                if (!predecessorJob) return false;
+                return isPendingVideoJob(predecessorJob)
+                    || (predecessorJob.status === 'succeeded' && !predecessor.endFrameImage && !predecessor.generatedVideo);
+            };
+            // Queued jobs may use a Gommo model: wait until the catalogue is known
+            const isBlocked = (job: VideoJob) => !videoModelsLoadedRef.current || isWaitingOnChain(job);
+            for (const job of getStartableVideoJobs(videoJobsRef.current, maxConcurrent, Date.now(), isBlocked)) {
+                const wait = lastVideoStartRef.current + veoDelay - Date.now();
+                if (wait > 0) await new Promise(r => setTimeout(r, wait));
+                lastVideoStartRef.current = Date.now();
+                await startVideoJob(job);
+            }
+        } finally {
+            isTickingRef.current = false;
+        }
+    }, [pollActiveVideoJobs, startVideoJob]);
+
+    const tickRef = useRef(tickVideoJobs);
+    tickRef.current = tickVideoJobs;
+
+    useEffect(() => {
+        if (!isVideoGenerating) return;
+        tickRef.current();
+        const interval = setInterval(() => tickRef.current(), VIDEO_POLL_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [isVideoGenerating]);
+
+    const ensureLabsToken = useCallback((): boolean => {
+        if (stateRef.current.genyuToken) return true;
+        const token = window.prompt('Nhập Google Labs token (Bearer) để tạo video Veo:')?.trim();
+        if (!token) return false;
+        updateStateAndRecord(s => ({ ...s, genyuToken: token }));
+        stateRef.current = { ...stateRef.current, genyuToken: token };
+        return true;
+    }, [updateStateAndRecord]);
+
+    // Credentials for every provider the scenes will render on
+    const ensureVideoCredentials = useCallback((scenes: Scene[]): boolean => {
+        const providerIds = new Set(scenes.map(s => getSceneVideoModel(s).provider));
+        if (providerIds.has('gommo') && !(stateRef.current.gommoDomain && stateRef.current.gommoAccessToken)) {
+            alert('Cần Gommo domain và access token (Profile) để tạo video bằng model Gommo.');
+            setApiKeyModalOpen(true);
+            return false;
+        }
+        return !providerIds.has('labs-veo') || ensureLabsToken();
+    }, [getSceneVideoModel, ensureLabsToken, setApiKeyModalOpen]);
+
+    const queueVideoJobs = useCallback((scenes: Scene[]) => {
+        const { queue, added } = enqueueVideoJobs(videoJobsRef.current, scenes);
+        commitVideoJobs(() => queue);
+        added.forEach(job => patchScene(job.sceneId, () => ({ videoStatus: 'queued', videoError: undefined })));
+        console.log(`[VideoJobs] Queued ${added.length} video job(s)`);
+        if (added.length > 0) tickRef.current();
+        return added.length;
+    }, [commitVideoJobs, patchScene]);
 
     const stopVeoGeneration = useCallback(() => {
         if (isVeoGenerating) {
@@ -124,11 +380,8 @@ export function useVideoGeneration(
             };
             const effectiveLanguage = languageNames[state.scriptLanguage] || 'English';
 
-            // Get script text based on language setting
-            // Vietnamese uses 'vietnamese' field, all others use 'language1' field
-            const dialogueText = state.scriptLanguage === 'vietnamese'
-                ? scene.vietnamese
-                : scene.language1;
+            // Script text is always written in the project's script language
+            const dialogueText = scene.scriptText;
 
             // Voice Over (narration/commentary - not spoken by characters in scene)
             const voiceOverText = scene.voiceOverText || scene.voiceover || '';
@@ -397,7 +650,7 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
                 console.log('[DOP Veo] Auto-suggesting presets for', scenesNeedingPreset.length, 'scenes...');
 
                 const scenesInfo = scenesNeedingPreset.map(s =>
-                    `ID: ${s.id}, Context: ${s.contextDescription}, Script: ${s.vietnamese || s.language1}, Angle: ${s.cameraAngleOverride || 'auto'}`
+                    `ID: ${s.id}, Context: ${s.contextDescription}, Script: ${s.scriptText}, Angle: ${s.cameraAngleOverride || 'auto'}`
                 ).join('\n');
                 const presetsInfo = VEO_PRESETS.map(p => `${p.value}: ${p.label}`).join('\n');
 
@@ -423,8 +676,11 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
 
                 // Use callGeminiText with fallback
                 try {
-                    const text = await callGeminiText(dopPrompt, 'You are a DOP expert.', true, 'gemini-1.5-flash');
-                    const mapping = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+                    const mapping = await requestStructured({
+                        name: 'Đề xuất preset Veo',
+                        schema: presetMappingSchema,
+                        call: correction => callGeminiText(dopPrompt + (correction || ''), 'You are a DOP expert.', true, 'gemini-1.5-flash')
+                    });
                     console.log('[DOP Veo] Preset suggestions:', mapping);
 
                     updateStateAndRecord(s => ({
@@ -438,7 +694,7 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
                     // Wait for state update
                     await new Promise(r => setTimeout(r, 300));
                 } catch (parseError) {
-                    console.error('[DOP Veo] Failed to parse preset suggestions:', parseError);
+                    console.error('[DOP Veo] Preset suggestions failed:', parseError);
                 }
             }
 
@@ -467,15 +723,48 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
     }, [state.scenes, userApiKey, generateVeoPrompt, setApiKeyModalOpen, updateStateAndRecord, setAgentState]);
 
 
+    const isVideoReady = (scene: Scene) =>
+        Boolean(scene.generatedImage && scene.veoPrompt && !scene.veoPrompt.startsWith('⏳') && !scene.veoPrompt.startsWith('❌'));
+
     const handleGenerateAllVideos = useCallback(async () => {
-        alert("Video generation currently requires an external integration and is disabled in this version.");
-    }, []);
+        const ready = state.scenes.filter(isVideoReady);
+        if (ready.length === 0) return alert("Không có phân cảnh nào có ảnh và Veo prompt để tạo video.");
+        if (!ensureVideoCredentials(ready)) return;
+
+        const added = queueVideoJobs(ready);
+        if (added === 0) return alert("Tất cả phân cảnh đã có video đang được tạo.");
+    }, [state.scenes, ensureVideoCredentials, queueVideoJobs]);
+
+    // New take for one scene; earlier takes stay in videoHistory
+    const generateSceneVideo = useCallback((sceneId: string) => {
+        const scene = state.scenes.find(s => s.id === sceneId);
+        if (!scene) return;
+        if (!isVideoReady(scene)) return alert('Cần có ảnh và Veo prompt trước khi tạo video.');
+        if (!ensureVideoCredentials([scene])) return;
+        queueVideoJobs([scene]);
+    }, [state.scenes, ensureVideoCredentials, queueVideoJobs]);
+
+    const cancelVideoJobs = useCallback(() => {
+        const queued = videoJobsRef.current.jobs.filter(j => j.status === 'queued');
+        commitVideoJobs(q => cancelQueuedVideoJobs(q));
+        queued.forEach(job => patchScene(job.sceneId, () => ({ videoStatus: undefined, videoError: undefined })));
+    }, [commitVideoJobs, patchScene]);
+
+    const retryFailedVideos = useCallback(() => {
+        const failed = videoJobsRef.current.jobs.filter(j => j.status === 'failed');
+        commitVideoJobs(retryFailedVideoJobs);
+        failed.forEach(job => patchScene(job.sceneId, () => ({ videoStatus: 'queued', videoError: undefined })));
+    }, [commitVideoJobs, patchScene]);
+
+    const clearFinishedVideos = useCallback(() => {
+        commitVideoJobs(clearFinishedVideoJobs);
+    }, [commitVideoJobs]);
 
     const suggestVeoPresets = useCallback(async () => {
         // No strict API key check - callGeminiText handles fallback
 
         try {
-            const scenesInfo = state.scenes.map(s => `ID: ${s.id}, Context: ${s.contextDescription}, Script: ${s.vietnamese || s.language1}`).join('\n');
+            const scenesInfo = state.scenes.map(s => `ID: ${s.id}, Context: ${s.contextDescription}, Script: ${s.scriptText}`).join('\n');
             const presetsInfo = VEO_PRESETS.map(p => `${p.value}: ${p.label} - ${p.prompt}`).join('\n');
 
             const suggestionPrompt = `
@@ -497,8 +786,11 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
             `;
 
             // Use callGeminiText with fallback
-            const text = await callGeminiText(suggestionPrompt, 'You are a video production expert.', true, 'gemini-1.5-flash');
-            const mapping = JSON.parse(text.replace(/```json/g, '').replace(/```/g, '').trim());
+            const mapping = await requestStructured({
+                name: 'Đề xuất preset Veo',
+                schema: presetMappingSchema,
+                call: correction => callGeminiText(suggestionPrompt + (correction || ''), 'You are a video production expert.', true, 'gemini-1.5-flash')
+            });
 
             updateStateAndRecord(s => ({
                 ...s,
@@ -526,6 +818,12 @@ Return ONLY the video prompt string. NO explanations, NO markdown.
         generateVeoPrompt,
         handleGenerateAllVeoPrompts,
         handleGenerateAllVideos,
+        generateSceneVideo,
+        videoJobs,
+        videoModels,
+        cancelVideoJobs,
+        retryFailedVideos,
+        clearFinishedVideos,
         suggestVeoPresets,
         applyPresetToAll,
         stopVeoGeneration
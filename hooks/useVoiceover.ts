@@ -0,0 +1,98 @@
+import { useState, useCallback, useRef } from 'react';
+import { ProjectState, Scene } from '../types';
+import { TTS_VOICES, DEFAULT_NARRATOR_VOICE } from '../utils/appConstants';
+import { getSceneVoiceLines, getCurrentVoiceAudio, synthesizeSceneVoice, getVoiceAudioDuration } from '../utils/voiceover';
+
+/**
+ * TTS voiceover per scene: voices are the MiniMax voices in TTS_VOICES, narration uses
+ * state.narratorVoiceId and dialogue uses each Character.voiceId.
+ */
+export function useVoiceover(
+    state: ProjectState,
+    updateStateAndRecord: (updater: (prevState: ProjectState) => ProjectState) => void,
+    addProductionLog?: (sender: 'director' | 'dop' | 'user' | 'system', message: string, type?: string, stage?: string) => void
+) {
+    const ttsVoices = TTS_VOICES;
+    const [isVoiceBatchRunning, setIsVoiceBatchRunning] = useState(false);
+    const stopVoiceRef = useRef(false);
+    const stateRef = useRef(state);
+    stateRef.current = state;
+
+    const patchScene = useCallback((sceneId: string, patch: Partial<Scene>) => {
+        updateStateAndRecord(s => ({
+            ...s,
+            scenes: s.scenes.map(sc => sc.id === sceneId ? { ...sc, ...patch } : sc)
+        }));
+    }, [updateStateAndRecord]);
+
+    // Narrator voice (the default voice until one is picked)
+    const resolveTtsSetup = useCallback((): { narratorVoiceId: string } => ({
+        narratorVoiceId: stateRef.current.narratorVoiceId || DEFAULT_NARRATOR_VOICE
+    }), []);
+
+    const voiceScene = useCallback(async (sceneId: string, narratorVoiceId: string): Promise<boolean> => {
+        const current = stateRef.current;
+        const scene = current.scenes.find(s => s.id === sceneId);
+        if (!scene || getSceneVoiceLines(scene, current.characters).length === 0) return false;
+
+        patchScene(sceneId, { isVoiceGenerating: true, voiceError: undefined });
+        try {
+            const clips = await synthesizeSceneVoice(scene, current.characters, narratorVoiceId);
+            // The measured length replaces the word-count estimate on the timeline
+            patchScene(sceneId, { voiceAudio: clips, voSecondsEstimate: getVoiceAudioDuration(clips), isVoiceGenerating: false });
+            return true;
+        } catch (e: any) {
+            console.error(`[Voiceover] Scene ${scene.sceneNumber} failed:`, e);
+            patchScene(sceneId, { isVoiceGenerating: false, voiceError: e.message || 'TTS failed' });
+            addProductionLog?.('system', `❌ Giọng đọc cảnh ${scene.sceneNumber} thất bại: ${e.message}`, 'error');
+            return false;
+        }
+    }, [patchScene, addProductionLog]);
+
+    const generateSceneVoice = useCallback(async (sceneId: string) => {
+        await voiceScene(sceneId, resolveTtsSetup().narratorVoiceId);
+    }, [resolveTtsSetup, voiceScene]);
+
+    // Scenes with text but no audio yet; `regenerate` redoes every scene
+    const generateAllVoices = useCallback(async (regenerate = false) => {
+        const targets = state.scenes.filter(s =>
+            getSceneVoiceLines(s, state.characters).length > 0 && (regenerate || !getCurrentVoiceAudio(s)));
+        if (targets.length === 0) return alert('Không có phân cảnh nào cần tạo giọng đọc.');
+        const setup = resolveTtsSetup();
+
+        setIsVoiceBatchRunning(true);
+        stopVoiceRef.current = false;
+        let done = 0;
+        try {
+            for (const scene of targets) {
+                if (stopVoiceRef.current) break;
+                if (await voiceScene(scene.id, setup.narratorVoiceId)) done++;
+            }
+            addProductionLog?.('system', `🎙️ Đã tạo giọng đọc cho ${done}/${targets.length} cảnh`, 'success');
+        } finally {
+            setIsVoiceBatchRunning(false);
+        }
+    }, [state.scenes, state.characters, resolveTtsSetup, voiceScene, addProductionLog]);
+
+    const stopVoiceGeneration = useCallback(() => {
+        stopVoiceRef.current = true;
+    }, []);
+
+    const clearSceneVoice = useCallback((sceneId: string) => {
+        patchScene(sceneId, { voiceAudio: undefined, voiceError: undefined });
+    }, [patchScene]);
+
+    const setNarratorVoice = useCallback((voiceId: string) => {
+        updateStateAndRecord(s => ({ ...s, narratorVoiceId: voiceId || undefined }));
+    }, [updateStateAndRecord]);
+
+    return {
+        ttsVoices,
+        isVoiceBatchRunning,
+        generateSceneVoice,
+        generateAllVoices,
+        stopVoiceGeneration,
+        clearSceneVoice,
+        setNarratorVoice
+    };
+}
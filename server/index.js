@@ -1,7 +1,7 @@
 import express from 'express';
 import cors from 'cors';
 import axios from 'axios';
-import { fal } from '@fal-ai/client';
+import { fal, createFalClient } from '@fal-ai/client';
 import Groq from 'groq-sdk';
 import dotenv from 'dotenv';
 import path from 'path';
@@ -24,7 +24,9 @@ dotenv.config({ path: envPath });
 
 const app = express();
 app.use(cors());
-app.use(express.json({ limit: '50mb' }));
+// Animatic renders carry every scene image and parse their own (larger) body
+const defaultJsonParser = express.json({ limit: '50mb' });
+app.use((req, res, next) => req.path === '/api/animatic/render' ? next() : defaultJsonParser(req, res, next));
 
 // ADD REQUEST LOGGING FOR DEBUGGING
 app.use((req, res, next) => {
@@ -523,6 +525,54 @@ app.post('/api/proxy/fal/flux', async (req, res) => {
     }
 });
 
+// ==================== FAL.AI TEXT-TO-SPEECH ====================
+// MiniMax Speech-02 HD on Fal.ai: https://fal.ai/models/fal-ai/minimax/speech-02-hd/api
+const FAL_TTS_MODEL = 'fal-ai/minimax/speech-02-hd';
+
+app.post('/api/proxy/fal/tts', async (req, res) => {
+    try {
+        const { text, voiceId, speed, languageBoost } = req.body;
+        const customKey = req.headers['x-fal-api-key'];
+
+        if (!text || !voiceId) {
+            return res.status(400).json({ error: 'Text and voiceId are required' });
+        }
+        if (!customKey && !FAL_KEY) {
+            return res.status(500).json({ error: 'FAL_KEY not configured on server and no custom key provided' });
+        }
+
+        console.log(`[Fal.ai TTS] 🎙️ ${voiceId}: ${text.substring(0, 60)}...`);
+        const client = customKey ? createFalClient({ credentials: customKey }) : fal;
+        const result = await client.subscribe(FAL_TTS_MODEL, {
+            input: {
+                text,
+                voice_setting: { voice_id: voiceId, speed: speed || 1 },
+                language_boost: languageBoost || 'auto',
+                output_format: 'url'
+            }
+        });
+
+        const audioUrl = result.data?.audio?.url;
+        if (!audioUrl) {
+            console.error('[Fal.ai TTS] No audio in response:', result);
+            return res.status(500).json({ error: 'No audio generated', details: result });
+        }
+
+        res.json({
+            success: true,
+            url: audioUrl,
+            durationMs: result.data?.duration_ms,
+            requestId: result.requestId
+        });
+    } catch (error) {
+        console.error('[Fal.ai TTS] ❌ Error:', error);
+        res.status(500).json({
+            error: error.message || 'Fal.ai TTS failed',
+            details: error.body || error
+        });
+    }
+});
+
 // ==================== GOOGLE LABS PROXY ====================
 app.post('/api/proxy/genyu/image', async (req, res) => {
     try {
@@ -588,15 +638,20 @@ app.post('/api/proxy/genyu/image', async (req, res) => {
 });
 
 // ==================== GOOGLE VEO VIDEO PROXY ====================
+// Labs project used for VideoFX requests; the default is the shared VideoFX project
+const LABS_VIDEO_PROJECT_ID = process.env.LABS_VIDEO_PROJECT_ID || '07c3d6ef-3305-4196-bcc2-7db5294be436';
+const DEFAULT_VEO_MODEL = 'veo_3_1_i2v_s_fast_ultra';
+
 app.post('/api/proxy/google/video/start', async (req, res) => {
     try {
-        const { token, recaptchaToken, prompt, mediaId, aspectRatio } = req.body;
-        console.log(`[Video] Starting gen... ID: ${mediaId?.substring(0, 10)}`);
+        const { token, recaptchaToken, prompt, mediaId, imageBase64, endImageBase64, aspectRatio, model } = req.body;
+        const videoModelKey = model || DEFAULT_VEO_MODEL;
+        console.log(`[Video] Starting gen (${videoModelKey})... ID: ${mediaId?.substring(0, 10) || 'inline image'}${endImageBase64 ? ' (start/end frame)' : ''}`);
 
         if (!token) return res.status(400).json({ error: 'Token required' });
-        if (!mediaId) return res.status(400).json({ error: 'Media ID required for I2V' });
+        if (!mediaId && !imageBase64) return res.status(400).json({ error: 'Media ID or start image required for I2V' });
 
-        const projectId = '07c3d6ef-3305-4196-bcc2-7db5294be436'; // Standard for VideoFX
+        const projectId = LABS_VIDEO_PROJECT_ID;
         const apiUrl = `https://aisandbox-pa.googleapis.com/v1/projects/${projectId}/flowMedia:batchGenerateImages`;
 
         const payload = {
@@ -611,8 +666,9 @@ app.post('/api/proxy/google/video/start', async (req, res) => {
                 "aspectRatio": aspectRatio || "VIDEO_ASPECT_RATIO_LANDSCAPE",
                 "seed": Math.floor(Math.random() * 1000000),
                 "textInput": { "prompt": prompt },
-                "videoModelKey": "veo_3_1_i2v_s_fast_ultra",
-                "startImage": mediaId ? { "mediaId": mediaId } : { "image": { "content": req.body.imageBase64 } },
+                "videoModelKey": videoModelKey,
+                "startImage": mediaId ? { "mediaId": mediaId } : { "image": { "content": imageBase64 } },
+                ...(endImageBase64 && { "endImage": { "image": { "content": endImageBase64 } } }),
                 // "metadata": { "sceneId": "proxy-request" } // Optional
             }]
         };
@@ -702,14 +758,17 @@ app.post('/api/proxy/google/video/status', async (req, res) => {
 
                 return {
                     sceneId: op.sceneId,
+                    jobId: op.jobId,
                     status: status,
                     result: result,
+                    error: d.error?.message,
                     original: d
                 };
 
             } catch (e) {
                 console.error("Status fetch fail:", e);
-                return { sceneId: op.sceneId, status: 'MEDIA_GENERATION_STATUS_FAILED' };
+                // Network hiccup, not an operation failure: report it as still running
+                return { sceneId: op.sceneId, jobId: op.jobId, status: 'MEDIA_GENERATION_STATUS_ACTIVE', error: e.message };
             }
         }));
 
@@ -735,7 +794,7 @@ app.post(/^\/api\/proxy\/gommo\/(.*)/, async (req, res) => {
         console.log(`[Gommo Proxy] 🚀 Request to: ${path}`);
 
         // AUTO-INJECT TOKEN FROM POOL IF MISSING (for generation)
-        const isGen = path.includes('generateImage');
+        const isGen = path.includes('generateImage') || path.includes('generateVideo');
         let injectedToken = null;
 
         if (isGen && !req.body.token) {
@@ -1692,6 +1751,591 @@ app.delete('/api/sourcing/cleanup/:projectId', async (req, res) => {
     }
 });
 
+// ==================== ANIMATIC RENDER (FFmpeg → MP4) ====================
+// Renders the storyboard cut sent by the Animatic view: one normalized segment per scene
+// (Ken Burns still / Veo clip / black slate), then joins them with cuts, dissolves, wipes and fades.
+// Jobs run in the background; the client polls status and downloads the MP4 when done.
+
+const ANIMATIC_RENDERS_DIR = path.join(process.cwd(), 'animatic_renders');
+if (!fs.existsSync(ANIMATIC_RENDERS_DIR)) fs.mkdirSync(ANIMATIC_RENDERS_DIR, { recursive: true });
+
+const ANIMATIC_FPS = 25;
+const ANIMATIC_JOB_TTL_MS = 60 * 60 * 1000; // Renders are kept for 1 hour
+const ANIMATIC_SIZES = {
+    '16:9': [1280, 720],
+    '9:16': [720, 1280],
+    '1:1': [1080, 1080],
+    '4:3': [960, 720],
+    '3:4': [720, 960]
+};
+const XFADE_TRANSITIONS = { dissolve: 'fade', wipe: 'wipeleft' };
+const ANIMATIC_TRANSITION_KINDS = ['cut', 'fade-black', 'fade-white', ...Object.keys(XFADE_TRANSITIONS)];
+const ANIMATIC_MAX_CLIP_SECONDS = 60;
+const ANIMATIC_MAX_TRANSITION_SECONDS = 5;
+
+// Hosts the app's media comes from (Labs/Veo, Fal.ai, Gommo, Supabase storage); extend with MEDIA_ALLOWED_HOSTS
+const MEDIA_HOST_SUFFIXES = [
+    'googleusercontent.com', 'googleapis.com', 'ggpht.com',
+    'fal.media', 'fal.run', 'fal.ai',
+    'gommo.net',
+    'supabase.co',
+    ...(process.env.MEDIA_ALLOWED_HOSTS || '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean)
+];
+
+const isAllowedMediaHost = (hostname) => {
+    const host = String(hostname || '').toLowerCase();
+    return MEDIA_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(`.${suffix}`));
+};
+
+const animaticJobs = new Map(); // jobId -> { status, progress, stage, error, outputPath, createdAt }
+
+// Run ffmpeg; when totalSeconds is given, report progress from its "time=" output
+function runFfmpeg(args, { totalSeconds, onProgress } = {}) {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', ['-y', '-hide_banner', ...args]);
+        let stderr = '';
+        ffmpeg.stderr.on('data', (data) => {
+            const text = data.toString();
+            stderr = (stderr + text).slice(-4000);
+            const match = text.match(/time=(\d+):(\d+):(\d+\.\d+)/);
+            if (match && totalSeconds && onProgress) {
+                const seconds = parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+                onProgress(Math.min(1, seconds / totalSeconds));
+            }
+        });
+        ffmpeg.on('error', reject);
+        ffmpeg.on('close', (code) => {
+            if (code === 0) resolve();
+            else reject(new Error(`ffmpeg exited with code ${code}: ${stderr.split('\n').slice(-3).join(' ')}`));
+        });
+    });
+}
+
+// Write a data URI or download a URL into the job directory
+async function materializeMedia(src, targetBase) {
+    if (!src) return null;
+    const dataMatch = src.match(/^data:([\w/+.-]+);base64,(.*)$/s);
+    if (dataMatch) {
+        const ext = dataMatch[1].split('/')[1]?.replace('svg+xml', 'svg').replace('jpeg', 'jpg').replace('mpeg', 'mp3') || 'bin';
+        const filePath = `${targetBase}.${ext}`;
+        fs.writeFileSync(filePath, Buffer.from(dataMatch[2], 'base64'));
+        return filePath;
+    }
+    if (/^https?:\/\//.test(src)) {
+        // Only known media hosts: the server must not become a proxy into its own network
+        if (!isAllowedMediaHost(new URL(src).hostname)) throw new Error(`Media host not allowed: ${new URL(src).hostname}`);
+        const response = await axios.get(src, {
+            responseType: 'arraybuffer',
+            timeout: 60000,
+            beforeRedirect: (redirect) => {
+                if (!isAllowedMediaHost(redirect.hostname)) throw new Error(`Media redirect not allowed: ${redirect.hostname}`);
+            }
+        });
+        const type = response.headers['content-type'] || '';
+        const ext = type.includes('video') ? 'mp4' : type.includes('png') ? 'png' : type.includes('audio') ? 'mp3' : 'jpg';
+        const filePath = `${targetBase}.${ext}`;
+        fs.writeFileSync(filePath, Buffer.from(response.data));
+        return filePath;
+    }
+    return null;
+}
+
+// zoompan expressions reproducing the client's eased Ken Burns move (rotation is not rendered)
+function kenBurnsFilter(kenBurns, width, height, frames) {
+    const from = kenBurns?.from || { scale: 1.05, x: 0, y: 0 };
+    const to = kenBurns?.to || { scale: 1.15, x: 0, y: 0 };
+    const p = `(on/${Math.max(1, frames - 1)})`;
+    const t = `if(lt(${p},0.5),2*${p}*${p},1-pow(-2*${p}+2,2)/2)`;
+    const lerp = (a, b) => `(${a}+(${b - a})*${t})`;
+    return [
+        `scale=${width * 2}:${height * 2}:force_original_aspect_ratio=increase`,
+        `crop=${width * 2}:${height * 2}`,
+        `zoompan=z='${lerp(from.scale, to.scale)}'` +
+        `:x='iw/2-iw/zoom/2-${lerp(from.x, to.x)}*iw/100'` +
+        `:y='ih/2-ih/zoom/2-${lerp(from.y, to.y)}*ih/100'` +
+        `:d=1:s=${width}x${height}:fps=${ANIMATIC_FPS}`
+    ].join(',');
+}
+
+// Render one scene as a silent, normalized segment of exactly `length` seconds
+async function renderAnimaticSegment(clip, index, job, { width, height, options, leadIn, fadeIn, fadeOut }) {
+    const base = path.join(job.dir, `scene_${String(index).padStart(3, '0')}`);
+    const segmentPath = `${base}_segment.mp4`;
+    const length = clip.duration + leadIn;
+
+    let mediaPath = null;
+    try {
+        mediaPath = await materializeMedia(clip.media?.src, `${base}_source`);
+    } catch (e) {
+        console.warn(`[Animatic] Scene ${clip.sceneNumber}: could not fetch media (${e.message}), using a slate`);
+    }
+
+    const inputs = [];
+    const filters = [];
+    if (mediaPath && clip.media.type === 'video') {
+        inputs.push('-i', mediaPath);
+        filters.push(
+            `scale=${width}:${height}:force_original_aspect_ratio=increase`, `crop=${width}:${height}`,
+            `fps=${ANIMATIC_FPS}`, `tpad=stop_mode=clone:stop_duration=${clip.duration}`,
+            `trim=duration=${clip.duration}`, 'setpts=PTS-STARTPTS'
+        );
+    } else if (mediaPath && !mediaPath.endsWith('.svg')) {
+        // The move spans the scene itself; the lead-in below holds its first frame
+        inputs.push('-loop', '1', '-framerate', String(ANIMATIC_FPS), '-t', String(clip.duration), '-i', mediaPath);
+        filters.push(kenBurnsFilter(clip.kenBurns, width, height, Math.round(clip.duration * ANIMATIC_FPS)));
+    } else {
+        inputs.push('-f', 'lavfi', '-i', `color=c=black:s=${width}x${height}:r=${ANIMATIC_FPS}:d=${clip.duration}`);
+    }
+
+    // During a dissolve/wipe the incoming scene is already visible: hold its first frame
+    if (leadIn > 0) filters.push(`tpad=start_mode=clone:start_duration=${leadIn}`, `trim=duration=${length}`);
+
+    const fontSize = Math.round(height / 24);
+    if (options.burnSceneNumbers) {
+        filters.push(`drawtext=text='#${String(clip.sceneNumber).replace(/[^\w.-]/g, '')}':x=${fontSize}:y=${fontSize}:fontsize=${fontSize}:fontcolor=white:box=1:boxcolor=black@0.5:boxborderw=8`);
+    }
+    if (options.burnCaptions && clip.caption) {
+        // Caption text goes through a file to avoid filter escaping issues
+        const captionPath = `${base}_caption.txt`;
+        fs.writeFileSync(captionPath, clip.caption);
+        filters.push(`drawtext=textfile='${captionPath.replace(/\\/g, '/').replace(/'/g, "\\'")}':x=(w-text_w)/2:y=h-text_h-${fontSize * 2}:fontsize=${Math.round(fontSize * 0.8)}:fontcolor=white:box=1:boxcolor=black@0.6:boxborderw=10`);
+    }
+    if (fadeIn) filters.push(`fade=t=in:st=0:d=${fadeIn.duration}:color=${fadeIn.color}`);
+    if (fadeOut) filters.push(`fade=t=out:st=${Math.max(0, length - fadeOut.duration)}:d=${fadeOut.duration}:color=${fadeOut.color}`);
+    filters.push('format=yuv420p');
+
+    await runFfmpeg([
+        ...inputs,
+        '-vf', filters.join(','),
+        '-t', String(length),
+        '-an', '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '20', '-r', String(ANIMATIC_FPS),
+        segmentPath
+    ]);
+    return { path: segmentPath, length };
+}
+
+// Download the scene voice lines; a line that can't be fetched is left out rather than failing the render
+async function materializeVoiceLines(clips, job) {
+    const lines = [];
+    let sceneStart = 0;
+    for (let i = 0; i < clips.length; i++) {
+        const voice = Array.isArray(clips[i].voice) ? clips[i].voice : [];
+        for (let j = 0; j < voice.length; j++) {
+            try {
+                const linePath = await materializeMedia(voice[j].src, path.join(job.dir, `voice_${i}_${j}`));
+                if (linePath) lines.push({ path: linePath, start: sceneStart + (Number(voice[j].offset) || 0) });
+            } catch (e) {
+                console.warn(`[Animatic] Scene ${clips[i].sceneNumber}: could not fetch voice line (${e.message})`);
+            }
+        }
+        sceneStart += clips[i].duration;
+    }
+    return lines;
+}
+
+async function runAnimaticRender(jobId, { clips, aspectRatio, audio, options }) {
+    const job = animaticJobs.get(jobId);
+    const [width, height] = ANIMATIC_SIZES[aspectRatio] || ANIMATIC_SIZES['16:9'];
+    const totalDuration = clips.reduce((sum, c) => sum + c.duration, 0);
+
+    try {
+        job.status = 'running';
+        const segments = [];
+        for (let i = 0; i < clips.length; i++) {
+            job.stage = `Cảnh ${clips[i].sceneNumber} (${i + 1}/${clips.length})`;
+            const prev = clips[i - 1]?.transition;
+            const next = clips[i].transition;
+            const isFade = (t) => t && (t.kind === 'fade-black' || t.kind === 'fade-white') && t.duration > 0;
+            segments.push(await renderAnimaticSegment(clips[i], i, job, {
+                width, height, options,
+                leadIn: prev && XFADE_TRANSITIONS[prev.kind] ? prev.duration : 0,
+                fadeIn: isFade(prev) ? { duration: prev.duration, color: prev.kind === 'fade-black' ? 'black' : 'white' } : null,
+                fadeOut: i < clips.length - 1 && isFade(next) ? { duration: next.duration, color: next.kind === 'fade-black' ? 'black' : 'white' } : null
+            }));
+            job.progress = ((i + 1) / clips.length) * 0.8;
+        }
+
+        // Join: xfade for dissolves/wipes (segments carry the overlap as lead-in), concat otherwise
+        job.stage = 'Ghép cảnh';
+        const inputs = segments.flatMap(s => ['-i', s.path]);
+        const graph = [];
+        let current = '[0:v]';
+        let outputLength = segments[0].length;
+        for (let i = 1; i < segments.length; i++) {
+            const transition = clips[i - 1].transition;
+            const label = `[v${i}]`;
+            if (XFADE_TRANSITIONS[transition.kind] && transition.duration > 0) {
+                graph.push(`${current}[${i}:v]xfade=transition=${XFADE_TRANSITIONS[transition.kind]}:duration=${transition.duration}:offset=${(outputLength - transition.duration).toFixed(3)}${label}`);
+                outputLength += segments[i].length - transition.duration;
+            } else {
+                graph.push(`${current}[${i}:v]concat=n=2:v=1:a=0${label}`);
+                outputLength += segments[i].length;
+            }
+            current = label;
+        }
+
+        // Audio: the uploaded VO track under the whole cut, plus each scene's TTS lines at their scene start
+        job.stage = 'Âm thanh';
+        const audioPath = audio ? await materializeMedia(audio, path.join(job.dir, 'voiceover')) : null;
+        const voiceLines = await materializeVoiceLines(clips, job);
+        const outputPath = path.join(job.dir, 'animatic.mp4');
+        const args = [...inputs];
+        const audioLabels = [];
+        if (audioPath) {
+            args.push('-i', audioPath);
+            audioLabels.push(`[${segments.length}:a]`);
+        }
+        voiceLines.forEach((line, k) => {
+            const inputIndex = segments.length + (audioPath ? 1 : 0) + k;
+            const delayMs = Math.round(line.start * 1000);
+            args.push('-i', line.path);
+            graph.push(`[${inputIndex}:a]adelay=${delayMs}|${delayMs}[vo${k}]`);
+            audioLabels.push(`[vo${k}]`);
+        });
+        if (audioLabels.length > 1) graph.push(`${audioLabels.join('')}amix=inputs=${audioLabels.length}:normalize=0,apad[aout]`);
+        else if (audioLabels.length === 1) graph.push(`${audioLabels[0]}apad[aout]`);
+
+        if (graph.length > 0) args.push('-filter_complex', graph.join(';'));
+        args.push('-map', segments.length > 1 ? current : '0:v');
+        if (audioLabels.length > 0) args.push('-map', '[aout]', '-c:a', 'aac', '-b:a', '192k');
+        args.push(
+            '-t', totalDuration.toFixed(3),
+            '-c:v', 'libx264', '-preset', 'veryfast', '-crf', '22', '-pix_fmt', 'yuv420p', '-movflags', '+faststart',
+            outputPath
+        );
+
+        await runFfmpeg(args, { totalSeconds: totalDuration, onProgress: (p) => { job.progress = 0.8 + p * 0.2; } });
+
+        job.outputPath = outputPath;
+        job.status = 'done';
+        job.progress = 1;
+        job.stage = 'Hoàn tất';
+        console.log(`✅ [Animatic] Render ${jobId} done (${totalDuration.toFixed(1)}s, ${clips.length} scenes)`);
+    } catch (error) {
+        console.error(`[Animatic] Render ${jobId} failed:`, error.message);
+        job.status = 'failed';
+        job.error = error.message;
+    }
+}
+
+// Drop finished renders after the TTL
+setInterval(() => {
+    const now = Date.now();
+    for (const [jobId, job] of animaticJobs) {
+        if (job.status !== 'running' && now - job.createdAt > ANIMATIC_JOB_TTL_MS) {
+            fs.rmSync(job.dir, { recursive: true, force: true });
+            animaticJobs.delete(jobId);
+        }
+    }
+}, 10 * 60 * 1000).unref();
+
+// Every number of a clip ends up inside an ffmpeg filter graph: coerce, check and clamp them here.
+// Returns the sanitized clip, or an error message.
+function sanitizeAnimaticClip(clip, index) {
+    const toNumber = (value, fallback) => (value === undefined || value === null ? fallback : Number(value));
+    const clamp = (value, min, max) => Math.min(max, Math.max(min, value));
+    const where = `Clip ${index + 1}`;
+    if (!clip || typeof clip !== 'object') return { error: `${where}: invalid clip` };
+
+    const duration = toNumber(clip.duration, NaN);
+    if (!Number.isFinite(duration) || duration <= 0) return { error: `${where}: invalid duration` };
+
+    const transition = clip.transition || { kind: 'cut', duration: 0 };
+    if (!ANIMATIC_TRANSITION_KINDS.includes(transition.kind)) return { error: `${where}: unknown transition "${transition.kind}"` };
+    const transitionDuration = toNumber(transition.duration, 0);
+    if (!Number.isFinite(transitionDuration)) return { error: `${where}: invalid transition duration` };
+
+    let kenBurns = null;
+    if (clip.kenBurns) {
+        const frame = (f) => {
+            const scale = toNumber(f?.scale, 1);
+            const x = toNumber(f?.x, 0);
+            const y = toNumber(f?.y, 0);
+            if (![scale, x, y].every(Number.isFinite)) return null;
+            return { scale: clamp(scale, 1, 3), x: clamp(x, -50, 50), y: clamp(y, -50, 50) };
+        };
+        const from = frame(clip.kenBurns.from);
+        const to = frame(clip.kenBurns.to);
+        if (!from || !to) return { error: `${where}: invalid Ken Burns move` };
+        kenBurns = { from, to };
+    }
+
+    const clampedDuration = clamp(duration, 0.1, ANIMATIC_MAX_CLIP_SECONDS);
+    return {
+        clip: {
+            sceneNumber: String(clip.sceneNumber ?? index + 1),
+            duration: clampedDuration,
+            media: { type: clip.media?.type === 'video' ? 'video' : 'image', src: typeof clip.media?.src === 'string' ? clip.media.src : null },
+            kenBurns,
+            transition: { kind: transition.kind, duration: clamp(transitionDuration, 0, Math.min(ANIMATIC_MAX_TRANSITION_SECONDS, clampedDuration)) },
+            caption: typeof clip.caption === 'string' ? clip.caption : '',
+            voice: (Array.isArray(clip.voice) ? clip.voice : []).map(line => ({
+                src: typeof line?.src === 'string' ? line.src : null,
+                offset: clamp(Number(line?.offset) || 0, 0, ANIMATIC_MAX_CLIP_SECONDS)
+            }))
+        }
+    };
+}
+
+// POST /api/animatic/render - start a render job
+app.post('/api/animatic/render', express.json({ limit: '500mb' }), (req, res) => {
+    try {
+        const { aspectRatio, audio, options = {}, projectName } = req.body;
+        if (!Array.isArray(req.body.clips) || req.body.clips.length === 0) {
+            return res.status(400).json({ error: 'No scenes to render' });
+        }
+        const clips = [];
+        for (let i = 0; i < req.body.clips.length; i++) {
+            const { clip, error } = sanitizeAnimaticClip(req.body.clips[i], i);
+            if (error) return res.status(400).json({ error });
+            clips.push(clip);
+        }
+        if (audio !== undefined && audio !== null && typeof audio !== 'string') {
+            return res.status(400).json({ error: 'Invalid audio track' });
+        }
+
+        const jobId = uuidv4();
+        const dir = path.join(ANIMATIC_RENDERS_DIR, jobId);
+        fs.mkdirSync(dir, { recursive: true });
+        animaticJobs.set(jobId, {
+            status: 'queued', progress: 0, stage: 'Đang chuẩn bị', error: null,
+            outputPath: null, dir, createdAt: Date.now(),
+            filename: `${(projectName || 'animatic').replace(/[^\w-]+/g, '_')}_animatic.mp4`
+        });
+
+        console.log(`🎞️ [Animatic] Render ${jobId}: ${clips.length} scenes, ${aspectRatio}, audio: ${!!audio}`);
+        runAnimaticRender(jobId, { clips, aspectRatio, audio, options });
+
+        res.json({ success: true, jobId });
+    } catch (error) {
+        console.error('[Animatic] Start render error:', error);
+        res.status(500).json({ error: error.message });
+    }
+});
+
+// GET /api/animatic/render/:jobId - poll progress
+app.get('/api/animatic/render/:jobId', (req, res) => {
+    const job = animaticJobs.get(req.params.jobId);
+    if (!job) return res.status(404).json({ error: 'Render job not found' });
+    res.json({
+        status: job.status,
+        progress: job.progress,
+        stage: job.stage,
+        error: job.error,
+        downloadUrl: job.status === 'done' ? `/api/animatic/download/${req.params.jobId}` : null
+    });
+});
+
+// GET /api/animatic/download/:jobId - the rendered MP4
+app.get('/api/animatic/download/:jobId', (req, res) => {
+    const job = animaticJobs.get(req.params.jobId);
+    if (!job || job.status !== 'done' || !job.outputPath) {
+        return res.status(404).json({ error: 'Render not available' });
+    }
+    res.download(job.outputPath, job.filename);
+});
+
+// ==================== VIDEO FRAME EXTRACTION (FFmpeg) ====================
+// Grabs one frame of a generated clip (URL or data URI) as a JPEG data URI, so it can go back
+// into the storyboard as a scene image, reference or end frame.
+
+// POST /api/video/extract-frame - { videoUrl, time?: seconds, fromEnd?: boolean }
+app.post('/api/video/extract-frame', async (req, res) => {
+    const { videoUrl, time, fromEnd } = req.body;
+    if (!videoUrl) return res.status(400).json({ error: 'videoUrl is required' });
+
+    const dir = fs.mkdtempSync(path.join(uploadDir, 'frame-'));
+    try {
+        const input = await materializeMedia(videoUrl, path.join(dir, 'source'));
+        if (!input) return res.status(400).json({ error: 'Unsupported video source' });
+
+        const output = path.join(dir, 'frame.jpg');
+        // -sseof seeks relative to the end; a small offset avoids an empty final packet
+        const seek = fromEnd ? ['-sseof', '-0.1'] : ['-ss', String(Math.max(0, Number(time) || 0))];
+        await runFfmpeg([...seek, '-i', input, '-frames:v', '1', '-q:v', '2', output]);
+
+        if (!fs.existsSync(output)) throw new Error('No frame at this position');
+        const image = `data:image/jpeg;base64,${fs.readFileSync(output).toString('base64')}`;
+        console.log(`🖼️ [Frames] Extracted ${fromEnd ? 'last frame' : `frame @ ${time}s`}`);
+        res.json({ success: true, image });
+    } catch (error) {
+        console.error('[Frames] Extraction error:', error);
+        res.status(500).json({ error: error.message });
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
+// ==================== MUSIC BEAT DETECTION (FFmpeg + onset analysis) ====================
+// Tempo and beat grid of an uploaded track, computed locally (no external service):
+// ffmpeg decodes to mono PCM, a log-energy flux gives the onset envelope, autocorrelation picks
+// the tempo and a dynamic-programming tracker lays beats on the strongest onsets (Ellis 2007).
+
+const BEAT_SAMPLE_RATE = 11025;
+const BEAT_HOP = 128;    // ~11.6 ms per onset frame
+const BEAT_WINDOW = 512;
+const BEAT_MIN_BPM = 60;
+const BEAT_MAX_BPM = 200;
+const BEAT_TIGHTNESS = 100; // How strongly the tracker sticks to the detected tempo
+const BEATS_PER_BAR = 4;    // 4/4 is assumed
+
+// Decode any audio file to mono float samples
+function decodeAudioPcm(input, sampleRate) {
+    return new Promise((resolve, reject) => {
+        const ffmpeg = spawn('ffmpeg', ['-hide_banner', '-i', input, '-ac', '1', '-ar', String(sampleRate), '-f', 'f32le', 'pipe:1']);
+        const chunks = [];
+        let stderr = '';
+        ffmpeg.stdout.on('data', (chunk) => chunks.push(chunk));
+        ffmpeg.stderr.on('data', (data) => { stderr = (stderr + data.toString()).slice(-4000); });
+        ffmpeg.on('error', reject);
+        ffmpeg.on('close', (code) => {
+            if (code !== 0) return reject(new Error(`ffmpeg exited with code ${code}: ${stderr.split('\n').slice(-3).join(' ')}`));
+            const buffer = Buffer.concat(chunks);
+            const length = Math.floor(buffer.length / 4);
+            // Copy so the Float32Array view is 4-byte aligned
+            resolve(new Float32Array(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + length * 4)));
+        });
+    });
+}
+
+// Positive change of log energy per frame, after a pre-emphasis that favours percussive attacks
+function computeOnsetEnvelope(samples) {
+    const frames = Math.max(0, Math.floor((samples.length - BEAT_WINDOW) / BEAT_HOP) + 1);
+    const logEnergy = new Float64Array(frames);
+    for (let f = 0; f < frames; f++) {
+        let sum = 0;
+        const offset = f * BEAT_HOP;
+        for (let i = 1; i < BEAT_WINDOW; i++) {
+            const s = samples[offset + i] - 0.97 * samples[offset + i - 1];
+            sum += s * s;
+        }
+        logEnergy[f] = Math.log(1e-8 + sum / BEAT_WINDOW);
+    }
+
+    const onset = new Float64Array(frames);
+    for (let f = 1; f < frames; f++) onset[f] = Math.max(0, logEnergy[f] - logEnergy[f - 1]);
+
+    // Zero-mean, unit-variance so scores are comparable between tracks
+    const mean = onset.reduce((a, b) => a + b, 0) / (frames || 1);
+    const std = Math.sqrt(onset.reduce((a, b) => a + (b - mean) ** 2, 0) / (frames || 1)) || 1;
+    for (let f = 0; f < frames; f++) onset[f] = (onset[f] - mean) / std;
+    return onset;
+}
+
+// Beat period in frames: strongest autocorrelation lag, weighted towards ~120 BPM
+function estimateBeatPeriod(onset, framesPerSecond) {
+    const minLag = Math.floor(60 * framesPerSecond / BEAT_MAX_BPM);
+    const maxLag = Math.ceil(60 * framesPerSecond / BEAT_MIN_BPM);
+    const scores = new Float64Array(maxLag + 2);
+    for (let lag = minLag; lag <= maxLag + 1; lag++) {
+        let sum = 0;
+        for (let i = 0; i + lag < onset.length; i++) sum += onset[i] * onset[i + lag];
+        const bpm = 60 * framesPerSecond / lag;
+        const prior = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2);
+        scores[lag] = prior * sum / Math.max(1, onset.length - lag);
+    }
+
+    let best = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) if (scores[lag] > scores[best]) best = lag;
+
+    // Parabolic interpolation around the peak for a fractional period
+    const [a, b, c] = [scores[best - 1] ?? scores[best], scores[best], scores[best + 1]];
+    const denominator = a - 2 * b + c;
+    return denominator < 0 ? best + 0.5 * (a - c) / denominator : best;
+}
+
+// Dynamic-programming beat tracker: each beat = onset strength + best previous beat about one period back
+function trackBeats(onset, period) {
+    const n = onset.length;
+    const score = new Float64Array(n);
+    const backlink = new Int32Array(n).fill(-1);
+
+    // Light smoothing so beats can land slightly off an onset peak
+    const radius = Math.max(1, Math.round(period / 16));
+    const local = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+        let sum = 0;
+        for (let k = -radius; k <= radius; k++) {
+            if (i + k >= 0 && i + k < n) sum += onset[i + k] * Math.exp(-0.5 * (k / radius) ** 2);
+        }
+        local[i] = sum;
+    }
+
+    for (let i = 0; i < n; i++) {
+        let best = -Infinity;
+        let bestPrev = -1;
+        for (let prev = Math.max(0, i - Math.round(2 * period)); prev <= i - Math.round(period / 2); prev++) {
+            const value = score[prev] - BEAT_TIGHTNESS * Math.log((i - prev) / period) ** 2;
+            if (value > best) { best = value; bestPrev = prev; }
+        }
+        score[i] = local[i] + (bestPrev >= 0 && best > 0 ? best : 0);
+        if (bestPrev >= 0 && best > 0) backlink[i] = bestPrev;
+    }
+
+    // Last beat: best score within the final period
+    let last = Math.max(0, n - Math.round(period));
+    for (let i = last; i < n; i++) if (score[i] > score[last]) last = i;
+
+    const beats = [];
+    for (let i = last; i >= 0; i = backlink[i]) beats.unshift(i);
+    return beats;
+}
+
+function detectBeats(samples, sampleRate) {
+    const framesPerSecond = sampleRate / BEAT_HOP;
+    const duration = samples.length / sampleRate;
+    const onset = computeOnsetEnvelope(samples);
+    if (onset.length < framesPerSecond * 2) throw new Error('Track is too short to detect a tempo');
+
+    const period = estimateBeatPeriod(onset, framesPerSecond);
+    const beatFrames = trackBeats(onset, period);
+    // Frame f covers [f * hop, f * hop + window): its energy peaks once the attack has fully entered
+    const beats = beatFrames.map(f => Math.round(((f * BEAT_HOP + BEAT_WINDOW) / sampleRate) * 1000) / 1000);
+
+    // Downbeat phase: the beat position in the bar with the strongest onsets
+    let downbeatOffset = 0;
+    let bestStrength = -Infinity;
+    for (let phase = 0; phase < BEATS_PER_BAR; phase++) {
+        const strengths = beatFrames.filter((_, i) => i % BEATS_PER_BAR === phase).map(f => onset[f]);
+        const strength = strengths.reduce((a, b) => a + b, 0) / (strengths.length || 1);
+        if (strength > bestStrength) { bestStrength = strength; downbeatOffset = phase; }
+    }
+
+    // Average over the whole grid: single intervals are quantized to the hop size
+    const beatInterval = beats.length > 1
+        ? (beats[beats.length - 1] - beats[0]) / (beats.length - 1)
+        : period / framesPerSecond;
+    return {
+        bpm: Math.round(600 / beatInterval) / 10,
+        beats,
+        beatsPerBar: BEATS_PER_BAR,
+        downbeatOffset,
+        duration: Math.round(duration * 1000) / 1000
+    };
+}
+
+// POST /api/music/analyze - { audio: data URI or URL } -> tempo, beat times and bar phase
+app.post('/api/music/analyze', async (req, res) => {
+    const { audio } = req.body;
+    if (!audio) return res.status(400).json({ error: 'audio is required' });
+
+    const dir = fs.mkdtempSync(path.join(uploadDir, 'music-'));
+    try {
+        const input = await materializeMedia(audio, path.join(dir, 'track'));
+        if (!input) return res.status(400).json({ error: 'Unsupported audio source' });
+
+        const samples = await decodeAudioPcm(input, BEAT_SAMPLE_RATE);
+        const analysis = detectBeats(samples, BEAT_SAMPLE_RATE);
+        console.log(`🎵 [Music] ${analysis.bpm} BPM, ${analysis.beats.length} beats over ${analysis.duration}s`);
+        res.json({ success: true, ...analysis });
+    } catch (error) {
+        console.error('[Music] Beat detection error:', error);
+        res.status(500).json({ error: error.message });
+    } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+    }
+});
+
 // ==================== SERVER START ====================
 const PORT = process.env.PORT || 3001;
 
@@ -1,3 +1,5 @@
+import type { ScriptAnalysisResult, ScriptAnalysisProgress } from './hooks/useScriptAnalysis';
+
 // Character Style System Types (defined here to avoid circular imports)
 export type CharacterStyleCategory = 'faceless' | 'stylized' | 'realistic' | 'custom';
 
@@ -20,12 +22,6 @@ export interface CharacterStyleDefinition {
   icon?: string;
 }
 
-export interface CharacterProp {
-  id: string;
-  name: string; // Tên vật phẩm (ví dụ: "Kiếm", "Búa") để AI nhận diện trong prompt
-  image: string | null; // Base64
-}
-
 export interface Character {
   id: string;
   name: string;
@@ -37,7 +33,6 @@ export interface Character {
   bodyImage: string | null; // Slot 2: Outfit/Turnaround (Auto-generated or Manual)
   sideImage: string | null; // Slot 3: Side Profile
   backImage: string | null; // Slot 4: Back View
-  props: CharacterProp[]; // Deprecated UI section, kept for backward compat
 
   isDefault: boolean;
   isAnalyzing?: boolean;
@@ -54,6 +49,9 @@ export interface Character {
   // Model preference for Lora generation (Gemini or Gommo)
   preferredModel?: string; // 'gemini-3-pro-image-preview' | 'google_nano_banana_pro'
 
+  // Voice used for this character's dialogue (TTS_VOICES)
+  voiceId?: string;
+
   // Separate Histories for different views
   masterEditHistory?: { id: string; image: string; prompt: string }[];
   faceEditHistory?: { id: string; image: string; prompt: string }[];
@@ -61,8 +59,6 @@ export interface Character {
   sideEditHistory?: { id: string; image: string; prompt: string }[];
   backEditHistory?: { id: string; image: string; prompt: string }[];
 
-  editHistory?: { id: string; image: string; prompt: string }[]; // Deprecated, kept for compat
-
   // DOP Learning System
   dopRecordId?: string; // ID for quality rating and learning
 }
@@ -81,6 +77,7 @@ export interface SceneGroup {
   customStyleInstruction?: string; // Optional: Custom style prompt for this group
   conceptImage?: string | null; // AI-generated reference image for the group's location (override)
   pacing?: 'slow' | 'medium' | 'fast'; // Narrative rhythm for the group
+  bars?: number; // Length in bars of the music track (beat-synced music videos)
 
   // Location Library Integration (NEW)
   locationId?: string; // Link to shared Location - overrides local conceptImage
@@ -95,6 +92,9 @@ export interface SceneGroup {
 
   // Spatial Anchoring (Environment Mapping)
   spatialAnchors?: Record<string, string>; // Compass mapping: "NORTH": "Window wall", "SOUTH": "Door wall"
+
+  // Frame Chaining: each scene's clip starts on the previous scene's last frame
+  chainFrames?: boolean;
 }
 
 // NEW: Location entity for shared concept art across scene groups
@@ -123,9 +123,9 @@ export interface Scene {
   sceneNumber: string;
   groupId?: string; // ID of the SceneGroup this scene belongs to
 
-  // Legacy fields (backward compatibility)
-  language1: string;
-  vietnamese: string;
+  // Script line of the scene (see ProjectState.scriptLanguage)
+  scriptText: string; // Primary line, in the project's script language
+  scriptTranslation: string; // Secondary line: English for Vietnamese projects, Vietnamese otherwise
 
   // Structured Script Output Fields (New)
   voiceover?: string; // Narration/voiceover text
@@ -153,7 +153,12 @@ export interface Scene {
   mediaId?: string; // Google Labs Media ID for Video Gen
   generatedVideo?: string; // URL of generated video
   videoOperationName?: string; // Operation Name for Polling
-  videoStatus?: string; // Status: 'active', 'succeeded', 'failed'
+  videoStatus?: string; // Status: 'queued', 'starting', 'active', 'succeeded', 'failed'
+  videoError?: string; // Last video job error
+  videoHistory?: VideoTake[]; // Every finished take, oldest first
+  heroTakeId?: string; // Take shown as generatedVideo
+  videoModel?: string; // Video model (VIDEO_MODELS / Gommo catalogue); falls back to ProjectState.videoModel
+  videoDuration?: number; // Clip length in seconds, one of the model's durations
   veoPrompt: string; // Prompt tối ưu cho Google Veo
 
   veoPreset?: string; // Preset style for Veo prompt
@@ -161,6 +166,8 @@ export interface Scene {
   veoCameraMotion?: string; // Camera motion for Veo (e.g., 'orbit-left', 'dolly-in', 'pan-right')
   imageRole?: 'single' | 'start-frame' | 'end-frame'; // Role of generatedImage
   endFrameImage?: string | null; // End frame for Start/End Frame mode
+  chainedStartFrame?: string | null; // Start frame inherited from the previous scene of a chained group
+  chainedFromSceneId?: string; // Scene the chained start frame was taken from
 
   // Prop & Vision Reference (User-defined or copy from other scenes)
   referenceImage?: string | null; // Base64 or URL
@@ -170,8 +177,13 @@ export interface Scene {
   voiceOverText?: string; // Original VO script text (READONLY after import)
   isVOScene?: boolean; // True if this scene has voice-over attached
   isDialogueScene?: boolean; // True if this scene has actual character dialogue (not narration)
-  voSecondsEstimate?: number; // Estimated VO duration in seconds
+  voSecondsEstimate?: number; // VO duration in seconds: word-count estimate, then the measured TTS length
+  voiceAudio?: SceneAudioClip[]; // Generated narration/dialogue audio, in playback order
+  isVoiceGenerating?: boolean;
+  voiceError?: string; // Last TTS error
+  animaticDuration?: number; // Manual retime on the animatic timeline (seconds), overrides the VO estimate
   referenceSceneId?: string; // For B-roll: ID of the VO scene this expands
+  scriptSourceId?: string; // Manual Script: analysis scene this came from, kept by incremental re-analysis
 
   // Key Frame Strategy
   isKeyFrame?: boolean; // Mark as hero shot - becomes reference anchor for nearby scenes
@@ -185,6 +197,7 @@ export interface Scene {
   generationDuration?: number; // Time taken to generate this image (ms)
   generationStartTime?: number; // Timestamp when generation started (for realtime timer)
   generatedByModel?: string; // Which AI model generated this image (e.g., 'midjourney_7_0', 'gemini-3-pro-image-preview')
+  generationCost?: number; // Estimated credits spent on this scene's images (all takes)
 
   // UI state
   isGenerating: boolean;
@@ -263,14 +276,30 @@ export interface GalleryAsset {
   sourceId?: string; // id of scene/char/product it came from
 }
 
+// Content-addressed image in a saved project (see utils/assetStore.ts)
+export interface StoredAsset {
+  hash: string;
+  mimeType: string;
+  size: number; // Approximate decoded size in bytes
+  refCount: number; // Number of fields referencing this asset
+  data?: string; // Data URI (JSON files)
+  path?: string; // File inside a ZIP package
+}
+
 export type EditingMode = 'remove' | 'add' | 'style' | 'inpaint' | 'text-edit';
 
 export interface ProjectState {
+  schemaVersion?: number; // Saved-file schema version (see utils/projectMigrations.ts)
+  assets?: Record<string, StoredAsset>; // Saved files only: images referenced as `asset:<hash>`, resolved on load
+  projectId?: string; // Stable local id keying recovery points and snapshots (saves from older versions have none)
   projectName: string;
   detailedScript?: string;
   customScriptInstruction?: string; // Custom meta tokens for script generation
   stylePrompt: string;
   imageModel: string; // Selected Image Gen Model
+  videoModel?: string; // Default video model for scenes without their own
+  narratorVoiceId?: string; // TTS voice for narration and characters without a voice
+  musicTrack?: MusicTrack; // Song the cut is synced to
   genyuToken?: string; // Token for Genyu API access
 
   // Gommo AI Provider (Alternative to Gemini)
@@ -334,7 +363,9 @@ export interface ProjectState {
     directorNotes: string;
     dopNotes: string;
     storyContext: string;
-    analysisResult: any | null; // ScriptAnalysisResult - use any to avoid circular import
+    analysisResult: ScriptAnalysisResult | null;
+    analysisProgress?: ScriptAnalysisProgress | null; // Unfinished chunked analysis to resume
+    lastAnalysis?: ScriptAnalysisResult | null; // Kept while the script is edited, for re-analyzing only the changes
   };
 
   // Agent Thinking State
@@ -369,11 +400,51 @@ export interface ProjectState {
     lastGeneratedAt?: string;
   };
 
+  // Credit budget for image generation (NEW)
+  creditBudget?: CreditBudget;
+  creditsSpent?: number; // Credits spent by this project (see utils/creditBudget); usageStats is account-wide and synced from cloud
+
   // Generation Configuration (NEW)
 
   generationConfig?: GenerationConfig;
 }
 
+export interface VideoTake {
+  id: string;
+  url: string;
+  prompt: string;
+  operationName?: string;
+  createdAt: number;
+}
+
+export interface SceneAudioClip {
+  id: string;
+  kind: 'narration' | 'dialogue';
+  characterId?: string; // Speaker of a dialogue line
+  text: string;
+  voiceId: string;
+  url: string; // Audio URL or data URI
+  duration: number; // Measured (seconds)
+  createdAt: number;
+}
+
+// Uploaded song with its beat grid (detected by the local server)
+export interface MusicTrack {
+  name: string;
+  url: string; // `media:<hash>` of the file in the local asset store, or a storage URL after cloud save
+  duration: number; // Seconds
+  bpm: number;
+  beats: number[]; // Beat times (seconds)
+  beatsPerBar: number;
+  downbeatOffset: number; // Index in `beats` of the first downbeat
+}
+
+export interface CreditBudget {
+  projectLimit?: number; // Max credits for the whole project (undefined = unlimited)
+  runLimit?: number;     // Max credits for a single batch run
+  warnAt: number;        // Fraction of a limit (0-1) that triggers a warning
+}
+
 export interface GenerationConfig {
   imageDelay: number;
   veoDelay: number;
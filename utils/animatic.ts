@@ -0,0 +1,227 @@
+/**
+ * Animatic Timeline
+ * Lays scenes out as a cut: duration per scene, transitions between them, Ken Burns moves for stills.
+ *
+ * - Duration: manual retime (animaticDuration) > measured TTS audio > VO estimate > default for stills / Veo clips
+ * - A scene's transitionType applies to the cut INTO the next scene and occupies the end of the scene
+ * - Ken Burns moves are derived from veoCameraMotion so stills preview the intended camera move
+ *
+ * Pure functions only; the player components render the state returned by getAnimaticFrame().
+ */
+
+import type { Scene } from '../types';
+
+export const DEFAULT_STILL_SECONDS = 3;
+export const DEFAULT_VIDEO_SECONDS = 8; // Veo clip length
+export const MIN_SCENE_SECONDS = 0.5;
+export const MAX_SCENE_SECONDS = 30;
+
+export type TransitionKind = 'cut' | 'dissolve' | 'fade-black' | 'fade-white' | 'wipe';
+
+// TRANSITION_TYPES value -> how it is rendered and how long it takes (seconds)
+const TRANSITION_RENDERING: Record<string, { kind: TransitionKind; duration: number }> = {
+    '': { kind: 'cut', duration: 0 },
+    'cut': { kind: 'cut', duration: 0 },
+    'match-cut': { kind: 'cut', duration: 0 },
+    'jump-cut': { kind: 'cut', duration: 0 },
+    'smash-cut': { kind: 'cut', duration: 0 },
+    'l-cut': { kind: 'cut', duration: 0 },
+    'j-cut': { kind: 'cut', duration: 0 },
+    'dissolve': { kind: 'dissolve', duration: 0.8 },
+    'fade-black': { kind: 'fade-black', duration: 1 },
+    'fade-white': { kind: 'fade-white', duration: 1 },
+    'wipe': { kind: 'wipe', duration: 0.6 }
+};
+
+export interface AnimaticClip {
+    sceneId: string;
+    sceneNumber: string;
+    start: number;    // seconds from the beginning of the cut
+    duration: number; // seconds
+    media: { type: 'video' | 'image' | 'none'; src: string | null };
+    cameraMotion?: string;
+    transition: { type: string; kind: TransitionKind; duration: number }; // into the next clip
+    isRetimed: boolean;
+}
+
+export interface AnimaticTimeline {
+    clips: AnimaticClip[];
+    totalDuration: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Timeline
+// ═══════════════════════════════════════════════════════════════
+
+export const clampSceneDuration = (seconds: number): number =>
+    Math.round(Math.min(MAX_SCENE_SECONDS, Math.max(MIN_SCENE_SECONDS, seconds)) * 10) / 10;
+
+export function getSceneDuration(scene: Scene): number {
+    if (scene.animaticDuration) return clampSceneDuration(scene.animaticDuration);
+    if (scene.voSecondsEstimate) return clampSceneDuration(scene.voSecondsEstimate);
+    return scene.generatedVideo ? DEFAULT_VIDEO_SECONDS : DEFAULT_STILL_SECONDS;
+}
+
+export function getTransitionRendering(transitionType?: string): { kind: TransitionKind; duration: number } {
+    return TRANSITION_RENDERING[transitionType || ''] || TRANSITION_RENDERING['cut'];
+}
+
+export function buildAnimaticTimeline(scenes: Scene[]): AnimaticTimeline {
+    let cursor = 0;
+    const clips = scenes.map((scene, index): AnimaticClip => {
+        const duration = getSceneDuration(scene);
+        const isLast = index === scenes.length - 1;
+        const rendering = isLast ? TRANSITION_RENDERING['cut'] : getTransitionRendering(scene.transitionType);
+        const clip: AnimaticClip = {
+            sceneId: scene.id,
+            sceneNumber: scene.sceneNumber,
+            start: cursor,
+            duration,
+            media: scene.generatedVideo
+                ? { type: 'video', src: scene.generatedVideo }
+                : scene.generatedImage ? { type: 'image', src: scene.generatedImage } : { type: 'none', src: null },
+            cameraMotion: scene.veoCameraMotion,
+            // A transition never takes more than half of the scene
+            transition: { type: scene.transitionType || '', kind: rendering.kind, duration: Math.min(rendering.duration, duration / 2) },
+            isRetimed: !!scene.animaticDuration
+        };
+        cursor += duration;
+        return clip;
+    });
+    return { clips, totalDuration: cursor };
+}
+
+export function findClipIndexAt(timeline: AnimaticTimeline, time: number): number {
+    const { clips } = timeline;
+    if (clips.length === 0) return -1;
+    const index = clips.findIndex(c => time >= c.start && time < c.start + c.duration);
+    return index === -1 ? clips.length - 1 : index;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Ken Burns
+// ═══════════════════════════════════════════════════════════════
+
+export interface KenBurnsFrame {
+    scale: number;
+    x: number;      // translate, % of the frame
+    y: number;
+    rotate: number; // degrees
+}
+
+type KenBurnsMove = { from: KenBurnsFrame; to: KenBurnsFrame };
+
+const frame = (scale: number, x = 0, y = 0, rotate = 0): KenBurnsFrame => ({ scale, x, y, rotate });
+
+// Stills are scaled up enough that the pan never shows the frame edge
+const KEN_BURNS_MOVES: Record<string, KenBurnsMove> = {
+    'static': { from: frame(1.05), to: frame(1.05) },
+    'steady': { from: frame(1.05), to: frame(1.07) },
+    'dolly-in': { from: frame(1.05), to: frame(1.25) },
+    'zoom-in': { from: frame(1.05), to: frame(1.3) },
+    'zoom-crash': { from: frame(1.05), to: frame(1.5) },
+    'dolly-out': { from: frame(1.25), to: frame(1.05) },
+    'zoom-out': { from: frame(1.3), to: frame(1.05) },
+    'pan-left': { from: frame(1.2, 6), to: frame(1.2, -6) },
+    'pan-right': { from: frame(1.2, -6), to: frame(1.2, 6) },
+    'track-left': { from: frame(1.2, 6), to: frame(1.2, -6) },
+    'track-right': { from: frame(1.2, -6), to: frame(1.2, 6) },
+    'tilt-up': { from: frame(1.2, 0, -6), to: frame(1.2, 0, 6) },
+    'tilt-down': { from: frame(1.2, 0, 6), to: frame(1.2, 0, -6) },
+    'crane-up': { from: frame(1.15, 0, -5), to: frame(1.25, 0, 5) },
+    'crane-down': { from: frame(1.25, 0, 5), to: frame(1.15, 0, -5) },
+    'aerial-rise': { from: frame(1.3, 0, -4), to: frame(1.1, 0, 4) },
+    'aerial-descend': { from: frame(1.1, 0, 4), to: frame(1.3, 0, -4) },
+    'orbit-left': { from: frame(1.2, 5, 0, -1), to: frame(1.2, -5, 0, 1) },
+    'orbit-right': { from: frame(1.2, -5, 0, 1), to: frame(1.2, 5, 0, -1) },
+    'roll': { from: frame(1.2, 0, 0, -3), to: frame(1.2, 0, 0, 3) }
+};
+
+// Default: slow push-in, the classic Ken Burns
+const DEFAULT_KEN_BURNS: KenBurnsMove = { from: frame(1.05), to: frame(1.15) };
+
+export function getKenBurnsMove(cameraMotion?: string): KenBurnsMove {
+    if (!cameraMotion) return DEFAULT_KEN_BURNS;
+    if (KEN_BURNS_MOVES[cameraMotion]) return KEN_BURNS_MOVES[cameraMotion];
+    // Families without an exact entry (track-follow, handheld-*, aerial-flyby...) use their category's closest move
+    if (cameraMotion.startsWith('track') || cameraMotion.startsWith('aerial')) return KEN_BURNS_MOVES['pan-right'];
+    if (cameraMotion.startsWith('handheld')) return KEN_BURNS_MOVES['steady'];
+    return DEFAULT_KEN_BURNS;
+}
+
+export function interpolateKenBurns(move: KenBurnsMove, progress: number): KenBurnsFrame {
+    // Ease in-out so moves start and settle smoothly
+    const p = Math.min(1, Math.max(0, progress));
+    const t = p < 0.5 ? 2 * p * p : 1 - Math.pow(-2 * p + 2, 2) / 2;
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+    return {
+        scale: lerp(move.from.scale, move.to.scale),
+        x: lerp(move.from.x, move.to.x),
+        y: lerp(move.from.y, move.to.y),
+        rotate: lerp(move.from.rotate, move.to.rotate)
+    };
+}
+
+export const kenBurnsTransform = (f: KenBurnsFrame): string =>
+    `scale(${f.scale.toFixed(4)}) translate(${f.x.toFixed(2)}%, ${f.y.toFixed(2)}%) rotate(${f.rotate.toFixed(2)}deg)`;
+
+// ═══════════════════════════════════════════════════════════════
+// Frame state
+// ═══════════════════════════════════════════════════════════════
+
+export interface AnimaticLayer {
+    clip: AnimaticClip;
+    localTime: number; // seconds into the clip (may be negative while it fades in early)
+    opacity: number;
+    clipPath?: string; // CSS clip-path for wipes
+}
+
+export interface AnimaticFrame {
+    layers: AnimaticLayer[]; // bottom to top
+    overlay: { color: 'black' | 'white'; opacity: number } | null;
+    clipIndex: number;
+}
+
+/**
+ * What is on screen at `time`: the current clip, plus the next clip / color overlay while a transition runs.
+ */
+export function getAnimaticFrame(timeline: AnimaticTimeline, time: number): AnimaticFrame {
+    const clipIndex = findClipIndexAt(timeline, time);
+    if (clipIndex === -1) return { layers: [], overlay: null, clipIndex };
+
+    const clip = timeline.clips[clipIndex];
+    const localTime = time - clip.start;
+    const layers: AnimaticLayer[] = [{ clip, localTime, opacity: 1 }];
+    let overlay: AnimaticFrame['overlay'] = null;
+
+    // Transition out of the current clip (last `duration` seconds)
+    const next = timeline.clips[clipIndex + 1];
+    const { kind, duration } = clip.transition;
+    const remaining = clip.duration - localTime;
+    if (next && duration > 0 && remaining < duration) {
+        const p = 1 - remaining / duration;
+        if (kind === 'dissolve') {
+            layers.push({ clip: next, localTime: -remaining, opacity: p });
+        } else if (kind === 'wipe') {
+            layers.push({ clip: next, localTime: -remaining, opacity: 1, clipPath: `inset(0 ${((1 - p) * 100).toFixed(2)}% 0 0)` });
+        } else if (kind === 'fade-black' || kind === 'fade-white') {
+            overlay = { color: kind === 'fade-black' ? 'black' : 'white', opacity: p };
+        }
+    }
+
+    // Fade back in from the previous clip's fade-to-color (first `duration` seconds)
+    const prev = timeline.clips[clipIndex - 1];
+    if (prev && (prev.transition.kind === 'fade-black' || prev.transition.kind === 'fade-white') && localTime < prev.transition.duration) {
+        overlay = { color: prev.transition.kind === 'fade-black' ? 'black' : 'white', opacity: 1 - localTime / prev.transition.duration };
+    }
+
+    return { layers, overlay, clipIndex };
+}
+
+export function formatTimecode(seconds: number): string {
+    const s = Math.max(0, seconds);
+    const minutes = Math.floor(s / 60);
+    const secs = Math.floor(s % 60);
+    const tenths = Math.floor((s * 10) % 10);
+    return `${minutes}:${secs.toString().padStart(2, '0')}.${tenths}`;
+}
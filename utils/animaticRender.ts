@@ -0,0 +1,99 @@
+/**
+ * Animatic Render (client)
+ * Sends the animatic timeline to the server's ffmpeg renderer and polls the job.
+ *
+ * - Payload mirrors buildAnimaticTimeline(): durations, transitions, Ken Burns moves per scene
+ * - blob: URLs only exist in this tab, so they are inlined as data URIs before upload
+ * - Scene TTS clips travel with their scene (offset from the scene start) and are mixed under the cut
+ * - Server: POST /api/animatic/render -> jobId, GET /api/animatic/render/:jobId -> progress
+ */
+
+import type { Scene } from '../types';
+import { buildAnimaticTimeline, getKenBurnsMove } from './animatic';
+import { getCurrentVoiceAudio } from './voiceover';
+
+export interface AnimaticRenderOptions {
+    burnSceneNumbers: boolean;
+    burnCaptions: boolean;
+    includeSceneVoice: boolean; // Mix each scene's TTS clips in at the scene start
+}
+
+export type AnimaticRenderStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface AnimaticRenderJob {
+    status: AnimaticRenderStatus;
+    progress: number; // 0-1
+    stage: string;
+    error: string | null;
+    downloadUrl: string | null;
+}
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+});
+
+async function toUploadableSource(src: string | null): Promise<string | null> {
+    if (!src || !src.startsWith('blob:')) return src;
+    const response = await fetch(src);
+    return blobToDataUrl(await response.blob());
+}
+
+// Back-to-back TTS clips of a scene, as offsets from the scene start (stale clips are left out)
+async function getVoiceLines(scene: Scene | undefined): Promise<{ src: string | null; offset: number }[]> {
+    let offset = 0;
+    const lines = [];
+    for (const clip of (scene && getCurrentVoiceAudio(scene)) || []) {
+        lines.push({ src: await toUploadableSource(clip.url), offset });
+        offset += clip.duration;
+    }
+    return lines;
+}
+
+/**
+ * Start a render. `audio` is an optional VO track (data URI or URL) laid under the whole cut.
+ */
+export async function startAnimaticRender(
+    scenes: Scene[],
+    aspectRatio: string,
+    options: AnimaticRenderOptions,
+    audio?: string | null,
+    projectName?: string
+): Promise<string> {
+    const timeline = buildAnimaticTimeline(scenes);
+    const clips = await Promise.all(timeline.clips.map(async clip => {
+        const scene = scenes.find(s => s.id === clip.sceneId);
+        return {
+            sceneNumber: clip.sceneNumber,
+            duration: clip.duration,
+            media: { type: clip.media.type, src: await toUploadableSource(clip.media.src) },
+            kenBurns: getKenBurnsMove(clip.cameraMotion),
+            transition: clip.transition,
+            caption: scene?.voiceOverText || scene?.voiceover || '',
+            voice: options.includeSceneVoice ? await getVoiceLines(scene) : []
+        };
+    }));
+
+    console.log(`[Animatic] 🎞️ Starting render: ${clips.length} scenes, ${timeline.totalDuration.toFixed(1)}s`);
+    const response = await fetch('/api/animatic/render', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ clips, aspectRatio, options, audio: await toUploadableSource(audio || null), projectName })
+    });
+    const data = await response.json();
+    if (!response.ok || !data.jobId) {
+        throw new Error(data.error || `Render request failed (${response.status})`);
+    }
+    return data.jobId;
+}
+
+export async function getAnimaticRenderJob(jobId: string): Promise<AnimaticRenderJob> {
+    const response = await fetch(`/api/animatic/render/${jobId}`);
+    const data = await response.json();
+    if (!response.ok) {
+        throw new Error(data.error || `Render status failed (${response.status})`);
+    }
+    return data;
+}
@@ -3,7 +3,10 @@
  * Centralized configuration for styles, camera settings, and defaults
  */
 
-import type { ProjectState, Character, CharacterProp } from '../types';
+import type { ProjectState, Character } from '../types';
+import type { ImageModelOption } from './imageProviders/types';
+import type { VideoModelOption } from './videoProviders/types';
+import type { TtsVoice } from './voiceover';
 
 // --- App Metadata ---
 export const APP_NAME = "Khung Ứng Dụng";
@@ -133,7 +136,8 @@ export const IMAGE_PROVIDERS = [
 ];
 
 // IMAGE_MODELS - Reorganized by Provider with Colors (Real-time from Gommo API)
-export const IMAGE_MODELS = [
+// `provider` selects the adapter in utils/imageProviders
+export const IMAGE_MODELS: ImageModelOption[] = [
     // ═══════════════════════════════════════════════════════════════════════════
     // 👑 IMPERIAL ULTRA - Premium Gemini 3 Access
     // ═══════════════════════════════════════════════════════════════════════════
@@ -161,40 +165,40 @@ export const IMAGE_MODELS = [
     { value: '__header_gommo__', label: '─── 🟡 GOMMO PROXY ───', provider: 'gommo', isHeader: true, color: 'yellow' },
 
     // Google via Gommo
-    { value: 'google_image_gen_banana_pro', label: '🟡 Nano Banana Pro (4K)', provider: 'gommo', description: 'High Quality - 250 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'google_image_gen_banana_pro_reason', label: '🟡 Nano Banana Pro Reason', provider: 'gommo', description: 'AI Reasoning - 150 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'google_image_gen_4_5', label: '🟡 Imagen 4.5 (Fast)', provider: 'gommo', description: 'Smart & Fast - 70 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'google_image_gen_3_5', label: '🟡 Imagen 4 (Realism)', provider: 'gommo', description: 'Best Realism - 50 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'google_image_gen_banana', label: '🟡 Nano Banana (Edit)', provider: 'gommo', description: 'Best for Edit - 150 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'google_image_gen_banana_pro_cheap', label: '🟡 Nano Banana Pro Cheap', provider: 'gommo', description: 'Backup - 150 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_banana_pro', label: '🟡 Nano Banana Pro (4K)', provider: 'gommo', description: 'High Quality - 250 credits', credits: 250, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_banana_pro_reason', label: '🟡 Nano Banana Pro Reason', provider: 'gommo', description: 'AI Reasoning - 150 credits', credits: 150, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_4_5', label: '🟡 Imagen 4.5 (Fast)', provider: 'gommo', description: 'Smart & Fast - 70 credits', credits: 70, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_3_5', label: '🟡 Imagen 4 (Realism)', provider: 'gommo', description: 'Best Realism - 50 credits', credits: 50, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_banana', label: '🟡 Nano Banana (Edit)', provider: 'gommo', description: 'Best for Edit - 150 credits', credits: 150, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'google_image_gen_banana_pro_cheap', label: '🟡 Nano Banana Pro Cheap', provider: 'gommo', description: 'Backup - 150 credits', credits: 150, supportsEdit: true, supportsSubject: true, color: 'yellow' },
 
     // ByteDance
-    { value: 'seedream_4_5', label: '🟡 Seedream 4.5', provider: 'gommo', description: 'ByteDance 4K - 250 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'seedream_4_0', label: '🟡 Seedream 4.0 (Edit)', provider: 'gommo', description: 'Best for Edit - 200 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'dreamina_3_1', label: '🟡 Dreamina 3.1', provider: 'gommo', description: 'ByteDance - 150 credits', supportsEdit: true, supportsSubject: false, color: 'yellow' },
+    { value: 'seedream_4_5', label: '🟡 Seedream 4.5', provider: 'gommo', description: 'ByteDance 4K - 250 credits', credits: 250, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'seedream_4_0', label: '🟡 Seedream 4.0 (Edit)', provider: 'gommo', description: 'Best for Edit - 200 credits', credits: 200, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'dreamina_3_1', label: '🟡 Dreamina 3.1', provider: 'gommo', description: 'ByteDance - 150 credits', credits: 150, supportsEdit: true, supportsSubject: false, color: 'yellow' },
 
     // Kling AI
-    { value: 'o1', label: '🟡 IMAGE O1 - Kling', provider: 'gommo', description: 'Consistency - 150 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'kling_colors_2_0', label: '🟡 COLORS 2.0', provider: 'gommo', description: 'Kling AI - 100 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'kling_colors_2_1', label: '🟡 COLORS 2.1', provider: 'gommo', description: 'Kling AI - 100 credits', supportsEdit: true, supportsSubject: false, color: 'yellow' },
-    { value: 'kling_colors_1_5', label: '🟡 COLORS 1.5 (Face)', provider: 'gommo', description: 'Face Focus - 100 credits', supportsEdit: true, supportsSubject: false, color: 'yellow' },
+    { value: 'o1', label: '🟡 IMAGE O1 - Kling', provider: 'gommo', description: 'Consistency - 150 credits', credits: 150, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'kling_colors_2_0', label: '🟡 COLORS 2.0', provider: 'gommo', description: 'Kling AI - 100 credits', credits: 100, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'kling_colors_2_1', label: '🟡 COLORS 2.1', provider: 'gommo', description: 'Kling AI - 100 credits', credits: 100, supportsEdit: true, supportsSubject: false, color: 'yellow' },
+    { value: 'kling_colors_1_5', label: '🟡 COLORS 1.5 (Face)', provider: 'gommo', description: 'Face Focus - 100 credits', credits: 100, supportsEdit: true, supportsSubject: false, color: 'yellow' },
 
     // Others
-    { value: 'z_image', label: '🟡 Z-Image Realism', provider: 'gommo', description: 'Alibaba Wanx - 100 credits', supportsEdit: true, supportsSubject: false, color: 'yellow' },
-    { value: 'hailuo_image_1', label: '🟡 Image-01 (Hailuo)', provider: 'gommo', description: 'High Detail - 50 credits', supportsEdit: true, supportsSubject: true, color: 'yellow' },
-    { value: 'midjourney_7_0', label: '🟡 Midjourney 7.0', provider: 'gommo', description: '4 images/req - 400 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'midjourney_6_1', label: '🟡 Midjourney 6.1', provider: 'gommo', description: '300 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'ideogram_v3', label: '🟡 Ideogram V3', provider: 'gommo', description: 'Best for Text - 150 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'ideogram_v2_turbo', label: '🟡 Ideogram V2 Turbo', provider: 'gommo', description: '100 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'recraft_v3', label: '🟡 Recraft V3', provider: 'gommo', description: 'Vector Art - 150 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'flux_1_1_ultra', label: '🟡 FLUX 1.1 Ultra (Gommo)', provider: 'gommo', description: '200 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'flux_1_1_pro', label: '🟡 FLUX 1.1 Pro (Gommo)', provider: 'gommo', description: '150 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'flux_dev', label: '🟡 FLUX Dev (Gommo)', provider: 'gommo', description: '50 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'flux_schnell', label: '🟡 FLUX Schnell (Gommo)', provider: 'gommo', description: 'FREE', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'sd_3_5_large', label: '🟡 SD 3.5 Large', provider: 'gommo', description: 'Stability AI - 100 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'sd_3_5_medium', label: '🟡 SD 3.5 Medium', provider: 'gommo', description: '50 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'dalle_3', label: '🟡 DALL-E 3', provider: 'gommo', description: 'OpenAI - 200 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
-    { value: 'playground_v3', label: '🟡 Playground V3', provider: 'gommo', description: 'Creative - 100 credits', supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'z_image', label: '🟡 Z-Image Realism', provider: 'gommo', description: 'Alibaba Wanx - 100 credits', credits: 100, supportsEdit: true, supportsSubject: false, color: 'yellow' },
+    { value: 'hailuo_image_1', label: '🟡 Image-01 (Hailuo)', provider: 'gommo', description: 'High Detail - 50 credits', credits: 50, supportsEdit: true, supportsSubject: true, color: 'yellow' },
+    { value: 'midjourney_7_0', label: '🟡 Midjourney 7.0', provider: 'gommo', description: '4 images/req - 400 credits', credits: 400, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'midjourney_6_1', label: '🟡 Midjourney 6.1', provider: 'gommo', description: '300 credits', credits: 300, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'ideogram_v3', label: '🟡 Ideogram V3', provider: 'gommo', description: 'Best for Text - 150 credits', credits: 150, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'ideogram_v2_turbo', label: '🟡 Ideogram V2 Turbo', provider: 'gommo', description: '100 credits', credits: 100, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'recraft_v3', label: '🟡 Recraft V3', provider: 'gommo', description: 'Vector Art - 150 credits', credits: 150, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'flux_1_1_ultra', label: '🟡 FLUX 1.1 Ultra (Gommo)', provider: 'gommo', description: '200 credits', credits: 200, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'flux_1_1_pro', label: '🟡 FLUX 1.1 Pro (Gommo)', provider: 'gommo', description: '150 credits', credits: 150, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'flux_dev', label: '🟡 FLUX Dev (Gommo)', provider: 'gommo', description: '50 credits', credits: 50, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'flux_schnell', label: '🟡 FLUX Schnell (Gommo)', provider: 'gommo', description: 'FREE', credits: 0, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'sd_3_5_large', label: '🟡 SD 3.5 Large', provider: 'gommo', description: 'Stability AI - 100 credits', credits: 100, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'sd_3_5_medium', label: '🟡 SD 3.5 Medium', provider: 'gommo', description: '50 credits', credits: 50, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'dalle_3', label: '🟡 DALL-E 3', provider: 'gommo', description: 'OpenAI - 200 credits', credits: 200, supportsEdit: false, supportsSubject: false, color: 'yellow' },
+    { value: 'playground_v3', label: '🟡 Playground V3', provider: 'gommo', description: 'Creative - 100 credits', credits: 100, supportsEdit: false, supportsSubject: false, color: 'yellow' },
 ];
 
 // CHARACTER_MODELS - Models for character/lora generation
@@ -229,6 +233,38 @@ export const NOEDIT_MODELS = IMAGE_MODELS.filter(m => !m.supportsEdit && !m.isHe
 // Get selectable models (exclude headers)
 export const SELECTABLE_IMAGE_MODELS = IMAGE_MODELS.filter(m => !m.isHeader);
 
+// VIDEO_MODELS - Built-in video models; Gommo video models are appended at runtime from listModels('video')
+// `provider` selects the adapter in utils/videoProviders
+export const VIDEO_MODELS: VideoModelOption[] = [
+    { value: '__header_labs_veo__', label: '─── 🔵 GOOGLE LABS (VEO) ───', provider: 'labs-veo', isHeader: true, capabilities: { durations: [8], supportsStartFrame: true, supportsEndFrame: true, aspectRatios: ['16:9', '9:16'] } },
+    { value: 'veo_3_1_i2v_s_fast_ultra', label: '🔵 Veo 3.1 Fast', provider: 'labs-veo', description: 'Google Labs - Image to Video, Start/End Frame', capabilities: { durations: [8], supportsStartFrame: true, supportsEndFrame: true, aspectRatios: ['16:9', '9:16'] } },
+];
+
+export const DEFAULT_VIDEO_MODEL = 'veo_3_1_i2v_s_fast_ultra';
+
+// TTS_VOICES - MiniMax Speech-02 system voices (Fal.ai), used for narration and character dialogue
+export const TTS_VOICES: TtsVoice[] = [
+    { value: 'Wise_Woman', label: 'Wise Woman', description: 'Nữ, trầm ấm' },
+    { value: 'Calm_Woman', label: 'Calm Woman', description: 'Nữ, điềm tĩnh' },
+    { value: 'Friendly_Person', label: 'Friendly Person', description: 'Thân thiện' },
+    { value: 'Inspirational_girl', label: 'Inspirational Girl', description: 'Nữ trẻ, truyền cảm' },
+    { value: 'Lively_Girl', label: 'Lively Girl', description: 'Nữ trẻ, sôi nổi' },
+    { value: 'Lovely_Girl', label: 'Lovely Girl', description: 'Nữ trẻ, dễ thương' },
+    { value: 'Sweet_Girl_2', label: 'Sweet Girl', description: 'Nữ trẻ, ngọt ngào' },
+    { value: 'Exuberant_Girl', label: 'Exuberant Girl', description: 'Nữ trẻ, hào hứng' },
+    { value: 'Abbess', label: 'Abbess', description: 'Nữ lớn tuổi' },
+    { value: 'Deep_Voice_Man', label: 'Deep Voice Man', description: 'Nam, giọng trầm' },
+    { value: 'Casual_Guy', label: 'Casual Guy', description: 'Nam, tự nhiên' },
+    { value: 'Patient_Man', label: 'Patient Man', description: 'Nam, chậm rãi' },
+    { value: 'Determined_Man', label: 'Determined Man', description: 'Nam, quả quyết' },
+    { value: 'Elegant_Man', label: 'Elegant Man', description: 'Nam, lịch lãm' },
+    { value: 'Imposing_Manner', label: 'Imposing Manner', description: 'Nam, uy nghiêm' },
+    { value: 'Young_Knight', label: 'Young Knight', description: 'Nam trẻ' },
+    { value: 'Decent_Boy', label: 'Decent Boy', description: 'Cậu bé' },
+];
+
+export const DEFAULT_NARRATOR_VOICE = 'Wise_Woman';
+
 // SCRIPT_MODELS - Updated decommissioned models
 export const SCRIPT_MODELS = [
     { value: 'llama-3.3-70b-versatile', label: '🚀 Llama 3.3 70B (Groq) - Recommended' },
@@ -298,11 +334,6 @@ export const createInitialState = (): ProjectState => ({
         bodyImage: null,
         sideImage: null,
         backImage: null,
-        props: [
-            { id: generateId(), name: '', image: null },
-            { id: generateId(), name: '', image: null },
-            { id: generateId(), name: '', image: null },
-        ],
         isDefault: false,
         isAnalyzing: false,
     })),
@@ -0,0 +1,198 @@
+/**
+ * Content-Addressed Asset Store
+ *
+ * The same base64 image is typically copied into several places of a project
+ * (Scene.generatedImage, editHistory, assetGallery, character history slots...).
+ * When a project is persisted, every image data URI is replaced by a reference
+ * `asset:<hash>` and stored once in an asset bundle keyed by content hash.
+ *
+ * - dehydrateAssets: state with data URIs -> state with refs + bundle (with reference counts)
+ * - hydrateAssets: inverse; identical images come back as one shared string in memory
+ *
+ * The running app always works on hydrated state, so components and AI calls keep
+ * reading plain data URIs.
+ *
+ * Large media that the app only needs on demand (the project song) is kept out of state
+ * altogether: state holds `media:<hash>` and the file lives in the IndexedDB asset store
+ * (see stateManager.putMediaAsset). Inline audio data URIs are bundled like images.
+ */
+
+import type { ProjectState, StoredAsset } from '../types';
+
+export const ASSET_REF_PREFIX = 'asset:';
+export const MEDIA_REF_PREFIX = 'media:';
+
+export interface AssetBundleEntry extends StoredAsset {
+    data: string; // Data URI
+}
+
+export type AssetBundle = Record<string, AssetBundleEntry>;
+
+// ═══════════════════════════════════════════════════════════════
+// Hashing & references
+// ═══════════════════════════════════════════════════════════════
+
+export function isMediaDataUri(value: unknown): value is string {
+    return typeof value === 'string' && /^data:(image|audio)\//.test(value) && value.includes(';base64,');
+}
+
+export function isAssetRef(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(ASSET_REF_PREFIX);
+}
+
+export function toAssetRef(hash: string): string {
+    return `${ASSET_REF_PREFIX}${hash}`;
+}
+
+export function hashFromAssetRef(ref: string): string {
+    return ref.slice(ASSET_REF_PREFIX.length);
+}
+
+export function isMediaRef(value: unknown): value is string {
+    return typeof value === 'string' && value.startsWith(MEDIA_REF_PREFIX);
+}
+
+export function toMediaRef(hash: string): string {
+    return `${MEDIA_REF_PREFIX}${hash}`;
+}
+
+export function hashFromMediaRef(ref: string): string {
+    return ref.slice(MEDIA_REF_PREFIX.length);
+}
+
+export async function sha256Hex(data: BufferSource): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function dataUriToBytes(dataUri: string): Uint8Array {
+    const binary = atob(dataUri.slice(dataUri.indexOf(',') + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+/**
+ * SHA-256 (hex) of the decoded bytes of a base64 data URI. Every content-addressed store
+ * (project bundles, the IndexedDB asset store, cloud Storage paths) uses this one scheme.
+ */
+export async function computeAssetHash(dataUri: string): Promise<string> {
+    return sha256Hex(dataUriToBytes(dataUri));
+}
+
+export function getDataUriMimeType(dataUri: string): string {
+    return dataUri.match(/^data:(.*?);/)?.[1] || 'image/png';
+}
+
+export function getMimeExtension(mimeType: string): string {
+    const ext = mimeType.split('/')[1] || 'png';
+    return ext === 'jpeg' ? 'jpg' : ext === 'mpeg' ? 'mp3' : ext;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Dehydrate / hydrate
+// ═══════════════════════════════════════════════════════════════
+
+// Every distinct media data URI in `value`
+function collectMediaDataUris(value: unknown, found: Set<string> = new Set()): Set<string> {
+    if (isMediaDataUri(value)) {
+        found.add(value);
+    } else if (Array.isArray(value)) {
+        value.forEach(v => collectMediaDataUris(v, found));
+    } else if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        Object.values(value).forEach(v => collectMediaDataUris(v, found));
+    }
+    return found;
+}
+
+/**
+ * Deep-copies `value`, replacing every image (or audio) data URI with an asset reference.
+ * Every reference found increments the asset's refCount in the returned bundle.
+ */
+export async function dehydrateAssets<T>(value: T, bundle: AssetBundle = {}): Promise<{ value: T; bundle: AssetBundle }> {
+    // Hash each distinct data URI once, then replace synchronously
+    const dataUris = [...collectMediaDataUris(value)];
+    const hashes = await Promise.all(dataUris.map(computeAssetHash));
+    const hashByDataUri = new Map(dataUris.map((uri, i) => [uri, hashes[i]]));
+
+    const walk = (v: any): any => {
+        if (typeof v === 'string') {
+            if (isMediaDataUri(v)) {
+                const hash = hashByDataUri.get(v)!;
+                const entry = bundle[hash];
+                if (entry) entry.refCount++;
+                else {
+                    const base64Length = v.length - v.indexOf(',') - 1;
+                    bundle[hash] = { hash, mimeType: getDataUriMimeType(v), size: Math.round(base64Length * 0.75), refCount: 1, data: v };
+                }
+                return toAssetRef(hash);
+            }
+            return v;
+        }
+        if (Array.isArray(v)) return v.map(walk);
+        if (v && typeof v === 'object' && !(v instanceof Blob)) {
+            const out: Record<string, any> = {};
+            for (const [k, child] of Object.entries(v)) {
+                if (typeof child === 'function') continue;
+                out[k] = walk(child);
+            }
+            return out;
+        }
+        return v;
+    };
+    return { value: walk(value), bundle };
+}
+
+/**
+ * Deep-copies `value`, replacing asset references with whatever `resolve` returns for the hash.
+ * Unresolvable references become null (a missing image rather than a broken src).
+ */
+export function hydrateAssets<T>(value: T, resolve: (hash: string) => string | null | undefined): T {
+    const walk = (v: any): any => {
+        if (isAssetRef(v)) return resolve(hashFromAssetRef(v)) ?? null;
+        if (Array.isArray(v)) return v.map(walk);
+        if (v && typeof v === 'object' && !(v instanceof Blob)) {
+            const out: Record<string, any> = {};
+            for (const [k, child] of Object.entries(v)) out[k] = walk(child);
+            return out;
+        }
+        return v;
+    };
+    return walk(value);
+}
+
+/**
+ * Hashes of every `media:` reference in `value` (files kept in the asset store, not in state).
+ */
+export function collectMediaRefs(value: unknown, hashes: Set<string> = new Set()): Set<string> {
+    if (isMediaRef(value)) {
+        hashes.add(hashFromMediaRef(value));
+    } else if (Array.isArray(value)) {
+        value.forEach(v => collectMediaRefs(v, hashes));
+    } else if (value && typeof value === 'object' && !(value instanceof Blob)) {
+        Object.values(value).forEach(v => collectMediaRefs(v, hashes));
+    }
+    return hashes;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Project files
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Project ready for a JSON file: images referenced by hash, each stored once in `assets`.
+ */
+export async function packProjectAssets(state: ProjectState): Promise<ProjectState> {
+    const { assets: _previous, ...rest } = state;
+    const { value, bundle } = await dehydrateAssets(rest);
+    return { ...value, assets: bundle } as ProjectState;
+}
+
+/**
+ * Inverse of packProjectAssets. Projects without `assets` are returned unchanged.
+ */
+export function unpackProjectAssets(state: ProjectState): ProjectState {
+    if (!state.assets) return state;
+    const { assets, ...rest } = state;
+    return hydrateAssets(rest as ProjectState, hash => assets[hash]?.data);
+}
@@ -0,0 +1,179 @@
+/**
+ * Beat Sync
+ * Ties the animatic cut to an uploaded song: the local server detects tempo and beats,
+ * then scene durations are snapped so every cut lands on the beat grid.
+ *
+ * - Server: POST /api/music/analyze -> bpm, beat times, downbeat phase (ffmpeg + onset tracking)
+ * - Groups with `bars` end exactly on their bar line; their scenes share those bars by current length
+ * - Other cuts move to the nearest beat; every scene keeps at least one beat (and MIN_SCENE_SECONDS)
+ * - Durations are written as animaticDuration, rounded on the cumulative cut so errors don't add up
+ * - The audio file lives in the IndexedDB asset store; the track only keeps a `media:` ref to it
+ */
+
+import type { Scene, SceneGroup, MusicTrack } from '../types';
+import { buildAnimaticTimeline, clampSceneDuration, MIN_SCENE_SECONDS } from './animatic';
+import { isMediaRef, toMediaRef, hashFromMediaRef } from './assetStore';
+import { putMediaAsset, loadMediaAsset } from './stateManager';
+
+const SERVER_URL = 'http://localhost:3001';
+
+const readAsDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+});
+
+/**
+ * Upload a song to the local server and get its beat grid back.
+ */
+export async function analyzeMusicTrack(file: File): Promise<MusicTrack> {
+    const url = await readAsDataUrl(file);
+    const response = await fetch(`${SERVER_URL}/api/music/analyze`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ audio: url })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) throw new Error(data.error || `Beat detection failed (${response.status})`);
+    if (!data.beats?.length) throw new Error('Không tìm thấy nhịp trong bài nhạc');
+
+    return {
+        name: file.name,
+        url: toMediaRef(await putMediaAsset(url)),
+        duration: data.duration,
+        bpm: data.bpm,
+        beats: data.beats,
+        beatsPerBar: data.beatsPerBar,
+        downbeatOffset: data.downbeatOffset
+    };
+}
+
+/**
+ * Move an inline song (project files, older saves) into the asset store.
+ */
+export async function storeMusicAudio(track: MusicTrack): Promise<MusicTrack> {
+    if (!track.url.startsWith('data:')) return track;
+    return { ...track, url: toMediaRef(await putMediaAsset(track.url)) };
+}
+
+/**
+ * Playable source of the song (data URI or storage URL), or null if the stored file is gone.
+ */
+export async function resolveMusicAudio(track: MusicTrack | undefined): Promise<string | null> {
+    if (!track?.url) return null;
+    if (!isMediaRef(track.url)) return track.url;
+    const data = await loadMediaAsset(hashFromMediaRef(track.url));
+    if (!data) console.warn(`[BeatSync] Audio of "${track.name}" is no longer stored`);
+    return data;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Beat grid
+// ═══════════════════════════════════════════════════════════════
+
+export const getBeatInterval = (track: MusicTrack): number =>
+    track.beats.length > 1
+        ? (track.beats[track.beats.length - 1] - track.beats[0]) / (track.beats.length - 1)
+        : 60 / track.bpm;
+
+export const getSecondsPerBar = (track: MusicTrack): number => getBeatInterval(track) * track.beatsPerBar;
+
+/**
+ * Full bars between the first downbeat and the last detected beat.
+ */
+export const getBarCount = (track: MusicTrack): number =>
+    Math.max(0, Math.floor((track.beats.length - track.downbeatOffset) / track.beatsPerBar));
+
+/**
+ * Time of a beat by index; indexes outside the detected beats continue the grid at the average tempo.
+ */
+export function getBeatTime(track: MusicTrack, index: number): number {
+    const { beats } = track;
+    if (index >= 0 && index < beats.length) return beats[index];
+    const interval = getBeatInterval(track);
+    return index < 0 ? beats[0] + index * interval : beats[beats.length - 1] + (index - beats.length + 1) * interval;
+}
+
+// Fractional beat index of a time (inverse of getBeatTime)
+function getBeatPosition(track: MusicTrack, time: number): number {
+    const { beats } = track;
+    if (time <= beats[0] || beats.length === 1) return (time - beats[0]) / getBeatInterval(track);
+    if (time >= beats[beats.length - 1]) return beats.length - 1 + (time - beats[beats.length - 1]) / getBeatInterval(track);
+    let index = 0;
+    while (beats[index + 1] < time) index++;
+    return index + (time - beats[index]) / (beats[index + 1] - beats[index]);
+}
+
+// Beat index of the downbeat that starts a bar (bar 0 = first downbeat)
+const getBarBeatIndex = (track: MusicTrack, bar: number): number => track.downbeatOffset + bar * track.beatsPerBar;
+
+/**
+ * Nearest beat to a time - used while dragging a cut on the timeline.
+ */
+export const snapTimeToBeat = (track: MusicTrack, time: number): number =>
+    getBeatTime(track, Math.round(getBeatPosition(track, time)));
+
+export const isDownbeat = (track: MusicTrack, index: number): boolean =>
+    index >= track.downbeatOffset && (index - track.downbeatOffset) % track.beatsPerBar === 0;
+
+// ═══════════════════════════════════════════════════════════════
+// Snapping
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Beat-synced duration for every scene (sceneId -> seconds), in scene order.
+ * Consecutive scenes of a group with `bars` fill exactly that many bars of the song.
+ */
+export function snapScenesToBeats(scenes: Scene[], groups: SceneGroup[], track: MusicTrack): Record<string, number> {
+    const clips = buildAnimaticTimeline(scenes).clips;
+    const minBeats = Math.max(1, Math.ceil(MIN_SCENE_SECONDS / getBeatInterval(track)));
+    const durations: Record<string, number> = {};
+
+    let cutIndex = Math.floor(getBeatPosition(track, 0)); // Grid position of the first frame
+    let cutTime = 0;  // Where the previous cut landed (rounded, as stored)
+    let barCursor = 0; // Bars already used by groups
+
+    for (let i = 0; i < scenes.length;) {
+        // Run of consecutive scenes sharing a group
+        const groupId = scenes[i].groupId;
+        let j = i;
+        while (j < scenes.length && scenes[j].groupId === groupId) j++;
+        const run = clips.slice(i, j);
+        const bars = groupId ? groups.find(g => g.id === groupId)?.bars : undefined;
+
+        // Target cut of each scene as a fractional beat index
+        let targets: number[];
+        let endIndex: number | undefined;
+        if (bars) {
+            endIndex = Math.max(getBarBeatIndex(track, barCursor + bars), cutIndex + run.length * minBeats);
+            const total = run.reduce((sum, c) => sum + c.duration, 0);
+            let elapsed = 0;
+            targets = run.map(c => {
+                elapsed += c.duration;
+                return cutIndex + (endIndex! - cutIndex) * (elapsed / total);
+            });
+            barCursor += bars;
+        } else {
+            const runStart = run[0].start;
+            targets = run.map(c => getBeatPosition(track, cutTime + c.start + c.duration - runStart));
+        }
+
+        run.forEach((clip, k) => {
+            const remaining = run.length - 1 - k;
+            let index = Math.max(cutIndex + minBeats, Math.round(targets[k]));
+            if (endIndex !== undefined) index = remaining === 0 ? endIndex : Math.min(index, endIndex - remaining * minBeats);
+
+            const snapped = Math.round(getBeatTime(track, index) * 10) / 10 - cutTime;
+            const duration = clampSceneDuration(snapped);
+            durations[clip.sceneId] = duration;
+            cutTime = Math.round((cutTime + duration) * 10) / 10;
+            // A scene clamped to MAX_SCENE_SECONDS leaves its cut off the planned beat
+            cutIndex = Math.abs(duration - snapped) < 0.01 ? index : Math.floor(getBeatPosition(track, cutTime));
+        });
+
+        if (!bars) barCursor = Math.max(barCursor, Math.round((cutIndex - track.downbeatOffset) / track.beatsPerBar));
+        i = j;
+    }
+    return durations;
+}
@@ -2,6 +2,7 @@
 // and generating Face/Body prompts
 
 import { callGroqVision, safeGetImageData } from './geminiUtils';
+import { schema, requestStructured } from './structuredOutput';
 
 export interface CharacterAnalysis {
     faceDescription: string;
@@ -13,6 +14,27 @@ export interface CharacterAnalysis {
     accessories: string;
 }
 
+// Missing details fall back to generic wording rather than failing the face/body generation
+const DEFAULT_ANALYSIS: CharacterAnalysis = {
+    faceDescription: "character face",
+    bodyDescription: "character body",
+    style: "detailed illustration",
+    hairColor: "dark hair",
+    skinTone: "natural skin tone",
+    clothing: "casual clothing",
+    accessories: ""
+};
+
+const analysisSchema = schema.object({
+    faceDescription: schema.string(DEFAULT_ANALYSIS.faceDescription),
+    bodyDescription: schema.string(DEFAULT_ANALYSIS.bodyDescription),
+    style: schema.string(DEFAULT_ANALYSIS.style),
+    hairColor: schema.string(DEFAULT_ANALYSIS.hairColor),
+    skinTone: schema.string(DEFAULT_ANALYSIS.skinTone),
+    clothing: schema.string(DEFAULT_ANALYSIS.clothing),
+    accessories: schema.string(DEFAULT_ANALYSIS.accessories)
+});
+
 const ANALYSIS_PROMPT = `
 Analyze this character image in detail. Extract the following information and return as JSON:
 
@@ -51,29 +73,18 @@ export async function analyzeCharacterImage(
 
     console.log('[Character Analysis] 🔍 Analyzing master image with Groq Vision...');
 
-    const response = await callGroqVision(ANALYSIS_PROMPT, [{ data: cleanData, mimeType }]);
-
-    console.log('[Character Analysis] 📋 Raw response:', response.substring(0, 200));
-
-    try {
-        // Clean JSON from markdown if present
-        const cleanJson = response.replace(/```json/g, '').replace(/```/g, '').trim();
-        const analysis = JSON.parse(cleanJson);
-        console.log('[Character Analysis] ✅ Parsed successfully:', analysis);
-        return analysis;
-    } catch (e) {
-        console.error('[Character Analysis] ❌ JSON parse error:', e);
-        // Return default analysis
-        return {
-            faceDescription: "character face",
-            bodyDescription: "character body",
-            style: "detailed illustration",
-            hairColor: "dark hair",
-            skinTone: "natural skin tone",
-            clothing: "casual clothing",
-            accessories: ""
-        };
-    }
+    const analysis = await requestStructured({
+        name: 'Phân tích ảnh nhân vật',
+        schema: analysisSchema,
+        call: async correction => {
+            const response = await callGroqVision(ANALYSIS_PROMPT + (correction || ''), [{ data: cleanData, mimeType }]);
+            console.log('[Character Analysis] 📋 Raw response:', response.substring(0, 200));
+            return response;
+        },
+        fallback: DEFAULT_ANALYSIS
+    });
+    console.log('[Character Analysis] ✅ Parsed successfully:', analysis);
+    return analysis;
 }
 
 /**
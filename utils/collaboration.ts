@@ -0,0 +1,178 @@
+/**
+ * Real-time Collaboration
+ *
+ * Teammates editing the same cloud project share a Supabase realtime channel
+ * (`project-collab:<projectId>`):
+ * - Presence: who is online, and which scenes each person is generating (= scene locks)
+ * - Broadcast: per-scene updates with revision numbers, removals and scene order
+ *
+ * Only scenes are merged in real time; the rest of the project still travels with
+ * the regular cloud save. An update carries only the fields changed since the last
+ * synced version; changed base64 images are uploaded to Storage before broadcasting
+ * because realtime messages are size-limited.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabaseClient';
+import { uploadImageByHash } from './storageUtils';
+import type { Scene } from '../types';
+
+export interface CollaboratorPresence {
+    userId: string;
+    name: string;
+    color: string;
+    generatingSceneIds: string[]; // Scenes locked by this user
+    joinedAt: number;
+}
+
+export interface SceneUpdateMessage {
+    sceneId: string;
+    patch: Partial<Scene>; // Fields changed since baseRev (removed fields are null)
+    full: boolean; // The patch is the whole scene (the sender had no synced version)
+    index: number; // Position in the sender's storyboard (used to place new scenes)
+    baseRev: number; // Revision the sender's edit was based on
+    rev: number;
+    authorId: string;
+    authorName: string;
+}
+
+export interface SceneRemovedMessage {
+    sceneId: string;
+    authorId: string;
+    authorName: string;
+}
+
+export interface SceneOrderMessage {
+    order: string[];
+    authorId: string;
+}
+
+export interface CollaborationHandlers {
+    onPresence: (collaborators: CollaboratorPresence[]) => void;
+    onSceneUpdate: (msg: SceneUpdateMessage) => void;
+    onSceneRemoved: (msg: SceneRemovedMessage) => void;
+    onSceneOrder: (msg: SceneOrderMessage) => void;
+}
+
+export interface ProjectChannel {
+    updatePresence: (presence: CollaboratorPresence) => Promise<void>;
+    sendSceneUpdate: (msg: SceneUpdateMessage) => Promise<void>;
+    sendSceneRemoved: (msg: SceneRemovedMessage) => Promise<void>;
+    sendSceneOrder: (msg: SceneOrderMessage) => Promise<void>;
+    leave: () => void;
+}
+
+const COLLABORATOR_COLORS = ['#f97316', '#a855f7', '#22c55e', '#3b82f6', '#ec4899', '#eab308', '#14b8a6'];
+
+// Fields that only describe local, in-flight UI state - never synced or compared
+const TRANSIENT_SCENE_FIELDS: (keyof Scene)[] = ['isGenerating', 'generationStartTime', 'editHistory'];
+
+// Image fields uploaded to Storage before broadcast
+const SCENE_IMAGE_FIELDS: (keyof Scene)[] = ['generatedImage', 'endFrameImage', 'referenceImage', 'chainedStartFrame'];
+
+export function pickCollaboratorColor(userId: string): string {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+    return COLLABORATOR_COLORS[Math.abs(hash) % COLLABORATOR_COLORS.length];
+}
+
+/**
+ * Comparable representation of a scene (transient fields removed).
+ */
+export function sceneSignature(scene: Scene): string {
+    const copy: Record<string, unknown> = { ...scene };
+    TRANSIENT_SCENE_FIELDS.forEach(f => delete copy[f]);
+    return JSON.stringify(copy);
+}
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+    a === b || (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b));
+
+/**
+ * Fields of `scene` that differ from `base` (the whole scene without a base), transient fields
+ * stripped. Only images in the patch are uploaded, so unchanged images are never re-hashed.
+ */
+export async function prepareScenePatch(scene: Scene, base: Scene | null, userId: string): Promise<Partial<Scene>> {
+    const patch: Record<string, unknown> = {};
+    const keys = new Set([...Object.keys(scene), ...Object.keys(base || {})]) as Set<keyof Scene>;
+    for (const key of keys) {
+        if (TRANSIENT_SCENE_FIELDS.includes(key)) continue;
+        if (base && isSameValue(scene[key], base[key])) continue;
+        patch[key] = scene[key] ?? null;
+    }
+
+    for (const field of SCENE_IMAGE_FIELDS) {
+        const value = patch[field];
+        if (typeof value === 'string' && value.startsWith('data:')) {
+            patch[field] = await uploadImageByHash(value, userId);
+        }
+    }
+    return patch as Partial<Scene>;
+}
+
+/**
+ * Merge a remote scene into the local one, keeping local-only state.
+ */
+export function applyRemoteScene(local: Scene | undefined, remote: Scene): Scene {
+    return {
+        ...remote,
+        isGenerating: local?.isGenerating || false,
+        generationStartTime: local?.generationStartTime,
+        editHistory: local?.editHistory,
+        error: remote.error ?? null
+    };
+}
+
+/**
+ * Reorder `scenes` to follow `order`; scenes missing from `order` keep their place at the end.
+ */
+export function applySceneOrder(scenes: Scene[], order: string[]): Scene[] {
+    const byId = new Map(scenes.map(s => [s.id, s]));
+    const ordered = order.map(id => byId.get(id)).filter(Boolean) as Scene[];
+    const orderSet = new Set(order);
+    return [...ordered, ...scenes.filter(s => !orderSet.has(s.id))];
+}
+
+/**
+ * Join the realtime channel of a cloud project.
+ */
+export function joinProjectChannel(projectId: string, userId: string, handlers: CollaborationHandlers): ProjectChannel {
+    const channel: RealtimeChannel = supabase.channel(`project-collab:${projectId}`, {
+        config: {
+            presence: { key: userId },
+            broadcast: { self: false }
+        }
+    });
+
+    channel
+        .on('presence', { event: 'sync' }, () => {
+            const state = channel.presenceState<CollaboratorPresence>();
+            // A user can have several tabs open - keep the most recent presence per user
+            const collaborators = Object.values(state).map(entries => entries[entries.length - 1]);
+            handlers.onPresence(collaborators);
+        })
+        .on('broadcast', { event: 'scene-update' }, ({ payload }) => handlers.onSceneUpdate(payload as SceneUpdateMessage))
+        .on('broadcast', { event: 'scene-removed' }, ({ payload }) => handlers.onSceneRemoved(payload as SceneRemovedMessage))
+        .on('broadcast', { event: 'scene-order' }, ({ payload }) => handlers.onSceneOrder(payload as SceneOrderMessage))
+        .subscribe(status => {
+            console.log(`[Collab] Channel ${projectId}: ${status}`);
+        });
+
+    const send = async (event: string, payload: unknown) => {
+        const result = await channel.send({ type: 'broadcast', event, payload });
+        if (result !== 'ok') console.warn(`[Collab] Broadcast "${event}" failed: ${result}`);
+    };
+
+    return {
+        updatePresence: async (presence) => {
+            await channel.track(presence);
+        },
+        sendSceneUpdate: (msg) => send('scene-update', msg),
+        sendSceneRemoved: (msg) => send('scene-removed', msg),
+        sendSceneOrder: (msg) => send('scene-order', msg),
+        leave: () => {
+            channel.untrack();
+            supabase.removeChannel(channel);
+        }
+    };
+}
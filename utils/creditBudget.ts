@@ -0,0 +1,134 @@
+/**
+ * Credit Budget
+ * Cost estimates and budget checks for image generation.
+ *
+ * - Per-image cost is the Gommo list price on each model in IMAGE_MODELS (`credits`)
+ * - Only Gommo models are billed in credits; Imperial / Gemini Direct / Fal.ai use their own keys and cost 0 here
+ * - Project spend lives in ProjectState.creditsSpent (usageStats is account-wide and overwritten by cloud sync)
+ * - Budgets: one limit for the whole project, one per batch run, both with a warning threshold
+ * - Report: credits spent per scene group (scenes carry their own generationCost)
+ */
+
+import type { CreditBudget, ProjectState } from '../types';
+import { IMAGE_MODELS } from './appConstants';
+
+export const DEFAULT_CREDIT_BUDGET: CreditBudget = { warnAt: 0.8 };
+
+// ═══════════════════════════════════════════════════════════════
+// Estimates
+// ═══════════════════════════════════════════════════════════════
+
+export function isCreditBilledModel(modelId: string): boolean {
+    return IMAGE_MODELS.find(m => m.value === modelId)?.provider === 'gommo';
+}
+
+/**
+ * Credits for one image request of a model (0 for models not billed in credits).
+ */
+export function getImageCreditCost(modelId: string): number {
+    const model = IMAGE_MODELS.find(m => m.value === modelId);
+    if (!model || model.provider !== 'gommo') return 0;
+    return model.credits || 0;
+}
+
+/**
+ * Add the cost of `imageCount` images to the project's spend. Every image generation goes through this.
+ */
+export function addCreditsSpent(state: ProjectState, modelId: string, imageCount: number = 1): ProjectState {
+    const cost = getImageCreditCost(modelId) * imageCount;
+    if (!cost) return state;
+    return { ...state, creditsSpent: (state.creditsSpent || 0) + cost };
+}
+
+export interface RunCostEstimate {
+    imageCount: number;
+    perImage: number;
+    total: number;
+    billed: boolean; // false = model is not billed in credits
+}
+
+export function estimateRunCost(imageCount: number, modelId: string): RunCostEstimate {
+    const perImage = getImageCreditCost(modelId);
+    return { imageCount, perImage, total: perImage * imageCount, billed: isCreditBilledModel(modelId) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Budget checks
+// ═══════════════════════════════════════════════════════════════
+
+export type BudgetLevel = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetCheck {
+    level: BudgetLevel;
+    scope?: 'project' | 'run';
+    spent: number;  // Including the upcoming cost
+    limit?: number;
+    message?: string;
+}
+
+/**
+ * Check the project and run budgets against what would be spent after `nextCost`.
+ * The most severe result wins; the project limit is reported first on ties.
+ */
+export function checkBudget(budget: CreditBudget | undefined, projectSpent: number, runSpent: number, nextCost: number = 0): BudgetCheck {
+    const { projectLimit, runLimit, warnAt } = { ...DEFAULT_CREDIT_BUDGET, ...budget };
+    const checks: BudgetCheck[] = [];
+
+    const evaluate = (scope: 'project' | 'run', spent: number, limit?: number) => {
+        if (!limit || limit <= 0) return;
+        const label = scope === 'project' ? 'ngân sách dự án' : 'ngân sách lượt chạy';
+        if (spent > limit) {
+            checks.push({ level: 'exceeded', scope, spent, limit, message: `Vượt ${label}: ${spent.toLocaleString()}/${limit.toLocaleString()} credits` });
+        } else if (spent >= limit * warnAt) {
+            checks.push({ level: 'warning', scope, spent, limit, message: `Sắp hết ${label}: ${spent.toLocaleString()}/${limit.toLocaleString()} credits` });
+        }
+    };
+
+    evaluate('project', projectSpent + nextCost, projectLimit);
+    evaluate('run', runSpent + nextCost, runLimit);
+
+    return checks.find(c => c.level === 'exceeded')
+        || checks.find(c => c.level === 'warning')
+        || { level: 'ok', spent: projectSpent + nextCost };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Report
+// ═══════════════════════════════════════════════════════════════
+
+export interface GroupCostRow {
+    groupId: string | null;
+    name: string;
+    sceneCount: number;
+    imagedScenes: number;
+    credits: number;
+}
+
+export interface CostReport {
+    groups: GroupCostRow[];
+    scenesTotal: number;
+    other: number; // Characters, products, concept art
+    total: number;
+}
+
+export function getCostReport(state: ProjectState): CostReport {
+    const rows = new Map<string, GroupCostRow>();
+    (state.sceneGroups || []).forEach(g => {
+        rows.set(g.id, { groupId: g.id, name: g.name, sceneCount: 0, imagedScenes: 0, credits: 0 });
+    });
+
+    state.scenes.forEach(scene => {
+        const key = scene.groupId && rows.has(scene.groupId) ? scene.groupId : '__ungrouped__';
+        if (!rows.has(key)) rows.set(key, { groupId: null, name: 'Chưa phân nhóm', sceneCount: 0, imagedScenes: 0, credits: 0 });
+        const row = rows.get(key)!;
+        row.sceneCount++;
+        if (scene.generatedImage) row.imagedScenes++;
+        row.credits += scene.generationCost || 0;
+    });
+
+    const groups = [...rows.values()].filter(r => r.sceneCount > 0 || r.credits > 0);
+    const scenesTotal = groups.reduce((sum, r) => sum + r.credits, 0);
+    const total = Math.max(state.creditsSpent || 0, scenesTotal);
+
+    return { groups, scenesTotal, other: total - scenesTotal, total };
+}
@@ -10,6 +10,8 @@
  */
 
 import { safeGetImageData } from "./geminiUtils";
+import { isMockProviderEnabled, mockTextGeneration } from "./mockProvider";
+import { schema, requestStructured } from "./structuredOutput";
 
 export interface RaccordValidationResult {
     isValid: boolean;
@@ -29,6 +31,17 @@ interface ValidationOptions {
     askUserThreshold?: number; // Score between autoRetry and this = ask user (default 0.8)
 }
 
+const raccordResponseSchema = schema.object({
+    isValid: schema.optional(schema.boolean()),
+    score: schema.number({ min: 0, max: 1 }),
+    errors: schema.array(schema.object({
+        type: schema.enum(['character_mismatch', 'outfit_change', 'lighting_change', 'background_change', 'style_change'] as const),
+        description: schema.string(''),
+        severity: schema.enum(['warning', 'error'] as const, 'warning')
+    }), { default: [] }),
+    correctionPrompt: schema.optional(schema.string())
+});
+
 const RACCORD_VALIDATION_PROMPT = `You are a professional Director of Photography (DOP) reviewing two consecutive shots from the same scene.
 
 TASK: Analyze the visual continuity (RACCORD) between these two images.
@@ -69,6 +82,10 @@ async function callGroqVision(
     prompt: string,
     images: string[] // array of data URLs or http URLs
 ): Promise<string> {
+    if (isMockProviderEnabled()) {
+        return mockTextGeneration(prompt);
+    }
+
     const response = await fetch('/api/proxy/groq/vision', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -132,47 +149,39 @@ The second image is the CURRENT SHOT (to validate).
 
 Analyze these two consecutive shots and check for visual continuity issues.`;
 
-        // Call Groq Vision
-        const text = await callGroqVision(fullPrompt, [prevDataUrl, currDataUrl]);
-
-        // Parse JSON response
-        let result: RaccordValidationResult;
-        try {
-            // Clean up response in case it has markdown
-            const jsonStr = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
-            const parsed = JSON.parse(jsonStr);
-
-            // Determine decision based on score
-            let decision: 'continue' | 'retry' | 'ask_user' = 'continue';
-
-            if (parsed.score < autoRetryThreshold) {
-                decision = 'retry';
-            } else if (parsed.score < askUserThreshold) {
-                decision = 'ask_user';
-            }
-
-            // In strict mode, any error means retry
-            if (strictMode && parsed.errors?.some((e: any) => e.severity === 'error')) {
-                decision = 'retry';
-            }
-
-            result = {
-                isValid: parsed.isValid ?? (parsed.score >= askUserThreshold),
-                score: parsed.score ?? 0.5,
-                errors: parsed.errors || [],
-                decision,
-                correctionPrompt: parsed.correctionPrompt
-            };
-        } catch (parseError) {
-            console.error('[DOP Raccord] Failed to parse response:', text);
-            result = {
-                isValid: true,
-                score: 0.7,
-                errors: [],
-                decision: 'continue'
-            };
+        // Call Groq Vision; an unreadable answer must not block generation
+        const parsed = await requestStructured({
+            name: 'DOP Raccord',
+            schema: raccordResponseSchema,
+            call: correction => callGroqVision(fullPrompt + (correction || ''), [prevDataUrl, currDataUrl]),
+            fallback: null
+        });
+        if (!parsed) {
+            return { isValid: true, score: 0.7, errors: [], decision: 'continue' };
         }
 
+        // Determine decision based on score
+        let decision: 'continue' | 'retry' | 'ask_user' = 'continue';
+
+        if (parsed.score < autoRetryThreshold) {
+            decision = 'retry';
+        } else if (parsed.score < askUserThreshold) {
+            decision = 'ask_user';
+        }
+
+        // In strict mode, any error means retry
+        if (strictMode && parsed.errors.some(e => e.severity === 'error')) {
+            decision = 'retry';
+        }
+
+        const result: RaccordValidationResult = {
+            isValid: parsed.isValid ?? (parsed.score >= askUserThreshold),
+            score: parsed.score,
+            errors: parsed.errors,
+            decision,
+            correctionPrompt: parsed.correctionPrompt
+        };
+
         console.log(`[DOP Raccord] Validation: score=${result.score}, decision=${result.decision}, errors=${result.errors.length}`);
 
         return result;
@@ -1,6 +1,9 @@
 
-import type { ProjectState, Character, Scene } from '../types';
+import type { ProjectState } from '../types';
 import { loadProjectPackage } from './zipUtils';
+import { migrateProject, withSchemaVersion, MigrationReport } from './projectMigrations';
+import { packProjectAssets, unpackProjectAssets } from './assetStore';
+import { resolveMusicAudio } from './beatSync';
 
 // Helper to detect and remove circular references
 const getCircularReplacer = () => {
@@ -17,10 +20,14 @@ const getCircularReplacer = () => {
   };
 };
 
-export const saveProject = (state: ProjectState, filename: string): void => {
+export const saveProject = async (state: ProjectState, filename: string): Promise<void> => {
   try {
-    // Use replacer to handle circular references
-    const dataStr = JSON.stringify(state, getCircularReplacer(), 2);
+    // The song lives in the local asset store: inline it so the file is self-contained
+    const musicUrl = await resolveMusicAudio(state.musicTrack);
+    const exportState = state.musicTrack ? { ...state, musicTrack: { ...state.musicTrack, url: musicUrl || state.musicTrack.url } } : state;
+
+    // Use replacer to handle circular references. Each distinct image is written once (see assetStore)
+    const dataStr = JSON.stringify(await packProjectAssets(withSchemaVersion(exportState)), getCircularReplacer(), 2);
 
     // Check if data is too large (warn at 50MB)
     const sizeInMB = new Blob([dataStr]).size / (1024 * 1024);
@@ -51,51 +58,7 @@ export const saveProject = (state: ProjectState, filename: string): void => {
   }
 };
 
-const migrateCharacter = (char: any): Character => {
-  // Logic chuyển đổi dữ liệu cũ sang mới
-  if (Array.isArray(char.images)) {
-    // Nếu là file cũ, lấy ảnh đầu tiên làm Face, ảnh thứ 2 làm Body
-    const faceImage = char.images[0] || null;
-    const bodyImage = char.images[1] || null;
-    // Các ảnh còn lại coi như là props nhưng chưa có tên
-    const props = char.images.slice(2).map((img: string, idx: number) => ({
-      id: `prop_${Date.now()}_${idx}`,
-      name: `Prop ${idx + 1}`,
-      image: img
-    }));
-
-    // Fill cho đủ 3 props rỗng nếu thiếu
-    while (props.length < 3) {
-      props.push({
-        id: `prop_${Date.now()}_${props.length}`,
-        name: '',
-        image: null
-      });
-    }
-
-    return {
-      ...char,
-      masterImage: null, // New field
-      faceImage,
-      bodyImage,
-      props: props.slice(0, 3), // Giới hạn 3 props
-    };
-  }
-  // Nếu đã là cấu trúc mới nhưng thiếu masterImage (do update version)
-  if (char.masterImage === undefined) {
-    return { ...char, masterImage: null };
-  }
-  return char as Character;
-};
-
-const migrateScene = (scene: any): Scene => {
-  return {
-    ...scene,
-    veoPrompt: scene.veoPrompt || '' // Default empty string if missing
-  };
-};
-
-export const openProject = (onLoad: (state: ProjectState) => void): void => {
+export const openProject = (onLoad: (state: ProjectState, report: MigrationReport) => void): void => {
   const input = document.createElement('input');
   input.type = 'file';
   input.accept = '.json,application/json,.zip,application/zip,application/x-zip-compressed'; // Support ZIP
@@ -108,12 +71,12 @@ export const openProject = (onLoad: (state: ProjectState) => void): void => {
       if (file.name.toLowerCase().endsWith('.zip')) {
         try {
           console.log('[Open] Detected Project Package (ZIP). Unpacking...');
-          const loadedState = await loadProjectPackage(file);
+          const { state: loadedState, report } = await loadProjectPackage(file);
           console.log('[Open] ZIP Package loaded successfully.');
-          onLoad(loadedState);
+          onLoad(loadedState, report);
         } catch (error) {
           console.error("Failed to load project package:", error);
-          alert("Lỗi khi đọc file ZIP dự án. Vui lòng đảm bảo file không bị hỏng.");
+          alert(`Lỗi khi đọc file ZIP dự án: ${error instanceof Error ? error.message : 'Vui lòng đảm bảo file không bị hỏng.'}`);
         }
         return;
       }
@@ -125,39 +88,15 @@ export const openProject = (onLoad: (state: ProjectState) => void): void => {
           if (e.target && typeof e.target.result === 'string') {
             const rawData = JSON.parse(e.target.result);
 
-            // Migrate characters
-            const migratedCharacters = Array.isArray(rawData.characters)
-              ? rawData.characters.map(migrateCharacter)
-              : [];
-
-            // Migrate scenes
-            const migratedScenes = Array.isArray(rawData.scenes)
-              ? rawData.scenes.map(migrateScene)
-              : [];
-
-            const loadedState: ProjectState = {
-              ...rawData,
-              stylePrompt: rawData.stylePrompt || 'cinematic-realistic',
-              imageModel: rawData.imageModel || 'fal-ai/flux-general',
-              aspectRatio: rawData.aspectRatio || "16:9",
-              scriptLanguage: rawData.scriptLanguage || 'vietnamese',
-              characters: migratedCharacters,
-              scenes: migratedScenes
-            };
-
-            // Basic validation
-            if (
-              typeof loadedState.projectName !== 'string' ||
-              !Array.isArray(loadedState.characters) ||
-              !Array.isArray(loadedState.scenes)
-            ) {
-              throw new Error("Invalid project file format.");
-            }
-            onLoad(loadedState);
+            // Upgrade older schema versions (throws on files from a newer version)
+            const { state: migratedState, report } = migrateProject(rawData);
+            onLoad(unpackProjectAssets(migratedState), report);
           }
         } catch (error) {
           console.error("Failed to open or parse project file:", error);
-          alert("Tệp dự án không hợp lệ hoặc bị hỏng.");
+          alert(error instanceof SyntaxError || !(error instanceof Error)
+            ? "Tệp dự án không hợp lệ hoặc bị hỏng."
+            : error.message);
         }
       };
       reader.readAsText(file);
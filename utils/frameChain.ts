@@ -0,0 +1,61 @@
+/**
+ * Start/End Frame Chaining
+ * In a SceneGroup with `chainFrames` on, each scene's Veo clip starts on the frame the previous
+ * scene's clip ended on, so the group renders as one continuous motion.
+ *
+ * - Scene N+1 start = scene N's endFrameImage, else the last frame of scene N's generated video
+ * - The first scene of the group starts from its own generatedImage
+ * - A chained scene with its own endFrameImage is rendered in start/end-frame mode
+ * - Video jobs of a chain run in order: a link waits while its predecessor is still rendering
+ */
+
+import type { Scene, SceneGroup } from '../types';
+import { extractVideoFrame } from './videoFrames';
+
+// ═══════════════════════════════════════════════════════════════
+// Chain structure
+// ═══════════════════════════════════════════════════════════════
+
+export function isChainedGroup(groups: SceneGroup[] | undefined, groupId: string | undefined): boolean {
+    return !!groupId && !!groups?.find(g => g.id === groupId)?.chainFrames;
+}
+
+/**
+ * Previous scene of the same chained group (scene order = array order), or null when
+ * the scene is not chained or opens its group.
+ */
+export function getChainPredecessor(scenes: Scene[], groups: SceneGroup[] | undefined, sceneId: string): Scene | null {
+    const scene = scenes.find(s => s.id === sceneId);
+    if (!scene || !isChainedGroup(groups, scene.groupId)) return null;
+    const groupScenes = scenes.filter(s => s.groupId === scene.groupId);
+    const index = groupScenes.findIndex(s => s.id === sceneId);
+    return index > 0 ? groupScenes[index - 1] : null;
+}
+
+export type ChainStartSource =
+    | { type: 'end-frame'; src: string }
+    | { type: 'video'; src: string }
+    | { type: 'pending' }; // Predecessor has neither an end frame nor a video yet
+
+export function getChainStartSource(predecessor: Scene): ChainStartSource {
+    if (predecessor.endFrameImage) return { type: 'end-frame', src: predecessor.endFrameImage };
+    if (predecessor.generatedVideo) return { type: 'video', src: predecessor.generatedVideo };
+    return { type: 'pending' };
+}
+
+/**
+ * Resolve the start frame of a chained scene. Returns null when the scene is not chained;
+ * throws while the predecessor has nothing to chain from.
+ */
+export async function resolveChainStartFrame(scenes: Scene[], groups: SceneGroup[] | undefined, sceneId: string): Promise<{ image: string; fromSceneId: string } | null> {
+    const predecessor = getChainPredecessor(scenes, groups, sceneId);
+    if (!predecessor) return null;
+
+    const source = getChainStartSource(predecessor);
+    if (source.type === 'pending') {
+        throw new Error(`Cảnh ${predecessor.sceneNumber} chưa có end frame hoặc video để nối`);
+    }
+    const image = source.type === 'end-frame' ? source.src : await extractVideoFrame(source.src, 'last');
+    console.log(`[FrameChain] 🔗 Scene ${predecessor.sceneNumber} → next scene start frame (${source.type})`);
+    return { image, fromSceneId: predecessor.id };
+}
@@ -11,6 +11,7 @@ import {
     callImperialVision,
     checkImperialHealth
 } from './imperialUltraClient';
+import { isMockProviderEnabled, mockTextGeneration, mockImageGeneration } from './mockProvider';
 
 // ═══════════════════════════════════════════════════════════════
 // IMAGE CACHE - Avoids re-fetching same images during generation
@@ -216,6 +217,11 @@ export const callGroqText = async (
         if (jsonMode !== undefined) isJsonMode = jsonMode;
     }
 
+    // Offline development: scripted responses instead of any live service
+    if (isMockProviderEnabled()) {
+        return mockTextGeneration(prompt, systemPrompt, isJsonMode);
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // IMPERIAL ULTRA PATH (Premium API Proxy) - TRY FIRST
     // ═══════════════════════════════════════════════════════════════
@@ -378,6 +384,10 @@ export const callSmartVision = async (
     images: { data: string; mimeType: string }[],
     modelId: string = 'gemini-1.5-flash'
 ): Promise<string> => {
+    if (isMockProviderEnabled()) {
+        return mockTextGeneration(prompt);
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // IMPERIAL ULTRA PATH (Premium) - TRY FIRST
     // ═══════════════════════════════════════════════════════════════
@@ -503,6 +513,10 @@ export const callCharacterImageAPI = async (
     imageContext: string | null = null,
     gommoCredentials?: { domain: string; accessToken: string }
 ): Promise<string | null> => {
+    if (isMockProviderEnabled()) {
+        return mockImageGeneration(prompt, aspectRatio);
+    }
+
     // Determine provider from model
     const modelInfo = IMAGE_MODELS.find(m => m.value === imageModel);
     let provider = modelInfo?.provider || 'fal';
@@ -0,0 +1,217 @@
+/**
+ * Batch Image Generation Queue
+ * Persistent queue of scene generation jobs for the open project (localStorage), so a batch
+ * survives reloads and crashes and can be paused, resumed and reordered.
+ *
+ * - One job per scene: status, attempt count, provider and last error
+ * - Jobs left "running" by a closed tab come back as queued, with the queue paused
+ * - ETA is derived from the generationDuration history of the project's scenes
+ * - Jobs point at scene ids; opening another project drops the jobs of scenes it doesn't have
+ *
+ * Reference / base images of a batch are NOT persisted (data URIs are too large);
+ * a resumed job falls back to the scene's own reference and cascade logic.
+ */
+
+import type { Scene } from '../types';
+
+const STORAGE_KEY = 'scene_director_generation_queue';
+
+export type GenerationJobStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+export type GenerationQueueStatus = 'idle' | 'running' | 'paused';
+
+export interface GenerationJob {
+    id: string;
+    sceneId: string;
+    sceneNumber: string;
+    status: GenerationJobStatus;
+    attempts: number;
+    provider?: string;
+    model?: string;
+    error?: string;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface GenerationQueue {
+    status: GenerationQueueStatus;
+    jobs: GenerationJob[]; // Array order = execution order
+    interruptedAt?: number; // Set when a running batch was cut off by a reload
+    updatedAt: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Persistence
+// ═══════════════════════════════════════════════════════════════
+
+export function createEmptyQueue(): GenerationQueue {
+    return { status: 'idle', jobs: [], updatedAt: Date.now() };
+}
+
+/**
+ * Load the persisted queue. A queue that was running when the page closed is returned paused.
+ */
+export function loadGenerationQueue(): GenerationQueue {
+    if (typeof window === 'undefined') return createEmptyQueue();
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return createEmptyQueue();
+        const queue = JSON.parse(raw) as GenerationQueue;
+        if (queue.status !== 'running') return queue;
+
+        const pending = queue.jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+        console.log(`[GenQueue] Recovered interrupted batch (${pending} pending jobs)`);
+        return {
+            ...queue,
+            status: 'paused',
+            interruptedAt: queue.updatedAt,
+            jobs: queue.jobs.map(j => j.status === 'running' ? { ...j, status: 'queued', startedAt: undefined } : j)
+        };
+    } catch (e) {
+        console.error('[GenQueue] Failed to load queue:', e);
+        return createEmptyQueue();
+    }
+}
+
+export function saveGenerationQueue(queue: GenerationQueue): void {
+    if (typeof window === 'undefined') return;
+    try {
+        if (queue.jobs.length === 0) localStorage.removeItem(STORAGE_KEY);
+        else localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch (e) {
+        console.error('[GenQueue] Failed to save queue:', e);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Queue operations (pure)
+// ═══════════════════════════════════════════════════════════════
+
+const touch = (queue: GenerationQueue, patch: Partial<GenerationQueue>): GenerationQueue =>
+    ({ ...queue, ...patch, updatedAt: Date.now() });
+
+export function isActiveJob(job: GenerationJob): boolean {
+    return job.status === 'queued' || job.status === 'running';
+}
+
+/**
+ * Append jobs for scenes, in the given order. Scenes that already have an active job are skipped;
+ * finished jobs of the same scene are replaced.
+ */
+export function enqueueScenes(queue: GenerationQueue, scenes: Scene[]): { queue: GenerationQueue; added: GenerationJob[] } {
+    const activeSceneIds = new Set(queue.jobs.filter(isActiveJob).map(j => j.sceneId));
+    const now = Date.now();
+    const added: GenerationJob[] = scenes
+        .filter(s => !activeSceneIds.has(s.id))
+        .map(s => ({
+            id: crypto.randomUUID(),
+            sceneId: s.id,
+            sceneNumber: s.sceneNumber,
+            status: 'queued',
+            attempts: 0,
+            createdAt: now
+        }));
+
+    const addedSceneIds = new Set(added.map(j => j.sceneId));
+    const kept = queue.jobs.filter(j => isActiveJob(j) || !addedSceneIds.has(j.sceneId));
+    return { queue: touch(queue, { jobs: [...kept, ...added], interruptedAt: undefined }), added };
+}
+
+export function nextQueuedJob(queue: GenerationQueue): GenerationJob | undefined {
+    return queue.jobs.find(j => j.status === 'queued');
+}
+
+export function updateJob(queue: GenerationQueue, jobId: string, patch: Partial<GenerationJob>): GenerationQueue {
+    return touch(queue, { jobs: queue.jobs.map(j => j.id === jobId ? { ...j, ...patch } : j) });
+}
+
+export function setQueueStatus(queue: GenerationQueue, status: GenerationQueueStatus): GenerationQueue {
+    return touch(queue, { status, interruptedAt: status === 'running' ? undefined : queue.interruptedAt });
+}
+
+/**
+ * Move a queued job: one step up/down among queued jobs, or to the front of the queue.
+ */
+export function moveJob(queue: GenerationQueue, jobId: string, direction: 'up' | 'down' | 'top'): GenerationQueue {
+    const queued = queue.jobs.filter(j => j.status === 'queued');
+    const index = queued.findIndex(j => j.id === jobId);
+    if (index === -1) return queue;
+
+    const reordered = [...queued];
+    const [job] = reordered.splice(index, 1);
+    const target = direction === 'top' ? 0 : direction === 'up' ? Math.max(0, index - 1) : Math.min(queued.length - 1, index + 1);
+    reordered.splice(target, 0, job);
+
+    // Non-queued jobs keep their place; queued slots are refilled in the new order
+    let next = 0;
+    return touch(queue, { jobs: queue.jobs.map(j => j.status === 'queued' ? reordered[next++] : j) });
+}
+
+export function removeJob(queue: GenerationQueue, jobId: string): GenerationQueue {
+    return touch(queue, { jobs: queue.jobs.filter(j => j.id !== jobId || j.status === 'running') });
+}
+
+export function retryJob(queue: GenerationQueue, jobId: string): GenerationQueue {
+    const job = queue.jobs.find(j => j.id === jobId);
+    if (!job || isActiveJob(job)) return queue;
+    // Back of the queue, keeping the attempt count
+    const rest = queue.jobs.filter(j => j.id !== jobId);
+    return touch(queue, { jobs: [...rest, { ...job, status: 'queued', error: undefined, startedAt: undefined, finishedAt: undefined }] });
+}
+
+export function clearFinishedJobs(queue: GenerationQueue): GenerationQueue {
+    return touch(queue, { jobs: queue.jobs.filter(isActiveJob) });
+}
+
+/**
+ * Drop jobs of scenes that are not in the open project (another project was loaded).
+ */
+export function pruneMissingScenes(queue: GenerationQueue, sceneIds: string[]): GenerationQueue {
+    const existing = new Set(sceneIds);
+    const jobs = queue.jobs.filter(j => existing.has(j.sceneId));
+    if (jobs.length === queue.jobs.length) return queue;
+    return touch(queue, { jobs, status: jobs.some(isActiveJob) ? queue.status : 'idle' });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Progress & ETA
+// ═══════════════════════════════════════════════════════════════
+
+export interface QueueProgress {
+    total: number;
+    done: number;
+    failed: number;
+    remaining: number; // queued + running
+    averageDurationMs: number | null;
+    etaMs: number | null; // null until there is generation history
+}
+
+/**
+ * Average generation time from the scenes' generationDuration (ms) plus the configured delay between images.
+ */
+export function getQueueProgress(queue: GenerationQueue, scenes: Scene[], imageDelayMs: number = 500, now: number = Date.now()): QueueProgress {
+    const count = (status: GenerationJobStatus) => queue.jobs.filter(j => j.status === status).length;
+    const remaining = count('queued') + count('running');
+
+    const durations = scenes.map(s => s.generationDuration).filter((d): d is number => typeof d === 'number' && d > 0);
+    const averageDurationMs = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null;
+
+    let etaMs: number | null = null;
+    if (averageDurationMs !== null && remaining > 0) {
+        const running = queue.jobs.find(j => j.status === 'running');
+        const elapsed = running?.startedAt ? Math.min(now - running.startedAt, averageDurationMs) : 0;
+        etaMs = remaining * (averageDurationMs + imageDelayMs) - elapsed;
+    } else if (remaining === 0) {
+        etaMs = 0;
+    }
+
+    return { total: queue.jobs.length, done: count('done'), failed: count('failed'), remaining, averageDurationMs, etaMs };
+}
+
+export function formatEta(ms: number): string {
+    const seconds = Math.max(0, Math.round(ms / 1000));
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -5,6 +5,8 @@
  * API Docs: https://api.gommo.net
  */
 
+import { isMockProviderEnabled, mockImageGeneration } from './mockProvider';
+
 export interface GommoImageParams {
     prompt: string;
     model?: string;
@@ -61,6 +63,26 @@ export interface GommoModel {
     price?: number;
     startText?: boolean;
     startImage?: boolean;
+    endImage?: boolean;      // Video models: accepts an end frame
+    durations?: number[];    // Video models: clip lengths in seconds
+}
+
+export interface GommoVideoParams {
+    prompt: string;
+    model: string;
+    ratio?: string;          // '16_9' | '9_16' | '1_1'
+    duration?: number;
+    startImage?: GommoSubject;
+    endImage?: GommoSubject;
+    project_id?: string;
+}
+
+export interface GommoVideoResult {
+    id_base: string;
+    status: 'PENDING_ACTIVE' | 'PENDING_PROCESSING' | 'SUCCESS' | 'ERROR';
+    url?: string;
+    error?: string;
+    message?: string;
 }
 
 /**
@@ -104,6 +126,8 @@ export interface GommoImageItem {
 const GOMMO_ENDPOINTS = {
     createImage: '/api/proxy/gommo/ai/generateImage',
     checkImageStatus: '/api/proxy/gommo/ai/image',
+    createVideo: '/api/proxy/gommo/ai/generateVideo',
+    checkVideoStatus: '/api/proxy/gommo/ai/video',
     accountInfo: '/api/proxy/gommo/api/apps/go-mmo/ai/me',
     listModels: '/api/proxy/gommo/ai/models',
     // Library Management
@@ -118,6 +142,9 @@ const GOMMO_ENDPOINTS = {
  */
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
+// Balance reported while the mock provider is enabled
+const MOCK_CREDITS = 100000;
+
 /**
  * Gommo AI Client Class
  */
@@ -173,6 +200,7 @@ export class GommoAI {
      * Verify credentials by fetching account info
      */
     async verifyCredentials(): Promise<boolean> {
+        if (isMockProviderEnabled()) return true;
         try {
             const info = await this.getAccountInfo();
             console.log('[Gommo AI] ✅ Credentials verified:', info.userInfo.name);
@@ -187,6 +215,7 @@ export class GommoAI {
      * Get available credits
      */
     async getCredits(): Promise<number> {
+        if (isMockProviderEnabled()) return MOCK_CREDITS;
         const info = await this.getAccountInfo();
         return info.balancesInfo.credits_ai || 0;
     }
@@ -408,6 +437,39 @@ export class GommoAI {
         throw new Error('Timeout waiting for Gommo image generation');
     }
 
+    /**
+     * Create a video job (text or image to video). Poll with checkVideoStatus.
+     */
+    async createVideo(params: GommoVideoParams): Promise<GommoVideoResult> {
+        const payload: Record<string, any> = {
+            action_type: 'create',
+            model: params.model,
+            prompt: params.prompt,
+            ratio: params.ratio || '16_9',
+            project_id: params.project_id || 'default',
+        };
+        if (params.duration) payload.duration = params.duration;
+        if (params.startImage) payload.start_image = params.startImage;
+        if (params.endImage) payload.end_image = params.endImage;
+
+        console.log(`[Gommo AI] Video request - model: ${payload.model}, ratio: ${payload.ratio}, duration: ${payload.duration || 'default'}, start: ${!!params.startImage}, end: ${!!params.endImage}`);
+
+        const result = await this.request<{ videoInfo: GommoVideoResult; error?: string; message?: string }>(
+            GOMMO_ENDPOINTS.createVideo,
+            payload
+        );
+        if (result.error || !result.videoInfo) {
+            throw new Error(`Error create video ${result.message || result.error || 'Unknown error'}`);
+        }
+        console.log('[Gommo AI] Video job created:', result.videoInfo.id_base);
+        return result.videoInfo;
+    }
+
+    async checkVideoStatus(id_base: string): Promise<GommoVideoResult> {
+        const result = await this.request<any>(GOMMO_ENDPOINTS.checkVideoStatus, { id_base });
+        return result.videoInfo || result;
+    }
+
     /**
      * High-level method: Generate image and wait for result
      * Returns the CDN URL of the generated image
@@ -424,6 +486,10 @@ export class GommoAI {
             onProgress?: (status: string, attempt: number) => void;
         } = {}
     ): Promise<string> {
+        if (isMockProviderEnabled()) {
+            return mockImageGeneration(prompt, (options.ratio || '16_9').replace('_', ':'));
+        }
+
         // Step 1: Create image job
         const job = await this.createImage({
             prompt,
@@ -458,6 +524,7 @@ export class GommoAI {
  * Uses proxy to bypass browser CORS issues
  */
 export async function urlToBase64(imageUrl: string): Promise<string> {
+    if (imageUrl.startsWith('data:')) return imageUrl; // Already inline (e.g. mock provider output)
     try {
         // Try proxy first to bypass CORS
         const response = await fetch(`/api/proxy/fetch-image?url=${encodeURIComponent(imageUrl)}`);
@@ -0,0 +1,65 @@
+/**
+ * Fal.ai (Flux) adapter
+ * Sequential consistency through two references: a face id and a continuity anchor (previous shot / location).
+ * Also the default path for models without a dedicated backend (Gemini Direct was migrated here).
+ */
+
+import type { ImageProvider, ImageGenerationRequest } from './types';
+
+const FAL_ASPECT_RATIOS: Record<string, string> = {
+    '16:9': 'landscape_16_9',
+    '9:16': 'portrait_16_9',
+    '1:1': 'square'
+};
+
+const findFacePart = (parts: any[]) => parts.find(p => p.text?.includes('FACE ID LOCK') || p.text?.includes('IDENTITY'));
+const findContinuityPart = (parts: any[]) => parts.find(p => p.text?.includes('CONTINUITY_ANCHOR') || p.text?.includes('LOCATION CONTINUITY'));
+
+export const falProvider: ImageProvider = {
+    id: 'fal',
+    label: 'Fal.ai (Flux)',
+
+    getCapabilities: () => ({
+        maxReferences: 2,
+        supportsFaceLock: true,
+        aspectRatios: Object.keys(FAL_ASPECT_RATIOS),
+        gridOutput: false
+    }),
+
+    async generate({ prompt, aspectRatio, parts }: ImageGenerationRequest) {
+        console.log('[ImageGen] 🚀 Using FAL.AI provider');
+        try {
+            const facePart = findFacePart(parts);
+            const continuityPart = findContinuityPart(parts);
+
+            if (continuityPart) console.log(`[ImageGen] 🔗 Sequential reference detected: ${continuityPart.imageUrl?.substring(0, 50)}...`);
+            if (facePart) console.log(`[ImageGen] 🎭 Face ID reference detected: ${facePart.imageUrl?.substring(0, 50)}...`);
+
+            // Retrieve Fal API Key from localStorage (User Setting)
+            const customFalKey = typeof window !== 'undefined' ? localStorage.getItem('falApiKey') : null;
+            const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+            if (customFalKey) {
+                headers['x-fal-api-key'] = customFalKey;
+            }
+
+            const response = await fetch('/api/proxy/fal/flux', {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    prompt,
+                    image_url: continuityPart?.imageUrl || undefined,
+                    face_id_url: facePart?.imageUrl || undefined,
+                    aspect_ratio: FAL_ASPECT_RATIOS[aspectRatio] || 'square'
+                })
+            });
+
+            const data = await response.json();
+            if (!data.success) throw new Error(data.error || 'Fal.ai generation failed');
+
+            return { imageUrl: data.url || data.imageUrl };
+        } catch (error: any) {
+            console.error('[ImageGen] ❌ Fal.ai generation failed:', error.message);
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,144 @@
+/**
+ * Gommo proxy adapter (multi-provider hub: Google, ByteDance, Kling, Midjourney...)
+ * Reference images travel as `subjects`, prioritized Face ID > Body > Other so identity
+ * survives the per-model subject limit.
+ */
+
+import type { ImageProvider, ImageGenerationRequest } from './types';
+import { GommoAI, urlToBase64 } from '../gommoAI';
+import { isGridModel } from '../imageUtils';
+
+type CategorizedSubject = { data: string; url?: string; charName?: string };
+
+// seedream_4_0, google_image_gen_banana: 9 subjects
+// google_image_gen_banana_pro, seedream_4_5, o1: 6 subjects
+// google_image_gen_4_5: 3 subjects
+const getSubjectLimit = (modelId: string): number => {
+    if (modelId.includes('seedream_4_0') || modelId.includes('banana') && !modelId.includes('pro')) return 9;
+    if (modelId.includes('banana_pro') || modelId.includes('seedream_4_5') || modelId === 'o1') return 6;
+    if (modelId.includes('4_5')) return 3;
+    return 6; // Default safe limit
+};
+
+/**
+ * Sort image parts into face / body / other subjects, using the text part right before each image.
+ */
+const categorizeSubjects = (parts: any[]) => {
+    const faceSubjects: CategorizedSubject[] = [];
+    const bodySubjects: CategorizedSubject[] = [];
+    const otherSubjects: CategorizedSubject[] = [];
+
+    for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+
+        // Skip non-image parts
+        if (!part.inlineData?.data || !part.inlineData?.mimeType) continue;
+
+        const base64Data = part.inlineData.data;
+        const publicUrl = part.imageUrl && part.imageUrl.startsWith('http') && !part.imageUrl.includes('blob:')
+            ? part.imageUrl
+            : undefined;
+
+        // Look at the PREVIOUS part for context (text instruction)
+        const prevText = i > 0 ? parts[i - 1]?.text?.toUpperCase() || '' : '';
+
+        if (prevText.includes('FACE ID') || prevText.includes('IDENTITY_') || prevText.includes('IDENTITY LOCK')) {
+            // Extract character name from text like "[IDENTITY_JOHN]:" or "FACE ID LOCK - JOHN"
+            const nameMatch = prevText.match(/(?:IDENTITY_|FACE ID LOCK[^A-Z]*)([\w\s]+)/);
+            faceSubjects.push({ data: base64Data, url: publicUrl, charName: nameMatch?.[1]?.trim() });
+            console.log(`[ImageGen] 🔒 Found FACE ID reference${nameMatch ? ` for ${nameMatch[1].trim()}` : ''} (Using URL: ${!!publicUrl})`);
+        } else if (prevText.includes('FULL BODY') || prevText.includes('FULLBODY_') || prevText.includes('COSTUME')) {
+            const nameMatch = prevText.match(/(?:FULLBODY_|)([\w\s]+)\s*(?:FULL BODY|COSTUME)/);
+            bodySubjects.push({ data: base64Data, url: publicUrl, charName: nameMatch?.[1]?.trim() });
+            console.log(`[ImageGen] 👕 Found BODY reference${nameMatch ? ` for ${nameMatch[1].trim()}` : ''} (Using URL: ${!!publicUrl})`);
+        } else {
+            otherSubjects.push({ data: base64Data, url: publicUrl });
+        }
+    }
+
+    return { faceSubjects, bodySubjects, otherSubjects };
+};
+
+// Public URL when we have one: skipping the huge base64 keeps the x-www-form-urlencoded payload small
+const toGommoSubject = (s: CategorizedSubject) => s.url ? { url: s.url } : { data: s.data };
+
+const buildIdentityPrefix = (faceSubjects: CategorizedSubject[], bodySubjects: CategorizedSubject[]): string => {
+    const faceNames = faceSubjects.map(s => s.charName).filter(Boolean).join(', ');
+    const bodyNames = bodySubjects.map(s => s.charName).filter(Boolean).join(', ');
+
+    let identityPrefix = `[IDENTITY LOCK] Use the provided reference image(s) as the ONLY source for character identity. Match the face structure, features, bone structure, and eyes EXACTLY from the first reference image(s). `;
+    if (faceNames) identityPrefix += `Strictly maintain identity for: ${faceNames}. `;
+    if (bodyNames) identityPrefix += `Strictly maintain outfit/physique for: ${bodyNames}. `;
+    identityPrefix += `Do NOT generate generic or different faces. The visual references are the absolute truth. `;
+    return identityPrefix;
+};
+
+export const gommoProvider: ImageProvider = {
+    id: 'gommo',
+    label: 'Gommo Proxy',
+
+    getCapabilities: (model: string) => ({
+        maxReferences: getSubjectLimit(model),
+        supportsFaceLock: true,
+        aspectRatios: ['16:9', '9:16', '1:1'],
+        gridOutput: isGridModel(model)
+    }),
+
+    async generate({ prompt, model, aspectRatio, imageSize, parts, maxReferences, gommoCredentials }: ImageGenerationRequest) {
+        if (!gommoCredentials?.domain || !gommoCredentials?.accessToken) {
+            console.error('[ImageGen] ❌ Gommo model selected but credentials missing!', {
+                domain: gommoCredentials?.domain || '(empty)',
+                token: gommoCredentials?.accessToken ? '(set)' : '(empty)'
+            });
+            throw new Error('Gommo credentials chưa được cấu hình. Vào Profile → Gommo AI để nhập Domain và Access Token.');
+        }
+        console.log('[ImageGen] 🟡 Using GOMMO provider');
+
+        const { faceSubjects, bodySubjects, otherSubjects } = categorizeSubjects(parts);
+        const subjects = [...faceSubjects, ...bodySubjects, ...otherSubjects].map(toGommoSubject);
+        console.log(`[ImageGen] 📊 Subject breakdown: ${faceSubjects.length} Face, ${bodySubjects.length} Body, ${otherSubjects.length} Other = ${subjects.length} total`);
+
+        try {
+            const client = new GommoAI(gommoCredentials.domain, gommoCredentials.accessToken);
+            const gommoRatio = GommoAI.convertRatio(aspectRatio);
+
+            // Gommo models need an explicit instruction to use subjects for face/body
+            let gommoPrompt = prompt;
+            if (subjects.length > 0) {
+                gommoPrompt = buildIdentityPrefix(faceSubjects, bodySubjects) + prompt;
+                console.log(`[ImageGen] 🔒 Added IDENTITY LOCK prefix for Gommo (${faceSubjects.length} face, ${bodySubjects.length} body)`);
+            }
+
+            // Subjects are already prioritized, so a plain slice keeps Face IDs first
+            const limitedSubjects = subjects.slice(0, maxReferences);
+            if (subjects.length > maxReferences) {
+                console.log(`[ImageGen] ⚠️ Limiting subjects from ${subjects.length} to ${maxReferences} for model ${model}`);
+                console.log(`[ImageGen] 📊 Kept: ${Math.min(faceSubjects.length, maxReferences)} Face IDs, ${Math.min(bodySubjects.length, Math.max(0, maxReferences - faceSubjects.length))} Body refs`);
+            } else if (subjects.length > 0) {
+                console.log(`[ImageGen] ✅ Using all ${subjects.length} subjects (limit: ${maxReferences} for ${model})`);
+            }
+
+            const gommoResolution = imageSize as '1K' | '2K' | '4K';
+            console.log(`[ImageGen] 🚀 Calling Gommo generateImage (${model}, ${gommoRatio}, ${gommoResolution}, ${limitedSubjects.length} subjects)`);
+
+            // Generate image via Gommo (async with polling)
+            const cdnUrl = await client.generateImage(gommoPrompt, {
+                ratio: gommoRatio,
+                resolution: gommoResolution,
+                model,
+                subjects: limitedSubjects.length > 0 ? limitedSubjects : undefined,
+                onProgress: (status, attempt) => {
+                    console.log(`[Gommo] Polling ${attempt}/60: ${status}`);
+                }
+            });
+
+            // Convert CDN URL to base64 for consistency with existing code
+            const base64Image = await urlToBase64(cdnUrl);
+            console.log('[ImageGen] ✅ Gommo image generated successfully');
+            return { imageUrl: base64Image };
+        } catch (error: any) {
+            console.error('[ImageGen] ❌ Gommo generation failed:', error.message);
+            throw new Error(`Gommo Error: ${error.message}`);
+        }
+    }
+};
@@ -0,0 +1,50 @@
+/**
+ * Imperial Ultra adapter - premium Gemini 3 image generation.
+ * Prompt-only (no reference images); any failure falls back to Fal.ai through the registry.
+ */
+
+import type { ImageProvider, ImageGenerationRequest } from './types';
+import { urlToBase64 } from '../gommoAI';
+
+export const imperialProvider: ImageProvider = {
+    id: 'imperial',
+    label: 'Imperial Ultra',
+    fallbackProviderId: 'fal',
+
+    getCapabilities: () => ({
+        maxReferences: 0,
+        supportsFaceLock: false,
+        aspectRatios: ['16:9', '9:16', '1:1', '4:3', '3:4'],
+        gridOutput: false
+    }),
+
+    async generate({ prompt, model, aspectRatio }: ImageGenerationRequest) {
+        console.log('[ImageGen] 👑 Using IMPERIAL ULTRA provider');
+
+        // Dynamically import to avoid circular deps
+        const { callImperialImage, isImperialUltraEnabled, checkImperialHealth, getImperialKeySource } = await import('../imperialUltraClient');
+
+        if (!isImperialUltraEnabled()) throw new Error('Imperial Ultra disabled');
+        if (!(await checkImperialHealth())) throw new Error('Imperial Ultra unhealthy');
+
+        const keySource = getImperialKeySource();
+        console.log(`[ImageGen] 👑 Imperial Image Request:`);
+        console.log(`  ├─ Model: ${model}`);
+        console.log(`  ├─ Key Source: ${keySource.toUpperCase()}`);
+        console.log(`  ├─ Aspect Ratio: ${aspectRatio}`);
+        console.log(`  └─ Prompt: ${prompt.substring(0, 80)}...`);
+
+        const result = await callImperialImage(prompt, { model, aspectRatio });
+
+        if (result.base64) {
+            console.log('[ImageGen] 👑 ✅ Imperial image generated (base64)');
+            return { imageUrl: result.base64 };
+        }
+        if (result.url) {
+            console.log('[ImageGen] 👑 ✅ Imperial image generated (URL)');
+            // Convert to base64 for consistency
+            return { imageUrl: await urlToBase64(result.url) };
+        }
+        throw new Error('No image in Imperial response');
+    }
+};
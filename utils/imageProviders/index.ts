@@ -0,0 +1,86 @@
+/**
+ * Image Provider Registry
+ * Maps the `provider` of each IMAGE_MODELS entry to its adapter.
+ * Adding a backend = writing an ImageProvider and registering it here (no changes to the generation hook).
+ */
+
+import type { ImageProvider, ImageProviderId, ImageProviderCapabilities, ImageGenerationRequest, ImageGenerationResult } from './types';
+import { IMAGE_MODELS } from '../appConstants';
+import { falProvider } from './falProvider';
+import { gommoProvider } from './gommoProvider';
+import { imperialProvider } from './imperialProvider';
+import { mockImageProvider } from './mockImageProvider';
+import { isMockProviderEnabled } from '../mockProvider';
+
+export type { ImageProvider, ImageProviderId, ImageProviderCapabilities, ImageGenerationRequest, ImageGenerationResult, ImageModelOption } from './types';
+
+const providers = new Map<ImageProviderId, ImageProvider>();
+
+/**
+ * Register an adapter under its id, plus optional alias ids served by the same backend.
+ */
+export function registerImageProvider(provider: ImageProvider, aliases: ImageProviderId[] = []): void {
+    [provider.id, ...aliases].forEach(id => providers.set(id, provider));
+}
+
+registerImageProvider(imperialProvider);
+registerImageProvider(gommoProvider, ['google']); // Google models via Gommo Proxy
+registerImageProvider(falProvider, ['gemini']);   // Gemini Direct migrated to Fal.ai
+registerImageProvider(mockImageProvider);
+
+const DEFAULT_PROVIDER_ID: ImageProviderId = 'fal';
+
+export function getImageProvider(id: ImageProviderId): ImageProvider {
+    const provider = providers.get(id) || providers.get(DEFAULT_PROVIDER_ID);
+    if (!provider) throw new Error(`No image provider registered for "${id}"`);
+    return provider;
+}
+
+export function getImageProviderForModel(modelId: string): ImageProvider {
+    if (isMockProviderEnabled()) return getImageProvider('mock');
+    const model = IMAGE_MODELS.find(m => m.value === modelId);
+    return getImageProvider(model?.provider || 'gemini');
+}
+
+/**
+ * Capabilities of a model: provider limits narrowed by the model entry (supportsSubject / supportsEdit).
+ */
+export function getImageModelCapabilities(modelId: string): ImageProviderCapabilities {
+    const model = IMAGE_MODELS.find(m => m.value === modelId);
+    const capabilities = getImageProviderForModel(modelId).getCapabilities(modelId);
+    const supportsSubject = model?.supportsSubject !== false;
+    return {
+        ...capabilities,
+        maxReferences: supportsSubject ? capabilities.maxReferences : 0,
+        supportsFaceLock: supportsSubject && capabilities.supportsFaceLock,
+        supportsEdit: !!model?.supportsEdit
+    };
+}
+
+/**
+ * Generate one image with the provider of `model`, falling back along `fallbackProviderId` on failure.
+ */
+export async function generateImage(request: Omit<ImageGenerationRequest, 'maxReferences'>): Promise<ImageGenerationResult> {
+    const capabilities = getImageModelCapabilities(request.model);
+    if (!capabilities.aspectRatios.includes(request.aspectRatio)) {
+        console.warn(`[ImageGen] ⚠️ ${request.model} has no native ${request.aspectRatio} output, the provider will coerce it`);
+    }
+
+    let provider: ImageProvider | undefined = getImageProviderForModel(request.model);
+    let maxReferences = capabilities.maxReferences;
+    console.log(`[ImageGen] Provider: ${provider.id}, Model: ${request.model}`);
+
+    while (provider) {
+        try {
+            return await provider.generate({ ...request, maxReferences });
+        } catch (error: any) {
+            if (!provider.fallbackProviderId) throw error;
+            const fallback = getImageProvider(provider.fallbackProviderId);
+            console.warn(`[ImageGen] ⚠️ ${provider.label} failed (${error.message}), falling back to ${fallback.label}`);
+            console.log(`[ImageGen] 📉 Fallback: ${provider.label} → ${fallback.label}`);
+            maxReferences = fallback.getCapabilities(request.model).maxReferences;
+            provider = fallback;
+        }
+    }
+    throw new Error(`No image provider available for ${request.model}`);
+}
@@ -0,0 +1,23 @@
+/**
+ * Mock adapter - deterministic placeholder images for offline development (see utils/mockProvider).
+ * Selected for every model while the mock provider is enabled in settings.
+ */
+
+import type { ImageProvider, ImageGenerationRequest } from './types';
+import { mockImageGeneration } from '../mockProvider';
+
+export const mockImageProvider: ImageProvider = {
+    id: 'mock',
+    label: 'Mock (Offline)',
+
+    getCapabilities: () => ({
+        maxReferences: 9,
+        supportsFaceLock: true,
+        aspectRatios: ['16:9', '9:16', '1:1', '4:3', '3:4'],
+        gridOutput: false
+    }),
+
+    async generate({ prompt, aspectRatio }: ImageGenerationRequest) {
+        return { imageUrl: await mockImageGeneration(prompt, aspectRatio) };
+    }
+};
@@ -0,0 +1,52 @@
+/**
+ * Image Provider Contracts
+ * Every image backend (Fal.ai, Gommo, Imperial Ultra...) implements `ImageProvider`.
+ * The generation hook only talks to this interface; provider-specific request packing
+ * (reference images, face locks, ratio formats) lives in the adapter.
+ */
+
+export type ImageProviderId = 'imperial' | 'gemini' | 'google' | 'fal' | 'gommo' | 'mock';
+
+export interface ImageProviderCapabilities {
+    maxReferences: number;      // Reference images (subjects / face ids / continuity) the model accepts
+    supportsFaceLock: boolean;  // Can pin a character's identity to a face reference
+    supportsEdit: boolean;      // Img2Img / edit of an existing image
+    aspectRatios: string[];     // Ratios the backend renders natively (others get coerced)
+    gridOutput: boolean;        // Returns a multi-image grid that has to be split (Midjourney)
+}
+
+export interface ImageGenerationRequest {
+    prompt: string;
+    model: string;
+    aspectRatio: string;
+    imageSize: string; // '1K' | '2K' | '4K'
+    parts: any[];      // Prompt parts: text instructions followed by their inlineData / imageUrl references
+    maxReferences: number; // Resolved by the registry (provider limit, 0 for models without subject support)
+    gommoCredentials?: { domain: string; accessToken: string };
+}
+
+export interface ImageGenerationResult {
+    imageUrl: string;
+    mediaId?: string;
+}
+
+export interface ImageProvider {
+    id: ImageProviderId;
+    label: string;
+    getCapabilities(model: string): Omit<ImageProviderCapabilities, 'supportsEdit'>;
+    generate(request: ImageGenerationRequest): Promise<ImageGenerationResult>;
+    fallbackProviderId?: ImageProviderId; // Used when generate() throws (e.g. Imperial → Fal.ai)
+}
+
+// Entry of IMAGE_MODELS: `provider` is a key of the provider registry
+export interface ImageModelOption {
+    value: string;
+    label: string;
+    provider: ImageProviderId;
+    description?: string;
+    credits?: number; // Gommo list price per request, used for budgets (see utils/creditBudget)
+    supportsEdit?: boolean;
+    supportsSubject?: boolean;
+    isHeader?: boolean;
+    color?: string;
+}
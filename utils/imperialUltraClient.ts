@@ -8,6 +8,8 @@
  * Fallback: Groq/Fal.ai via existing proxies
  */
 
+import { isMockProviderEnabled, mockTextGeneration, mockImageGeneration } from './mockProvider';
+
 // ═══════════════════════════════════════════════════════════════
 // CONFIGURATION
 // ═══════════════════════════════════════════════════════════════
@@ -194,6 +196,9 @@ export async function callImperialText(
     prompt: string,
     options: ImperialTextOptions = {}
 ): Promise<string> {
+    if (isMockProviderEnabled()) {
+        return mockTextGeneration(prompt, options.systemPrompt, options.jsonMode);
+    }
     const {
         model = IMPERIAL_CONFIG.models.textFast,
         systemPrompt = '',
@@ -294,6 +299,9 @@ export async function callImperialImage(
     prompt: string,
     options: ImperialImageOptions = {}
 ): Promise<{ url?: string; base64?: string }> {
+    if (isMockProviderEnabled()) {
+        return { base64: await mockImageGeneration(prompt, options.aspectRatio) };
+    }
     const {
         model = IMPERIAL_CONFIG.models.image,
         aspectRatio = '16:9'
@@ -429,6 +437,9 @@ export async function callImperialVision(
     images: Array<{ data: string; mimeType: string }>,
     model: string = IMPERIAL_CONFIG.models.textFast
 ): Promise<string> {
+    if (isMockProviderEnabled()) {
+        return mockTextGeneration(prompt);
+    }
     const apiKey = getImperialApiKey();
     const keySource = getImperialKeySource();
     const keyPreview = apiKey.substring(0, 12) + '...' + apiKey.slice(-4);
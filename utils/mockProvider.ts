@@ -0,0 +1,233 @@
+/**
+ * Mock AI Provider
+ * Offline stand-in for every generation backend (Groq/Gemini text & vision, Gommo, Fal.ai, Imperial Ultra).
+ * When enabled in Profile settings, the entry points short-circuit here:
+ *
+ * - Images: deterministic SVG placeholders (same prompt + ratio => same image)
+ * - Text: scripted responses chosen by recognizing the calling prompt (script analysis,
+ *   script generation, director intent, quality scoring, raccord...), plain text otherwise
+ *
+ * Responses are deterministic so the storyboard pipeline can be exercised and compared run to run.
+ */
+
+const STORAGE_KEY = 'mockProviderEnabled';
+const MOCK_LATENCY_MS = 300;
+
+// ═══════════════════════════════════════════════════════════════
+// Settings
+// ═══════════════════════════════════════════════════════════════
+
+export function isMockProviderEnabled(): boolean {
+    if (typeof window === 'undefined') return false;
+    return localStorage.getItem(STORAGE_KEY) === 'true';
+}
+
+export function setMockProviderEnabled(enabled: boolean): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(STORAGE_KEY, enabled ? 'true' : 'false');
+    console.log(`[MockProvider] ${enabled ? 'Enabled' : 'Disabled'}`);
+}
+
+const simulateLatency = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+
+// Small deterministic string hash (FNV-1a)
+function hashString(input: string): number {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        h = Math.imul(h ^ input.charCodeAt(i), 16777619);
+    }
+    return h >>> 0;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Images
+// ═══════════════════════════════════════════════════════════════
+
+const MOCK_IMAGE_SIZES: Record<string, [number, number]> = {
+    '16:9': [1280, 720],
+    '9:16': [720, 1280],
+    '1:1': [1024, 1024],
+    '4:3': [1024, 768],
+    '3:4': [768, 1024]
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, c => `&#${c.charCodeAt(0)};`);
+
+/**
+ * Placeholder image for a prompt: a gradient derived from the prompt hash with the prompt's first words.
+ */
+export function createMockImage(prompt: string, aspectRatio: string = '16:9'): string {
+    const [width, height] = MOCK_IMAGE_SIZES[aspectRatio] || MOCK_IMAGE_SIZES['16:9'];
+    const hash = hashString(`${prompt}|${aspectRatio}`);
+    const hue = hash % 360;
+    const caption = escapeXml(prompt.replace(/\s+/g, ' ').trim().slice(0, 60) || 'Mock image');
+    const fontSize = Math.round(Math.min(width, height) / 24);
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+        + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">`
+        + `<stop offset="0" stop-color="hsl(${hue},55%,35%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},55%,15%)"/>`
+        + `</linearGradient></defs>`
+        + `<rect width="100%" height="100%" fill="url(#g)"/>`
+        + `<text x="50%" y="45%" text-anchor="middle" font-family="sans-serif" font-size="${fontSize * 2}" fill="rgba(255,255,255,0.85)">MOCK</text>`
+        + `<text x="50%" y="58%" text-anchor="middle" font-family="sans-serif" font-size="${fontSize}" fill="rgba(255,255,255,0.7)">${caption}</text>`
+        + `<text x="50%" y="92%" text-anchor="middle" font-family="monospace" font-size="${Math.round(fontSize * 0.7)}" fill="rgba(255,255,255,0.5)">#${hash.toString(16)} · ${aspectRatio}</text>`
+        + `</svg>`;
+
+    const base64 = btoa(unescape(encodeURIComponent(svg)));
+    return `data:image/svg+xml;base64,${base64}`;
+}
+
+export async function mockImageGeneration(prompt: string, aspectRatio: string = '16:9'): Promise<string> {
+    await simulateLatency();
+    console.log(`[MockProvider] 🧪 Image (${aspectRatio}): ${prompt.substring(0, 60)}...`);
+    return createMockImage(prompt, aspectRatio);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Scripted text responses
+// ═══════════════════════════════════════════════════════════════
+
+interface MockScript {
+    name: string;
+    matches: (prompt: string, systemPrompt: string) => boolean;
+    respond: (prompt: string) => unknown;
+}
+
+/**
+ * Script text embedded in an analysis prompt ("INPUT SCRIPT:" section), split into narration beats.
+ */
+function extractScriptBeats(prompt: string): string[] {
+    const match = prompt.match(/INPUT SCRIPT[\s*:]*\n([\s\S]*?)(?:\n\s*(?:\*\*\*|===|RESPOND|OUTPUT)|$)/);
+    const script = match?.[1]?.trim() || '';
+    const beats = script
+        .split(/\n\s*\n|(?<=[.!?])\s+(?=[A-ZÀ-Ỹ"“])/)
+        .map(s => s.replace(/\s+/g, ' ').trim())
+        .filter(Boolean);
+    return beats.length > 0 ? beats.slice(0, 40) : ['A quiet opening shot.', 'The main character arrives.', 'The story reaches its turning point.'];
+}
+
+const SHOT_TYPES = ['WIDE SHOT', 'MEDIUM SHOT', 'CLOSE-UP', 'EXTREME CLOSE-UP', 'POV'];
+
+const MOCK_SCRIPTS: MockScript[] = [
+    {
+        name: 'script-analysis',
+        matches: p => p.includes('"globalContext"') && p.includes('"chapters"'),
+        respond: prompt => {
+            const beats = extractScriptBeats(prompt);
+            return {
+                globalContext: 'Mock world: a modern city at dusk.',
+                locations: [{
+                    id: 'loc_mock', name: 'Mock Street', description: 'Rain-soaked city street at dusk',
+                    keywords: ['street'], chapterIds: ['chapter_1'], isInterior: false, timeOfDay: 'dusk', mood: 'calm',
+                    conceptPrompt: 'WIDE SHOT establishing a rain-soaked city street at dusk'
+                }],
+                chapters: [{
+                    id: 'chapter_1', title: 'Mock Chapter', suggestedTimeOfDay: 'dusk', suggestedWeather: 'rain',
+                    locationAnchor: 'Exterior, modern city street at dusk', locationId: 'loc_mock'
+                }],
+                characters: [{
+                    name: 'Mock Hero', mentions: beats.length, suggestedDescription: 'Adult in a grey raincoat, dark jeans. SHOES: black boots.',
+                    outfitByChapter: { chapter_1: 'grey raincoat, dark jeans' }, isMain: true
+                }],
+                scenes: beats.map((beat, i) => ({
+                    voiceOverText: beat,
+                    dialogueText: null,
+                    dialogueSpeaker: null,
+                    visualPrompt: `${SHOT_TYPES[i % SHOT_TYPES.length]}. ${beat}`,
+                    chapterId: 'chapter_1',
+                    characterNames: ['Mock Hero'],
+                    needsExpansion: false
+                }))
+            };
+        }
+    },
+    {
+        name: 'script-generation',
+        matches: p => p.includes('"scene_groups"'),
+        respond: () => ({
+            global_story_context: 'Mock story context.',
+            detailed_story: 'A mock story in three shots.',
+            scene_groups: [{ id: 'group_mock', name: 'Mock Group', description: 'Mock scene group' }],
+            scenes: [1, 2, 3].map(n => ({
+                scene_number: String(n),
+                group_id: 'group_mock',
+                prompt_name: `Mock shot ${n}`,
+                visual_context: `${SHOT_TYPES[(n - 1) % SHOT_TYPES.length]}. Mock visual context for shot ${n}.`,
+                character_ids: [],
+                product_ids: [],
+                voiceover: `Mock narration ${n}.`,
+                camera_angle: SHOT_TYPES[(n - 1) % SHOT_TYPES.length]
+            }))
+        })
+    },
+    {
+        name: 'director-intent',
+        matches: (p, s) => `${p}\n${s}`.includes('"intent": "INTENT_NAME"'),
+        respond: prompt => {
+            const command = prompt.toLowerCase();
+            const sceneNumber = Number(command.match(/(?:cảnh|scene)\s*(\d+)/)?.[1]);
+            if (/tạo ảnh|generate/.test(command)) {
+                return sceneNumber
+                    ? { intent: 'GENERATE_SCENE', entities: { sceneNumber }, response: `[Mock] Đang tạo ảnh cảnh ${sceneNumber}.` }
+                    : { intent: 'GENERATE_ALL', entities: {}, response: '[Mock] Bắt đầu tạo ảnh hàng loạt.' };
+            }
+            return { intent: 'PROD_Q_AND_A', entities: {}, response: '[Mock] Đã nhận lệnh.' };
+        }
+    },
+    {
+        name: 'sequence-expansion',
+        matches: p => p.includes('"expanded_scenes"'),
+        respond: () => ({
+            expanded_scenes: ['Wide Shot', 'Medium Shot', 'Close Up'].map((angle, i) => ({
+                visual_prompt: `Mock ${angle.toLowerCase()} of the same moment.`,
+                vo_segment: i === 0 ? 'Mock narration.' : '',
+                camera_angle: angle,
+                shot_type: i === 0 ? 'Establishing' : 'Detail',
+                estimated_duration: 4
+            }))
+        })
+    },
+    {
+        name: 'quality-check',
+        matches: p => p.includes('fullBodyVisible'),
+        respond: () => ({ fullBodyVisible: 1, backgroundClean: 1, faceClarity: 1, matchesDescription: 1, singleSubject: 1, issues: [], suggestions: [] })
+    },
+    {
+        name: 'raccord-validation',
+        matches: p => p.includes('RACCORD BREAKS'),
+        respond: () => ({ isValid: true, score: 0.95, errors: [], correctionPrompt: '' })
+    },
+    {
+        name: 'character-analysis',
+        matches: p => p.includes('"faceDescription"'),
+        respond: () => ({
+            faceDescription: 'Oval face, brown almond eyes, straight nose, neutral expression',
+            bodyDescription: 'Average build, upright posture',
+            style: 'realistic',
+            hairColor: 'Short dark brown hair',
+            skinTone: 'Light olive',
+            clothing: 'Grey raincoat over a white shirt, dark jeans',
+            accessories: 'None'
+        })
+    }
+];
+
+/**
+ * Scripted answer for a text/vision prompt. JSON-mode callers always receive valid JSON.
+ */
+export function getMockTextResponse(prompt: string, systemPrompt: string = '', jsonMode: boolean = false): string {
+    const script = MOCK_SCRIPTS.find(s => s.matches(prompt, systemPrompt));
+    if (script) {
+        console.log(`[MockProvider] 🧪 Scripted response: ${script.name}`);
+        return JSON.stringify(script.respond(prompt));
+    }
+    if (jsonMode) return '{}';
+
+    const firstLine = prompt.split('\n').map(l => l.trim()).find(Boolean) || '';
+    return `[Mock] ${firstLine.slice(0, 160)}`;
+}
+
+export async function mockTextGeneration(prompt: string, systemPrompt: string = '', jsonMode: boolean = false): Promise<string> {
+    await simulateLatency();
+    return getMockTextResponse(prompt, systemPrompt, jsonMode);
+}
@@ -0,0 +1,205 @@
+/**
+ * Project Diff Utilities
+ *
+ * Compares two versions of a ProjectState (e.g. a named snapshot vs. the current
+ * project) scene by scene and group by group, and restores selected scenes or
+ * groups from the older version without touching the rest of the storyboard.
+ */
+
+import type { ProjectState, Scene, SceneGroup } from '../types';
+
+export type SceneChangeStatus = 'added' | 'removed' | 'modified' | 'moved' | 'unchanged';
+
+// Fields compared for a scene, in display order
+export const DIFFED_SCENE_FIELDS = [
+    'contextDescription',
+    'veoPrompt',
+    'voiceOverText',
+    'voiceover',
+    'cameraAngleOverride',
+    'transitionType',
+    'groupId',
+    'generatedImage',
+    'endFrameImage',
+    'generatedVideo'
+] as const;
+
+export type DiffedSceneField = typeof DIFFED_SCENE_FIELDS[number];
+
+export const IMAGE_FIELDS: DiffedSceneField[] = ['generatedImage', 'endFrameImage'];
+
+export interface SceneDiff {
+    sceneId: string;
+    status: SceneChangeStatus;
+    isMoved: boolean; // Position changed relative to the other scenes (can combine with 'modified')
+    oldIndex: number; // -1 if added
+    newIndex: number; // -1 if removed
+    changedFields: DiffedSceneField[];
+    before?: Scene;
+    after?: Scene;
+}
+
+export interface GroupDiff {
+    groupId: string;
+    name: string;
+    status: 'added' | 'removed' | 'modified' | 'unchanged';
+    sceneChanges: number; // Number of non-unchanged scenes in the group (either version)
+}
+
+export interface ProjectDiff {
+    scenes: SceneDiff[];
+    groups: GroupDiff[];
+    summary: Record<SceneChangeStatus, number>;
+}
+
+const normalize = (value: unknown) => (value === undefined || value === null ? '' : value);
+
+/**
+ * Ids that keep their relative order in both lists (longest common subsequence).
+ * Common ids outside this set were reordered.
+ */
+function stableOrderIds(before: string[], after: string[]): Set<string> {
+    const afterSet = new Set(after);
+    const beforeSet = new Set(before);
+    const a = before.filter(id => afterSet.has(id));
+    const b = after.filter(id => beforeSet.has(id));
+
+    const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            dp[i][j] = a[i] === b[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+        }
+    }
+
+    const stable = new Set<string>();
+    let i = 0, j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) { stable.add(a[i]); i++; j++; }
+        else if (dp[i + 1][j] >= dp[i][j + 1]) i++;
+        else j++;
+    }
+    return stable;
+}
+
+export function diffScene(before: Scene, after: Scene): DiffedSceneField[] {
+    return DIFFED_SCENE_FIELDS.filter(field => normalize(before[field]) !== normalize(after[field]));
+}
+
+/**
+ * Diff `before` (e.g. snapshot) against `after` (e.g. current project).
+ * Result is in `after` order, with removed scenes inserted at their old position.
+ */
+export function diffProjects(before: ProjectState, after: ProjectState): ProjectDiff {
+    const beforeScenes = before.scenes || [];
+    const afterScenes = after.scenes || [];
+    const beforeById = new Map(beforeScenes.map((s, i) => [s.id, { scene: s, index: i }]));
+    const afterById = new Map(afterScenes.map((s, i) => [s.id, { scene: s, index: i }]));
+    const stable = stableOrderIds(beforeScenes.map(s => s.id), afterScenes.map(s => s.id));
+
+    const scenes: SceneDiff[] = afterScenes.map((scene, newIndex) => {
+        const old = beforeById.get(scene.id);
+        if (!old) {
+            return { sceneId: scene.id, status: 'added', isMoved: false, oldIndex: -1, newIndex, changedFields: [], after: scene };
+        }
+        const changedFields = diffScene(old.scene, scene);
+        const isMoved = !stable.has(scene.id);
+        const status: SceneChangeStatus = changedFields.length > 0 ? 'modified' : isMoved ? 'moved' : 'unchanged';
+        return { sceneId: scene.id, status, isMoved, oldIndex: old.index, newIndex, changedFields, before: old.scene, after: scene };
+    });
+
+    // Insert removed scenes right after their previous neighbour from the old order
+    beforeScenes.forEach((scene, oldIndex) => {
+        if (afterById.has(scene.id)) return;
+        const removed: SceneDiff = { sceneId: scene.id, status: 'removed', isMoved: false, oldIndex, newIndex: -1, changedFields: [], before: scene };
+        const prevId = beforeScenes[oldIndex - 1]?.id;
+        const insertAt = prevId ? scenes.findIndex(d => d.sceneId === prevId) + 1 : 0;
+        scenes.splice(insertAt, 0, removed);
+    });
+
+    const summary: Record<SceneChangeStatus, number> = { added: 0, removed: 0, modified: 0, moved: 0, unchanged: 0 };
+    scenes.forEach(d => summary[d.status]++);
+
+    return { scenes, groups: diffGroups(before.sceneGroups || [], after.sceneGroups || [], scenes), summary };
+}
+
+function diffGroups(beforeGroups: SceneGroup[], afterGroups: SceneGroup[], sceneDiffs: SceneDiff[]): GroupDiff[] {
+    const beforeById = new Map(beforeGroups.map(g => [g.id, g]));
+    const afterById = new Map(afterGroups.map(g => [g.id, g]));
+    const allIds = [...afterGroups.map(g => g.id), ...beforeGroups.filter(g => !afterById.has(g.id)).map(g => g.id)];
+
+    return allIds.map(groupId => {
+        const oldGroup = beforeById.get(groupId);
+        const newGroup = afterById.get(groupId);
+        const sceneChanges = sceneDiffs.filter(d =>
+            d.status !== 'unchanged' && (d.before?.groupId === groupId || d.after?.groupId === groupId)
+        ).length;
+
+        let status: GroupDiff['status'] = 'unchanged';
+        if (!oldGroup) status = 'added';
+        else if (!newGroup) status = 'removed';
+        else if (sceneChanges > 0 || JSON.stringify(oldGroup) !== JSON.stringify(newGroup)) status = 'modified';
+
+        return { groupId, name: (newGroup || oldGroup)!.name, status, sceneChanges };
+    });
+}
+
+/**
+ * Put scenes from `source` (snapshot) back into `target` (current project).
+ * Existing scenes are replaced in place; deleted scenes are re-inserted after
+ * their nearest preceding neighbour that still exists.
+ * Scenes are renumbered only if the project was numbered 1..n before, so
+ * custom numbering ("12A", "C3") survives a partial restore.
+ */
+export function restoreScenes(target: ProjectState, source: ProjectState, sceneIds: string[]): ProjectState {
+    const sourceScenes = source.scenes || [];
+    const wasSequential = target.scenes.every((s, i) => s.sceneNumber === `${i + 1}`);
+    let scenes = [...target.scenes];
+
+    sceneIds.forEach(id => {
+        const sourceIndex = sourceScenes.findIndex(s => s.id === id);
+        if (sourceIndex === -1) return;
+        const restored = { ...sourceScenes[sourceIndex], isGenerating: false };
+
+        const existingIndex = scenes.findIndex(s => s.id === id);
+        if (existingIndex !== -1) {
+            scenes[existingIndex] = restored;
+            return;
+        }
+
+        let insertAt = 0;
+        for (let i = sourceIndex - 1; i >= 0; i--) {
+            const neighbourIndex = scenes.findIndex(s => s.id === sourceScenes[i].id);
+            if (neighbourIndex !== -1) { insertAt = neighbourIndex + 1; break; }
+        }
+        scenes = [...scenes.slice(0, insertAt), restored, ...scenes.slice(insertAt)];
+    });
+
+    // A restored scene may point to a group that no longer exists - bring the group back too
+    const groupIds = new Set((target.sceneGroups || []).map(g => g.id));
+    const missingGroups = (source.sceneGroups || []).filter(g =>
+        !groupIds.has(g.id) && scenes.some(s => s.groupId === g.id)
+    );
+
+    return {
+        ...target,
+        scenes: wasSequential ? scenes.map((s, i) => ({ ...s, sceneNumber: `${i + 1}` })) : scenes,
+        sceneGroups: [...(target.sceneGroups || []), ...missingGroups]
+    };
+}
+
+/**
+ * Restore a whole group (its settings and every scene it had in `source`).
+ * Scenes added to the group since the snapshot are kept.
+ */
+export function restoreGroup(target: ProjectState, source: ProjectState, groupId: string): ProjectState {
+    const sourceGroup = (source.sceneGroups || []).find(g => g.id === groupId);
+    if (!sourceGroup) return target;
+
+    const targetGroups = target.sceneGroups || [];
+    const sceneGroups = targetGroups.some(g => g.id === groupId)
+        ? targetGroups.map(g => (g.id === groupId ? sourceGroup : g))
+        : [...targetGroups, sourceGroup];
+
+    const sceneIds = (source.scenes || []).filter(s => s.groupId === groupId).map(s => s.id);
+    return restoreScenes({ ...target, sceneGroups }, source, sceneIds);
+}
@@ -0,0 +1,268 @@
+/**
+ * Project Schema Versioning & Migrations
+ *
+ * Every saved project (JSON, ZIP package, cloud, autosave) carries `schemaVersion`.
+ * On load, `migrateProject` upgrades older files step by step to the current
+ * ProjectState shape and reports what changed. Files written by a newer version
+ * of the app are refused instead of being loaded half-understood.
+ */
+
+import type { ProjectState, Product } from '../types';
+import { generateId } from './helpers';
+
+export const PROJECT_SCHEMA_VERSION = 4;
+
+// Files saved before versioning was introduced have no schemaVersion
+const UNVERSIONED_SCHEMA_VERSION = 1;
+
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    changes: string[];
+}
+
+interface Migration {
+    from: number;
+    to: number;
+    description: string;
+    migrate: (raw: any, changes: string[]) => any;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// v1 -> v2: normalize legacy (unversioned) projects
+// ═══════════════════════════════════════════════════════════════
+
+const migrateCharacterV1 = (char: any, changes: string[]): any => {
+    let next = { ...char };
+
+    // Very old files: a flat `images` array instead of named slots
+    if (Array.isArray(next.images)) {
+        // First image becomes Face, second Body, the rest become (unnamed) props
+        const props = next.images.slice(2).map((img: string, idx: number) => ({
+            id: `prop_${Date.now()}_${idx}`,
+            name: `Prop ${idx + 1}`,
+            image: img
+        }));
+        next = {
+            ...next,
+            faceImage: next.images[0] || null,
+            bodyImage: next.images[1] || null,
+            props
+        };
+        delete next.images;
+        changes.push(`Character "${next.name || next.id}": converted legacy image list to Face/Body slots`);
+    }
+
+    // Deprecated single edit history -> master view history
+    if (Array.isArray(next.editHistory)) {
+        if (next.editHistory.length > 0) {
+            next.masterEditHistory = [...(next.masterEditHistory || []), ...next.editHistory];
+            changes.push(`Character "${next.name || next.id}": moved edit history to master view`);
+        }
+        delete next.editHistory;
+    }
+
+    return {
+        ...next,
+        masterImage: next.masterImage ?? null,
+        faceImage: next.faceImage ?? null,
+        bodyImage: next.bodyImage ?? null,
+        sideImage: next.sideImage ?? null,
+        backImage: next.backImage ?? null,
+        isDefault: !!next.isDefault
+    };
+};
+
+const migrateSceneV1 = (scene: any, idx: number, changes: string[]): any => {
+    const next = {
+        ...scene,
+        sceneNumber: scene.sceneNumber != null ? String(scene.sceneNumber) : String(idx + 1),
+        promptName: scene.promptName ?? '',
+        contextDescription: scene.contextDescription ?? '',
+        characterIds: Array.isArray(scene.characterIds) ? scene.characterIds : [],
+        productIds: Array.isArray(scene.productIds) ? scene.productIds : [],
+        generatedImage: scene.generatedImage ?? null,
+        veoPrompt: scene.veoPrompt || '',
+        isGenerating: false,
+        error: scene.error ?? null
+    };
+    if (scene.sceneNumber == null) changes.push(`Scene ${idx + 1}: assigned missing scene number`);
+    return next;
+};
+
+const migrateProductV1 = (prod: any): any => ({
+    ...prod,
+    masterImage: prod.masterImage ?? null,
+    views: {
+        front: prod.views?.front ?? null,
+        back: prod.views?.back ?? null,
+        left: prod.views?.left ?? null,
+        right: prod.views?.right ?? null,
+        top: prod.views?.top ?? null
+    },
+    isAnalyzing: false
+});
+
+// ═══════════════════════════════════════════════════════════════
+// v3 -> v4: drop deprecated character props and per-language scene fields
+// ═══════════════════════════════════════════════════════════════
+
+// Props were never more than a named image; the ones with an image live on as products
+const migrateCharacterPropsV3 = (char: any, changes: string[]): Product[] => {
+    const props = (Array.isArray(char.props) ? char.props : []).filter((p: any) => p?.image);
+    if (props.length > 0) {
+        changes.push(`Character "${char.name || char.id}": moved ${props.length} prop image(s) to products`);
+    }
+    return props.map((p: any, idx: number) => ({
+        id: p.id || generateId(),
+        name: p.name?.trim() || `${char.name || 'Character'} - Prop ${idx + 1}`,
+        description: '',
+        masterImage: p.image,
+        views: { front: null, back: null, left: null, right: null, top: null },
+        isAnalyzing: false
+    }));
+};
+
+const migrateSceneV3 = (scene: any, useVietnameseField: boolean, changes: string[]): any => {
+    const { language1, vietnamese, ...next } = scene;
+
+    // `vietnamese` held the Vietnamese line and `language1` the line in any other script language
+    next.scriptText = (useVietnameseField ? vietnamese : language1) ?? '';
+    next.scriptTranslation = (useVietnameseField ? language1 : vietnamese) ?? '';
+
+    if (next.editHistory !== undefined) {
+        const entries = Array.isArray(next.editHistory) ? next.editHistory : [];
+        const history = entries
+            .filter((h: any) => typeof h?.image === 'string' && h.image)
+            .map((h: any) => ({ id: h.id || generateId(), image: h.image, prompt: h.prompt ?? '' }));
+        if (history.length !== entries.length || !Array.isArray(next.editHistory)) {
+            changes.push(`Scene ${next.sceneNumber}: dropped edit history entries without an image`);
+        }
+        next.editHistory = history;
+    }
+
+    return next;
+};
+
+const MIGRATIONS: Migration[] = [
+    {
+        from: 1,
+        to: 2,
+        description: 'Normalize legacy characters, scenes and products',
+        migrate: (raw, changes) => {
+            const defaults: Partial<ProjectState> = {
+                stylePrompt: 'cinematic-realistic',
+                imageModel: 'fal-ai/flux-general',
+                aspectRatio: '16:9',
+                resolution: '1K',
+                scriptLanguage: 'vietnamese',
+                activeScriptPreset: 'film-animation',
+                customScriptPresets: []
+            };
+            const filled = Object.keys(defaults).filter(k => raw[k] === undefined || raw[k] === null);
+            if (filled.length > 0) changes.push(`Added default settings: ${filled.join(', ')}`);
+
+            return {
+                ...raw,
+                ...Object.fromEntries(filled.map(k => [k, defaults[k as keyof typeof defaults]])),
+                projectName: typeof raw.projectName === 'string' ? raw.projectName : '',
+                characters: (Array.isArray(raw.characters) ? raw.characters : []).map((c: any) => migrateCharacterV1(c, changes)),
+                scenes: (Array.isArray(raw.scenes) ? raw.scenes : []).map((s: any, i: number) => migrateSceneV1(s, i, changes)),
+                products: (Array.isArray(raw.products) ? raw.products : []).map(migrateProductV1)
+            };
+        }
+    },
+    {
+        // v3 files may store images once in `assets` and reference them as `asset:<hash>`
+        // (see utils/assetStore.ts). Older files keep inline images, which remain valid.
+        from: 2,
+        to: 3,
+        description: 'Content-addressed image assets',
+        migrate: (raw) => raw
+    },
+    {
+        from: 3,
+        to: 4,
+        description: 'Character props become products, per-language script fields, normalized scene edit history',
+        migrate: (raw, changes) => {
+            if (!Array.isArray(raw.characters) || !Array.isArray(raw.scenes)) return raw;
+            const products: Product[] = [...(raw.products || [])];
+            const characters = raw.characters.map((c: any) => {
+                const { props, ...rest } = c;
+                products.push(...migrateCharacterPropsV3(c, changes));
+                return rest;
+            });
+            const useVietnameseField = raw.scriptLanguage === 'vietnamese';
+            return {
+                ...raw,
+                characters,
+                products,
+                scenes: raw.scenes.map((s: any) => migrateSceneV3(s, useVietnameseField, changes))
+            };
+        }
+    }
+];
+
+// ═══════════════════════════════════════════════════════════════
+// Public API
+// ═══════════════════════════════════════════════════════════════
+
+export function getSchemaVersion(raw: any): number {
+    const version = Number(raw?.schemaVersion);
+    return Number.isInteger(version) && version > 0 ? version : UNVERSIONED_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade raw project JSON to the current ProjectState shape.
+ * Throws if the file comes from a newer app version or is not a project at all.
+ */
+export function migrateProject(raw: any): { state: ProjectState; report: MigrationReport } {
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new Error('Tệp dự án không hợp lệ.');
+    }
+
+    const fromVersion = getSchemaVersion(raw);
+    if (fromVersion > PROJECT_SCHEMA_VERSION) {
+        throw new Error(
+            `Tệp dự án được tạo bởi phiên bản mới hơn (schema v${fromVersion}, ứng dụng hỗ trợ tối đa v${PROJECT_SCHEMA_VERSION}). Vui lòng cập nhật ứng dụng.`
+        );
+    }
+
+    const changes: string[] = [];
+    let data = raw;
+    let version = fromVersion;
+
+    while (version < PROJECT_SCHEMA_VERSION) {
+        const step = MIGRATIONS.find(m => m.from === version);
+        if (!step) throw new Error(`Missing project migration from schema v${version}`);
+        data = step.migrate(data, changes);
+        console.log(`[Migration] v${step.from} -> v${step.to}: ${step.description}`);
+        version = step.to;
+    }
+
+    if (!Array.isArray(data.characters) || !Array.isArray(data.scenes)) {
+        throw new Error('Tệp dự án không hợp lệ: thiếu danh sách nhân vật hoặc cảnh.');
+    }
+
+    return {
+        state: { ...data, schemaVersion: PROJECT_SCHEMA_VERSION } as ProjectState,
+        report: { fromVersion, toVersion: PROJECT_SCHEMA_VERSION, changes }
+    };
+}
+
+/**
+ * Stamp the current schema version on a project before it is written anywhere.
+ */
+export function withSchemaVersion<T extends ProjectState>(state: T): T {
+    return { ...state, schemaVersion: PROJECT_SCHEMA_VERSION };
+}
+
+/**
+ * Human-readable summary of a migration (empty string if nothing had to change).
+ */
+export function formatMigrationReport(report: MigrationReport): string {
+    if (report.fromVersion === report.toVersion || report.changes.length === 0) return '';
+    const lines = report.changes.slice(0, 10).map(c => `- ${c}`);
+    if (report.changes.length > 10) lines.push(`- ... và ${report.changes.length - 10} thay đổi khác`);
+    return `Dự án đã được nâng cấp từ schema v${report.fromVersion} lên v${report.toVersion}:\n${lines.join('\n')}`;
+}
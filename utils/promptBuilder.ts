@@ -1,4 +1,18 @@
-import { ScriptPreset, Character, Product, DirectorPreset } from '../types';
+import { ScriptPreset, Character, Product, DirectorPreset, MusicTrack } from '../types';
+import { getBarCount, getSecondsPerBar } from './beatSync';
+
+/**
+ * Song structure for beat-synced scripts: tempo, bar length and how many bars are available.
+ */
+function buildMusicInstruction(track: MusicTrack): string {
+    const secondsPerBar = getSecondsPerBar(track);
+    return `
+**MUSIC TRACK (BEAT-SYNCED CUT):**
+The storyboard is cut to "${track.name}": ${track.bpm} BPM, ${track.beatsPerBar}/4, ${getBarCount(track)} bars (~${secondsPerBar.toFixed(2)}s per bar, ${Math.round(track.duration)}s total).
+- Each scene lasts a whole number of beats, usually 1-2 bars; cuts land on the beat.
+- Fast pacing = 1 bar or less per scene, slow pacing = 2-4 bars per scene.
+`;
+}
 
 /**
  * Build AI prompt for script generation based on selected preset and director
@@ -11,7 +25,8 @@ export function buildScriptPrompt(
     sceneCount: number,
     language: string,
     customInstruction?: string,
-    director?: DirectorPreset
+    director?: DirectorPreset,
+    musicTrack?: MusicTrack
 ): string {
     // Filter characters with names
     const availableCharacters = characters
@@ -69,7 +84,8 @@ PHẢI viết kịch bản và mô tả hình ảnh theo phong cách của đạ
       "id": "group_id",
       "name": "Tên bối cảnh (VD: Boong tàu, Khoang tàu, Dưới nước)",
       "description": "Mô tả bối cảnh và diễn biến chung trong nhóm này",
-      "continuity_reference_group_id": "id_nhóm_trước_đó" (Chỉ dùng nếu bối cảnh này lặp lại từ một nhóm phía trước để đảm bảo tính nhất quán)
+      "continuity_reference_group_id": "id_nhóm_trước_đó" (Chỉ dùng nếu bối cảnh này lặp lại từ một nhóm phía trước để đảm bảo tính nhất quán)${musicTrack ? `,
+      "bars": 8 (Số ô nhịp của bài hát mà nhóm này chiếm)` : ''}
     }
 ],
 - "scenes": [
@@ -126,6 +142,10 @@ PHẢI viết kịch bản và mô tả hình ảnh theo phong cách của đạ
 `;
 
 
+    const musicInstructions = musicTrack
+        ? `${buildMusicInstruction(musicTrack)}- Split scene_groups along the song sections (intro, verse, chorus, bridge, outro) and give each group its "bars"; the bars of all groups add up to ${getBarCount(musicTrack)}.\n`
+        : '';
+
     // Add custom instructions if present
     const customInstructionBlock = customInstruction?.trim()
         ? `\n**CUSTOM INSTRUCTIONS (META TOKENS):**\n${customInstruction}\n(Prioritize these instructions for tone and style)\n`
@@ -149,7 +169,7 @@ ${productInstructions}
 ${preset.toneKeywords.join(', ')}
 ${customInstructionBlock}
 ${directorInstructions}
-
+${musicInstructions}
 **LANGUAGE REQUIREMENT:**
 Write all dialogues, voiceovers, and narration in ${language}.
 
@@ -197,7 +217,7 @@ Return ONLY a valid JSON array. Do NOT include any text outside the JSON.
  */
 export function buildGroupRegenerationPrompt(
     fullScript: string,
-    groupToRegen: { id: string; name: string; description: string },
+    groupToRegen: { id: string; name: string; description: string; bars?: number },
     allGroups: any[],
     preset: ScriptPreset,
     characters: Character[],
@@ -205,7 +225,8 @@ export function buildGroupRegenerationPrompt(
     language: string,
     customInstruction?: string,
     pacing?: 'slow' | 'medium' | 'fast',
-    sceneCount?: number
+    sceneCount?: number,
+    musicTrack?: MusicTrack
 ): string {
     const availableCharacters = characters
         .filter(c => c.name.trim() !== '')
@@ -240,6 +261,10 @@ This group must have a **${pacing.toUpperCase()}** pacing.
 - **Fast:** Quick cuts, dynamic camera movement, energetic action.
 ` : '';
 
+    const musicInstruction = musicTrack
+        ? `${buildMusicInstruction(musicTrack)}${groupToRegen.bars ? `- THIS GROUP covers exactly ${groupToRegen.bars} bars (~${Math.round(groupToRegen.bars * getSecondsPerBar(musicTrack))}s): its scenes must fill those bars.\n` : ''}`
+        : '';
+
     const prompt = `
 ${preset.systemPrompt}
 
@@ -249,6 +274,7 @@ ${preset.systemPrompt}
 "${fullScript}"
 
 ${pacingInstruction}
+${musicInstruction}
 
 ---
 
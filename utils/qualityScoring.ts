@@ -6,6 +6,7 @@
  */
 
 import { callGroqVision } from './geminiUtils';
+import { schema, requestStructured } from './structuredOutput';
 
 export interface QualityScore {
     overall: number;          // 0-1 overall score
@@ -24,6 +25,30 @@ export interface QualityCheckResult {
     refinedPrompt?: string;
 }
 
+// Criteria the model leaves out count as passed
+const criterion = schema.number({ min: 0, max: 1, default: 1 });
+
+const qualityResponseSchema = schema.object({
+    fullBodyVisible: criterion,
+    backgroundClean: criterion,
+    faceClarity: criterion,
+    matchesDescription: criterion,
+    singleSubject: criterion,
+    issues: schema.array(schema.string(), { default: [] }),
+    suggestions: schema.array(schema.string(), { default: [] })
+});
+
+const NEUTRAL_SCORE: QualityScore = {
+    overall: 0.5,
+    fullBodyVisible: 0.5,
+    backgroundClean: 0.5,
+    faceClarity: 0.5,
+    matchesDescription: 0.5,
+    singleSubject: 0.5,
+    issues: ['Quality check failed'],
+    suggestions: []
+};
+
 /**
  * Analyze image quality using Groq Vision
  */
@@ -48,19 +73,21 @@ export async function checkImageQuality(
             ? getCharacterCheckPrompt(originalPrompt)
             : getSceneCheckPrompt(originalPrompt);
 
-        const response = await callGroqVision(checkPrompt, [{ data, mimeType }]);
-
-        const result = JSON.parse(
-            response.replace(/```json/g, '').replace(/```/g, '').trim() || '{}'
-        );
+        const result = await requestStructured({
+            name: 'Quality Check',
+            schema: qualityResponseSchema,
+            call: correction => callGroqVision(checkPrompt + (correction || ''), [{ data, mimeType }]),
+            fallback: null
+        });
+        if (!result) return { ...NEUTRAL_SCORE, issues: [...NEUTRAL_SCORE.issues] };
 
         // Calculate overall score
         const scores = [
-            result.fullBodyVisible ?? 1,
-            result.backgroundClean ?? 1,
-            result.faceClarity ?? 1,
-            result.matchesDescription ?? 1,
-            result.singleSubject ?? 1
+            result.fullBodyVisible,
+            result.backgroundClean,
+            result.faceClarity,
+            result.matchesDescription,
+            result.singleSubject
         ];
         const overall = scores.reduce((a, b) => a + b, 0) / scores.length;
 
@@ -68,27 +95,18 @@ export async function checkImageQuality(
 
         return {
             overall,
-            fullBodyVisible: result.fullBodyVisible ?? 1,
-            backgroundClean: result.backgroundClean ?? 1,
-            faceClarity: result.faceClarity ?? 1,
-            matchesDescription: result.matchesDescription ?? 1,
-            singleSubject: result.singleSubject ?? 1,
-            issues: result.issues || [],
-            suggestions: result.suggestions || []
+            fullBodyVisible: result.fullBodyVisible,
+            backgroundClean: result.backgroundClean,
+            faceClarity: result.faceClarity,
+            matchesDescription: result.matchesDescription,
+            singleSubject: result.singleSubject,
+            issues: result.issues,
+            suggestions: result.suggestions
         };
     } catch (err) {
         console.error('[Quality Check] Failed:', err);
         // Return neutral scores on error
-        return {
-            overall: 0.5,
-            fullBodyVisible: 0.5,
-            backgroundClean: 0.5,
-            faceClarity: 0.5,
-            matchesDescription: 0.5,
-            singleSubject: 0.5,
-            issues: ['Quality check failed'],
-            suggestions: []
-        };
+        return { ...NEUTRAL_SCORE, issues: [...NEUTRAL_SCORE.issues] };
     }
 }
 
@@ -0,0 +1,183 @@
+/**
+ * Screenplay Export (Fountain / Final Draft .fdx)
+ * Writes the storyboard back out as a screenplay, in the same element model the importer reads.
+ *
+ * - Each run of scenes in a group gets a slugline: INT./EXT. from the Location, time of day from the group
+ * - Each scene is one action paragraph (visualDescription), followed by NARRATOR (V.O.) and the dialogue
+ * - transitionType is written after the scene as a transition cue
+ * - Fountain output escapes anything the importer would otherwise read as another element
+ */
+
+import type { ProjectState, SceneGroup } from '../types';
+import { slugify } from './helpers';
+import { ScreenplayDocument, ScreenplayElement, SCREENPLAY_TRANSITIONS, SCENE_HEADING_PREFIX, NARRATOR_CUE, getCueName } from './screenplayImport';
+
+const TIME_OF_DAY_CUES: Record<string, string> = {
+    dawn: 'DAWN',
+    morning: 'MORNING',
+    noon: 'DAY',
+    afternoon: 'AFTERNOON',
+    sunset: 'SUNSET',
+    dusk: 'DUSK',
+    night: 'NIGHT'
+};
+
+// ═══════════════════════════════════════════════════════════════
+// Document
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Slugline for a group, e.g. "INT. COFFEE SHOP - NIGHT". No INT/EXT when the location doesn't say.
+ */
+export function buildSceneHeading(group: SceneGroup, state: ProjectState): string {
+    const location = group.locationId ? state.locations?.find(l => l.id === group.locationId) : undefined;
+    const prefix = location?.isInterior === undefined ? '' : location.isInterior ? 'INT. ' : 'EXT. ';
+    const time = group.timeOfDay === 'custom' ? group.customTimeOfDay : TIME_OF_DAY_CUES[group.timeOfDay || ''];
+    const place = (location?.name || group.name).toUpperCase();
+    return `${prefix}${place}${time ? ` - ${time.toUpperCase()}` : ''}`;
+}
+
+const singleParagraph = (text: string): string => text.trim().replace(/\n\s*\n/g, '\n');
+
+export function buildScreenplayDocument(state: ProjectState): ScreenplayDocument {
+    const elements: ScreenplayElement[] = [];
+    const groups = state.sceneGroups || [];
+    let currentGroupId: string | undefined;
+    let headingCount = 0;
+
+    for (const scene of state.scenes) {
+        const group = groups.find(g => g.id === scene.groupId);
+        if (group && group.id !== currentGroupId) {
+            headingCount++;
+            elements.push({ type: 'heading', text: buildSceneHeading(group, state), sceneNumber: String(headingCount) });
+        }
+        currentGroupId = group?.id;
+
+        // Every storyboard scene needs its own action paragraph to come back as a scene
+        const action = singleParagraph(scene.visualDescription || scene.contextDescription || scene.promptName || `Scene ${scene.sceneNumber}`);
+        elements.push({ type: 'action', text: action });
+
+        if (scene.voiceOverText?.trim()) {
+            elements.push({ type: 'character', text: `${NARRATOR_CUE} (V.O.)` });
+            elements.push({ type: 'dialogue', text: scene.voiceOverText.trim().replace(/\s*\n\s*/g, ' ') });
+        }
+        for (const dialogue of scene.dialogues || []) {
+            if (!dialogue.line?.trim()) continue;
+            elements.push({ type: 'character', text: (dialogue.characterName || 'CHARACTER').trim().toUpperCase() });
+            elements.push({ type: 'dialogue', text: dialogue.line.trim().replace(/\s*\n\s*/g, ' ') });
+        }
+
+        const transition = SCREENPLAY_TRANSITIONS[scene.transitionType || ''];
+        if (transition) elements.push({ type: 'transition', text: transition });
+    }
+
+    return { title: state.projectName || undefined, elements };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Fountain
+// ═══════════════════════════════════════════════════════════════
+
+const escapeEmphasis = (text: string): string => text.replace(/([*_])/g, '\\$1');
+
+// Lines that would parse as a heading, cue, transition, section or note get forced to action with "!"
+function escapeActionLine(line: string, isFirst: boolean): string {
+    const trimmed = escapeEmphasis(line.trim());
+    const forced = /^[.!@>#=~[]/.test(trimmed)
+        || SCENE_HEADING_PREFIX.test(trimmed)
+        || (isFirst && /\p{L}/u.test(trimmed) && trimmed === trimmed.toUpperCase());
+    return forced ? `!${trimmed}` : trimmed;
+}
+
+export function toFountain(screenplay: ScreenplayDocument): string {
+    const blocks: string[] = [];
+    if (screenplay.title) {
+        blocks.push(`Title: ${screenplay.title}\nDraft date: ${new Date().toLocaleDateString('vi-VN')}`);
+    }
+
+    for (const element of screenplay.elements) {
+        switch (element.type) {
+            case 'heading': {
+                // Headings without INT/EXT have to be forced
+                const forced = SCENE_HEADING_PREFIX.test(element.text) ? '' : '.';
+                blocks.push(`${forced}${element.text}${element.sceneNumber ? ` #${element.sceneNumber}#` : ''}`);
+                break;
+            }
+            case 'action':
+                blocks.push(element.text.split('\n').map((line, i) => escapeActionLine(line, i === 0)).join('\n'));
+                break;
+            case 'character': {
+                // Names in scripts without letter case can't be recognised by case alone
+                const name = getCueName(element.text);
+                const forced = name.toUpperCase() === name.toLowerCase() ? '@' : '';
+                blocks.push(`${forced}${element.text}`);
+                break;
+            }
+            case 'parenthetical':
+            case 'dialogue':
+                // Stays attached to the cue above it: no blank line
+                blocks[blocks.length - 1] += `\n${element.type === 'dialogue' ? escapeEmphasis(element.text) : element.text}`;
+                break;
+            case 'transition':
+                blocks.push(element.text);
+                break;
+        }
+    }
+
+    return `${blocks.join('\n\n')}\n`;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Final Draft
+// ═══════════════════════════════════════════════════════════════
+
+const FDX_PARAGRAPH_TYPES: Record<ScreenplayElement['type'], string> = {
+    heading: 'Scene Heading',
+    action: 'Action',
+    character: 'Character',
+    parenthetical: 'Parenthetical',
+    dialogue: 'Dialogue',
+    transition: 'Transition'
+};
+
+const escapeXml = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export function toFdx(screenplay: ScreenplayDocument): string {
+    const paragraphs = screenplay.elements.map(element => {
+        const number = element.type === 'heading' && element.sceneNumber ? ` Number="${escapeXml(element.sceneNumber)}"` : '';
+        return `    <Paragraph Type="${FDX_PARAGRAPH_TYPES[element.type]}"${number}>\n      <Text>${escapeXml(element.text)}</Text>\n    </Paragraph>`;
+    });
+    const titlePage = screenplay.title
+        ? `  <TitlePage>\n    <Content>\n      <Paragraph Alignment="Center" Type="Title">\n        <Text>${escapeXml(screenplay.title)}</Text>\n      </Paragraph>\n    </Content>\n  </TitlePage>\n`
+        : '';
+
+    return [
+        '<?xml version="1.0" encoding="UTF-8" standalone="no" ?>',
+        '<FinalDraft DocumentType="Script" Template="No" Version="5">',
+        '  <Content>',
+        ...paragraphs,
+        '  </Content>',
+        `${titlePage}</FinalDraft>`,
+        ''
+    ].join('\n');
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Download
+// ═══════════════════════════════════════════════════════════════
+
+export type ScreenplayFormat = 'fountain' | 'fdx';
+
+export function downloadScreenplay(state: ProjectState, format: ScreenplayFormat): void {
+    const screenplay = buildScreenplayDocument(state);
+    const content = format === 'fdx' ? toFdx(screenplay) : toFountain(screenplay);
+    const blob = new Blob([content], { type: format === 'fdx' ? 'application/xml' : 'text/plain' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${slugify(state.projectName || '') || 'screenplay'}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
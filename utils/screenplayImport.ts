@@ -0,0 +1,399 @@
+/**
+ * Screenplay Import (Fountain / Final Draft .fdx)
+ * Turns a delivered screenplay into scene groups, storyboard scenes, characters and locations.
+ *
+ * - Both formats are read into the same element list (heading / action / character / parenthetical / dialogue / transition)
+ * - Each slugline becomes a SceneGroup; INT/EXT goes to Location.isInterior, the time of day to SceneGroup.timeOfDay
+ * - Each action paragraph starts a storyboard scene (visualDescription); the dialogue after it belongs to that scene
+ * - NARRATOR cues become voiceOverText; other cues become dialogues, speakers linked to Characters by name
+ * - Parentheticals are acting notes, not spoken text, so they are not imported
+ */
+
+import type { Scene, SceneGroup, Character, Location } from '../types';
+import { generateId } from './helpers';
+import { findSpeaker } from './voiceover';
+
+export type ScreenplayElementType = 'heading' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition';
+
+export interface ScreenplayElement {
+    type: ScreenplayElementType;
+    text: string;
+    sceneNumber?: string; // Headings only
+}
+
+export interface ScreenplayDocument {
+    title?: string;
+    elements: ScreenplayElement[];
+}
+
+export interface SceneHeading {
+    interior?: boolean; // undefined = INT./EXT. or no prefix
+    location: string;
+    time?: string;
+}
+
+export interface ScreenplayImportResult {
+    title?: string;
+    groups: SceneGroup[];
+    scenes: Scene[];
+    characters: Character[]; // Speakers not found in the project
+    locations: Location[];   // Locations not found in the library
+    linkedCharacterIds: string[]; // Existing characters the script refers to
+}
+
+// transitionType -> screenplay transition (shared with the exporter so files round-trip)
+export const SCREENPLAY_TRANSITIONS: Record<string, string> = {
+    'cut': 'CUT TO:',
+    'match-cut': 'MATCH CUT TO:',
+    'jump-cut': 'JUMP CUT TO:',
+    'smash-cut': 'SMASH CUT TO:',
+    'dissolve': 'DISSOLVE TO:',
+    'fade-black': 'FADE TO BLACK.',
+    'fade-white': 'FADE TO WHITE.',
+    'wipe': 'WIPE TO:'
+};
+
+export const NARRATOR_CUE = 'NARRATOR';
+const NARRATOR_NAMES = [NARRATOR_CUE, 'NARRATION', 'NGƯỜI DẪN CHUYỆN', 'NGƯỜI KỂ CHUYỆN', 'LỜI DẪN'];
+
+export const SCENE_HEADING_PREFIX = /^(INT\.?\s*\/\s*EXT|EXT\.?\s*\/\s*INT|I\/E|INT|EXT|EST)\.?(?=\s|$)\s*/i;
+const SCENE_NUMBER = /\s*#([\w.-]+)#\s*$/;
+
+// ═══════════════════════════════════════════════════════════════
+// Fountain
+// ═══════════════════════════════════════════════════════════════
+
+const stripEmphasis = (text: string): string =>
+    text.replace(/(?<!\\)(\*{1,3}|_)(?=\S)(.+?)(?<=[^\s\\])\1/g, '$2').replace(/\\([*_])/g, '$1');
+
+const isTransitionLine = (line: string): boolean =>
+    /^[^a-z]*TO:$/.test(line) || /^FADE (OUT|TO BLACK|TO WHITE)\.?$/.test(line) || /^FADE IN:?$/.test(line);
+
+// Upper-case line (ignoring the extension) with at least one letter
+function isCharacterCue(line: string): boolean {
+    const name = line.replace(/\(.*?\)/g, '').replace(/\^$/, '').trim();
+    return /\p{L}/u.test(name) && name === name.toUpperCase() && !isTransitionLine(line);
+}
+
+export function parseFountain(source: string): ScreenplayDocument {
+    let text = source.replace(/\r\n?/g, '\n')
+        .replace(/\/\*[\s\S]*?\*\//g, '')   // Boneyard
+        .replace(/\[\[[\s\S]*?\]\]/g, '');  // Notes
+
+    // Title page: "Key: value" lines up to the first blank line
+    let title: string | undefined;
+    if (/^[\w ]+:/.test(text.trimStart())) {
+        const [titlePage, ...rest] = text.trimStart().split(/\n\s*\n/);
+        title = titlePage.match(/^Title:\s*(.*(?:\n[ \t]+.*)*)/im)?.[1].replace(/\s+/g, ' ').trim() || undefined;
+        text = rest.join('\n\n');
+    }
+
+    const lines = text.split('\n');
+    const elements: ScreenplayElement[] = [];
+    const isBlank = (index: number) => index < 0 || index >= lines.length || !lines[index].trim();
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (!line) continue;
+        const prevBlank = isBlank(i - 1);
+
+        // Sections, synopses and page breaks carry no screen content
+        if (line.startsWith('#') || line.startsWith('=')) continue;
+
+        if (line.startsWith('!')) {
+            const last = elements[elements.length - 1];
+            if (!prevBlank && last?.type === 'action') last.text += `\n${stripEmphasis(line.slice(1))}`;
+            else elements.push({ type: 'action', text: stripEmphasis(line.slice(1)) });
+            continue;
+        }
+
+        if (prevBlank && ((line.startsWith('.') && !line.startsWith('..')) || SCENE_HEADING_PREFIX.test(line))) {
+            const heading = line.replace(/^\./, '');
+            const sceneNumber = heading.match(SCENE_NUMBER)?.[1];
+            elements.push({ type: 'heading', text: heading.replace(SCENE_NUMBER, '').trim(), sceneNumber });
+            continue;
+        }
+
+        if ((line.startsWith('>') && !line.endsWith('<')) || (prevBlank && isBlank(i + 1) && isTransitionLine(line))) {
+            elements.push({ type: 'transition', text: line.replace(/^>\s*/, '') });
+            continue;
+        }
+
+        // Character cue followed by its dialogue block
+        if (prevBlank && !isBlank(i + 1) && (line.startsWith('@') || isCharacterCue(line))) {
+            elements.push({ type: 'character', text: line.replace(/^@/, '').replace(/\s*\^$/, '') });
+            for (i++; i < lines.length && lines[i].trim(); i++) {
+                const part = lines[i].trim();
+                const last = elements[elements.length - 1];
+                if (/^\(.*\)$/.test(part)) elements.push({ type: 'parenthetical', text: part });
+                else if (last.type === 'dialogue') last.text += ` ${stripEmphasis(part)}`;
+                else elements.push({ type: 'dialogue', text: stripEmphasis(part) });
+            }
+            continue;
+        }
+
+        // Action: consecutive lines form one paragraph (centered ">text<" and lyrics "~" included)
+        const content = stripEmphasis(line.replace(/^>\s*(.*?)\s*<$/, '$1').replace(/^~\s*/, ''));
+        const last = elements[elements.length - 1];
+        if (!prevBlank && last?.type === 'action') last.text += `\n${content}`;
+        else elements.push({ type: 'action', text: content });
+    }
+
+    return { title, elements };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Final Draft (.fdx)
+// ═══════════════════════════════════════════════════════════════
+
+const FDX_TYPES: Record<string, ScreenplayElementType> = {
+    'Scene Heading': 'heading',
+    'Action': 'action',
+    'General': 'action',
+    'Shot': 'action',
+    'Character': 'character',
+    'Parenthetical': 'parenthetical',
+    'Dialogue': 'dialogue',
+    'Transition': 'transition'
+};
+
+export function parseFdx(xml: string): ScreenplayDocument {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0 || !doc.getElementsByTagName('FinalDraft').length) {
+        throw new Error('File FDX không hợp lệ');
+    }
+
+    const content = doc.getElementsByTagName('Content')[0];
+    const elements: ScreenplayElement[] = [];
+    // Dual dialogue nests paragraphs inside a wrapper paragraph: only leaf paragraphs are read
+    for (const paragraph of Array.from(content?.getElementsByTagName('Paragraph') || [])) {
+        if (paragraph.getElementsByTagName('Paragraph').length > 0) continue;
+        const type = FDX_TYPES[paragraph.getAttribute('Type') || ''];
+        const text = Array.from(paragraph.getElementsByTagName('Text')).map(t => t.textContent || '').join('').trim();
+        if (!type || !text) continue;
+        elements.push({ type, text, sceneNumber: type === 'heading' ? paragraph.getAttribute('Number') || undefined : undefined });
+    }
+
+    const titleParagraph = doc.querySelector('TitlePage Paragraph Text');
+    return { title: titleParagraph?.textContent?.trim() || undefined, elements };
+}
+
+export function parseScreenplayFile(fileName: string, content: string): ScreenplayDocument {
+    return /\.fdx$/i.test(fileName) ? parseFdx(content) : parseFountain(content);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Headings
+// ═══════════════════════════════════════════════════════════════
+
+export function parseSceneHeading(text: string): SceneHeading {
+    const prefix = text.match(SCENE_HEADING_PREFIX)?.[1].toUpperCase().replace(/[\s.]/g, '');
+    const rest = text.replace(SCENE_HEADING_PREFIX, '').trim();
+    const interior = prefix === 'INT' ? true : prefix === 'EXT' || prefix === 'EST' ? false : undefined;
+
+    // "LOCATION - TIME": the last dash separates the time of day
+    const dash = rest.match(/^(.*\S)\s+[-–—]\s+([^-–—]+)$/);
+    return dash
+        ? { interior, location: dash[1].trim(), time: dash[2].trim() }
+        : { interior, location: rest || text };
+}
+
+// Checked in order: AFTERNOON before NOON, DAY last
+const TIME_OF_DAY_KEYWORDS: [RegExp, NonNullable<SceneGroup['timeOfDay']>][] = [
+    [/DAWN|SUNRISE|BÌNH MINH/, 'dawn'],
+    [/AFTERNOON|CHIỀU/, 'afternoon'],
+    [/MORNING|SÁNG/, 'morning'],
+    [/NOON|MIDDAY|TRƯA/, 'noon'],
+    [/SUNSET|EVENING|MAGIC HOUR|GOLDEN HOUR|HOÀNG HÔN/, 'sunset'],
+    [/DUSK|TWILIGHT|CHẠNG VẠNG/, 'dusk'],
+    [/NIGHT|ĐÊM|TỐI/, 'night'],
+    [/DAY|NGÀY/, 'noon']
+];
+
+// Times that mean "same as the previous scene"
+const CONTINUOUS_TIME = /CONTINUOUS|SAME|LATER|LIÊN TỤC|CÙNG LÚC/;
+
+function resolveTimeOfDay(time: string | undefined, previous?: SceneGroup): Pick<SceneGroup, 'timeOfDay' | 'customTimeOfDay'> {
+    if (!time) return {};
+    const upper = time.toUpperCase();
+    if (CONTINUOUS_TIME.test(upper)) return previous ? { timeOfDay: previous.timeOfDay, customTimeOfDay: previous.customTimeOfDay } : {};
+    const match = TIME_OF_DAY_KEYWORDS.find(([pattern]) => pattern.test(upper));
+    return match ? { timeOfDay: match[1] } : { timeOfDay: 'custom', customTimeOfDay: time };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Project
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Cue "JOHN (V.O.) (CONT'D)" -> name "JOHN"
+ */
+export const getCueName = (cue: string): string => cue.replace(/\(.*?\)/g, '').trim();
+
+const toTitleCase = (name: string): string =>
+    name.toLowerCase().replace(/(^|[\s'-])(\p{L})/gu, (_, sep, letter) => sep + letter.toUpperCase());
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-sensitive, as written or in screenplay caps ("Hope" / "HOPE"), so a character named
+// "Hope" or "Will" is not linked by every "hope" or "will" in the action lines
+const mentions = (text: string, name: string): boolean =>
+    [...new Set([name, name.toUpperCase()])].some(form =>
+        new RegExp(`(^|[^\\p{L}])${escapeRegExp(form)}($|[^\\p{L}])`, 'u').test(text));
+
+export interface ScreenplayImportContext {
+    characters: Character[];
+    locations: Location[];
+    sceneCount: number;      // Existing scenes; imported scenes are numbered after them
+    scriptLanguage?: string; // Picks the primary script field like applyGeneratedScript
+}
+
+export function buildProjectFromScreenplay(document: ScreenplayDocument, context: ScreenplayImportContext): ScreenplayImportResult {
+    const groups: SceneGroup[] = [];
+    const scenes: Scene[] = [];
+    const newCharacters: Character[] = [];
+    const newLocations: Location[] = [];
+    const speakerIds = new Set<string>();
+
+    let group: SceneGroup | undefined;
+    let heading = '';
+    let scene: Scene | undefined;
+    let speaker: { name: string; isNarrator: boolean } | null = null;
+
+    const startScene = (description: string): Scene => {
+        const sceneNumber = String(context.sceneCount + scenes.length + 1);
+        const next: Scene = {
+            id: generateId(),
+            sceneNumber,
+            groupId: group?.id,
+            scriptText: '',
+            scriptTranslation: '',
+            promptName: `Scene ${sceneNumber}`,
+            contextDescription: description,
+            visualDescription: description,
+            characterIds: [],
+            productIds: [],
+            dialogues: [],
+            generatedImage: null,
+            veoPrompt: '',
+            isGenerating: false,
+            error: null
+        };
+        scenes.push(next);
+        return next;
+    };
+
+    const resolveSpeaker = (cueName: string): Character => {
+        const known = findSpeaker([...context.characters, ...newCharacters], cueName);
+        if (known) return known;
+        const created: Character = {
+            id: generateId(),
+            name: toTitleCase(cueName),
+            description: '',
+            masterImage: null,
+            faceImage: null,
+            bodyImage: null,
+            sideImage: null,
+            backImage: null,
+            isDefault: false
+        };
+        newCharacters.push(created);
+        return created;
+    };
+
+    const findLocation = (name: string): Location | undefined => {
+        const key = name.trim().toLowerCase();
+        return [...context.locations, ...newLocations].find(l => l.name.trim().toLowerCase() === key);
+    };
+
+    for (const [index, element] of document.elements.entries()) {
+        switch (element.type) {
+            case 'heading': {
+                const parsed = parseSceneHeading(element.text);
+                let location = findLocation(parsed.location);
+                if (!location) {
+                    location = {
+                        id: generateId(),
+                        name: parsed.location,
+                        description: element.text,
+                        keywords: [],
+                        isInterior: parsed.interior,
+                        createdAt: new Date().toISOString(),
+                        usageCount: 0
+                    };
+                    newLocations.push(location);
+                }
+                heading = element.sceneNumber ? `${element.sceneNumber}. ${element.text}` : element.text;
+                group = {
+                    id: generateId(),
+                    name: location.name,
+                    description: heading,
+                    locationId: location.id,
+                    ...resolveTimeOfDay(parsed.time, group)
+                };
+                groups.push(group);
+                scene = undefined;
+                speaker = null;
+                break;
+            }
+            case 'action':
+                scene = startScene(element.text);
+                speaker = null;
+                break;
+            case 'character': {
+                const name = getCueName(element.text);
+                const isNarrator = NARRATOR_NAMES.includes(name.toUpperCase());
+                speaker = { name: isNarrator ? name : resolveSpeaker(name).name, isNarrator };
+                break;
+            }
+            case 'dialogue': {
+                if (!speaker) break;
+                // Dialogue before any action in a slugline gets a scene of its own
+                const target = scene || (scene = startScene(heading));
+                if (speaker.isNarrator) {
+                    target.voiceOverText = target.voiceOverText ? `${target.voiceOverText} ${element.text}` : element.text;
+                    target.isVOScene = true;
+                    break;
+                }
+                const character = resolveSpeaker(speaker.name);
+                speakerIds.add(character.id);
+                if (!target.characterIds.includes(character.id)) target.characterIds.push(character.id);
+                // FDX splits long speeches into several paragraphs
+                const last = target.dialogues![target.dialogues!.length - 1];
+                if (last && last.characterName === character.name && document.elements[index - 1]?.type === 'dialogue') {
+                    last.line += ` ${element.text}`;
+                    break;
+                }
+                target.dialogues!.push({ characterName: character.name, line: element.text });
+                break;
+            }
+            case 'transition': {
+                const type = Object.keys(SCREENPLAY_TRANSITIONS).find(key => SCREENPLAY_TRANSITIONS[key] === element.text.toUpperCase())
+                    || (/DISSOLVE/i.test(element.text) ? 'dissolve' : /FADE/i.test(element.text) ? 'fade-black' : /WIPE/i.test(element.text) ? 'wipe' : 'cut');
+                const last = scenes[scenes.length - 1];
+                if (last && !/^FADE IN/i.test(element.text)) last.transitionType = type;
+                break;
+            }
+            case 'parenthetical':
+                break;
+        }
+    }
+
+    // Characters named in the action are in the shot too
+    const allCharacters = [...context.characters, ...newCharacters];
+    for (const s of scenes) {
+        for (const character of allCharacters) {
+            if (character.name.trim() && !s.characterIds.includes(character.id) && mentions(s.visualDescription || '', character.name)) {
+                s.characterIds.push(character.id);
+            }
+        }
+        s.scriptText = s.voiceOverText || s.dialogues?.[0]?.line || '';
+    }
+
+    const linkedCharacterIds = context.characters
+        .filter(c => speakerIds.has(c.id) || scenes.some(s => s.characterIds.includes(c.id)))
+        .map(c => c.id);
+
+    console.log(`[ScreenplayImport] ✅ ${groups.length} sluglines, ${scenes.length} scenes, ${newCharacters.length} new characters, ${newLocations.length} new locations`);
+    return { title: document.title, groups, scenes, characters: newCharacters, locations: newLocations, linkedCharacterIds };
+}
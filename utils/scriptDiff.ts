@@ -0,0 +1,89 @@
+/**
+ * Script Diff
+ * Paragraph-level diff of a VO script, so an edited script only re-analyzes what changed.
+ *
+ * - Paragraphs are the non-empty lines of the script
+ * - Comparison ignores case, punctuation and spacing (fixing a comma is not a change)
+ * - diffParagraphs() returns the changed ranges plus the new index of every unchanged paragraph
+ */
+
+export interface ParagraphChange {
+    oldStart: number; // Half-open ranges of paragraph indexes
+    oldEnd: number;
+    newStart: number;
+    newEnd: number;
+}
+
+export interface ParagraphDiff {
+    changes: ParagraphChange[];
+    oldToNew: number[]; // New index of each old paragraph, -1 if it changed or was removed
+}
+
+export function splitParagraphs(scriptText: string): string[] {
+    return scriptText.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+export const normalizeParagraph = (text: string): string =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// ═══════════════════════════════════════════════════════════════
+// Diff
+// ═══════════════════════════════════════════════════════════════
+
+export function diffParagraphs(oldParagraphs: string[], newParagraphs: string[]): ParagraphDiff {
+    const a = oldParagraphs.map(normalizeParagraph);
+    const b = newParagraphs.map(normalizeParagraph);
+    const oldToNew: number[] = a.map(() => -1);
+
+    // Trim the common head and tail first: a typo fix shouldn't need a full LCS table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+        oldToNew[prefix] = prefix;
+        prefix++;
+    }
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+        oldToNew[a.length - 1 - suffix] = b.length - 1 - suffix;
+        suffix++;
+    }
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    // lcs[i][j] = longest common subsequence of midA[i..] and midB[j..]
+    const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const changes: ParagraphChange[] = [];
+    let current: ParagraphChange | null = null;
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+        if (i < n && j < m && midA[i] === midB[j]) {
+            oldToNew[prefix + i] = prefix + j;
+            current = null;
+            i++;
+            j++;
+            continue;
+        }
+        if (!current) {
+            current = { oldStart: prefix + i, oldEnd: prefix + i, newStart: prefix + j, newEnd: prefix + j };
+            changes.push(current);
+        }
+        if (j < m && (i >= n || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            j++;
+            current.newEnd = prefix + j;
+        } else {
+            i++;
+            current.oldEnd = prefix + i;
+        }
+    }
+
+    return { changes, oldToNew };
+}
@@ -0,0 +1,161 @@
+/**
+ * Shot List / Call Sheet
+ * Regroups the storyboard by shooting location so a live-action crew can plan shoot days.
+ *
+ * - Location comes from the scene's group (Location library entry, else the group itself)
+ * - Shot type / lens / camera resolve the same way as image generation (scene override > project default)
+ * - Time of day, weather and lighting come from the scene's group
+ * - Each location block also carries its call sheet: cast, props and conditions needed that day
+ */
+
+import type { ProjectState, Scene, SceneGroup } from '../types';
+import { CAMERA_ANGLES, LENS_OPTIONS, CAMERA_MODELS } from '../constants/presets';
+import { getSceneDuration } from './animatic';
+
+export interface ShotListEntry {
+    sceneId: string;
+    sceneNumber: string;
+    thumbnail: string | null;
+    title: string;
+    description: string;
+    shotType: string;
+    lens: string;
+    camera: string;
+    timeOfDay: string;
+    weather: string;
+    lightingMood: string;
+    characters: string[];
+    products: string[];
+    duration: number; // Seconds on the animatic timeline
+}
+
+export interface ShotListLocation {
+    key: string;
+    name: string;
+    isInterior?: boolean;
+    image: string | null;
+    shots: ShotListEntry[];
+    // Call sheet
+    cast: string[];
+    props: string[];
+    conditions: string[]; // Distinct "time · weather · light" setups, one per lighting change
+    totalDuration: number;
+}
+
+const TIME_OF_DAY_LABELS: Record<string, string> = {
+    dawn: 'Bình minh',
+    morning: 'Sáng',
+    noon: 'Trưa',
+    afternoon: 'Chiều',
+    sunset: 'Hoàng hôn',
+    dusk: 'Chạng vạng',
+    night: 'Đêm'
+};
+
+const WEATHER_LABELS: Record<string, string> = {
+    clear: 'Trời quang',
+    cloudy: 'Nhiều mây',
+    overcast: 'U ám',
+    rainy: 'Mưa',
+    snowy: 'Tuyết',
+    foggy: 'Sương mù',
+    stormy: 'Bão'
+};
+
+const UNASSIGNED_KEY = '__unassigned__';
+
+// ═══════════════════════════════════════════════════════════════
+// Per-scene fields
+// ═══════════════════════════════════════════════════════════════
+
+const labelOf = (options: { value: string; label: string }[], value?: string): string =>
+    (value && options.find(o => o.value === value)?.label) || '';
+
+export function getShotType(scene: Scene): string {
+    if (scene.cameraAngleOverride === 'custom') return scene.customCameraAngle || '';
+    return labelOf(CAMERA_ANGLES, scene.cameraAngleOverride) || scene.cameraAngle || '';
+}
+
+export function getShotLens(scene: Scene, state: ProjectState): string {
+    const lens = scene.lensOverride || state.defaultLens || '';
+    if (lens === 'custom') return scene.customLensOverride || state.customDefaultLens || '';
+    return labelOf(LENS_OPTIONS, lens);
+}
+
+export function getCameraBody(state: ProjectState): string {
+    if (state.cameraModel === 'custom') return state.customCameraModel || '';
+    return labelOf(CAMERA_MODELS, state.cameraModel);
+}
+
+const getTimeOfDay = (group?: SceneGroup): string =>
+    group?.timeOfDay === 'custom' ? group.customTimeOfDay || '' : TIME_OF_DAY_LABELS[group?.timeOfDay || ''] || '';
+
+const getWeather = (group?: SceneGroup): string =>
+    group?.weather === 'custom' ? group.customWeather || '' : WEATHER_LABELS[group?.weather || ''] || '';
+
+// ═══════════════════════════════════════════════════════════════
+// Shot list
+// ═══════════════════════════════════════════════════════════════
+
+const unique = (values: string[]): string[] => [...new Set(values.filter(Boolean))];
+
+/**
+ * Shots grouped by location, in order of first appearance; shots keep their script order.
+ */
+export function buildShotList(state: ProjectState): ShotListLocation[] {
+    const groups = state.sceneGroups || [];
+    const camera = getCameraBody(state);
+    const locations = new Map<string, ShotListLocation>();
+
+    for (const scene of state.scenes) {
+        const group = groups.find(g => g.id === scene.groupId);
+        const location = group?.locationId ? state.locations?.find(l => l.id === group.locationId) : undefined;
+        const key = location?.id || group?.id || UNASSIGNED_KEY;
+
+        if (!locations.has(key)) {
+            locations.set(key, {
+                key,
+                name: location?.name || group?.name || 'Chưa xếp bối cảnh',
+                isInterior: location?.isInterior,
+                image: location?.conceptImage || group?.conceptImage || null,
+                shots: [],
+                cast: [],
+                props: [],
+                conditions: [],
+                totalDuration: 0
+            });
+        }
+
+        const characters = (scene.characterIds || [])
+            .map(id => state.characters.find(c => c.id === id)?.name || '')
+            .filter(Boolean);
+        const products = (scene.productIds || [])
+            .map(id => state.products?.find(p => p.id === id)?.name || '')
+            .filter(Boolean);
+
+        locations.get(key)!.shots.push({
+            sceneId: scene.id,
+            sceneNumber: scene.sceneNumber,
+            thumbnail: scene.generatedImage || null,
+            title: scene.promptName || '',
+            description: scene.visualDescription || scene.contextDescription || '',
+            shotType: getShotType(scene),
+            lens: getShotLens(scene, state),
+            camera,
+            timeOfDay: getTimeOfDay(group),
+            weather: getWeather(group),
+            lightingMood: group?.lightingMood || '',
+            characters,
+            products,
+            duration: getSceneDuration(scene)
+        });
+    }
+
+    return [...locations.values()].map(location => ({
+        ...location,
+        cast: unique(location.shots.flatMap(s => s.characters)),
+        props: unique(location.shots.flatMap(s => s.products)),
+        conditions: unique(location.shots.map(s => [s.timeOfDay, s.weather, s.lightingMood].filter(Boolean).join(' · '))),
+        totalDuration: Math.round(location.shots.reduce((sum, s) => sum + s.duration, 0) * 10) / 10
+    }));
+}
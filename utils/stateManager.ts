@@ -1,88 +1,414 @@
 /**
  * State Persistence Utilities
- * Handles saving/loading app state to localStorage
+ * Full-fidelity autosave of ProjectState to IndexedDB with rolling recovery points per project,
+ * plus user-named snapshots ("before the client's notes") kept until deleted.
+ * Images are content-addressed: each distinct image (and the project song) is stored once as a Blob in the `assets` store,
+ * shared by every recovery point and snapshot that references it (reference counted, orphans are
+ * garbage-collected). Records written before v3 keep their images inline and still load.
  */
 
-const STORAGE_KEY = 'scene_director_state';
-const STORAGE_VERSION = '1.0';
+import type { ProjectState } from '../types';
+import { slugify } from './helpers';
+import { migrateProject, withSchemaVersion } from './projectMigrations';
+import { dehydrateAssets, hydrateAssets, collectMediaRefs, getDataUriMimeType, computeAssetHash, dataUriToBytes, AssetBundle } from './assetStore';
 
-// What to persist (selective - small data only)
-export interface PersistedState {
-    version: string;
+const DB_NAME = 'scene_director_autosave';
+const DB_VERSION = 3;
+const STORE_NAME = 'recovery_points';
+const SNAPSHOT_STORE_NAME = 'snapshots'; // v2
+const ASSET_STORE_NAME = 'assets'; // v3
+const ACTIVE_POINT_KEY = 'scene_director_active_autosave'; // localStorage pointer to the point to restore on load
+const LEGACY_STORAGE_KEY = 'scene_director_state'; // Old lossy localStorage snapshot
+
+export const MAX_RECOVERY_POINTS = 5; // Per project
+const RECOVERY_POINT_INTERVAL_MS = 5 * 60 * 1000; // Autosaves within this window overwrite the latest point
+
+export interface RecoveryPointInfo {
+    id: string;
+    projectKey: string;
+    projectName: string;
     timestamp: number;
+    createdAt: number;
+    sceneCount: number;
+    imageCount: number;
+}
 
-    // Characters (without base64 images)
-    characters: Array<{
-        id: string;
-        name: string;
-        description: string;
-        masterImageUrl?: string; // Only URL, not base64
-        faceIdUrl?: string;
-    }>;
-
-    // Products
-    products: Array<{
-        id: string;
-        name: string;
-        description: string;
-        imageUrl?: string;
-    }>;
-
-    // Scenes (just prompts)
-    scenes: Array<{
-        id: string;
-        visualPrompt: string;
-        audioPrompt: string;
-        duration: number;
-        characterId?: string;
-        productId?: string;
-        cameraAngle?: string;
-        transition?: string;
-    }>;
-
-    // Settings
-    settings: {
-        stylePrompt?: string;
-        customStyleInstruction?: string;
-        imageModel?: string;
-        aspectRatio?: string;
-        resolution?: string;
-        scriptLanguage?: string;
-    };
+interface RecoveryPointRecord extends RecoveryPointInfo {
+    state: unknown; // ProjectState with images replaced by asset refs (v3) or inline Blobs (older)
+    assetHashes?: string[]; // v3: distinct assets referenced by this record
+}
+
+export interface SnapshotInfo {
+    id: string;
+    projectKey: string;
+    projectName: string;
+    name: string;
+    timestamp: number;
+    sceneCount: number;
+    imageCount: number;
+}
+
+interface SnapshotRecord extends SnapshotInfo {
+    state: unknown;
+    assetHashes?: string[];
+}
+
+interface AssetRecord {
+    hash: string;
+    mimeType: string;
+    size: number;
+    refCount: number; // Number of recovery points / snapshots referencing the asset
+    blob: Blob;
+    storedAt?: number; // Write time; absent on assets stored before it was recorded
+}
+
+export interface AssetStoreStats {
+    assetCount: number;
+    totalBytes: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// IndexedDB plumbing
+// ═══════════════════════════════════════════════════════════════
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('projectKey', 'projectKey', { unique: false });
+                store.createIndex('timestamp', 'timestamp', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(SNAPSHOT_STORE_NAME)) {
+                const store = db.createObjectStore(SNAPSHOT_STORE_NAME, { keyPath: 'id' });
+                store.createIndex('projectKey', 'projectKey', { unique: false });
+            }
+            if (!db.objectStoreNames.contains(ASSET_STORE_NAME)) {
+                db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'hash' });
+            }
+        };
+        // Another tab still has the previous DB_VERSION open and did not close it
+        let blocked = false;
+        request.onblocked = () => {
+            blocked = true;
+            console.warn('[StateManager] Database upgrade blocked by another open tab');
+            reject(new Error('Bộ nhớ cục bộ đang được một tab khác của ứng dụng sử dụng. Hãy đóng các tab khác rồi thử lại.'));
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // The upgrade finished after we gave up: close it so the next call opens a fresh connection
+            if (blocked) {
+                db.close();
+                return;
+            }
+            // Let a newer version opened in another tab upgrade instead of being blocked by us
+            db.onversionchange = () => {
+                db.close();
+                dbPromise = null;
+            };
+            resolve(db);
+        };
+        request.onerror = () => reject(request.error);
+    });
+
+    // Allow a retry on next call if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Image encoding (data URI <-> Blob)
+// ═══════════════════════════════════════════════════════════════
+
+function dataUriToBlob(dataUri: string): Blob {
+    return new Blob([dataUriToBytes(dataUri)], { type: getDataUriMimeType(dataUri) });
+}
+
+function blobToDataUri(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => resolve(reader.result as string);
+        reader.onerror = reject;
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Converts every inline Blob (records written before v3) back into a data URI.
+ */
+async function decodeImages(value: any): Promise<any> {
+    if (value instanceof Blob) return blobToDataUri(value);
+    if (Array.isArray(value)) return Promise.all(value.map(decodeImages));
+    if (value && typeof value === 'object') {
+        const entries = await Promise.all(
+            Object.entries(value).map(async ([k, v]) => [k, await decodeImages(v)] as const)
+        );
+        return Object.fromEntries(entries);
+    }
+    return value;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Content-addressed assets (v3)
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Split a project into a record state (images replaced by refs) and its distinct assets.
+ * `assetHashes` also holds media already in the store (`media:` refs), so the record keeps them alive.
+ */
+async function encodeProject(state: ProjectState): Promise<{ state: unknown; bundle: AssetBundle; imageCount: number; assetHashes: string[] }> {
+    const { assets: _fileAssets, ...rest } = withSchemaVersion(state);
+    const { value, bundle } = await dehydrateAssets(rest);
+    const imageCount = Object.values(bundle).reduce((sum, a) => sum + a.refCount, 0);
+    const assetHashes = [...new Set([...Object.keys(bundle), ...collectMediaRefs(value)])];
+    return { state: value, bundle, imageCount, assetHashes };
+}
+
+/**
+ * Apply reference changes to the asset store inside `tx`: +1 for each hash in `added`
+ * (new assets are written from `bundle`), -1 for each hash in `removed`; assets reaching 0 are deleted.
+ */
+async function adjustAssetRefs(tx: IDBTransaction, added: string[], removed: string[], bundle: AssetBundle = {}): Promise<void> {
+    const store = tx.objectStore(ASSET_STORE_NAME);
+    const delta = new Map<string, number>();
+    added.forEach(h => delta.set(h, (delta.get(h) || 0) + 1));
+    removed.forEach(h => delta.set(h, (delta.get(h) || 0) - 1));
+
+    for (const [hash, change] of delta) {
+        if (change === 0) continue;
+        const existing = await requestToPromise<AssetRecord | undefined>(store.get(hash));
+        const refCount = (existing?.refCount || 0) + change;
+
+        if (refCount <= 0) {
+            if (existing) store.delete(hash);
+        } else if (existing) {
+            store.put({ ...existing, refCount });
+        } else if (bundle[hash]) {
+            const { data, mimeType, size } = bundle[hash];
+            store.put({ hash, mimeType, size, refCount, blob: dataUriToBlob(data), storedAt: Date.now() } satisfies AssetRecord);
+        }
+    }
+}
+
+/**
+ * Resolve the asset refs of a stored record. Each asset is decoded once, so identical images
+ * share a single string in memory. Media behind `media:` refs stays in the store.
+ */
+async function decodeRecordState(record: RecoveryPointRecord | SnapshotRecord): Promise<unknown> {
+    const state = await decodeImages(record.state);
+    const mediaHashes = collectMediaRefs(state);
+    const hashes = (record.assetHashes || []).filter(h => !mediaHashes.has(h));
+    if (!hashes.length) return state;
+
+    const db = await openDatabase();
+    const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
+    const store = tx.objectStore(ASSET_STORE_NAME);
+    const assets = await Promise.all(hashes.map(h => requestToPromise<AssetRecord | undefined>(store.get(h))));
+
+    const dataByHash = new Map<string, string>();
+    for (const asset of assets) {
+        if (asset) dataByHash.set(asset.hash, await blobToDataUri(asset.blob));
+    }
+    return hydrateAssets(state, hash => dataByHash.get(hash));
+}
+
+/**
+ * Full garbage collection: recount references from every recovery point and snapshot,
+ * fix drifted counts and delete orphaned assets. Returns the number of assets removed.
+ */
+export async function collectAssetGarbage(): Promise<number> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([STORE_NAME, SNAPSHOT_STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        const records = [
+            ...await requestToPromise<RecoveryPointRecord[]>(tx.objectStore(STORE_NAME).getAll()),
+            ...await requestToPromise<SnapshotRecord[]>(tx.objectStore(SNAPSHOT_STORE_NAME).getAll())
+        ];
+        const counts = new Map<string, number>();
+        records.forEach(r => (r.assetHashes || []).forEach(h => counts.set(h, (counts.get(h) || 0) + 1)));
+        // Media stored after the last save (putMediaAsset) is not referenced by any record yet
+        const lastSave = records.reduce((latest, r) => Math.max(latest, r.timestamp || 0), 0);
+
+        const assetStore = tx.objectStore(ASSET_STORE_NAME);
+        const assets = await requestToPromise<AssetRecord[]>(assetStore.getAll());
+        let removed = 0;
+        assets.forEach(asset => {
+            const refCount = counts.get(asset.hash) || 0;
+            if (refCount === 0 && (asset.storedAt || 0) > lastSave) return;
+            if (refCount === 0) {
+                assetStore.delete(asset.hash);
+                removed++;
+            } else if (refCount !== asset.refCount) {
+                assetStore.put({ ...asset, refCount });
+            }
+        });
+        await transactionDone(tx);
+
+        console.log(`[StateManager] Asset GC removed ${removed} orphaned images`);
+        return removed;
+    } catch (err) {
+        console.error('[StateManager] Asset GC failed:', err);
+        return 0;
+    }
+}
+
+/**
+ * Store a media file (e.g. the project song) once by content hash and return the hash.
+ * It starts unreferenced; the next autosave that finds its `media:` ref in state holds it,
+ * and until then `storedAt` keeps collectAssetGarbage from deleting it.
+ */
+export async function putMediaAsset(dataUri: string): Promise<string> {
+    const blob = dataUriToBlob(dataUri);
+    const hash = await computeAssetHash(dataUri);
+
+    const db = await openDatabase();
+    const tx = db.transaction(ASSET_STORE_NAME, 'readwrite');
+    const store = tx.objectStore(ASSET_STORE_NAME);
+    const existing = await requestToPromise<AssetRecord | undefined>(store.get(hash));
+    if (!existing) {
+        store.put({ hash, mimeType: getDataUriMimeType(dataUri), size: blob.size, refCount: 0, blob, storedAt: Date.now() } satisfies AssetRecord);
+    }
+    await transactionDone(tx);
+    return hash;
+}
+
+/**
+ * Data URI of a stored media file, or null if it is no longer in the store.
+ */
+export async function loadMediaAsset(hash: string): Promise<string | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
+    const asset = await requestToPromise<AssetRecord | undefined>(tx.objectStore(ASSET_STORE_NAME).get(hash));
+    return asset ? blobToDataUri(asset.blob) : null;
+}
 
-    // Current project info
-    project?: {
-        name?: string;
-        activeSection?: string;
+export async function getAssetStoreStats(): Promise<AssetStoreStats> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(ASSET_STORE_NAME, 'readonly');
+        const assets = await requestToPromise<AssetRecord[]>(tx.objectStore(ASSET_STORE_NAME).getAll());
+        return { assetCount: assets.length, totalBytes: assets.reduce((sum, a) => sum + a.size, 0) };
+    } catch (err) {
+        console.error('[StateManager] Reading asset stats failed:', err);
+        return { assetCount: 0, totalBytes: 0 };
+    }
+}
+
+/**
+ * Reset transient "in-progress" flags - a restored project never has live generations.
+ */
+function sanitizeRestoredState(state: ProjectState): ProjectState {
+    return {
+        ...state,
+        scenes: (state.scenes || []).map(s => ({
+            ...s,
+            isGenerating: false,
+            generationStartTime: undefined,
+            isVoiceGenerating: false,
+            videoStatus: s.videoStatus === 'queued' || s.videoStatus === 'starting' || s.videoStatus === 'active' ? 'failed' : s.videoStatus
+        })),
+        characters: (state.characters || []).map(c => ({ ...c, isGenerating: false, isAnalyzing: false })),
+        products: (state.products || []).map(p => ({ ...p, isAnalyzing: false })),
+        locations: (state.locations || []).map(l => ({ ...l, isGenerating: false }))
     };
 }
 
+// Recovery points and snapshots are grouped by project id; saves from before projects had one are keyed by name
+export function getProjectKey(state: Pick<ProjectState, 'projectId' | 'projectName'>): string {
+    return state.projectId || getLegacyProjectKey(state.projectName);
+}
+
+export function getLegacyProjectKey(projectName: string | undefined): string {
+    return slugify(projectName || '') || 'untitled';
+}
+
+const toInfo = <T extends { state: unknown; assetHashes?: string[] }>({ state: _state, assetHashes: _hashes, ...info }: T): Omit<T, 'state' | 'assetHashes'> => info;
+
+async function readStoredState(storeName: string, id: string): Promise<{ timestamp: number; state: ProjectState } | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(storeName, 'readonly');
+    const record = await requestToPromise<RecoveryPointRecord | SnapshotRecord | undefined>(tx.objectStore(storeName).get(id));
+    if (!record) return null;
+
+    const { state } = migrateProject(await decodeRecordState(record));
+    return { timestamp: record.timestamp, state: sanitizeRestoredState(state) };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Public API
+// ═══════════════════════════════════════════════════════════════
+
 /**
- * Save state to localStorage
+ * Save the complete project to IndexedDB.
+ * Updates the project's latest recovery point if it is recent, otherwise starts a new one
+ * and prunes the oldest beyond MAX_RECOVERY_POINTS.
  */
-export function saveState(state: Partial<PersistedState>): boolean {
+export async function saveState(state: ProjectState): Promise<boolean> {
     try {
-        const fullState: PersistedState = {
-            version: STORAGE_VERSION,
-            timestamp: Date.now(),
-            characters: state.characters || [],
-            products: state.products || [],
-            scenes: state.scenes || [],
-            settings: state.settings || {},
-            project: state.project,
+        const db = await openDatabase();
+        const projectKey = getProjectKey(state);
+        const now = Date.now();
+
+        const encoded = await encodeProject(state);
+        const assetHashes = encoded.assetHashes;
+
+        const existing = await listRecoveryPoints(projectKey);
+        const latest = existing[0];
+        const reuseLatest = latest && now - latest.createdAt < RECOVERY_POINT_INTERVAL_MS;
+
+        const record: RecoveryPointRecord = {
+            id: reuseLatest ? latest.id : `rp_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            projectKey,
+            projectName: state.projectName || '',
+            timestamp: now,
+            createdAt: reuseLatest ? latest.createdAt : now,
+            sceneCount: state.scenes?.length || 0,
+            imageCount: encoded.imageCount,
+            state: encoded.state,
+            assetHashes
         };
 
-        const serialized = JSON.stringify(fullState);
+        const tx = db.transaction([STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
 
-        // Check size (localStorage limit ~5MB)
-        const sizeKB = new Blob([serialized]).size / 1024;
-        if (sizeKB > 4000) {
-            console.warn(`[StateManager] State too large: ${sizeKB.toFixed(0)}KB`);
-            return false;
-        }
+        // Points replaced (reused latest) or pruned release their assets
+        const remaining = reuseLatest ? existing : [record, ...existing];
+        const releasedIds = [...(reuseLatest ? [latest.id] : []), ...remaining.slice(MAX_RECOVERY_POINTS).map(p => p.id)];
+        const released = await Promise.all(releasedIds.map(id => requestToPromise<RecoveryPointRecord | undefined>(store.get(id))));
 
-        localStorage.setItem(STORAGE_KEY, serialized);
-        console.log(`[StateManager] Saved state: ${sizeKB.toFixed(1)}KB`);
+        store.put(record);
+        remaining.slice(MAX_RECOVERY_POINTS).forEach(p => store.delete(p.id));
+        await adjustAssetRefs(tx, assetHashes, released.flatMap(r => r?.assetHashes || []), encoded.bundle);
+
+        await transactionDone(tx);
+        localStorage.setItem(ACTIVE_POINT_KEY, record.id);
+        console.log(`[StateManager] Autosaved "${projectKey}" (${encoded.imageCount} images, ${assetHashes.length} unique, point ${record.id})`);
         return true;
     } catch (err) {
         console.error('[StateManager] Save failed:', err);
@@ -91,32 +417,28 @@ export function saveState(state: Partial<PersistedState>): boolean {
 }
 
 /**
- * Load state from localStorage
+ * Load the active (most recently autosaved) project, or null if there is none.
  */
-export function loadState(): PersistedState | null {
-    try {
-        const serialized = localStorage.getItem(STORAGE_KEY);
-        if (!serialized) return null;
+export async function loadState(): Promise<ProjectState | null> {
+    // The old localStorage snapshot is lossy and superseded by IndexedDB
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
 
-        const state = JSON.parse(serialized) as PersistedState;
+    const activeId = localStorage.getItem(ACTIVE_POINT_KEY);
+    if (!activeId) return null;
 
-        // Version check
-        if (state.version !== STORAGE_VERSION) {
-            console.warn('[StateManager] Version mismatch, clearing state');
-            clearState();
-            return null;
-        }
+    return loadRecoveryPoint(activeId);
+}
 
-        // Check age (discard if > 7 days old)
-        const ageHours = (Date.now() - state.timestamp) / (1000 * 60 * 60);
-        if (ageHours > 168) { // 7 days
-            console.warn('[StateManager] State too old, clearing');
-            clearState();
-            return null;
-        }
+/**
+ * Load a specific recovery point by id.
+ */
+export async function loadRecoveryPoint(id: string): Promise<ProjectState | null> {
+    try {
+        const loaded = await readStoredState(STORE_NAME, id);
+        if (!loaded) return null;
 
-        console.log(`[StateManager] Loaded state from ${new Date(state.timestamp).toLocaleString()}`);
-        return state;
+        console.log(`[StateManager] Loaded recovery point from ${new Date(loaded.timestamp).toLocaleString()}`);
+        return loaded.state;
     } catch (err) {
         console.error('[StateManager] Load failed:', err);
         return null;
@@ -124,33 +446,148 @@ export function loadState(): PersistedState | null {
 }
 
 /**
- * Clear persisted state
+ * List recovery points (newest first), optionally restricted to one project.
  */
-export function clearState(): void {
-    localStorage.removeItem(STORAGE_KEY);
-    console.log('[StateManager] State cleared');
+export async function listRecoveryPoints(projectKey?: string): Promise<RecoveryPointInfo[]> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const store = tx.objectStore(STORE_NAME);
+        const records = await requestToPromise<RecoveryPointRecord[]>(
+            projectKey ? store.index('projectKey').getAll(projectKey) : store.getAll()
+        );
+        return records.map(r => toInfo(r)).sort((a, b) => b.timestamp - a.timestamp);
+    } catch (err) {
+        console.error('[StateManager] Listing recovery points failed:', err);
+        return [];
+    }
 }
 
 /**
- * Get last save timestamp
+ * Delete stored recovery points - for one project, or all of them when no key is given.
  */
-export function getLastSaveTime(): Date | null {
+export async function deleteRecoveryPoints(projectKey?: string): Promise<void> {
     try {
-        const serialized = localStorage.getItem(STORAGE_KEY);
-        if (!serialized) return null;
-        const state = JSON.parse(serialized) as PersistedState;
-        return new Date(state.timestamp);
-    } catch {
+        const db = await openDatabase();
+        const ids = (await listRecoveryPoints(projectKey)).map(p => p.id);
+        const tx = db.transaction([STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        const store = tx.objectStore(STORE_NAME);
+        const records = await Promise.all(ids.map(id => requestToPromise<RecoveryPointRecord | undefined>(store.get(id))));
+        ids.forEach(id => store.delete(id));
+        await adjustAssetRefs(tx, [], records.flatMap(r => r?.assetHashes || []));
+        await transactionDone(tx);
+
+        const activeId = localStorage.getItem(ACTIVE_POINT_KEY);
+        if (activeId && ids.includes(activeId)) localStorage.removeItem(ACTIVE_POINT_KEY);
+        console.log(`[StateManager] Deleted ${ids.length} recovery points`);
+    } catch (err) {
+        console.error('[StateManager] Delete failed:', err);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Named Snapshots
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Bookmark the complete current project under a user-given name.
+ */
+export async function saveSnapshot(state: ProjectState, name: string): Promise<SnapshotInfo | null> {
+    try {
+        const db = await openDatabase();
+        const now = Date.now();
+        const encoded = await encodeProject(state);
+
+        const record: SnapshotRecord = {
+            id: `snap_${now}_${Math.random().toString(36).slice(2, 8)}`,
+            projectKey: getProjectKey(state),
+            projectName: state.projectName || '',
+            name: name.trim() || new Date(now).toLocaleString('vi-VN'),
+            timestamp: now,
+            sceneCount: state.scenes?.length || 0,
+            imageCount: encoded.imageCount,
+            state: encoded.state,
+            assetHashes: encoded.assetHashes
+        };
+
+        const tx = db.transaction([SNAPSHOT_STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        tx.objectStore(SNAPSHOT_STORE_NAME).put(record);
+        await adjustAssetRefs(tx, record.assetHashes!, [], encoded.bundle);
+        await transactionDone(tx);
+
+        console.log(`[StateManager] Snapshot "${record.name}" saved (${encoded.imageCount} images)`);
+        return toInfo(record);
+    } catch (err) {
+        console.error('[StateManager] Snapshot save failed:', err);
+        return null;
+    }
+}
+
+/**
+ * List snapshots (newest first), optionally restricted to one project.
+ */
+export async function listSnapshots(projectKey?: string): Promise<SnapshotInfo[]> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(SNAPSHOT_STORE_NAME, 'readonly');
+        const store = tx.objectStore(SNAPSHOT_STORE_NAME);
+        const records = await requestToPromise<SnapshotRecord[]>(
+            projectKey ? store.index('projectKey').getAll(projectKey) : store.getAll()
+        );
+        return records.map(r => toInfo(r)).sort((a, b) => b.timestamp - a.timestamp);
+    } catch (err) {
+        console.error('[StateManager] Listing snapshots failed:', err);
+        return [];
+    }
+}
+
+export async function loadSnapshot(id: string): Promise<ProjectState | null> {
+    try {
+        const loaded = await readStoredState(SNAPSHOT_STORE_NAME, id);
+        return loaded?.state || null;
+    } catch (err) {
+        console.error('[StateManager] Snapshot load failed:', err);
         return null;
     }
 }
 
+export async function deleteSnapshot(id: string): Promise<void> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([SNAPSHOT_STORE_NAME, ASSET_STORE_NAME], 'readwrite');
+        const store = tx.objectStore(SNAPSHOT_STORE_NAME);
+        const record = await requestToPromise<SnapshotRecord | undefined>(store.get(id));
+        store.delete(id);
+        await adjustAssetRefs(tx, [], record?.assetHashes || []);
+        await transactionDone(tx);
+    } catch (err) {
+        console.error('[StateManager] Snapshot delete failed:', err);
+    }
+}
+
+/**
+ * Stop restoring the current project on next load. Recovery points are kept.
+ */
+export function clearState(): void {
+    localStorage.removeItem(ACTIVE_POINT_KEY);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    console.log('[StateManager] State cleared');
+}
+
+/**
+ * Get last save timestamp
+ */
+export async function getLastSaveTime(): Promise<Date | null> {
+    const points = await listRecoveryPoints();
+    return points.length > 0 ? new Date(points[0].timestamp) : null;
+}
+
 /**
  * Auto-save debouncer
  */
 let saveTimeout: NodeJS.Timeout | null = null;
 
-export function debouncedSave(state: Partial<PersistedState>, delayMs: number = 2000): void {
+export function debouncedSave(state: ProjectState, delayMs: number = 3000): void {
     if (saveTimeout) clearTimeout(saveTimeout);
     saveTimeout = setTimeout(() => {
         saveState(state);
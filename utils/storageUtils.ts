@@ -1,4 +1,6 @@
 import { supabase } from './supabaseClient';
+import { resolveMusicAudio } from './beatSync';
+import { computeAssetHash } from './assetStore';
 
 // Re-export supabase client for other modules
 export { supabase };
@@ -47,16 +49,81 @@ export async function uploadImageToSupabase(
     }
 }
 
+// Content hash -> public URL of images already known to be in Storage (this session)
+const uploadedHashCache = new Map<string, string>();
+
+/**
+ * Uploads a base64 image under a content-addressed path (`<userId>/assets/<sha256>.<ext>`).
+ * Images already in Storage are not uploaded again, so an interrupted save can be retried
+ * without duplicating files.
+ * @returns The public URL of the stored image
+ */
+export async function uploadImageByHash(
+    base64Data: string,
+    userId: string,
+    bucket: string = 'project-assets'
+): Promise<string> {
+    const hash = await computeAssetHash(base64Data);
+    const cacheKey = `${bucket}/${userId}/${hash}`;
+    const cached = uploadedHashCache.get(cacheKey);
+    if (cached) return cached;
+
+    const contentType = base64Data.match(/:(.*?);/)?.[1] || 'image/jpeg';
+    const extension = contentType.split('/')[1]?.replace('jpeg', 'jpg') || 'jpg';
+    const folder = `${userId}/assets`;
+    const fileName = `${hash}.${extension}`;
+    const path = `${folder}/${fileName}`;
+
+    const { data: existing, error: listError } = await supabase.storage
+        .from(bucket)
+        .list(folder, { search: hash, limit: 1 });
+    if (listError) throw new Error(`Lỗi kiểm tra Storage (${path}): ${listError.message}`);
+
+    let url: string;
+    if (existing?.some(f => f.name === fileName)) {
+        url = supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+        console.log(`[Storage] Reusing existing asset ${fileName}`);
+    } else {
+        url = await uploadImageToSupabase(base64Data, bucket, path);
+    }
+
+    uploadedHashCache.set(cacheKey, url);
+    return url;
+}
+
 /**
  * Scans a ProjectState for base64 images and uploads them to Supabase Storage.
  * Returns a new ProjectState with URLs replacing base64 data.
+ * Images are stored by content hash, so identical images are uploaded once.
  */
 export async function processProjectAssets(state: any, userId: string): Promise<any> {
     console.log('[Storage] Starting asset processing for cloud save...');
     const newState = JSON.parse(JSON.stringify(state)); // Deep clone
-    const timestamp = Date.now();
     let uploadCount = 0;
 
+    // 1. Process Scenes
+    if (newState.scenes) {
+        for (const scene of newState.scenes) {
+            const fields = ['generatedImage', 'endFrameImage', 'chainedStartFrame', 'referenceImage'];
+            for (const field of fields) {
+                if (scene[field]?.startsWith('data:')) {
+                    console.log(`[Storage] Uploading scene ${field}: ${scene.id}`);
+                    scene[field] = await uploadImageByHash(scene[field], userId);
+                    uploadCount++;
+                }
+            }
+            if (scene.editHistory) {
+                for (const entry of scene.editHistory) {
+                    if (entry.image?.startsWith('data:')) {
+                        console.log(`[Storage] Uploading scene history image: ${scene.id}`);
+                        entry.image = await uploadImageByHash(entry.image, userId);
+                        uploadCount++;
+                    }
+                }
+            }
+        }
+    }
+
     // 2. Process Characters
     if (newState.characters) {
         for (const char of newState.characters) {
@@ -64,27 +131,10 @@ export async function processProjectAssets(state: any, userId: string): Promise<
             for (const field of fields) {
                 if (char[field]?.startsWith('data:')) {
                     console.log(`[Storage] Uploading character ${field}: ${char.id}`);
-                    char[field] = await uploadImageToSupabase(
-                        char[field],
-                        'project-assets',
-                        `${userId}/characters/${char.id}_${field}_${timestamp}.jpg`
-                    );
+                    char[field] = await uploadImageByHash(char[field], userId);
                     uploadCount++;
                 }
             }
-            if (char.props) {
-                for (const prop of char.props) {
-                    if (prop.image?.startsWith('data:')) {
-                        console.log(`[Storage] Uploading character prop: ${prop.id}`);
-                        prop.image = await uploadImageToSupabase(
-                            prop.image,
-                            'project-assets',
-                            `${userId}/characters/${char.id}_prop_${prop.id}_${timestamp}.jpg`
-                        );
-                        uploadCount++;
-                    }
-                }
-            }
         }
     }
 
@@ -93,11 +143,7 @@ export async function processProjectAssets(state: any, userId: string): Promise<
         for (const prod of newState.products) {
             if (prod.masterImage?.startsWith('data:')) {
                 console.log(`[Storage] Uploading product master: ${prod.id}`);
-                prod.masterImage = await uploadImageToSupabase(
-                    prod.masterImage,
-                    'project-assets',
-                    `${userId}/products/${prod.id}_master_${timestamp}.jpg`
-                );
+                prod.masterImage = await uploadImageByHash(prod.masterImage, userId);
                 uploadCount++;
             }
             if (prod.views) {
@@ -105,11 +151,7 @@ export async function processProjectAssets(state: any, userId: string): Promise<
                 for (const view of views) {
                     if (prod.views[view]?.startsWith('data:')) {
                         console.log(`[Storage] Uploading product view ${view}: ${prod.id}`);
-                        prod.views[view] = await uploadImageToSupabase(
-                            prod.views[view],
-                            'project-assets',
-                            `${userId}/products/${prod.id}_view_${view}_${timestamp}.jpg`
-                        );
+                        prod.views[view] = await uploadImageByHash(prod.views[view], userId);
                         uploadCount++;
                     }
                 }
@@ -117,6 +159,16 @@ export async function processProjectAssets(state: any, userId: string): Promise<
         }
     }
 
+    // 4. Process Music (kept in the local asset store, uploaded like images)
+    if (newState.musicTrack?.url && !/^https?:/.test(newState.musicTrack.url)) {
+        const audio = await resolveMusicAudio(newState.musicTrack);
+        if (audio) {
+            console.log(`[Storage] Uploading music: ${newState.musicTrack.name}`);
+            newState.musicTrack.url = await uploadImageByHash(audio, userId);
+            uploadCount++;
+        }
+    }
+
     console.log(`[Storage] Finished processing. Uploaded ${uploadCount} assets.`);
     return newState;
 }
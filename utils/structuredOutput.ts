@@ -0,0 +1,301 @@
+/**
+ * Structured Output
+ * Shared layer for every LLM call that has to answer in JSON.
+ *
+ * - Each call declares a typed schema with the builders below; the result type is inferred from it
+ * - Responses are pulled out of prose / code fences and repaired (comments, trailing commas, truncation)
+ * - Invalid answers are re-asked with the list of problems before giving up
+ * - Problems are reported to productionLogs through the reporter registered by useProductionLogger
+ * - Callers either get a StructuredOutputError or their declared fallback, never half-parsed data
+ */
+
+// ═══════════════════════════════════════════════════════════════
+// Schemas
+// ═══════════════════════════════════════════════════════════════
+
+interface ParseContext {
+    issues: string[];   // Reject the response
+    warnings: string[]; // Accepted, but worth a log line (e.g. dropped items)
+}
+
+export interface Schema<T> {
+    parse(value: unknown, path: string, context: ParseContext): T;
+}
+
+/** Marks object fields that may be absent */
+interface OptionalSchema<T> extends Schema<T | undefined> {
+    optional: true;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends OptionalSchema<unknown> ? K : never }[keyof S];
+type InferShape<S extends Shape> =
+    { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+const isMissing = (value: unknown): value is null | undefined => value === undefined || value === null;
+
+const describeValue = (value: unknown): string =>
+    typeof value === 'string' ? JSON.stringify(value.length > 30 ? `${value.slice(0, 30)}…` : value)
+        : Array.isArray(value) ? 'array' : typeof value;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Missing values take the default (cloned, so defaults like [] are never shared) or are an issue.
+ * `coerce` returns undefined when the value can't be read as the expected type.
+ */
+function leaf<T>(expected: string, coerce: (value: unknown, path: string, context: ParseContext) => T | undefined, defaultValue?: T): Schema<T> {
+    const hasDefault = defaultValue !== undefined;
+    return {
+        parse(value, path, context) {
+            if (!isMissing(value)) {
+                const result = coerce(value, path, context);
+                if (result !== undefined) return result;
+                context.issues.push(`${path}: expected ${expected}, got ${describeValue(value)}`);
+            } else if (!hasDefault) {
+                context.issues.push(`${path}: missing`);
+            }
+            return (hasDefault ? structuredClone(defaultValue) : undefined) as T;
+        }
+    };
+}
+
+export const schema = {
+    string: (defaultValue?: string): Schema<string> =>
+        leaf('string', v => typeof v === 'string' ? v : typeof v === 'number' || typeof v === 'boolean' ? String(v) : undefined, defaultValue),
+
+    /** Numeric strings are accepted; min/max clamp rather than reject */
+    number: (options: { min?: number; max?: number; default?: number } = {}): Schema<number> =>
+        leaf('number', v => {
+            const n = typeof v === 'number' ? v : typeof v === 'string' && v.trim() !== '' ? Number(v) : NaN;
+            if (!Number.isFinite(n)) return undefined;
+            return Math.min(options.max ?? Infinity, Math.max(options.min ?? -Infinity, n));
+        }, options.default),
+
+    boolean: (defaultValue?: boolean): Schema<boolean> =>
+        leaf('boolean', v => typeof v === 'boolean' ? v : v === 'true' ? true : v === 'false' ? false : undefined, defaultValue),
+
+    /** Case-insensitive match, returned in the declared spelling */
+    enum: <V extends string>(values: readonly V[], defaultValue?: V): Schema<V> =>
+        leaf(`one of ${values.join('|')}`, v => typeof v === 'string' ? values.find(x => x.toLowerCase() === v.trim().toLowerCase()) : undefined, defaultValue),
+
+    /**
+     * `dropInvalid` keeps the valid items of a long list instead of rejecting the whole answer.
+     */
+    array: <T>(item: Schema<T>, options: { default?: T[]; minItems?: number; dropInvalid?: boolean } = {}): Schema<T[]> =>
+        leaf('array', (v, path, context) => {
+            if (!Array.isArray(v)) return undefined;
+            const items: T[] = [];
+            v.forEach((entry, i) => {
+                const itemContext: ParseContext = { issues: [], warnings: context.warnings };
+                const parsed = item.parse(entry, `${path}[${i}]`, itemContext);
+                if (itemContext.issues.length === 0) items.push(parsed);
+                else if (options.dropInvalid) context.warnings.push(`${path}[${i}] dropped (${itemContext.issues[0]})`);
+                else context.issues.push(...itemContext.issues);
+            });
+            if (options.minItems && items.length < options.minItems) {
+                context.issues.push(`${path}: expected at least ${options.minItems} item(s), got ${items.length}`);
+            }
+            return items;
+        }, options.default),
+
+    /** Unknown keys pass through untouched */
+    object: <S extends Shape>(shape: S, defaultValue?: InferShape<S>): Schema<InferShape<S> & Record<string, unknown>> =>
+        leaf('object', (v, path, context) => {
+            if (!isPlainObject(v)) return undefined;
+            const result: Record<string, unknown> = { ...v };
+            for (const key of Object.keys(shape)) {
+                result[key] = shape[key].parse(v[key], path ? `${path}.${key}` : key, context);
+            }
+            return result as InferShape<S> & Record<string, unknown>;
+        }, defaultValue as (InferShape<S> & Record<string, unknown>) | undefined),
+
+    record: <T>(item: Schema<T>): Schema<Record<string, T>> =>
+        leaf('object', (v, path, context) => {
+            if (!isPlainObject(v)) return undefined;
+            return Object.fromEntries(Object.entries(v).map(([key, entry]) => [key, item.parse(entry, `${path}.${key}`, context)]));
+        }),
+
+    optional: <T>(inner: Schema<T>): OptionalSchema<T> => ({
+        optional: true,
+        parse: (value, path, context) => isMissing(value) ? undefined : inner.parse(value, path, context)
+    }),
+
+    any: <T = unknown>(): Schema<T> => ({
+        parse: value => value as T
+    }),
+
+    /** Extra check once the value itself is well-formed; return a problem or null */
+    refine: <T>(inner: Schema<T>, check: (value: T) => string | null): Schema<T> => ({
+        parse(value, path, context) {
+            const before = context.issues.length;
+            const parsed = inner.parse(value, path, context);
+            const problem = context.issues.length === before ? check(parsed) : null;
+            if (problem) context.issues.push(`${path || 'response'}: ${problem}`);
+            return parsed;
+        }
+    })
+};
+
+// ═══════════════════════════════════════════════════════════════
+// JSON extraction & repair
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Best-effort fix for near-JSON: comments, trailing commas, raw newlines in strings,
+ * prose after the closing bracket, and output cut off mid-way (closed at the last complete value).
+ */
+export function repairJson(text: string): string {
+    const start = text.search(/[{[]/);
+    if (start === -1) return text;
+
+    let out = '';
+    const stack: string[] = [];
+    const cuts: { length: number; stack: string[] }[] = []; // After each complete value inside a container
+    let inString = false;
+
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') { out += ch + (text[i + 1] ?? ''); i++; continue; }
+            if (ch === '"') inString = false;
+            out += ch === '\n' ? '\\n' : ch === '\r' ? '' : ch === '\t' ? '\\t' : ch;
+            continue;
+        }
+        if (ch === '/' && text[i + 1] === '/') { while (i < text.length && text[i] !== '\n') i++; continue; }
+        if (ch === '/' && text[i + 1] === '*') { const end = text.indexOf('*/', i + 2); i = end === -1 ? text.length : end + 1; continue; }
+        if (ch === '"') { inString = true; out += ch; continue; }
+        if (ch === '{' || ch === '[') { stack.push(ch === '{' ? '}' : ']'); out += ch; continue; }
+        if (ch === '}' || ch === ']') {
+            out = out.replace(/,\s*$/, '');
+            out += stack.pop() || '';
+            if (stack.length === 0) return out;
+            continue;
+        }
+        if (ch === ',') cuts.push({ length: out.length, stack: [...stack] });
+        out += ch;
+    }
+
+    // Truncated: close what is open, backing off to earlier complete values until it parses.
+    // A value cut off mid-string is dropped rather than kept half-written.
+    const close = (body: string, open: string[]) =>
+        body.replace(/,\s*$/, '').replace(/:\s*$/, ': null') + [...open].reverse().join('');
+    let candidate = inString ? '' : close(out, stack);
+    for (let attempt = cuts.length - 1; attempt >= 0 && !isValidJson(candidate); attempt--) {
+        candidate = close(out.slice(0, cuts[attempt].length), cuts[attempt].stack);
+    }
+    return candidate;
+}
+
+const isValidJson = (text: string): boolean => {
+    try { JSON.parse(text); return true; } catch { return false; }
+};
+
+export function extractJson(text: string): unknown {
+    const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+    try {
+        return JSON.parse(cleaned);
+    } catch {
+        if (!/[{[]/.test(cleaned)) throw new Error('no JSON in response');
+        return JSON.parse(repairJson(cleaned));
+    }
+}
+
+export function parseStructured<T>(text: string, shape: Schema<T>): { value: T | undefined; issues: string[]; warnings: string[] } {
+    const context: ParseContext = { issues: [], warnings: [] };
+    let json: unknown;
+    try {
+        json = extractJson(text);
+    } catch (e: any) {
+        return { value: undefined, issues: [`not valid JSON (${e.message})`], warnings: [] };
+    }
+    const value = shape.parse(json, '', context);
+    return { value, issues: context.issues, warnings: context.warnings };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Requests
+// ═══════════════════════════════════════════════════════════════
+
+export class StructuredOutputError extends Error {
+    constructor(message: string, public issues: string[], public raw: string) {
+        super(message);
+    }
+}
+
+export type StructuredOutputReporter = (message: string, type: 'warning' | 'error') => void;
+
+let reporter: StructuredOutputReporter | null = null;
+
+/**
+ * Where problems end up besides the console (productionLogs, registered by useProductionLogger).
+ */
+export function setStructuredOutputReporter(next: StructuredOutputReporter | null): void {
+    reporter = next;
+}
+
+function report(message: string, type: 'warning' | 'error'): void {
+    (type === 'error' ? console.error : console.warn)(`[StructuredOutput] ${message}`);
+    reporter?.(message, type);
+}
+
+const MAX_LISTED_ISSUES = 10;
+
+function buildCorrection(issues: string[]): string {
+    const listed = issues.slice(0, MAX_LISTED_ISSUES).map(issue => `- ${issue}`).join('\n');
+    const more = issues.length > MAX_LISTED_ISSUES ? `\n- ...and ${issues.length - MAX_LISTED_ISSUES} more` : '';
+    return `\n\nYOUR PREVIOUS RESPONSE WAS REJECTED:\n${listed}${more}\nRespond again with the COMPLETE answer as ONLY valid JSON (no markdown, no comments), fixing these problems.`;
+}
+
+export interface StructuredRequest<T> {
+    /** Shown in logs, e.g. "Phân tích kịch bản" */
+    name: string;
+    schema: Schema<T>;
+    /** Sends the prompt; `correction` is appended to it when the previous answer was rejected */
+    call: (correction?: string) => Promise<string>;
+    /** Total tries including the first (default 2 = one re-ask) */
+    attempts?: number;
+    /** Returned instead of throwing when the call fails or never validates */
+    fallback?: T;
+}
+
+export async function requestStructured<T>(request: StructuredRequest<T>): Promise<T> {
+    const attempts = request.attempts ?? 2;
+    const hasFallback = request.fallback !== undefined;
+    let correction: string | undefined;
+    let issues: string[] = [];
+    let raw = '';
+
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+        try {
+            raw = await request.call(correction);
+        } catch (e: any) {
+            // Transport errors: asking again with a correction won't help
+            report(`❌ ${request.name}: gọi AI thất bại — ${e.message}`, 'error');
+            if (hasFallback) return request.fallback as T;
+            throw e;
+        }
+
+        const result = parseStructured(raw, request.schema);
+        if (result.issues.length === 0) {
+            if (result.warnings.length > 0) {
+                report(`⚠️ ${request.name}: bỏ qua ${result.warnings.length} mục sai định dạng (${result.warnings[0]})`, 'warning');
+            }
+            return result.value as T;
+        }
+
+        issues = result.issues;
+        console.warn(`[StructuredOutput] ${request.name}: attempt ${attempt}/${attempts} rejected`, issues, raw.substring(0, 300));
+        if (attempt < attempts) {
+            report(`⚠️ ${request.name}: phản hồi AI sai định dạng (${issues.length} lỗi) — đang yêu cầu lại`, 'warning');
+            correction = buildCorrection(issues);
+        }
+    }
+
+    report(`❌ ${request.name}: phản hồi AI không hợp lệ sau ${attempts} lần — ${issues[0]}`, 'error');
+    if (hasFallback) return request.fallback as T;
+    throw new StructuredOutputError(`${request.name}: invalid AI response (${issues[0]})`, issues, raw);
+}
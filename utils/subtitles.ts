@@ -0,0 +1,170 @@
+/**
+ * Subtitles (SRT / WebVTT)
+ * Builds timed captions from the scene order: narration (voiceOverText) and dialogues, placed on the
+ * animatic timeline so the file lines up with the rendered animatic.
+ *
+ * - Scene timing comes from buildAnimaticTimeline (retime > measured TTS > VO estimate > default)
+ * - Inside a scene, lines follow their TTS clip lengths when voiced, else share the scene by text length
+ * - Long lines are wrapped per language (characters per line, lines per cue) and split into several cues
+ */
+
+import type { Scene, Character } from '../types';
+import { buildAnimaticTimeline } from './animatic';
+import { getSceneVoiceLines, getCurrentVoiceAudio } from './voiceover';
+import { slugify } from './helpers';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+    format: SubtitleFormat;
+    speakerLabels: boolean; // Prefix dialogue with the speaker name
+    language?: string;      // ProjectState.scriptLanguage
+}
+
+export interface SubtitleCue {
+    start: number; // seconds
+    end: number;
+    lines: string[];
+    speaker?: string;
+}
+
+interface LineRule {
+    maxChars: number;
+    maxLines: number;
+    breakOnSpaces: boolean; // false = scripts written without spaces (CJK)
+}
+
+// Broadcast conventions: ~42 chars for Latin scripts, ~16 for Chinese, 2 lines per cue
+const LINE_RULES: Record<string, LineRule> = {
+    default: { maxChars: 42, maxLines: 2, breakOnSpaces: true },
+    chinese: { maxChars: 16, maxLines: 2, breakOnSpaces: false },
+    arabic: { maxChars: 40, maxLines: 2, breakOnSpaces: true },
+    hindi: { maxChars: 40, maxLines: 2, breakOnSpaces: true }
+};
+
+export function getLineRule(language?: string): LineRule {
+    return LINE_RULES[language || ''] || LINE_RULES.default;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Wrapping
+// ═══════════════════════════════════════════════════════════════
+
+function wrapLines(text: string, rule: LineRule): string[] {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    if (!rule.breakOnSpaces) {
+        const lines: string[] = [];
+        const chars = Array.from(clean);
+        for (let i = 0; i < chars.length; i += rule.maxChars) lines.push(chars.slice(i, i + rule.maxChars).join('').trim());
+        return lines.filter(Boolean);
+    }
+
+    const lines: string[] = [];
+    let current = '';
+    for (const word of clean.split(' ')) {
+        if (current && (current + ' ' + word).length > rule.maxChars) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+}
+
+/**
+ * Wrap a line of text into cues of at most rule.maxLines lines each.
+ */
+export function wrapSubtitleText(text: string, rule: LineRule): string[][] {
+    const lines = wrapLines(text, rule);
+    const cues: string[][] = [];
+    for (let i = 0; i < lines.length; i += rule.maxLines) cues.push(lines.slice(i, i + rule.maxLines));
+    return cues;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Cues
+// ═══════════════════════════════════════════════════════════════
+
+export function buildSubtitleCues(scenes: Scene[], characters: Character[], options: SubtitleOptions): SubtitleCue[] {
+    const rule = getLineRule(options.language);
+    const timeline = buildAnimaticTimeline(scenes);
+    const cues: SubtitleCue[] = [];
+
+    timeline.clips.forEach(clip => {
+        const scene = scenes.find(s => s.id === clip.sceneId)!;
+        const lines = getSceneVoiceLines(scene, characters);
+        if (lines.length === 0) return;
+
+        // Voiced scenes: each line lasts as long as its clip; otherwise split the scene by text length
+        const voiceAudio = getCurrentVoiceAudio(scene);
+        const totalChars = lines.reduce((sum, l) => sum + l.text.length, 0) || 1;
+        let lineStart = clip.start;
+
+        lines.forEach((line, i) => {
+            const slot = voiceAudio ? voiceAudio[i].duration : clip.duration * (line.text.length / totalChars);
+            const lineEnd = Math.min(clip.start + clip.duration, lineStart + slot);
+            const speaker = line.kind === 'dialogue'
+                ? (line.characterId && characters.find(c => c.id === line.characterId)?.name) || line.speaker
+                : undefined;
+
+            // Split the line's time between its cues by text length
+            const chunks = wrapSubtitleText(line.text, rule);
+            const chunkChars = chunks.reduce((sum, c) => sum + c.join('').length, 0) || 1;
+            let chunkStart = lineStart;
+            chunks.forEach((chunk, k) => {
+                const chunkEnd = k === chunks.length - 1
+                    ? lineEnd
+                    : chunkStart + (lineEnd - lineStart) * (chunk.join('').length / chunkChars);
+                // A retimed scene shorter than its audio leaves no room for the trailing lines
+                if (chunkEnd > chunkStart) cues.push({ start: chunkStart, end: chunkEnd, lines: chunk, speaker });
+                chunkStart = chunkEnd;
+            });
+            lineStart = lineEnd;
+        });
+    });
+    return cues;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Serialization
+// ═══════════════════════════════════════════════════════════════
+
+export function formatSubtitleTimestamp(seconds: number, format: SubtitleFormat): string {
+    const totalMs = Math.max(0, Math.round(seconds * 1000));
+    const h = Math.floor(totalMs / 3600000);
+    const m = Math.floor((totalMs % 3600000) / 60000);
+    const s = Math.floor((totalMs % 60000) / 1000);
+    const ms = totalMs % 1000;
+    const pad = (n: number, len = 2) => String(n).padStart(len, '0');
+    return `${pad(h)}:${pad(m)}:${pad(s)}${format === 'srt' ? ',' : '.'}${pad(ms, 3)}`;
+}
+
+export function serializeSubtitles(cues: SubtitleCue[], options: SubtitleOptions): string {
+    const body = cues.map((cue, i) => {
+        const timing = `${formatSubtitleTimestamp(cue.start, options.format)} --> ${formatSubtitleTimestamp(cue.end, options.format)}`;
+        const labeled = options.speakerLabels && cue.speaker;
+        const text = options.format === 'vtt'
+            ? (labeled ? `<v ${cue.speaker}>` : '') + cue.lines.join('\n')
+            : (labeled ? `${cue.speaker}: ` : '') + cue.lines.join('\n');
+        return options.format === 'srt' ? `${i + 1}\n${timing}\n${text}` : `${timing}\n${text}`;
+    }).join('\n\n');
+    return options.format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+}
+
+export function buildSubtitles(scenes: Scene[], characters: Character[], options: SubtitleOptions): string {
+    return serializeSubtitles(buildSubtitleCues(scenes, characters, options), options);
+}
+
+export function downloadSubtitles(scenes: Scene[], characters: Character[], options: SubtitleOptions, projectName?: string): void {
+    const content = buildSubtitles(scenes, characters, options);
+    const blob = new Blob([content], { type: options.format === 'vtt' ? 'text/vtt' : 'application/x-subrip' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${slugify(projectName || '') || 'subtitles'}.${options.format}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(link.href);
+}
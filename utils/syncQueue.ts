@@ -0,0 +1,240 @@
+/**
+ * Cloud Sync Queue
+ * Offline-first queue of pending cloud operations (project saves and deletions), persisted in IndexedDB
+ * so nothing is lost when the network drops or the tab is closed mid-upload.
+ *
+ * - Saves are coalesced: only the latest state of a project is kept in the queue
+ * - Failed operations are retried with exponential backoff; network errors wait for connectivity
+ * - New projects that were never uploaded get a local ref ("local:<id>") until the first sync succeeds
+ */
+
+import type { ProjectState } from '../types';
+
+const DB_NAME = 'scene_director_sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+
+export const MAX_SYNC_ATTEMPTS = 5; // Non-network failures before an operation is marked failed
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const LOCAL_REF_PREFIX = 'local:';
+
+export type SyncOperationKind = 'save-project' | 'delete-project';
+export type SyncOperationStatus = 'pending' | 'syncing' | 'failed';
+
+export interface SyncOperation {
+    id: string;
+    kind: SyncOperationKind;
+    userId: string;
+    projectRef: string; // Cloud project id, or a local ref for projects not uploaded yet
+    projectName: string;
+    state?: ProjectState; // save-project only
+    createdAt: number;
+    updatedAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    status: SyncOperationStatus;
+    lastError?: string;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// IndexedDB plumbing
+// ═══════════════════════════════════════════════════════════════
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available in this browser'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORE_NAME)) {
+                const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+                store.createIndex('userId', 'userId', { unique: false });
+                store.createIndex('projectRef', 'projectRef', { unique: false });
+            }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Helpers
+// ═══════════════════════════════════════════════════════════════
+
+export function createLocalProjectRef(): string {
+    return `${LOCAL_REF_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isLocalProjectRef(ref: string | null | undefined): boolean {
+    return !!ref && ref.startsWith(LOCAL_REF_PREFIX);
+}
+
+// Transport failure messages of fetch(): Chrome, Firefox, Safari (also seen wrapped in Supabase errors)
+const FETCH_FAILURE_PATTERN = /Failed to fetch|NetworkError when attempting to fetch resource|Load failed|Internet connection appears to be offline|ERR_INTERNET_DISCONNECTED|ERR_NETWORK_CHANGED/i;
+
+/**
+ * Errors caused by missing connectivity (these never count as a failed attempt).
+ * Anything else - including TypeErrors from bugs - counts, so it can't retry forever.
+ */
+export function isNetworkError(error: unknown): boolean {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+    const message = (error as any)?.message || String(error);
+    return FETCH_FAILURE_PATTERN.test(message);
+}
+
+export function getRetryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** attempts, MAX_RETRY_DELAY_MS);
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Queue operations
+// ═══════════════════════════════════════════════════════════════
+
+export async function listOperations(userId: string): Promise<SyncOperation[]> {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(STORE_NAME, 'readonly');
+        const ops = await requestToPromise(tx.objectStore(STORE_NAME).index('userId').getAll(userId)) as SyncOperation[];
+        return ops.sort((a, b) => a.createdAt - b.createdAt);
+    } catch (e) {
+        console.error('[SyncQueue] Failed to list operations:', e);
+        return [];
+    }
+}
+
+/**
+ * Queue the latest state of a project. Replaces any queued save of the same project.
+ * A pending deletion of the project is dropped (saving again means the user wants it back).
+ */
+export async function enqueueSave(userId: string, projectRef: string, state: ProjectState): Promise<SyncOperation> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const existing = await requestToPromise(store.index('projectRef').getAll(projectRef)) as SyncOperation[];
+
+    const now = Date.now();
+    const previousSave = existing.find(op => op.kind === 'save-project');
+    existing.filter(op => op !== previousSave).forEach(op => store.delete(op.id));
+
+    const op: SyncOperation = {
+        id: previousSave?.id || crypto.randomUUID(),
+        kind: 'save-project',
+        userId,
+        projectRef,
+        projectName: state.projectName.trim() || 'Dự án chưa đặt tên',
+        state,
+        createdAt: previousSave?.createdAt || now,
+        updatedAt: now,
+        attempts: 0,
+        nextAttemptAt: now,
+        status: 'pending'
+    };
+    store.put(op);
+    await transactionDone(tx);
+    return op;
+}
+
+/**
+ * Queue deletion of a cloud project; queued saves of the same project are discarded.
+ * Local-only projects just disappear from the queue.
+ */
+export async function enqueueDelete(userId: string, projectRef: string, projectName: string): Promise<SyncOperation | null> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const existing = await requestToPromise(store.index('projectRef').getAll(projectRef)) as SyncOperation[];
+    existing.forEach(op => store.delete(op.id));
+
+    let op: SyncOperation | null = null;
+    if (!isLocalProjectRef(projectRef)) {
+        const now = Date.now();
+        op = {
+            id: crypto.randomUUID(),
+            kind: 'delete-project',
+            userId,
+            projectRef,
+            projectName,
+            createdAt: now,
+            updatedAt: now,
+            attempts: 0,
+            nextAttemptAt: now,
+            status: 'pending'
+        };
+        store.put(op);
+    }
+    await transactionDone(tx);
+    return op;
+}
+
+/**
+ * Update retry bookkeeping of an operation. Skipped if the operation was replaced by a newer save meanwhile.
+ */
+export async function updateOperationStatus(
+    op: SyncOperation,
+    patch: Partial<Pick<SyncOperation, 'status' | 'attempts' | 'nextAttemptAt' | 'lastError'>>
+): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const current = await requestToPromise(store.get(op.id)) as SyncOperation | undefined;
+    if (current && current.updatedAt === op.updatedAt) store.put({ ...current, ...patch });
+    await transactionDone(tx);
+}
+
+/**
+ * Remove an operation once it has synced - unless it was replaced by a newer save in the meantime.
+ */
+export async function completeOperation(op: SyncOperation): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const current = await requestToPromise(store.get(op.id)) as SyncOperation | undefined;
+    if (current && current.updatedAt === op.updatedAt) store.delete(op.id);
+    await transactionDone(tx);
+}
+
+/**
+ * A local project got its cloud id: point queued operations at the new id.
+ */
+export async function rebaseProjectRef(localRef: string, cloudId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const ops = await requestToPromise(store.index('projectRef').getAll(localRef)) as SyncOperation[];
+    ops.forEach(op => store.put({ ...op, projectRef: cloudId }));
+    await transactionDone(tx);
+}
+
+export async function removeOperation(id: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).delete(id);
+    await transactionDone(tx);
+}
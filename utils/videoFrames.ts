@@ -0,0 +1,69 @@
+/**
+ * Video Frame Extraction
+ * Pulls a single frame out of a scene's generated video (Veo clip URL or data URI).
+ *
+ * - Primary: server ffmpeg (POST /api/video/extract-frame) - works for any codec and origin
+ * - Fallback: <video> + canvas in the browser, for when the local server is not running
+ * - Result is a JPEG data URI, ready for generatedImage / referenceImage / endFrameImage
+ */
+
+const SERVER_URL = 'http://localhost:3001';
+
+export type FramePosition = number | 'last'; // Seconds from the start, or the final frame
+
+/**
+ * Fields of a Scene that an extracted frame can be written to
+ */
+export type FrameTargetField = 'generatedImage' | 'referenceImage' | 'endFrameImage';
+
+function captureFrameInBrowser(src: string, position: FramePosition): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.crossOrigin = 'anonymous';
+        video.muted = true;
+        video.preload = 'auto';
+
+        const cleanup = () => {
+            video.removeAttribute('src');
+            video.load();
+        };
+        video.onerror = () => { cleanup(); reject(new Error('Không tải được video')); };
+        video.onloadedmetadata = () => {
+            // Just before the end: seeking to `duration` exactly returns a blank frame in some browsers
+            video.currentTime = position === 'last'
+                ? Math.max(0, video.duration - 0.05)
+                : Math.min(Math.max(0, position), video.duration);
+        };
+        video.onseeked = () => {
+            try {
+                const canvas = document.createElement('canvas');
+                canvas.width = video.videoWidth;
+                canvas.height = video.videoHeight;
+                canvas.getContext('2d')!.drawImage(video, 0, 0);
+                const dataUrl = canvas.toDataURL('image/jpeg', 0.92);
+                cleanup();
+                resolve(dataUrl);
+            } catch (e) {
+                cleanup();
+                reject(e); // Tainted canvas (no CORS headers)
+            }
+        };
+        video.src = src;
+    });
+}
+
+export async function extractVideoFrame(videoUrl: string, position: FramePosition): Promise<string> {
+    try {
+        const response = await fetch(`${SERVER_URL}/api/video/extract-frame`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(position === 'last' ? { videoUrl, fromEnd: true } : { videoUrl, time: position })
+        });
+        const data = await response.json();
+        if (!response.ok || !data.image) throw new Error(data.error || `Frame extraction failed (${response.status})`);
+        return data.image;
+    } catch (e) {
+        console.warn('[Frames] Server extraction failed, capturing in browser:', e);
+        return captureFrameInBrowser(videoUrl, position);
+    }
+}
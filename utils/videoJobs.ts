@@ -0,0 +1,239 @@
+/**
+ * Video Generation Jobs
+ * Persistent tracker for image-to-video operations (localStorage). Jobs are started under a
+ * concurrency limit through their video provider, polled per provider, and retried with exponential backoff.
+ *
+ * - queued → starting → active (provider operation running) → succeeded / failed / cancelled
+ * - Jobs that were "active" when the tab closed keep their operation name and resume polling
+ * - Every finished operation becomes a take in the scene's videoHistory; one take is the hero
+ */
+
+import type { Scene, VideoTake } from '../types';
+import type { VideoProviderId } from './videoProviders/types';
+
+const STORAGE_KEY = 'scene_director_video_jobs';
+
+export const MAX_VIDEO_ATTEMPTS = 3;
+export const VIDEO_POLL_INTERVAL_MS = 10000;
+export const MAX_VIDEO_TAKES = 10;
+const BACKOFF_BASE_MS = 15000;
+const BACKOFF_MAX_MS = 5 * 60 * 1000;
+
+export type VideoJobStatus = 'queued' | 'starting' | 'active' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface VideoJob {
+    id: string;
+    sceneId: string;
+    sceneNumber: string;
+    status: VideoJobStatus;
+    prompt: string;
+    attempts: number;
+    provider?: VideoProviderId; // Set when started; jobs from before providers existed are Labs Veo
+    model?: string;
+    operationName?: string;
+    nextAttemptAt?: number; // Backoff: not started again before this time
+    error?: string;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+}
+
+export interface VideoJobQueue {
+    jobs: VideoJob[]; // Array order = start order
+    updatedAt: number;
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Persistence
+// ═══════════════════════════════════════════════════════════════
+
+export function createEmptyVideoQueue(): VideoJobQueue {
+    return { jobs: [], updatedAt: Date.now() };
+}
+
+/**
+ * Load persisted jobs. A start request cut off by a reload never returned an operation,
+ * so "starting" jobs go back to the queue; "active" jobs keep polling their operation.
+ */
+export function loadVideoJobs(): VideoJobQueue {
+    if (typeof window === 'undefined') return createEmptyVideoQueue();
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return createEmptyVideoQueue();
+        const queue = JSON.parse(raw) as VideoJobQueue;
+        return {
+            ...queue,
+            jobs: queue.jobs.map(j => j.status === 'starting' ? { ...j, status: 'queued', startedAt: undefined } : j)
+        };
+    } catch (e) {
+        console.error('[VideoJobs] Failed to load jobs:', e);
+        return createEmptyVideoQueue();
+    }
+}
+
+export function saveVideoJobs(queue: VideoJobQueue): void {
+    if (typeof window === 'undefined') return;
+    try {
+        if (queue.jobs.length === 0) localStorage.removeItem(STORAGE_KEY);
+        else localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+    } catch (e) {
+        console.error('[VideoJobs] Failed to save jobs:', e);
+    }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Queue operations (pure)
+// ═══════════════════════════════════════════════════════════════
+
+const touch = (queue: VideoJobQueue, jobs: VideoJob[]): VideoJobQueue => ({ jobs, updatedAt: Date.now() });
+
+export function isPendingVideoJob(job: VideoJob): boolean {
+    return job.status === 'queued' || job.status === 'starting' || job.status === 'active';
+}
+
+/**
+ * Queue one job per scene. Scenes with a pending job are skipped; their finished jobs are replaced.
+ */
+export function enqueueVideoJobs(queue: VideoJobQueue, scenes: Scene[]): { queue: VideoJobQueue; added: VideoJob[] } {
+    const pendingSceneIds = new Set(queue.jobs.filter(isPendingVideoJob).map(j => j.sceneId));
+    const now = Date.now();
+    const added: VideoJob[] = scenes
+        .filter(s => !pendingSceneIds.has(s.id))
+        .map(s => ({
+            id: crypto.randomUUID(),
+            sceneId: s.id,
+            sceneNumber: s.sceneNumber,
+            status: 'queued',
+            prompt: s.veoPrompt,
+            attempts: 0,
+            createdAt: now
+        }));
+
+    const addedSceneIds = new Set(added.map(j => j.sceneId));
+    const kept = queue.jobs.filter(j => isPendingVideoJob(j) || !addedSceneIds.has(j.sceneId));
+    return { queue: touch(queue, [...kept, ...added]), added };
+}
+
+export function updateVideoJob(queue: VideoJobQueue, jobId: string, patch: Partial<VideoJob>): VideoJobQueue {
+    return touch(queue, queue.jobs.map(j => j.id === jobId ? { ...j, ...patch } : j));
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): 15s, 30s, 60s... capped at 5 minutes.
+ */
+export function getBackoffDelay(attempts: number): number {
+    return Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * Record a failed attempt: re-queue with backoff while attempts remain, otherwise mark failed.
+ * Non-retryable errors (bad request, missing media) fail immediately.
+ */
+export function failVideoJob(queue: VideoJobQueue, jobId: string, error: string, retryable: boolean, now: number = Date.now()): VideoJobQueue {
+    const job = queue.jobs.find(j => j.id === jobId);
+    if (!job) return queue;
+    if (retryable && job.attempts < MAX_VIDEO_ATTEMPTS) {
+        return updateVideoJob(queue, jobId, {
+            status: 'queued',
+            error,
+            operationName: undefined,
+            nextAttemptAt: now + getBackoffDelay(job.attempts)
+        });
+    }
+    return updateVideoJob(queue, jobId, { status: 'failed', error, finishedAt: now });
+}
+
+/**
+ * Jobs that may start now: queued, past their backoff, not blocked (e.g. waiting on a chained
+ * predecessor), within the concurrency limit.
+ */
+export function getStartableVideoJobs(
+    queue: VideoJobQueue,
+    maxConcurrent: number,
+    now: number = Date.now(),
+    isBlocked: (job: VideoJob) => boolean = () => false
+): VideoJob[] {
+    const inFlight = queue.jobs.filter(j => j.status === 'starting' || j.status === 'active').length;
+    const slots = Math.max(0, maxConcurrent - inFlight);
+    return queue.jobs
+        .filter(j => j.status === 'queued' && (!j.nextAttemptAt || j.nextAttemptAt <= now) && !isBlocked(j))
+        .slice(0, slots);
+}
+
+/**
+ * Cancel queued jobs (all, or one). Operations already running on Labs cannot be stopped.
+ */
+export function cancelQueuedVideoJobs(queue: VideoJobQueue, jobId?: string): VideoJobQueue {
+    const now = Date.now();
+    return touch(queue, queue.jobs.map(j =>
+        j.status === 'queued' && (!jobId || j.id === jobId) ? { ...j, status: 'cancelled', finishedAt: now } : j
+    ));
+}
+
+export function retryFailedVideoJobs(queue: VideoJobQueue): VideoJobQueue {
+    return touch(queue, queue.jobs.map(j =>
+        j.status === 'failed' ? { ...j, status: 'queued', attempts: 0, error: undefined, nextAttemptAt: undefined, finishedAt: undefined } : j
+    ));
+}
+
+export function clearFinishedVideoJobs(queue: VideoJobQueue): VideoJobQueue {
+    return touch(queue, queue.jobs.filter(isPendingVideoJob));
+}
+
+/**
+ * Drop jobs of scenes that are not in the open project.
+ */
+export function pruneVideoJobs(queue: VideoJobQueue, sceneIds: string[]): VideoJobQueue {
+    const existing = new Set(sceneIds);
+    const jobs = queue.jobs.filter(j => existing.has(j.sceneId));
+    return jobs.length === queue.jobs.length ? queue : touch(queue, jobs);
+}
+
+export interface VideoJobCounts {
+    queued: number;
+    running: number; // starting + active
+    succeeded: number;
+    failed: number;
+}
+
+export function getVideoJobCounts(queue: VideoJobQueue): VideoJobCounts {
+    const count = (...statuses: VideoJobStatus[]) => queue.jobs.filter(j => statuses.includes(j.status)).length;
+    return {
+        queued: count('queued'),
+        running: count('starting', 'active'),
+        succeeded: count('succeeded'),
+        failed: count('failed')
+    };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Takes
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Scene patch adding a take. The first take becomes the hero; later takes wait to be picked.
+ * Oldest non-hero takes are dropped beyond MAX_VIDEO_TAKES.
+ */
+export function addVideoTake(scene: Scene, take: VideoTake): Partial<Scene> {
+    let history = [...(scene.videoHistory || []), take];
+    const heroTakeId = scene.heroTakeId && history.some(t => t.id === scene.heroTakeId) ? scene.heroTakeId : take.id;
+    while (history.length > MAX_VIDEO_TAKES) {
+        const dropIndex = history.findIndex(t => t.id !== heroTakeId);
+        history = history.filter((_, i) => i !== dropIndex);
+    }
+    const hero = history.find(t => t.id === heroTakeId)!;
+    return { videoHistory: history, heroTakeId, generatedVideo: hero.url };
+}
+
+export function selectHeroTake(scene: Scene, takeId: string): Partial<Scene> {
+    const take = scene.videoHistory?.find(t => t.id === takeId);
+    if (!take) return {};
+    return { heroTakeId: take.id, generatedVideo: take.url };
+}
+
+export function removeVideoTake(scene: Scene, takeId: string): Partial<Scene> {
+    const history = (scene.videoHistory || []).filter(t => t.id !== takeId);
+    if (scene.heroTakeId !== takeId) return { videoHistory: history };
+    const hero = history[history.length - 1];
+    return { videoHistory: history, heroTakeId: hero?.id, generatedVideo: hero?.url };
+}
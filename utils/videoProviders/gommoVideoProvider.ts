@@ -0,0 +1,87 @@
+/**
+ * Gommo video adapter (Kling, Hailuo, Veo... through the Gommo proxy)
+ * The model catalogue comes from `listModels('video')`: ratios, start/end frame support and
+ * clip durations of each entry become the capabilities shown in the scene UI.
+ * Gommo has no batch status endpoint, so poll checks each video in turn.
+ */
+
+import type { VideoProvider, VideoStartRequest, VideoPollResult, VideoCredentials, VideoModelOption } from './types';
+import { VideoProviderError } from './types';
+import { GommoAI, GommoModel, GommoSubject, urlToBase64 } from '../gommoAI';
+
+const DEFAULT_DURATIONS = [5];
+
+const getClient = (credentials: VideoCredentials) => {
+    if (!credentials.gommoDomain || !credentials.gommoAccessToken) {
+        throw new VideoProviderError('Thiếu Gommo credentials (Profile → Gommo)', false);
+    }
+    return new GommoAI(credentials.gommoDomain, credentials.gommoAccessToken);
+};
+
+// Public URLs are passed as-is; anything else travels as raw base64
+const toSubject = async (src: string): Promise<GommoSubject> =>
+    src.startsWith('http') ? { url: src } : { data: (await urlToBase64(src)).split(',')[1] };
+
+export function toVideoModelOption(model: GommoModel): VideoModelOption {
+    const aspectRatios = (model.ratios || []).map(r => r.type.replace('_', ':'));
+    return {
+        value: model.model,
+        label: `🟣 ${model.name}`,
+        provider: 'gommo',
+        description: model.description || `Gommo · ${model.server}`,
+        capabilities: {
+            durations: model.durations?.length ? model.durations : DEFAULT_DURATIONS,
+            supportsStartFrame: model.startImage !== false,
+            supportsEndFrame: !!model.endImage,
+            aspectRatios: aspectRatios.length > 0 ? aspectRatios : ['16:9', '9:16']
+        }
+    };
+}
+
+export const gommoVideoProvider: VideoProvider = {
+    id: 'gommo',
+    label: 'Gommo Video',
+
+    async start({ prompt, model, aspectRatio, duration, startImage, endImage, credentials }: VideoStartRequest) {
+        const client = getClient(credentials);
+        try {
+            const video = await client.createVideo({
+                prompt,
+                model,
+                ratio: GommoAI.convertRatio(aspectRatio),
+                duration,
+                startImage: startImage.image ? await toSubject(startImage.image) : undefined,
+                endImage: endImage ? await toSubject(endImage) : undefined
+            });
+            return video.id_base;
+        } catch (e: any) {
+            // Credit / validation errors come back as a message; network failures are worth a retry
+            throw new VideoProviderError(e.message || 'Gommo video failed', e instanceof TypeError);
+        }
+    },
+
+    async poll(operationIds: string[], credentials: VideoCredentials) {
+        const client = getClient(credentials);
+        const results: Record<string, VideoPollResult> = {};
+        for (const id of operationIds) {
+            try {
+                const video = await client.checkVideoStatus(id);
+                if (video.status === 'SUCCESS' && video.url) {
+                    results[id] = { status: 'succeeded', url: video.url };
+                } else if (video.status === 'ERROR') {
+                    results[id] = { status: 'failed', error: video.error || video.message || 'Gommo video failed', retryable: true };
+                } else {
+                    results[id] = { status: 'active' };
+                }
+            } catch (e) {
+                console.warn(`[VideoJobs] Gommo status check failed for ${id}:`, e);
+            }
+        }
+        return results;
+    },
+
+    async listModels(credentials: VideoCredentials) {
+        const models = await getClient(credentials).listModels('video');
+        return models.map(toVideoModelOption);
+    }
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getVideoProvider, getVideoModel, loadVideoModels, resolveVideoDuration } from './index';
+import { toVideoModelOption } from './gommoVideoProvider';
+import { GommoAI, GommoModel } from '../gommoAI';
+import { VIDEO_MODELS, DEFAULT_VIDEO_MODEL } from '../appConstants';
+
+const GOMMO_CREDENTIALS = { gommoDomain: 'example.gommo', gommoAccessToken: 'token' };
+
+const klingModel: GommoModel = {
+    id_base: 'm1',
+    name: 'Kling 2.1',
+    server: 'kling',
+    model: 'kling_2_1',
+    ratios: [{ name: 'Landscape', type: '16_9' }, { name: 'Square', type: '1_1' }],
+    startImage: true,
+    endImage: true,
+    durations: [5, 10]
+};
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('video provider registry', () => {
+    it('registers the Labs Veo and Gommo adapters', () => {
+        expect(getVideoProvider('labs-veo').id).toBe('labs-veo');
+        expect(getVideoProvider('gommo').id).toBe('gommo');
+    });
+
+    it('falls back to Labs Veo for a missing provider id', () => {
+        expect(getVideoProvider(undefined).id).toBe('labs-veo');
+    });
+
+    it('resolves unknown model ids to the default model', () => {
+        expect(getVideoModel('no-such-model').value).toBe(DEFAULT_VIDEO_MODEL);
+    });
+});
+
+describe('Gommo video models', () => {
+    it('maps durations, frame support and ratios into capabilities', () => {
+        const option = toVideoModelOption(klingModel);
+        expect(option.provider).toBe('gommo');
+        expect(option.value).toBe('kling_2_1');
+        expect(option.capabilities).toEqual({
+            durations: [5, 10],
+            supportsStartFrame: true,
+            supportsEndFrame: true,
+            aspectRatios: ['16:9', '1:1']
+        });
+    });
+
+    it('uses defaults when the catalogue entry omits them', () => {
+        const option = toVideoModelOption({ id_base: 'm2', name: 'Text only', server: 'x', model: 'text_only', startImage: false });
+        expect(option.capabilities).toEqual({
+            durations: [5],
+            supportsStartFrame: false,
+            supportsEndFrame: false,
+            aspectRatios: ['16:9', '9:16']
+        });
+    });
+
+    it('appends the catalogue from listModels("video") when credentials are set', async () => {
+        const listModels = vi.spyOn(GommoAI.prototype, 'listModels').mockResolvedValue([klingModel]);
+
+        const models = await loadVideoModels(GOMMO_CREDENTIALS);
+
+        expect(listModels).toHaveBeenCalledWith('video');
+        expect(models.slice(0, VIDEO_MODELS.length)).toEqual(VIDEO_MODELS);
+        expect(models.filter(m => m.provider === 'gommo' && !m.isHeader).map(m => m.value)).toEqual(['kling_2_1']);
+        expect(getVideoModel('kling_2_1', models).provider).toBe('gommo');
+        expect(resolveVideoDuration(getVideoModel('kling_2_1', models).capabilities, 10)).toBe(10);
+    });
+
+    it('keeps the built-in models without Gommo credentials or when the catalogue fails', async () => {
+        const listModels = vi.spyOn(GommoAI.prototype, 'listModels').mockRejectedValue(new Error('offline'));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        expect(await loadVideoModels({})).toEqual(VIDEO_MODELS);
+        expect(listModels).not.toHaveBeenCalled();
+        expect(await loadVideoModels(GOMMO_CREDENTIALS)).toEqual(VIDEO_MODELS);
+    });
+});
+
+describe('Gommo video adapter', () => {
+    const provider = getVideoProvider('gommo');
+
+    it('starts a job through createVideo and returns its id', async () => {
+        const createVideo = vi.spyOn(GommoAI.prototype, 'createVideo').mockResolvedValue({ id_base: 'vid_1', status: 'PENDING_ACTIVE' });
+
+        const id = await provider.start({
+            prompt: 'A cat',
+            model: 'kling_2_1',
+            aspectRatio: '9:16',
+            duration: 10,
+            startImage: { image: 'https://cdn.example.com/frame.png' },
+            credentials: GOMMO_CREDENTIALS
+        });
+
+        expect(id).toBe('vid_1');
+        expect(createVideo).toHaveBeenCalledWith(expect.objectContaining({
+            model: 'kling_2_1',
+            ratio: '9_16',
+            duration: 10,
+            startImage: { url: 'https://cdn.example.com/frame.png' },
+            endImage: undefined
+        }));
+    });
+
+    it('rejects a start without credentials as not retryable', async () => {
+        await expect(provider.start({
+            prompt: 'A cat', model: 'kling_2_1', aspectRatio: '16:9', duration: 5, startImage: {}, credentials: {}
+        })).rejects.toMatchObject({ retryable: false });
+    });
+
+    it('maps each status from checkVideoStatus', async () => {
+        vi.spyOn(GommoAI.prototype, 'checkVideoStatus').mockImplementation(async id => ({
+            vid_ok: { id_base: id, status: 'SUCCESS' as const, url: 'https://cdn.example.com/v.mp4' },
+            vid_err: { id_base: id, status: 'ERROR' as const, error: 'Out of credits' },
+            vid_run: { id_base: id, status: 'PENDING_PROCESSING' as const }
+        })[id]!);
+
+        const results = await provider.poll(['vid_ok', 'vid_err', 'vid_run'], GOMMO_CREDENTIALS);
+
+        expect(results).toEqual({
+            vid_ok: { status: 'succeeded', url: 'https://cdn.example.com/v.mp4' },
+            vid_err: { status: 'failed', error: 'Out of credits', retryable: true },
+            vid_run: { status: 'active' }
+        });
+    });
+});
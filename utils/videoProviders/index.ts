@@ -0,0 +1,68 @@
+/**
+ * Video Provider Registry
+ * Maps the `provider` of each video model entry to its adapter.
+ * Adding a backend = writing a VideoProvider and registering it here (no changes to the job tracker).
+ */
+
+import type { VideoProvider, VideoProviderId, VideoProviderCapabilities, VideoModelOption, VideoCredentials } from './types';
+import { VIDEO_MODELS, DEFAULT_VIDEO_MODEL } from '../appConstants';
+import { labsVeoProvider } from './labsVeoProvider';
+import { gommoVideoProvider } from './gommoVideoProvider';
+
+export type { VideoProvider, VideoProviderId, VideoProviderCapabilities, VideoModelOption, VideoCredentials, VideoStartRequest, VideoPollResult } from './types';
+export { VideoProviderError } from './types';
+
+const providers = new Map<VideoProviderId, VideoProvider>();
+
+export function registerVideoProvider(provider: VideoProvider): void {
+    providers.set(provider.id, provider);
+}
+
+registerVideoProvider(labsVeoProvider);
+registerVideoProvider(gommoVideoProvider);
+
+const DEFAULT_PROVIDER_ID: VideoProviderId = 'labs-veo';
+
+export function getVideoProvider(id: VideoProviderId | undefined): VideoProvider {
+    const provider = providers.get(id || DEFAULT_PROVIDER_ID) || providers.get(DEFAULT_PROVIDER_ID);
+    if (!provider) throw new Error(`No video provider registered for "${id}"`);
+    return provider;
+}
+
+/**
+ * Model entry by id; unknown ids (e.g. a Gommo model whose catalogue hasn't loaded) resolve to the default model.
+ */
+export function getVideoModel(modelId: string | undefined, models: VideoModelOption[] = VIDEO_MODELS): VideoModelOption {
+    const selectable = models.filter(m => !m.isHeader);
+    return selectable.find(m => m.value === modelId)
+        || selectable.find(m => m.value === DEFAULT_VIDEO_MODEL)
+        || VIDEO_MODELS.find(m => !m.isHeader)!;
+}
+
+/**
+ * Clip length to request: the scene's choice when the model supports it, else the model default.
+ */
+export function resolveVideoDuration(capabilities: VideoProviderCapabilities, duration?: number): number {
+    return duration && capabilities.durations.includes(duration) ? duration : capabilities.durations[0];
+}
+
+/**
+ * Built-in models plus whatever the providers expose at runtime (providers without credentials are skipped).
+ */
+export async function loadVideoModels(credentials: VideoCredentials): Promise<VideoModelOption[]> {
+    const models = [...VIDEO_MODELS];
+    if (credentials.gommoDomain && credentials.gommoAccessToken) {
+        try {
+            const gommoModels = await gommoVideoProvider.listModels!(credentials);
+            if (gommoModels.length > 0) {
+                models.push(
+                    { value: '__header_gommo_video__', label: '─── 🟣 GOMMO VIDEO ───', provider: 'gommo', isHeader: true, capabilities: gommoModels[0].capabilities },
+                    ...gommoModels
+                );
+            }
+        } catch (e) {
+            console.warn('[VideoJobs] Could not load Gommo video models:', e);
+        }
+    }
+    return models;
+}
@@ -0,0 +1,128 @@
+/**
+ * Veo via Google Labs adapter.
+ * Start needs a Labs bearer token plus a fresh reCAPTCHA token from the extension; the start frame
+ * is the Labs media id of the scene image, or inline base64 when the frame came from elsewhere.
+ * All running operations are polled in one batch request.
+ */
+
+import type { VideoProvider, VideoStartRequest, VideoPollResult, VideoCredentials } from './types';
+import { VideoProviderError } from './types';
+import { getRecaptchaToken } from '../recaptchaHelper';
+import { urlToBase64 } from '../gommoAI';
+
+const SERVER_URL = 'http://localhost:3001';
+
+const toVeoAspectRatio = (aspectRatio: string) =>
+    aspectRatio === '9:16' || aspectRatio === '3:4' ? 'VIDEO_ASPECT_RATIO_PORTRAIT' : 'VIDEO_ASPECT_RATIO_LANDSCAPE';
+
+// Labs expects raw base64 content for inline images
+const toImageContent = async (src: string) => (await urlToBase64(src)).split(',')[1];
+
+// Labs video payload; which fields are present varies between Veo versions
+interface LabsVideo {
+    url?: string;
+    fifeUrl?: string;
+    uri?: string;
+    encodedVideo?: string;
+}
+
+interface LabsOperationResult {
+    video?: LabsVideo;
+    videoUrl?: string;
+    fifeUrl?: string;
+    generatedVideos?: { video?: LabsVideo }[];
+    generatedVideo?: LabsVideo;
+}
+
+interface LabsOperationStatus {
+    jobId: string;
+    status: string;
+    result?: LabsOperationResult;
+    error?: string;
+}
+
+/**
+ * Find the video URL in a finished Labs operation (the response shape varies between Veo versions).
+ */
+export function extractVideoUrl(result: LabsOperationResult | undefined): string | null {
+    if (!result) return null;
+    const candidates = [
+        result.video?.url,
+        result.video?.fifeUrl,
+        result.video?.uri,
+        result.videoUrl,
+        result.fifeUrl,
+        result.generatedVideos?.[0]?.video?.uri,
+        result.generatedVideo?.fifeUrl,
+        result.generatedVideo?.url
+    ];
+    const found = candidates.find(c => typeof c === 'string' && c.length > 0);
+    if (found) return found;
+    const encoded = result.video?.encodedVideo || result.generatedVideo?.encodedVideo;
+    return encoded ? `data:video/mp4;base64,${encoded}` : null;
+}
+
+export const labsVeoProvider: VideoProvider = {
+    id: 'labs-veo',
+    label: 'Veo (Google Labs)',
+
+    async start({ prompt, model, aspectRatio, startImage, endImage, credentials }: VideoStartRequest) {
+        if (!credentials.labsToken) throw new VideoProviderError('Thiếu Google Labs token', false);
+        if (!startImage.mediaId && !startImage.image) {
+            throw new VideoProviderError('Veo cần ảnh bắt đầu (ảnh cảnh hoặc Media ID của Google Labs)', false);
+        }
+
+        const recaptchaToken = await getRecaptchaToken();
+        const response = await fetch(`${SERVER_URL}/api/proxy/google/video/start`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                token: credentials.labsToken,
+                recaptchaToken,
+                prompt,
+                model,
+                ...(startImage.mediaId ? { mediaId: startImage.mediaId } : { imageBase64: await toImageContent(startImage.image!) }),
+                ...(endImage && { endImageBase64: await toImageContent(endImage) }),
+                aspectRatio: toVeoAspectRatio(aspectRatio)
+            })
+        });
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) {
+            const message = data.error?.message || data.error || `Veo start failed (${response.status})`;
+            // Rate limits and server errors are worth another try; a rejected request is not
+            throw new VideoProviderError(String(message), response.status === 429 || response.status >= 500);
+        }
+
+        const operationName = data.requests?.[0]?.operation?.name || data.operations?.[0]?.operation?.name;
+        if (!operationName) throw new VideoProviderError('Veo không trả về operation', true);
+        return operationName;
+    },
+
+    async poll(operationIds: string[], credentials: VideoCredentials) {
+        const response = await fetch(`${SERVER_URL}/api/proxy/google/video/status`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                token: credentials.labsToken,
+                operations: operationIds.map(name => ({ jobId: name, operation: { name } }))
+            })
+        });
+        if (!response.ok) throw new Error(`Status request failed (${response.status})`);
+        const operations: LabsOperationStatus[] = (await response.json()).operations || [];
+
+        const results: Record<string, VideoPollResult> = {};
+        for (const op of operations) {
+            if (op.status === 'MEDIA_GENERATION_STATUS_SUCCEEDED') {
+                const url = extractVideoUrl(op.result);
+                results[op.jobId] = url
+                    ? { status: 'succeeded', url }
+                    : { status: 'failed', error: 'Không tìm thấy video trong kết quả', retryable: false };
+            } else if (op.status === 'MEDIA_GENERATION_STATUS_FAILED') {
+                results[op.jobId] = { status: 'failed', error: op.error || 'Veo generation failed', retryable: true };
+            } else {
+                results[op.jobId] = { status: 'active' };
+            }
+        }
+        return results;
+    }
+};
@@ -0,0 +1,65 @@
+/**
+ * Video Provider Contracts
+ * Every video backend (Veo via Google Labs, Gommo video models...) implements `VideoProvider`.
+ * The video job tracker only talks to this interface: start an operation, then poll it.
+ */
+
+export type VideoProviderId = 'labs-veo' | 'gommo';
+
+export interface VideoProviderCapabilities {
+    durations: number[];        // Clip lengths (seconds) the model accepts; first = default
+    supportsStartFrame: boolean; // Image-to-video from the scene image
+    supportsEndFrame: boolean;   // Start/end-frame interpolation
+    aspectRatios: string[];      // Ratios rendered natively
+}
+
+// Entry of the video model list: `provider` is a key of the provider registry
+export interface VideoModelOption {
+    value: string;
+    label: string;
+    provider: VideoProviderId;
+    description?: string;
+    capabilities: VideoProviderCapabilities;
+    isHeader?: boolean;
+}
+
+export interface VideoCredentials {
+    labsToken?: string;
+    gommoDomain?: string;
+    gommoAccessToken?: string;
+}
+
+export interface VideoStartRequest {
+    prompt: string;
+    model: string;
+    aspectRatio: string;
+    duration: number;
+    startImage: { mediaId?: string; image?: string }; // Labs media id, or a data URI / URL
+    endImage?: string;                                  // Data URI / URL
+    credentials: VideoCredentials;
+}
+
+export type VideoPollResult =
+    | { status: 'active' }
+    | { status: 'succeeded'; url: string }
+    | { status: 'failed'; error: string; retryable: boolean };
+
+export interface VideoProvider {
+    id: VideoProviderId;
+    label: string;
+    /** Returns the provider's operation id */
+    start(request: VideoStartRequest): Promise<string>;
+    /** Status of several operations in one round trip where the backend allows it */
+    poll(operationIds: string[], credentials: VideoCredentials): Promise<Record<string, VideoPollResult>>;
+    /** Models discovered at runtime (e.g. from the provider's catalogue) */
+    listModels?(credentials: VideoCredentials): Promise<VideoModelOption[]>;
+}
+
+/**
+ * Thrown by adapters; `retryable` tells the job tracker whether backoff is worth it.
+ */
+export class VideoProviderError extends Error {
+    constructor(message: string, public retryable: boolean) {
+        super(message);
+    }
+}
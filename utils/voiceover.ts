@@ -0,0 +1,161 @@
+/**
+ * Voiceover (Text-to-Speech)
+ * Turns a scene's narration and dialogue into audio clips with MiniMax Speech-02 on Fal.ai
+ * (proxied by the server: POST /api/proxy/fal/tts).
+ *
+ * - Narration (voiceOverText / voiceover) is read by the project narrator voice
+ * - Each dialogue line is read by its speaker's Character.voiceId (narrator voice when unassigned)
+ * - Clips play back to back; their measured total becomes the scene's voSecondsEstimate
+ * - Clips remember the text they were read from: after a text edit they are stale and never used
+ */
+
+import type { Scene, Character, SceneAudioClip } from '../types';
+
+export interface TtsVoice {
+    value: string;
+    label: string;
+    description?: string;
+}
+
+export interface VoiceLine {
+    kind: SceneAudioClip['kind'];
+    text: string;
+    characterId?: string;
+    speaker?: string; // Name as written in the script
+}
+
+const AUDIO_METADATA_TIMEOUT_MS = 15000;
+
+// ═══════════════════════════════════════════════════════════════
+// Lines
+// ═══════════════════════════════════════════════════════════════
+
+export function findSpeaker(characters: Character[], name: string): Character | undefined {
+    const key = name.trim().toLowerCase();
+    return characters.find(c => c.name.trim().toLowerCase() === key);
+}
+
+/**
+ * Lines to synthesize for a scene: the narration first, then the dialogue in script order.
+ */
+export function getSceneVoiceLines(scene: Scene, characters: Character[]): VoiceLine[] {
+    const lines: VoiceLine[] = [];
+    const narration = (scene.voiceOverText || scene.voiceover || '').trim();
+    if (narration) lines.push({ kind: 'narration', text: narration });
+    for (const dialogue of scene.dialogues || []) {
+        if (!dialogue.line?.trim()) continue;
+        lines.push({
+            kind: 'dialogue',
+            text: dialogue.line.trim(),
+            characterId: findSpeaker(characters, dialogue.characterName)?.id,
+            speaker: dialogue.characterName
+        });
+    }
+    return lines;
+}
+
+export function getLineVoice(line: VoiceLine, characters: Character[], narratorVoiceId?: string): string | undefined {
+    const speaker = line.characterId ? characters.find(c => c.id === line.characterId) : undefined;
+    return speaker?.voiceId || narratorVoiceId;
+}
+
+/**
+ * Voice clips that still match the scene's current text, or undefined when the text was edited since.
+ */
+export function getCurrentVoiceAudio(scene: Scene): SceneAudioClip[] | undefined {
+    const clips = scene.voiceAudio;
+    if (!clips?.length) return undefined;
+    const lines = getSceneVoiceLines(scene, []);
+    const matches = lines.length === clips.length && lines.every((line, i) => line.text === clips[i].text);
+    return matches ? clips : undefined;
+}
+
+/**
+ * Scene after an edit: generated audio is dropped once the narration or dialogue it was read from changes.
+ */
+export function dropStaleVoiceAudio(scene: Scene): Scene {
+    if (!scene.voiceAudio?.length || getCurrentVoiceAudio(scene)) return scene;
+    return { ...scene, voiceAudio: undefined, voiceError: undefined };
+}
+
+// ═══════════════════════════════════════════════════════════════
+// Audio
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Duration of an audio file from its metadata (no CORS needed for <audio>).
+ * Rejects after a timeout: some servers never answer the metadata request.
+ */
+export function measureAudioDuration(src: string, timeoutMs: number = AUDIO_METADATA_TIMEOUT_MS): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const audio = new Audio();
+        const finish = (error: Error | null, duration?: number) => {
+            clearTimeout(timer);
+            audio.onloadedmetadata = null;
+            audio.onerror = null;
+            audio.removeAttribute('src');
+            if (error) reject(error);
+            else resolve(duration!);
+        };
+        const timer = setTimeout(() => finish(new Error('Hết thời gian đọc độ dài audio')), timeoutMs);
+        audio.preload = 'metadata';
+        audio.onloadedmetadata = () => {
+            const duration = audio.duration;
+            if (Number.isFinite(duration)) finish(null, Math.round(duration * 100) / 100);
+            else finish(new Error('Không đọc được độ dài audio'));
+        };
+        audio.onerror = () => finish(new Error('Không tải được audio'));
+        audio.src = src;
+    });
+}
+
+export const getVoiceAudioDuration = (clips: SceneAudioClip[] | undefined): number =>
+    Math.round((clips || []).reduce((sum, c) => sum + c.duration, 0) * 100) / 100;
+
+/**
+ * Read one line with a voice. Returns the audio URL and its length in seconds.
+ */
+export async function synthesizeSpeech(text: string, voiceId: string): Promise<{ url: string; duration: number }> {
+    // Retrieve Fal API Key from localStorage (User Setting)
+    const customFalKey = typeof window !== 'undefined' ? localStorage.getItem('falApiKey') : null;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (customFalKey) headers['x-fal-api-key'] = customFalKey;
+
+    const response = await fetch('/api/proxy/fal/tts', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ text, voiceId })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) throw new Error(data.error || `TTS failed (${response.status})`);
+
+    const duration = data.durationMs ? Math.round(data.durationMs / 10) / 100 : await measureAudioDuration(data.url);
+    return { url: data.url, duration };
+}
+
+/**
+ * Synthesize every line of a scene. Throws on the first failed line so a scene never ends up half voiced.
+ */
+export async function synthesizeSceneVoice(
+    scene: Scene,
+    characters: Character[],
+    narratorVoiceId: string
+): Promise<SceneAudioClip[]> {
+    const clips: SceneAudioClip[] = [];
+    for (const line of getSceneVoiceLines(scene, characters)) {
+        const voiceId = getLineVoice(line, characters, narratorVoiceId)!;
+        const { url, duration } = await synthesizeSpeech(line.text, voiceId);
+        clips.push({
+            id: crypto.randomUUID(),
+            kind: line.kind,
+            characterId: line.characterId,
+            text: line.text,
+            voiceId,
+            url,
+            duration,
+            createdAt: Date.now()
+        });
+        console.log(`[Voiceover] Scene ${scene.sceneNumber}: ${line.kind}${line.speaker ? ` (${line.speaker})` : ''} ${duration}s`);
+    }
+    return clips;
+}
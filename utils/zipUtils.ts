@@ -1,5 +1,11 @@
-import { ProjectState } from '../types';
+import { ProjectState, StoredAsset } from '../types';
 import { slugify } from './helpers';
+import { buildSubtitles } from './subtitles';
+import { getCurrentVoiceAudio } from './voiceover';
+import { buildScreenplayDocument, toFountain } from './screenplayExport';
+import { migrateProject, withSchemaVersion, MigrationReport } from './projectMigrations';
+import { dehydrateAssets, hydrateAssets, isAssetRef, isMediaRef, hashFromMediaRef, getMimeExtension, unpackProjectAssets } from './assetStore';
+import { loadMediaAsset } from './stateManager';
 
 // @ts-ignore
 const JSZip = window.JSZip;
@@ -45,18 +51,40 @@ const prepareImageForZip = async (source: string): Promise<{ data: string | Blob
     }
 };
 
-export const handleDownloadAll = async (state: ProjectState) => {
+/**
+ * Same as prepareImageForZip for TTS clips (data URI or URL).
+ */
+const prepareAudioForZip = async (source: string): Promise<{ data: string | Blob; ext: string } | null> => {
+    try {
+        const match = source.match(/^data:audio\/([\w.+-]+);base64,(.+)$/);
+        if (match) return { data: match[2], ext: match[1] === 'mpeg' ? 'mp3' : match[1] };
+
+        const response = await fetch(source);
+        const blob = await response.blob();
+        const ext = blob.type.includes('wav') ? 'wav' : blob.type.includes('ogg') ? 'ogg' : 'mp3';
+        return { data: blob, ext };
+    } catch (error) {
+        console.warn('Failed to fetch audio for ZIP:', source, error);
+        return null;
+    }
+};
+
+export const handleDownloadAll = async (projectState: ProjectState) => {
     if (!JSZip) {
         alert("JSZip not found. Please ensure it is loaded.");
         return;
     }
 
+    // Resolve content-addressed references (no-op for a project already in memory)
+    const state = unpackProjectAssets(projectState);
+
     const zip = new JSZip();
     const scenesFolder = zip.folder("Scenes");
     const assetsFolder = zip.folder("Assets");
     const charsFolder = assetsFolder?.folder("Characters");
     const productsFolder = assetsFolder?.folder("Products");
     const docsFolder = zip.folder("Docs");
+    const audioFolder = zip.folder("Audio");
 
     let fileCount = 0;
 
@@ -64,6 +92,8 @@ export const handleDownloadAll = async (state: ProjectState) => {
     const scenes = state.scenes || []; // Defensive
     const scriptContent = scenes.map(s => `[SCENE ${s.sceneNumber}] ${s.voiceOverText}`).join('\n\n');
     docsFolder?.file("script_voiceover.txt", scriptContent);
+    docsFolder?.file("subtitles.srt", buildSubtitles(scenes, state.characters || [], { format: 'srt', speakerLabels: true, language: state.scriptLanguage }));
+    docsFolder?.file("screenplay.fountain", toFountain(buildScreenplayDocument({ ...state, scenes })));
 
     // 1. SCENE MAP IMAGES
     const scenePromises = scenes.map(async (scene) => {
@@ -139,11 +169,21 @@ export const handleDownloadAll = async (state: ProjectState) => {
         }
     });
 
+    // 4. VOICEOVER - TTS clips per scene, numbered in playback order
+    const audioPromises = scenes.flatMap(scene => (getCurrentVoiceAudio(scene) || []).map(async (clip, i) => {
+        const audio = await prepareAudioForZip(clip.url);
+        if (audio) {
+            const options = typeof audio.data === 'string' ? { base64: true } : {};
+            audioFolder?.file(`${scene.sceneNumber}_${i + 1}_${clip.kind}.${audio.ext}`, audio.data, options);
+            fileCount++;
+        }
+    }));
+
     // Wait for all fetches
-    await Promise.all([...scenePromises, ...charPromises, ...prodPromises]);
+    await Promise.all([...scenePromises, ...charPromises, ...prodPromises, ...audioPromises]);
 
     if (fileCount === 0) {
-        alert("Không tìm thấy ảnh nào (Scenes/Characters/Products) để tải xuống.");
+        alert("Không tìm thấy ảnh hoặc audio nào (Scenes/Characters/Products) để tải xuống.");
         return;
     }
 
@@ -189,109 +229,84 @@ export const saveProjectPackage = async (state: ProjectState) => {
         const zip = new JSZip();
         const assetsFolder = zip.folder("assets"); // Folder for images
 
-        // Manual Clone to avoid JSON.stringify limit (V8 string limit) and ensure safety
-        // We only deep-clone the arrays containing images we modify
-        // DEFENSIVE CODING: Use (array || []) to prevent crashes on legacy projects missing fields
-        const safeCharacters = (state.characters || []).map(c => ({
-            ...c,
-            props: Array.isArray(c.props) ? c.props.map(p => ({ ...p })) : []
-        }));
-
-        const safeProducts = (state.products || []).map(p => ({
-            ...p,
-            masterImage: p.masterImage,
-            views: p.views ? { ...p.views } : undefined
-        }));
-
-        const safeScenes = (state.scenes || []).map(s => ({ ...s }));
-
-        const safeGallery = state.assetGallery ? state.assetGallery.map(a => ({ ...a })) : undefined;
-
-        const safeState: ProjectState = {
-            ...state,
-            characters: safeCharacters,
-            products: safeProducts,
-            scenes: safeScenes,
-            assetGallery: safeGallery
-        };
-
-        let assetCount = 0;
-
-        // Helper: Save image to zip and update path in state
-        const processImageField = async (imageSource: string | null | undefined, filenameNoExt: string): Promise<string | null> => {
-            if (!imageSource) return null;
-
-            // Use our robust fetcher
-            const img = await prepareImageForZip(imageSource);
-            if (img) {
-                const filename = `${filenameNoExt}.${img.ext}`;
-                const path = `assets/${filename}`;
-
-                // Add to zip (handle base64 string or blob)
-                const options = typeof img.data === 'string' ? { base64: true } : {};
-                assetsFolder?.file(filename, img.data, options);
-                assetCount++;
-
-                return path; // Return relative path for JSON
+        // Remote media (cloud URLs, blob:, TTS audio) is embedded as data URIs so the package is self-contained
+        const fetchedMedia = new Map<string, Promise<string | null>>(); // Same URL is downloaded once
+        const embedMedia = async (source: string | null | undefined): Promise<string | null> => {
+            if (!source) return null;
+            if (source.startsWith('data:') || isAssetRef(source)) return source;
+            if (isMediaRef(source)) return loadMediaAsset(hashFromMediaRef(source));
+            if (!fetchedMedia.has(source)) {
+                fetchedMedia.set(source, fetch(source)
+                    .then(response => response.blob())
+                    .then(blobToBase64)
+                    .catch(error => {
+                        console.warn('Failed to fetch media for ZIP:', source, error);
+                        return null; // Avoid broken links
+                    }));
             }
-            return null; // Keep original if fetch fails? Or null. Let's return null to avoid broken links.
+            return fetchedMedia.get(source)!;
         };
 
-        // 1. Process Characters
-        for (const c of safeState.characters) {
-            if (c.masterImage) c.masterImage = await processImageField(c.masterImage, `char_${c.id}_master`);
-            if (c.faceImage) c.faceImage = await processImageField(c.faceImage, `char_${c.id}_face`);
-            if (c.bodyImage) c.bodyImage = await processImageField(c.bodyImage, `char_${c.id}_body`);
-            if (c.sideImage) c.sideImage = await processImageField(c.sideImage, `char_${c.id}_side`);
-            if (c.backImage) c.backImage = await processImageField(c.backImage, `char_${c.id}_back`);
-
-            // Handle Props
-            if (c.props) {
-                for (let i = 0; i < c.props.length; i++) {
-                    if (c.props[i].image) {
-                        c.props[i].image = await processImageField(c.props[i].image, `char_${c.id}_prop_${i}`);
-                    }
-                }
-            }
-        }
-
-        // 2. Process Products
-        for (const p of safeState.products) {
-            if (p.masterImage) p.masterImage = await processImageField(p.masterImage, `prod_${p.id}_master`);
-            if (p.views) {
-                if (p.views.front) p.views.front = await processImageField(p.views.front, `prod_${p.id}_front`);
-                if (p.views.back) p.views.back = await processImageField(p.views.back, `prod_${p.id}_back`);
-                if (p.views.left) p.views.left = await processImageField(p.views.left, `prod_${p.id}_left`);
-                if (p.views.right) p.views.right = await processImageField(p.views.right, `prod_${p.id}_right`);
-                if (p.views.top) p.views.top = await processImageField(p.views.top, `prod_${p.id}_top`);
-            }
-        }
-
-        // 3. Process Scenes
-        for (const s of safeState.scenes) {
-            if (s.generatedImage) s.generatedImage = await processImageField(s.generatedImage, `scene_${s.sceneNumber}_gen`);
-            if (s.referenceImage) s.referenceImage = await processImageField(s.referenceImage, `scene_${s.sceneNumber}_ref`);
-            if (s.endFrameImage) s.endFrameImage = await processImageField(s.endFrameImage, `scene_${s.sceneNumber}_end`);
-        }
-
-        // 4. Process Gallery
-        if (safeState.assetGallery) {
-            for (const a of safeState.assetGallery) {
-                if (a.image) a.image = await processImageField(a.image, `gallery_${a.id}`);
-            }
-        }
+        // DEFENSIVE CODING: Use (array || []) to prevent crashes on legacy projects missing fields
+        const embeddedState: ProjectState = {
+            ...withSchemaVersion(state),
+            characters: await Promise.all((state.characters || []).map(async c => ({
+                ...c,
+                masterImage: await embedMedia(c.masterImage),
+                faceImage: await embedMedia(c.faceImage),
+                bodyImage: await embedMedia(c.bodyImage),
+                sideImage: await embedMedia(c.sideImage),
+                backImage: await embedMedia(c.backImage)
+            }))),
+            products: await Promise.all((state.products || []).map(async p => ({
+                ...p,
+                masterImage: await embedMedia(p.masterImage),
+                views: p.views ? {
+                    front: await embedMedia(p.views.front),
+                    back: await embedMedia(p.views.back),
+                    left: await embedMedia(p.views.left),
+                    right: await embedMedia(p.views.right),
+                    top: await embedMedia(p.views.top)
+                } : undefined
+            }))),
+            scenes: await Promise.all((state.scenes || []).map(async s => ({
+                ...s,
+                generatedImage: await embedMedia(s.generatedImage),
+                referenceImage: await embedMedia(s.referenceImage),
+                endFrameImage: await embedMedia(s.endFrameImage),
+                chainedStartFrame: await embedMedia(s.chainedStartFrame),
+                voiceAudio: s.voiceAudio
+                    ? await Promise.all(s.voiceAudio.map(async clip => ({ ...clip, url: (await embedMedia(clip.url)) || clip.url })))
+                    : undefined
+            }))),
+            assetGallery: state.assetGallery
+                ? await Promise.all(state.assetGallery.map(async a => ({ ...a, image: await embedMedia(a.image) })))
+                : undefined,
+            customStyleImage: await embedMedia(state.customStyleImage),
+            musicTrack: state.musicTrack
+                ? { ...state.musicTrack, url: (await embedMedia(state.musicTrack.url)) || state.musicTrack.url }
+                : undefined
+        };
 
-        // 5. Custom Style Image
-        if (safeState.customStyleImage) {
-            safeState.customStyleImage = await processImageField(safeState.customStyleImage, `style_custom_ref`);
+        // Every distinct image is written once as assets/<hash>.<ext>; fields reference it by hash
+        const { assets: _previous, ...withoutAssets } = embeddedState;
+        const { value: packedState, bundle } = await dehydrateAssets(withoutAssets as ProjectState);
+        const assets: Record<string, StoredAsset> = {};
+        for (const { data, ...entry } of Object.values(bundle)) {
+            const filename = `${entry.hash}.${getMimeExtension(entry.mimeType)}`;
+            assetsFolder?.file(filename, data.split(',')[1], { base64: true });
+            assets[entry.hash] = { ...entry, path: `assets/${filename}` };
         }
+        const safeState: ProjectState = { ...packedState, assets };
+        const assetCount = Object.keys(assets).length;
+        const referenceCount = Object.values(assets).reduce((sum, a) => sum + a.refCount, 0);
 
-        console.log(`[Save Package] Processed ${assetCount} images.`);
+        console.log(`[Save Package] Stored ${assetCount} unique images for ${referenceCount} references.`);
 
-        // 6. Save JSON
+        // Save JSON
         zip.file("project.json", JSON.stringify(safeState, null, 2));
 
-        // 7. Save Read-only Script
+        // Save Read-only Script
         // Defensive access for script content as well
         const scriptContent = (state.scenes || []).map(s => `[SCENE ${s.sceneNumber}] ${s.voiceOverText || ''}`).join('\n\n');
         zip.file("script_voiceover.txt", scriptContent);
@@ -317,7 +332,7 @@ export const saveProjectPackage = async (state: ProjectState) => {
     }
 };
 
-export const loadProjectPackage = async (file: File): Promise<ProjectState> => {
+export const loadProjectPackage = async (file: File): Promise<{ state: ProjectState; report: MigrationReport }> => {
     if (!JSZip) throw new Error("JSZip not loaded");
 
     const zip = await new JSZip().loadAsync(file);
@@ -327,8 +342,22 @@ export const loadProjectPackage = async (file: File): Promise<ProjectState> => {
     if (!jsonFile) throw new Error("Invalid Project Package: Missing project.json");
 
     const jsonStr = await jsonFile.async("string");
-    const state = JSON.parse(jsonStr) as ProjectState;
+    // Upgrade older schema versions before touching assets (throws on newer versions)
+    const { state, report } = migrateProject(JSON.parse(jsonStr));
+
+    // v3 packages: content-addressed assets, resolved in one pass
+    if (state.assets) {
+        const dataByHash: Record<string, string> = {};
+        for (const asset of Object.values(state.assets)) {
+            const imgFile = asset.path ? zip.file(asset.path) : null;
+            if (imgFile) dataByHash[asset.hash] = await blobToBase64(await imgFile.async("blob"));
+            else if (asset.data) dataByHash[asset.hash] = asset.data;
+        }
+        const { assets: _assets, ...rest } = state;
+        return { state: hydrateAssets(rest as ProjectState, hash => dataByHash[hash]), report };
+    }
 
+    // Older packages: one file per image field
     // Helper: Restore image from zip path
     const restoreImage = async (path: string | null | undefined): Promise<string | null> => {
         if (!path || !path.startsWith('assets/')) return path || null;
@@ -349,12 +378,6 @@ export const loadProjectPackage = async (file: File): Promise<ProjectState> => {
             c.bodyImage = await restoreImage(c.bodyImage);
             c.sideImage = await restoreImage(c.sideImage);
             c.backImage = await restoreImage(c.backImage);
-
-            if (c.props) {
-                for (const p of c.props) {
-                    p.image = await restoreImage(p.image);
-                }
-            }
         }
     }
 
@@ -378,6 +401,7 @@ export const loadProjectPackage = async (file: File): Promise<ProjectState> => {
             s.generatedImage = await restoreImage(s.generatedImage);
             s.referenceImage = await restoreImage(s.referenceImage);
             s.endFrameImage = await restoreImage(s.endFrameImage);
+            s.chainedStartFrame = await restoreImage(s.chainedStartFrame);
         }
     }
 
@@ -391,5 +415,5 @@ export const loadProjectPackage = async (file: File): Promise<ProjectState> => {
     // 6. Custom Style Image
     state.customStyleImage = await restoreImage(state.customStyleImage);
 
-    return state;
+    return { state, report };
 };